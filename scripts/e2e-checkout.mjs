@@ -0,0 +1,103 @@
+/**
+ * End-to-end checkout check against a running app and the fake Paystack:
+ * subscribe → pay on the fake checkout → charge.success webhook → payment
+ * status and membership, then a declined card.
+ *
+ *   npm run fake-paystack            (in one terminal)
+ *   npm run dev                      (in another, pointed at the fake)
+ *   npm run e2e
+ *
+ * The app needs PAYSTACK_API_BASE=http://localhost:4010,
+ * PAYSTACK_SECRET_KEY=sk_test_fake and LINK_SIGNING_SECRET. Every run uses
+ * fresh email addresses, so it can be repeated against the same data.
+ *
+ * Env vars:
+ *   APP_BASE_URL   default http://localhost:3000
+ */
+
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+/** Submissions sooner than this after the form token are refused as automated */
+const FORM_FILL_MS = 3500;
+
+function fail(message, detail) {
+  console.error(`✗ ${message}`);
+  if (detail !== undefined) console.error(`  ${JSON.stringify(detail)}`);
+  process.exit(1);
+}
+
+function pass(message) {
+  console.log(`✓ ${message}`);
+}
+
+async function request(path, init) {
+  const response = await fetch(`${APP_BASE_URL}${path}`, init);
+  const body = await response.json().catch(() => ({}));
+  return { status: response.status, body };
+}
+
+async function formToken() {
+  const { status, body } = await request('/api/form-token?form=subscribe');
+  if (status !== 200 || !body.token) fail('Could not get a form token', body);
+  return body.token;
+}
+
+async function subscribe(email, token) {
+  return request('/api/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      name: 'E2E Member',
+      email,
+      phone: '082 123 4567',
+      planId: 'monthly',
+      formToken: token,
+      website: '',
+    }),
+  });
+}
+
+/** Presses a button on the fake hosted checkout; it sends the webhook before redirecting. */
+async function completeCheckout(redirectUrl, action) {
+  const response = await fetch(`${redirectUrl}/${action}`, { method: 'POST', redirect: 'manual' });
+  if (response.status !== 302) fail(`Fake checkout ${action} returned ${response.status}`);
+}
+
+async function paymentStatus(ref) {
+  const { status, body } = await request(`/api/payment/status?ref=${encodeURIComponent(ref)}`);
+  if (status !== 200) fail(`Payment status returned ${status}`, body);
+  return body;
+}
+
+const run = Date.now();
+const paidEmail = `e2e-paid-${run}@example.com`;
+const declinedEmail = `e2e-declined-${run}@example.com`;
+
+// One token covers every submission; it only has to be old enough.
+const token = await formToken();
+await new Promise((resolve) => setTimeout(resolve, FORM_FILL_MS));
+
+const checkout = await subscribe(paidEmail, token);
+if (checkout.status !== 200 || !checkout.body.redirectUrl) {
+  fail(`Subscribe returned ${checkout.status}`, checkout.body);
+}
+pass(`Checkout started for ${paidEmail} (${checkout.body.ref})`);
+
+await completeCheckout(checkout.body.redirectUrl, 'pay');
+const paid = await paymentStatus(checkout.body.ref);
+if (paid.status !== 'paid') fail('Payment is not recorded as paid', paid);
+pass(`Payment ${paid.reference} recorded as paid (${paid.amountCents} ${paid.currency})`);
+
+const again = await subscribe(paidEmail, token);
+if (again.status !== 409 || again.body.code !== 'already_member') {
+  fail('The webhook did not activate the membership', again.body);
+}
+pass('Membership active; a second checkout is refused');
+
+const declined = await subscribe(declinedEmail, token);
+if (declined.status !== 200) fail(`Subscribe returned ${declined.status}`, declined.body);
+await completeCheckout(declined.body.redirectUrl, 'decline');
+const failed = await paymentStatus(declined.body.ref);
+if (failed.status !== 'failed') fail('Declined payment is not recorded as failed', failed);
+pass(`Declined payment ${failed.reference} recorded as failed`);
+
+console.log('\nEnd-to-end checkout passed');
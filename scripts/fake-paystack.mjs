@@ -0,0 +1,381 @@
+/**
+ * Local stand-in for the Paystack API, for development and automated tests
+ * without network access.
+ *
+ *   npm run fake-paystack
+ *
+ * Then run the app with:
+ *   PAYSTACK_API_BASE=http://localhost:4010
+ *   PAYSTACK_SECRET_KEY=sk_test_fake   (must match the value below)
+ *
+ * Implements:
+ *   POST /transaction/initialize     → hosted checkout URL on this server
+ *   GET  /transaction/verify/:ref    → current state of the transaction
+ *   GET  /transaction                → paginated listing (from, to, perPage, page)
+ *   GET  /checkout/:ref              → fake hosted checkout page
+ *   POST /checkout/:ref/pay          → marks paid, sends charge.success, redirects
+ *   POST /checkout/:ref/decline      → marks failed, sends charge.failed, redirects
+ *   POST /subscription               → sends subscription.create (discounted first payments)
+ *   POST /subscription/disable       → sends subscription.disable
+ *   POST /refund                     → sends refund.processed
+ *
+ * Webhooks are signed with HMAC-SHA512 over the raw body using the secret
+ * key, exactly like Paystack, and posted to /api/webhook/paystack.
+ *
+ * Env vars (all optional):
+ *   FAKE_PAYSTACK_PORT    default 4010
+ *   PAYSTACK_SECRET_KEY   default sk_test_fake
+ *   APP_BASE_URL          default http://localhost:3000 (webhook target)
+ *   FAKE_PAYSTACK_DROP_WEBHOOKS  comma-separated events to never deliver,
+ *                         e.g. charge.success to exercise reconciliation
+ */
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+const PORT = Number(process.env.FAKE_PAYSTACK_PORT || 4010);
+const SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || 'sk_test_fake';
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const WEBHOOK_URL = `${APP_BASE_URL}/api/webhook/paystack`;
+const SELF_URL = `http://localhost:${PORT}`;
+const DROPPED_WEBHOOKS = new Set(
+  (process.env.FAKE_PAYSTACK_DROP_WEBHOOKS || '').split(',').map((e) => e.trim()).filter(Boolean),
+);
+
+/** reference → transaction */
+const transactions = new Map();
+/** subscription_code → subscription */
+const subscriptions = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendHtml(res, status, html) {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+function redirect(res, location) {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readJson(req) {
+  const raw = await readBody(req);
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return undefined;
+  }
+}
+
+function isAuthorized(req) {
+  return req.headers.authorization === `Bearer ${SECRET_KEY}`;
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function customerFor(tx) {
+  const [firstName, ...rest] = String(tx.metadata?.name ?? '').split(' ');
+  return {
+    email: tx.email,
+    first_name: firstName || null,
+    last_name: rest.join(' ') || null,
+    customer_code: `CUS_${crypto.createHash('sha1').update(tx.email).digest('hex').slice(0, 12)}`,
+  };
+}
+
+async function sendWebhook(event, data) {
+  if (DROPPED_WEBHOOKS.has(event)) {
+    console.log(`[fake-paystack] webhook ${event} dropped`);
+    return;
+  }
+  const body = JSON.stringify({ event, data });
+  const signature = crypto.createHmac('sha512', SECRET_KEY).update(body).digest('hex');
+
+  try {
+    const res = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+      body,
+    });
+    console.log(`[fake-paystack] webhook ${event} → ${res.status}`);
+  } catch (err) {
+    console.error(`[fake-paystack] webhook ${event} failed:`, err.message);
+  }
+}
+
+function transactionData(tx) {
+  return {
+    id: tx.id,
+    status: tx.status,
+    reference: tx.reference,
+    amount: tx.amount,
+    currency: tx.currency,
+    paid_at: tx.paidAt ?? null,
+    created_at: tx.createdAt,
+    gateway_response: tx.gatewayResponse,
+    metadata: tx.metadata,
+    customer: customerFor(tx),
+    authorization:
+      tx.status === 'success'
+        ? { authorization_code: `AUTH_${tx.reference}`, reusable: true }
+        : null,
+    plan: tx.plan ?? null,
+  };
+}
+
+function createSubscription(tx, planCode, nextPaymentDate) {
+  const subscription = {
+    subscription_code: `SUB_${crypto.randomBytes(6).toString('hex')}`,
+    email_token: crypto.randomBytes(8).toString('hex'),
+    status: 'active',
+    amount: tx.amount,
+    next_payment_date: nextPaymentDate,
+    plan: { plan_code: planCode, name: planCode },
+    customer: customerFor(tx),
+  };
+  subscriptions.set(subscription.subscription_code, subscription);
+  return subscription;
+}
+
+function withQuery(url, params) {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(params)) target.searchParams.set(key, value);
+  return target.toString();
+}
+
+function checkoutPage(tx) {
+  const amount = `${tx.currency} ${(tx.amount / 100).toFixed(2)}`;
+  return `<!doctype html>
+<html>
+  <head><title>Fake Paystack Checkout</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 480px; margin: 48px auto;">
+    <h1>Fake Paystack Checkout</h1>
+    <p>This page stands in for Paystack's hosted checkout.</p>
+    <p><strong>Email:</strong> ${escapeHtml(tx.email)}</p>
+    <p><strong>Amount:</strong> ${escapeHtml(amount)}</p>
+    <p><strong>Reference:</strong> ${escapeHtml(tx.reference)}</p>
+    ${tx.plan ? `<p><strong>Plan:</strong> ${escapeHtml(tx.plan)}</p>` : ''}
+    <form method="post" action="/checkout/${encodeURIComponent(tx.reference)}/pay" style="display:inline">
+      <button type="submit">Pay</button>
+    </form>
+    <form method="post" action="/checkout/${encodeURIComponent(tx.reference)}/decline" style="display:inline">
+      <button type="submit">Decline</button>
+    </form>
+  </body>
+</html>`;
+}
+
+async function completeCheckout(res, tx, outcome) {
+  if (tx.status === 'pending') {
+    if (outcome === 'success') {
+      tx.status = 'success';
+      tx.paidAt = new Date().toISOString();
+      tx.gatewayResponse = 'Approved';
+    } else {
+      tx.status = 'failed';
+      tx.gatewayResponse = 'Declined by test card';
+    }
+
+    await sendWebhook(outcome === 'success' ? 'charge.success' : 'charge.failed', transactionData(tx));
+
+    if (outcome === 'success' && tx.plan) {
+      const subscription = createSubscription(
+        tx,
+        tx.plan,
+        new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      );
+      await sendWebhook('subscription.create', subscription);
+    }
+  }
+
+  redirect(res, withQuery(tx.callbackUrl, { trxref: tx.reference, reference: tx.reference }));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', SELF_URL);
+  const path = url.pathname;
+
+  try {
+    // ── Hosted checkout (no auth, opened in the member's browser) ──────────
+    let match = path.match(/^\/checkout\/([^/]+)(?:\/(pay|decline))?$/);
+    if (match) {
+      const tx = transactions.get(decodeURIComponent(match[1]));
+      if (!tx) return sendHtml(res, 404, '<h1>Unknown transaction</h1>');
+      if (req.method === 'GET' && !match[2]) return sendHtml(res, 200, checkoutPage(tx));
+      if (req.method === 'POST' && match[2]) {
+        return completeCheckout(res, tx, match[2] === 'pay' ? 'success' : 'failed');
+      }
+      return sendJson(res, 405, { status: false, message: 'Method not allowed' });
+    }
+
+    if (!isAuthorized(req)) {
+      return sendJson(res, 401, { status: false, message: 'Invalid key' });
+    }
+
+    // ── API ─────────────────────────────────────────────────────────────────
+    if (req.method === 'POST' && path === '/transaction/initialize') {
+      const body = await readJson(req);
+      if (!body?.email || !body.amount) {
+        return sendJson(res, 400, { status: false, message: 'Email and amount are required' });
+      }
+
+      const reference = body.reference || `T${crypto.randomBytes(6).toString('hex')}`;
+      if (transactions.has(reference)) {
+        return sendJson(res, 400, { status: false, message: 'Duplicate Transaction Reference' });
+      }
+
+      transactions.set(reference, {
+        id: transactions.size + 1,
+        reference,
+        email: body.email,
+        amount: Number(body.amount),
+        currency: body.currency || 'ZAR',
+        callbackUrl: body.callback_url || `${APP_BASE_URL}/payment-success`,
+        metadata: body.metadata ?? {},
+        plan: body.plan,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      });
+
+      return sendJson(res, 200, {
+        status: true,
+        message: 'Authorization URL created',
+        data: {
+          authorization_url: `${SELF_URL}/checkout/${encodeURIComponent(reference)}`,
+          access_code: crypto.randomBytes(8).toString('hex'),
+          reference,
+        },
+      });
+    }
+
+    match = path.match(/^\/transaction\/verify\/([^/]+)$/);
+    if (req.method === 'GET' && match) {
+      const tx = transactions.get(decodeURIComponent(match[1]));
+      if (!tx) {
+        return sendJson(res, 400, { status: false, message: 'Transaction reference not found' });
+      }
+      // Paystack reports unpaid checkouts as abandoned.
+      const data = transactionData(tx);
+      if (tx.status === 'pending') data.status = 'abandoned';
+      return sendJson(res, 200, { status: true, message: 'Verification successful', data });
+    }
+
+    if (req.method === 'GET' && path === '/transaction') {
+      const from = url.searchParams.get('from') ? new Date(url.searchParams.get('from')) : undefined;
+      const to = url.searchParams.get('to') ? new Date(url.searchParams.get('to')) : undefined;
+      const perPage = Number(url.searchParams.get('perPage') || 50);
+      const page = Number(url.searchParams.get('page') || 1);
+
+      const matching = [...transactions.values()]
+        .filter((tx) => (!from || new Date(tx.createdAt) >= from) && (!to || new Date(tx.createdAt) <= to))
+        .reverse()
+        .map((tx) => {
+          const data = transactionData(tx);
+          if (tx.status === 'pending') data.status = 'abandoned';
+          return data;
+        });
+
+      return sendJson(res, 200, {
+        status: true,
+        message: 'Transactions retrieved',
+        data: matching.slice((page - 1) * perPage, page * perPage),
+        meta: {
+          total: matching.length,
+          perPage,
+          page,
+          pageCount: Math.max(1, Math.ceil(matching.length / perPage)),
+        },
+      });
+    }
+
+    if (req.method === 'POST' && path === '/subscription') {
+      const body = await readJson(req);
+      // The customer is identified by code or email; any paid transaction of theirs will do.
+      const tx = [...transactions.values()].find(
+        (t) =>
+          t.status === 'success' &&
+          (t.email === body?.customer || customerFor(t).customer_code === body?.customer),
+      );
+      if (!tx || !body?.plan) {
+        return sendJson(res, 400, { status: false, message: 'Customer or plan not found' });
+      }
+      const subscription = createSubscription(
+        tx,
+        body.plan,
+        body.start_date || new Date().toISOString(),
+      );
+      sendJson(res, 200, {
+        status: true,
+        message: 'Subscription successfully created',
+        data: { subscription_code: subscription.subscription_code, status: subscription.status },
+      });
+      await sendWebhook('subscription.create', subscription);
+      return;
+    }
+
+    if (req.method === 'POST' && path === '/subscription/disable') {
+      const body = await readJson(req);
+      const subscription = subscriptions.get(body?.code);
+      if (!subscription || subscription.email_token !== body?.token) {
+        return sendJson(res, 400, { status: false, message: 'Subscription not found' });
+      }
+      subscription.status = 'cancelled';
+      sendJson(res, 200, { status: true, message: 'Subscription disabled successfully' });
+      await sendWebhook('subscription.disable', subscription);
+      return;
+    }
+
+    if (req.method === 'POST' && path === '/refund') {
+      const body = await readJson(req);
+      const tx = transactions.get(body?.transaction);
+      if (!tx || tx.status !== 'success') {
+        return sendJson(res, 400, { status: false, message: 'Transaction not found or not refundable' });
+      }
+      const amount = Number(body.amount ?? tx.amount);
+      const refundId = crypto.randomInt(100000, 999999);
+      sendJson(res, 200, {
+        status: true,
+        message: 'Refund has been queued for processing',
+        data: { id: refundId, amount, currency: tx.currency, status: 'pending' },
+      });
+      if (amount >= tx.amount) tx.status = 'reversed';
+      // Real refunds settle later; give the app time to store the pending refund.
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await sendWebhook('refund.processed', {
+        id: refundId,
+        status: 'processed',
+        transaction_reference: tx.reference,
+        refund_reference: null,
+        amount,
+        currency: tx.currency,
+        customer: customerFor(tx),
+      });
+      return;
+    }
+
+    return sendJson(res, 404, { status: false, message: `No route for ${req.method} ${path}` });
+  } catch (err) {
+    console.error('[fake-paystack] error:', err);
+    if (!res.headersSent) sendJson(res, 500, { status: false, message: 'Fake Paystack error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[fake-paystack] listening on ${SELF_URL}, webhooks → ${WEBHOOK_URL}`);
+});
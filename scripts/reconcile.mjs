@@ -0,0 +1,71 @@
+/**
+ * Runs a payment reconciliation against a running app and prints the report.
+ *
+ *   npm run reconcile -- [--from 2026-03-01] [--to 2026-03-08] [--notify]
+ *
+ * Without dates the app reconciles the last 48 hours. --notify also emails
+ * the report to ADMIN_EMAIL when there are discrepancies.
+ *
+ * Env vars:
+ *   ADMIN_API_TOKEN   required, same value as the app
+ *   APP_BASE_URL      default http://localhost:3000
+ */
+
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
+
+function parseArgs(argv) {
+  const args = { notify: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--notify') args.notify = true;
+    else if (arg === '--from' || arg === '--to') args[arg.slice(2)] = argv[++i];
+    else {
+      console.error(`Unknown argument: ${arg}`);
+      process.exit(2);
+    }
+  }
+  return args;
+}
+
+function printSection(title, rows) {
+  console.log(`\n${title}: ${rows.length}`);
+  for (const row of rows) console.log(`  ${JSON.stringify(row)}`);
+}
+
+if (!ADMIN_API_TOKEN) {
+  console.error('ADMIN_API_TOKEN is not set');
+  process.exit(2);
+}
+
+const args = parseArgs(process.argv.slice(2));
+const response = await fetch(`${APP_BASE_URL}/api/admin/reconciliation`, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${ADMIN_API_TOKEN}`,
+  },
+  body: JSON.stringify(args),
+});
+
+const data = await response.json().catch(() => ({}));
+if (!response.ok) {
+  console.error(`Reconciliation failed (${response.status}): ${data.error ?? 'unknown error'}`);
+  process.exit(1);
+}
+
+const { report } = data;
+console.log(`Reconciled ${report.from} → ${report.to}`);
+console.log(
+  `Checked ${report.transactionsChecked} Paystack transactions and ${report.recordsChecked} checkouts`,
+);
+printSection('Statuses corrected', report.corrected);
+printSection('Missed payment confirmations processed', report.successProcessed);
+printSection('Subscription renewals (not discrepancies)', report.renewals ?? []);
+printSection('Paid with no checkout record', report.paidWithoutRecord);
+printSection('Stuck in pending', report.stuckPending);
+printSection('Amount mismatches', report.amountMismatches);
+
+const discrepancies =
+  report.paidWithoutRecord.length + report.stuckPending.length + report.amountMismatches.length;
+process.exit(discrepancies > 0 ? 1 : 0);
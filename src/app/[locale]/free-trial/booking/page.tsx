@@ -0,0 +1,226 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import TrialSlotPicker, { useTrialSlots } from '@/components/TrialSlotPicker';
+import { useI18n } from '@/components/LocaleProvider';
+import { formatSlot } from '@/lib/free-trials/slot-format';
+
+interface Booking {
+  name: string;
+  status: 'booked' | 'cancelled';
+  slotStart: string;
+  slotEnd: string;
+}
+
+type PageState = 'loading' | 'ready' | 'saving' | 'rescheduled' | 'cancelled' | 'invalid';
+
+function ManageBookingContent() {
+  const { locale, t, format, href } = useI18n();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<PageState>(token ? 'loading' : 'invalid');
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [slotStart, setSlotStart] = useState('');
+  const [error, setError] = useState('');
+  const { slots, reload: reloadSlots } = useTrialSlots();
+
+  useEffect(() => {
+    if (!token) return;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/free-trial/booking?token=${encodeURIComponent(token)}`);
+        if (!response.ok) throw new Error();
+        setBooking((await response.json()) as Booking);
+        setState('ready');
+      } catch {
+        setState('invalid');
+      }
+    };
+    void load();
+  }, [token]);
+
+  const handleReschedule = async () => {
+    if (!slotStart) {
+      setError(t.freeTrial.slotRequired);
+      return;
+    }
+
+    setState('saving');
+    setError('');
+    try {
+      const response = await fetch('/api/free-trial/booking/reschedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, slotStart }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        slotStart?: string;
+        slotEnd?: string;
+      };
+      if (!response.ok || !data.slotStart || !data.slotEnd) {
+        if (response.status === 409) void reloadSlots();
+        throw new Error(data.error ?? t.form.genericError);
+      }
+      setBooking((prev) => prev && { ...prev, slotStart: data.slotStart!, slotEnd: data.slotEnd! });
+      setState('rescheduled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setState('ready');
+    }
+  };
+
+  const handleCancel = async () => {
+    setState('saving');
+    setError('');
+    try {
+      const response = await fetch('/api/free-trial/booking/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error ?? t.form.genericError);
+      }
+      setBooking((prev) => prev && { ...prev, status: 'cancelled' });
+      setState('cancelled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setState('ready');
+    }
+  };
+
+  const started = booking ? new Date(booking.slotStart) <= new Date() : false;
+  const changeable = booking?.status === 'booked' && !started;
+  const otherSlots = (slots ?? []).filter((slot) => slot.start !== booking?.slotStart);
+
+  return (
+    <section className="min-h-screen bg-neutral-50 py-20">
+      <div className="max-w-2xl mx-auto px-6">
+        <div className="mb-12 text-center">
+          <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">{t.trialBooking.title}</h1>
+          {booking?.status === 'booked' && (
+            <p className="text-lg text-warmgray-700">
+              {format(t.trialBooking.bookedFor, { date: formatSlot(booking.slotStart, locale) })}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8 md:p-12 border border-warmgray-200 space-y-6">
+          {state === 'loading' && (
+            <p className="text-center text-warmgray-700">{t.trialBooking.loading}</p>
+          )}
+
+          {state === 'invalid' && (
+            <p className="text-center text-warmgray-700">{t.trialBooking.invalidLink}</p>
+          )}
+
+          {state === 'rescheduled' && booking && (
+            <p className="text-center text-warmgray-700">
+              {format(t.trialBooking.rescheduled, { date: formatSlot(booking.slotStart, locale) })}
+            </p>
+          )}
+
+          {state === 'cancelled' && (
+            <div className="text-center space-y-6">
+              <p className="text-warmgray-700">{t.trialBooking.cancelled}</p>
+              <Link
+                href={href('/free-trial')}
+                className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+              >
+                {t.trialBooking.bookAgain}
+              </Link>
+            </div>
+          )}
+
+          {state === 'ready' && booking?.status === 'cancelled' && (
+            <p className="text-center text-warmgray-700">{t.trialBooking.cancelledNote}</p>
+          )}
+
+          {state === 'ready' && booking?.status === 'booked' && started && (
+            <p className="text-center text-warmgray-700">{t.trialBooking.startedNote}</p>
+          )}
+
+          {(state === 'ready' || state === 'saving') && changeable && (
+            <>
+              <div>
+                <h2 className="text-xl font-bold text-plum-900 mb-1">{t.trialBooking.rescheduleTitle}</h2>
+                {slots === null && <p className="text-sm text-warmgray-600">{t.freeTrial.slotsLoading}</p>}
+                {slots !== null && otherSlots.length === 0 && (
+                  <p className="text-sm text-warmgray-600">{t.freeTrial.noSlots}</p>
+                )}
+                {otherSlots.length > 0 && (
+                  <>
+                    <p className="text-xs text-warmgray-600 mb-3">{t.freeTrial.slotsHint}</p>
+                    <TrialSlotPicker
+                      slots={otherSlots}
+                      value={slotStart}
+                      onChange={(start) => {
+                        setSlotStart(start);
+                        setError('');
+                      }}
+                    />
+                  </>
+                )}
+              </div>
+
+              {error && (
+                <div className="bg-rose-100 border border-rose-300 text-plum-900 px-4 py-3 rounded text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-4 pt-2">
+                <button
+                  onClick={handleCancel}
+                  disabled={state === 'saving'}
+                  className="flex-1 px-6 py-3 border border-warmgray-300 text-neutral-900 font-semibold rounded hover:bg-warmgray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t.trialBooking.cancel}
+                </button>
+                <button
+                  onClick={handleReschedule}
+                  disabled={state === 'saving' || otherSlots.length === 0}
+                  className="flex-1 px-6 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {state === 'saving' ? t.trialBooking.saving : t.trialBooking.reschedule}
+                </button>
+              </div>
+            </>
+          )}
+
+          <div className="text-center text-sm">
+            <Link href={href('/')} className="text-warmgray-600 hover:text-plum-800 transition-colors">
+              {t.form.backHome}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default function ManageTrialBookingPage() {
+  return (
+    <>
+      <Navigation />
+      <main className="flex-grow">
+        <Suspense
+          fallback={
+            <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+              <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
+            </div>
+          }
+        >
+          <ManageBookingContent />
+        </Suspense>
+      </main>
+      <Footer />
+    </>
+  );
+}
@@ -1,47 +1,75 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
+import { FormEvent, Suspense, useState } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
+import FieldError from '@/components/FieldError';
+import HoneypotField, { useFormToken } from '@/components/FormProtection';
+import ReferralCodeField from '@/components/ReferralCodeField';
+import TrialSlotPicker, { useTrialSlots } from '@/components/TrialSlotPicker';
+import { useI18n } from '@/components/LocaleProvider';
+import { CONTACT_SCHEMA, validateContactDetails, type ContactFieldErrors } from '@/lib/validation';
+import { formatSlot } from '@/lib/free-trials/slot-format';
 
 interface FormData {
   fullName: string;
   email: string;
   phone: string;
   bodyGoals: string;
-  referralName: string;
+  referralCode: string;
+  slotStart: string;
 }
 
-export default function FreeTrialPage() {
+function FreeTrialContent() {
+  const { locale, t, format, href } = useI18n();
+  const searchParams = useSearchParams();
   const [step, setStep] = useState<'form' | 'review' | 'submitted'>('form');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [honeypot, setHoneypot] = useState('');
+  const { token: formToken, refresh: refreshFormToken } = useFormToken('free-trial');
   const [formData, setFormData] = useState<FormData>({
     fullName: '',
     email: '',
     phone: '',
     bodyGoals: '',
-    referralName: '',
+    referralCode: searchParams.get('referral')?.toUpperCase() ?? '',
+    slotStart: '',
   });
+  const [referrerName, setReferrerName] = useState<string | null>(null);
+  const { slots, reload: reloadSlots } = useTrialSlots();
+  const [bookedSlot, setBookedSlot] = useState<string | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
+    const field = name === 'fullName' ? 'name' : name;
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
     setError('');
   };
 
   const validateForm = (): boolean => {
-    if (!formData.fullName.trim()) {
-      setError('Please enter your full name');
-      return false;
-    }
-    if (!formData.email.trim() || !formData.email.includes('@')) {
-      setError('Please enter a valid email address');
+    const result = validateContactDetails({
+      name: formData.fullName,
+      email: formData.email,
+      phone: formData.phone,
+      bodyGoals: formData.bodyGoals,
+      referralCode: formData.referralCode,
+    });
+    if (!result.success) {
+      setFieldErrors(result.errors);
       return false;
     }
-    if (!formData.phone.trim()) {
-      setError('Please enter your phone number');
+    setFieldErrors({});
+    // Show the number the way we'll store it, so the review step confirms it.
+    setFormData((prev) => ({ ...prev, phone: result.data.phone }));
+
+    // Without bookable sessions the request goes through and we arrange a time.
+    if ((slots === null || slots.length > 0) && !formData.slotStart) {
+      setError(t.freeTrial.slotRequired);
       return false;
     }
     return true;
@@ -65,18 +93,48 @@ export default function FreeTrialPage() {
           email: formData.email,
           phone: formData.phone,
           bodyGoals: formData.bodyGoals || undefined,
-          referralName: formData.referralName || undefined,
+          referralCode: formData.referralCode || undefined,
+          slotStart: formData.slotStart || undefined,
+          locale,
+          formToken,
+          website: honeypot,
         }),
       });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        code?: string;
+        fieldErrors?: ContactFieldErrors;
+        slotStart?: string | null;
+      };
+
+      if (response.status === 429) {
+        throw new Error(t.form.tooManyRequests);
+      }
+      if (data.code === 'form_rejected') {
+        void refreshFormToken();
+        throw new Error(t.form.formExpired);
+      }
 
+      if (data.fieldErrors) {
+        setFieldErrors(data.fieldErrors);
+        setStep('form');
+        return;
+      }
+
+      if (response.status === 409) {
+        // Someone took the last place first; let the visitor pick again.
+        setFormData((prev) => ({ ...prev, slotStart: '' }));
+        void reloadSlots();
+        setStep('form');
+      }
       if (!response.ok) {
-        const data = (await response.json().catch(() => ({}))) as { error?: string };
-        throw new Error(data.error ?? 'Something went wrong. Please try again.');
+        throw new Error(data.error ?? t.freeTrial.submitError);
       }
 
+      setBookedSlot(data.slotStart ?? null);
       setStep('submitted');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+      setError(err instanceof Error ? err.message : t.form.genericError);
     } finally {
       setIsLoading(false);
     }
@@ -93,10 +151,10 @@ export default function FreeTrialPage() {
             <div className="max-w-2xl mx-auto px-6">
               <div className="mb-12 text-center">
                 <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
-                  3-Day Free Trial
+                  {t.freeTrial.title}
                 </h1>
                 <p className="text-lg text-warmgray-700">
-                  Get 3 full days of access — no payment, no commitment. Fill in your details and we&apos;ll reach out to get you started.
+                  {t.freeTrial.subtitle}
                 </p>
               </div>
 
@@ -106,24 +164,28 @@ export default function FreeTrialPage() {
                     {/* Full Name */}
                     <div>
                       <label htmlFor="fullName" className="block text-sm font-semibold text-plum-900 mb-2">
-                        Full Name *
+                        {t.form.fullName}
                       </label>
                       <input
                         id="fullName"
                         name="fullName"
                         type="text"
+                        maxLength={CONTACT_SCHEMA.name.maxLength}
                         value={formData.fullName}
                         onChange={handleInputChange}
-                        placeholder="Enter your full name"
-                        className="w-full px-3 sm:px-4 py-2 sm:py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent text-sm sm:text-base"
+                        aria-invalid={Boolean(fieldErrors.name)}
+                        aria-describedby={fieldErrors.name ? 'fullName-error' : undefined}
+                        placeholder={t.form.fullNamePlaceholder}
+                        className={`w-full px-3 sm:px-4 py-2 sm:py-3 border ${fieldErrors.name ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent text-sm sm:text-base`}
                         required
                       />
+                      <FieldError id="fullName-error" field="name" error={fieldErrors.name} />
                     </div>
 
                     {/* Email */}
                     <div>
                       <label htmlFor="email" className="block text-sm font-semibold text-plum-900 mb-2">
-                        Email Address *
+                        {t.form.email}
                       </label>
                       <input
                         id="email"
@@ -131,16 +193,19 @@ export default function FreeTrialPage() {
                         type="email"
                         value={formData.email}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.email)}
+                        aria-describedby={fieldErrors.email ? 'email-error' : undefined}
                         placeholder="your@email.com"
-                        className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent"
+                        className={`w-full px-4 py-3 border ${fieldErrors.email ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent`}
                         required
                       />
+                      <FieldError id="email-error" field="email" error={fieldErrors.email} />
                     </div>
 
                     {/* Phone */}
                     <div>
                       <label htmlFor="phone" className="block text-sm font-semibold text-plum-900 mb-2">
-                        Phone Number *
+                        {t.form.phone}
                       </label>
                       <input
                         id="phone"
@@ -148,42 +213,69 @@ export default function FreeTrialPage() {
                         type="tel"
                         value={formData.phone}
                         onChange={handleInputChange}
-                        placeholder="+27 (0)123 456 789"
-                        className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent"
+                        aria-invalid={Boolean(fieldErrors.phone)}
+                        aria-describedby={fieldErrors.phone ? 'phone-error' : undefined}
+                        placeholder="082 123 4567"
+                        className={`w-full px-4 py-3 border ${fieldErrors.phone ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent`}
                         required
                       />
+                      <FieldError id="phone-error" field="phone" error={fieldErrors.phone} />
                     </div>
 
                     {/* Body Goals */}
                     <div>
                       <label htmlFor="bodyGoals" className="block text-sm font-semibold text-plum-900 mb-2">
-                        Body Goals (Optional)
+                        {t.form.bodyGoals}
                       </label>
                       <textarea
                         id="bodyGoals"
                         name="bodyGoals"
                         value={formData.bodyGoals}
                         onChange={handleInputChange}
-                        placeholder="Tell us about your fitness goals and what you'd like to achieve..."
-                        className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent resize-none"
+                        aria-invalid={Boolean(fieldErrors.bodyGoals)}
+                        aria-describedby={fieldErrors.bodyGoals ? 'bodyGoals-error' : undefined}
+                        placeholder={t.form.bodyGoalsPlaceholder}
+                        className={`w-full px-4 py-3 border ${fieldErrors.bodyGoals ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent resize-none`}
                         rows={3}
+                        maxLength={CONTACT_SCHEMA.bodyGoals.maxLength}
                       />
+                      <FieldError id="bodyGoals-error" field="bodyGoals" error={fieldErrors.bodyGoals} />
                     </div>
 
-                    {/* Referral Name */}
+                    <HoneypotField value={honeypot} onChange={setHoneypot} />
+
+                    {/* Referral Code (Optional) */}
+                    <ReferralCodeField
+                      value={formData.referralCode}
+                      onChange={(referralCode) => setFormData((prev) => ({ ...prev, referralCode }))}
+                      onResolved={setReferrerName}
+                      email={formData.email}
+                    />
+
+                    {/* Trial Session */}
                     <div>
-                      <label htmlFor="referralName" className="block text-sm font-semibold text-plum-900 mb-2">
-                        Referred by (Optional)
-                      </label>
-                      <input
-                        id="referralName"
-                        name="referralName"
-                        type="text"
-                        value={formData.referralName}
-                        onChange={handleInputChange}
-                        placeholder="Who referred you to SheGymZ?"
-                        className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent"
-                      />
+                      <h2 className="block text-sm font-semibold text-plum-900 mb-1">
+                        {t.freeTrial.slotsTitle}
+                      </h2>
+                      {slots === null && (
+                        <p className="text-sm text-warmgray-600">{t.freeTrial.slotsLoading}</p>
+                      )}
+                      {slots?.length === 0 && (
+                        <p className="text-sm text-warmgray-600">{t.freeTrial.noSlots}</p>
+                      )}
+                      {slots && slots.length > 0 && (
+                        <>
+                          <p className="text-xs text-warmgray-600 mb-3">{t.freeTrial.slotsHint}</p>
+                          <TrialSlotPicker
+                            slots={slots}
+                            value={formData.slotStart}
+                            onChange={(slotStart) => {
+                              setFormData((prev) => ({ ...prev, slotStart }));
+                              setError('');
+                            }}
+                          />
+                        </>
+                      )}
                     </div>
 
                     {/* Error */}
@@ -199,13 +291,13 @@ export default function FreeTrialPage() {
                         type="submit"
                         className="w-full px-6 py-4 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
                       >
-                        Continue to Review
+                        {t.form.continueToReview}
                       </button>
                     </div>
 
                     <div className="text-center text-sm">
-                      <Link href="/" className="text-warmgray-600 hover:text-plum-800 transition-colors">
-                        Back to home
+                      <Link href={href('/')} className="text-warmgray-600 hover:text-plum-800 transition-colors">
+                        {t.form.backHome}
                       </Link>
                     </div>
                   </div>
@@ -213,7 +305,7 @@ export default function FreeTrialPage() {
               </form>
 
               <div className="mt-8 p-6 bg-rose-50 border border-rose-200 rounded text-center text-sm text-warmgray-700">
-                Your information is private and secure. We only contact you to arrange your 3-day free trial — no payment or card details required.
+                {t.freeTrial.privacyNote}
               </div>
             </div>
           </section>
@@ -225,10 +317,10 @@ export default function FreeTrialPage() {
             <div className="max-w-2xl mx-auto px-6">
               <div className="mb-12 text-center">
                 <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
-                  Review Your Request
+                  {t.form.reviewTitle}
                 </h1>
                 <p className="text-lg text-warmgray-700">
-                  Confirm your details and submit — we&apos;ll be in touch to schedule your 3-day free trial.
+                  {t.freeTrial.reviewSubtitle}
                 </p>
               </div>
 
@@ -236,39 +328,46 @@ export default function FreeTrialPage() {
                 {/* Summary */}
                 <div className="space-y-4">
                   <div className="flex justify-between border-b border-warmgray-200 pb-3">
-                    <span className="text-warmgray-700 font-medium">Name</span>
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryName}</span>
                     <span className="text-neutral-900 font-semibold">{formData.fullName}</span>
                   </div>
                   <div className="flex justify-between border-b border-warmgray-200 pb-3">
-                    <span className="text-warmgray-700 font-medium">Email</span>
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryEmail}</span>
                     <span className="text-neutral-900 font-semibold">{formData.email}</span>
                   </div>
                   <div className="flex justify-between border-b border-warmgray-200 pb-3">
-                    <span className="text-warmgray-700 font-medium">Phone</span>
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryPhone}</span>
                     <span className="text-neutral-900 font-semibold">{formData.phone}</span>
                   </div>
                   {formData.bodyGoals && (
                     <div className="flex justify-between border-b border-warmgray-200 pb-3">
-                      <span className="text-warmgray-700 font-medium">Body Goals</span>
+                      <span className="text-warmgray-700 font-medium">{t.form.summaryBodyGoals}</span>
                       <span className="text-neutral-900 font-semibold text-right max-w-xs">{formData.bodyGoals}</span>
                     </div>
                   )}
-                  {formData.referralName && (
+                  {formData.slotStart && (
                     <div className="flex justify-between border-b border-warmgray-200 pb-3">
-                      <span className="text-warmgray-700 font-medium">Referred by</span>
-                      <span className="text-neutral-900 font-semibold">{formData.referralName}</span>
+                      <span className="text-warmgray-700 font-medium">{t.freeTrial.summarySession}</span>
+                      <span className="text-neutral-900 font-semibold text-right">
+                        {formatSlot(formData.slotStart, locale)}
+                      </span>
+                    </div>
+                  )}
+                  {referrerName && (
+                    <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                      <span className="text-warmgray-700 font-medium">{t.form.summaryReferredBy}</span>
+                      <span className="text-neutral-900 font-semibold">{referrerName} ({formData.referralCode})</span>
                     </div>
                   )}
                 </div>
 
                 {/* What to expect */}
                 <div className="bg-warmgray-50 p-6 rounded">
-                  <h3 className="font-semibold text-plum-900 mb-3">What Happens Next</h3>
+                  <h3 className="font-semibold text-plum-900 mb-3">{t.freeTrial.nextTitle}</h3>
                   <ul className="space-y-2 text-sm text-warmgray-700">
-                    <li>✓ We&apos;ll review your request within 24 hours</li>
-                    <li>✓ Someone from SheGymZ will contact you to schedule your 3-day trial</li>
-                    <li>✓ 3 full days of access — no payment, no contracts</li>
-                    <li>✓ Experience all facilities and classes firsthand</li>
+                    {t.freeTrial.nextSteps.map((item) => (
+                      <li key={item}>✓ {item}</li>
+                    ))}
                   </ul>
                 </div>
 
@@ -286,19 +385,19 @@ export default function FreeTrialPage() {
                     className="flex-1 px-6 py-3 border border-warmgray-300 text-neutral-900 font-semibold rounded hover:bg-warmgray-50 transition-colors"
                     disabled={isLoading}
                   >
-                    Back
+                    {t.form.back}
                   </button>
                   <button
                     onClick={handleConfirmRequest}
                     disabled={isLoading}
                     className="flex-1 px-6 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isLoading ? 'Submitting…' : 'Submit Request'}
+                    {isLoading ? t.freeTrial.submitting : t.freeTrial.submit}
                   </button>
                 </div>
 
                 <div className="text-xs text-center text-warmgray-600">
-                  By submitting, you agree to our privacy policy. We&apos;ll only use your details to contact you about your trial.
+                  {t.freeTrial.terms}
                 </div>
               </div>
             </div>
@@ -324,34 +423,44 @@ export default function FreeTrialPage() {
                 </div>
               </div>
 
-              <h1 className="text-4xl font-bold text-plum-900 mb-4">Request Submitted!</h1>
+              <h1 className="text-4xl font-bold text-plum-900 mb-4">{t.freeTrial.submittedTitle}</h1>
               <p className="text-lg text-warmgray-700 mb-2">
-                Thanks, <span className="font-semibold">{formData.fullName}</span>!
+                {format(t.freeTrial.thanks, { name: formData.fullName })}
               </p>
               <p className="text-warmgray-600 mb-10">
-                We&apos;ve received your 3-day free trial request and will be in touch within 24 hours to get you started.
+                {bookedSlot
+                  ? format(t.freeTrial.submittedBookedBody, { date: formatSlot(bookedSlot, locale) })
+                  : t.freeTrial.submittedBody}
               </p>
 
               <div className="bg-white rounded-lg shadow p-6 border border-warmgray-200 text-left mb-8 space-y-3">
                 <div className="flex justify-between text-sm">
-                  <span className="text-warmgray-600">Name</span>
+                  <span className="text-warmgray-600">{t.form.summaryName}</span>
                   <span className="font-medium text-neutral-900">{formData.fullName}</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-warmgray-600">Email</span>
+                  <span className="text-warmgray-600">{t.form.summaryEmail}</span>
                   <span className="font-medium text-neutral-900">{formData.email}</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-warmgray-600">Phone</span>
+                  <span className="text-warmgray-600">{t.form.summaryPhone}</span>
                   <span className="font-medium text-neutral-900">{formData.phone}</span>
                 </div>
+                {bookedSlot && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-warmgray-600">{t.freeTrial.summarySession}</span>
+                    <span className="font-medium text-neutral-900 text-right">
+                      {formatSlot(bookedSlot, locale)}
+                    </span>
+                  </div>
+                )}
               </div>
 
               <Link
-                href="/"
+                href={href('/')}
                 className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
               >
-                Return Home
+                {t.freeTrial.returnHome}
               </Link>
             </div>
           </section>
@@ -362,3 +471,11 @@ export default function FreeTrialPage() {
     </>
   );
 }
+
+export default function FreeTrialPage() {
+  return (
+    <Suspense fallback={null}>
+      <FreeTrialContent />
+    </Suspense>
+  );
+}
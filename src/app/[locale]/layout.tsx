@@ -1,19 +1,16 @@
 import type { Metadata } from 'next';
-import './globals.css';
+import { notFound } from 'next/navigation';
+import '../globals.css';
+import { siteIcons } from '../site-metadata';
 import Providers from '@/components/Providers';
+import { getMessages } from '@/lib/i18n';
+import { LOCALES, isLocale } from '@/lib/i18n/config';
 
 export const metadata: Metadata = {
   title: 'SheGymZ – Private Women\'s Wellness Club',
   description: 'A private, members-only wellness space for women. 24/7 access, personal trainers included, no contracts.',
   keywords: ['women\'s gym', 'private fitness', 'wellness', 'personal training', 'South Africa'],
-  icons: {
-    icon: [
-      { url: '/favicon/favicon.ico' },
-      { url: '/favicon/favicon.svg', type: 'image/svg+xml' },
-      { url: '/favicon/favicon-96x96.png', sizes: '96x96', type: 'image/png' },
-    ],
-    apple: '/favicon/apple-touch-icon.png',
-  },
+  icons: siteIcons,
   openGraph: {
     title: 'SheGymZ – Private Women\'s Wellness Club',
     description: 'A private, members-only wellness space for women.',
@@ -21,15 +18,27 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
+// Every language is prerendered; English reaches /en through the middleware rewrite.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function LocaleLayout({
   children,
+  params,
 }: {
   children: React.ReactNode;
+  params: Promise<{ locale: string }>;
 }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className="bg-neutral-50 text-neutral-900 antialiased">
-        <Providers>
+        <Providers locale={locale} messages={getMessages(locale)}>
           <div className="flex flex-col min-h-screen">
             {children}
           </div>
@@ -0,0 +1,187 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { useI18n } from '@/components/LocaleProvider';
+import { formatDate } from '@/lib/format';
+import { intlLocale } from '@/lib/i18n/config';
+
+type PageState = 'idle' | 'loading' | 'link-sent' | 'cancelled' | 'error';
+
+function CancelMembershipContent() {
+  const { locale, t, format, href } = useI18n();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<PageState>('idle');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [accessEndsAt, setAccessEndsAt] = useState<string | null>(null);
+
+  const handleRequestLink = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !email.includes('@')) {
+      setError(t.form.emailInvalid);
+      return;
+    }
+
+    setState('loading');
+    setError('');
+    try {
+      const response = await fetch('/api/membership/cancel/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error ?? t.form.genericError);
+      }
+      setState('link-sent');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setState('idle');
+    }
+  };
+
+  const handleConfirmCancel = async () => {
+    setState('loading');
+    setError('');
+    try {
+      const response = await fetch('/api/membership/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        accessEndsAt?: string | null;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? t.form.genericError);
+      }
+      setAccessEndsAt(data.accessEndsAt ?? null);
+      setState('cancelled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setState('error');
+    }
+  };
+
+  return (
+    <section className="min-h-screen bg-neutral-50 py-20">
+      <div className="max-w-2xl mx-auto px-6">
+        <div className="mb-12 text-center">
+          <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
+            {t.cancelMembership.title}
+          </h1>
+          <p className="text-lg text-warmgray-700">{t.cancelMembership.subtitle}</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8 md:p-12 border border-warmgray-200 space-y-6">
+          {state === 'cancelled' && (
+            <div className="text-center space-y-4">
+              <h2 className="text-2xl font-bold text-plum-900">{t.cancelMembership.cancelledTitle}</h2>
+              <p className="text-warmgray-700">
+                {t.cancelMembership.noMoreCharges}
+                {accessEndsAt &&
+                  ` ${format(t.cancelMembership.accessUntil, {
+                    date: formatDate(accessEndsAt, intlLocale(locale)) ?? '',
+                  })}`}
+              </p>
+              <p className="text-sm text-warmgray-600">{t.cancelMembership.confirmationSent}</p>
+            </div>
+          )}
+
+          {state === 'link-sent' && (
+            <div className="text-center space-y-4">
+              <h2 className="text-2xl font-bold text-plum-900">{t.cancelMembership.linkSentTitle}</h2>
+              <p className="text-warmgray-700">{t.cancelMembership.linkSentBody}</p>
+            </div>
+          )}
+
+          {token && state !== 'cancelled' && (
+            <>
+              <p className="text-warmgray-700">{t.cancelMembership.confirmPrompt}</p>
+              {error && (
+                <div className="bg-rose-100 border border-rose-300 text-plum-900 px-4 py-3 rounded text-sm">
+                  {error}
+                </div>
+              )}
+              <button
+                onClick={handleConfirmCancel}
+                disabled={state === 'loading'}
+                className="w-full px-6 py-4 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {state === 'loading' ? t.cancelMembership.cancelling : t.cancelMembership.confirm}
+              </button>
+            </>
+          )}
+
+          {!token && state !== 'link-sent' && (
+            <form onSubmit={handleRequestLink} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-semibold text-plum-900 mb-2">
+                  {t.cancelMembership.emailLabel}
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError('');
+                  }}
+                  placeholder="your@email.com"
+                  className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent"
+                  required
+                />
+              </div>
+              {error && (
+                <div className="bg-rose-100 border border-rose-300 text-plum-900 px-4 py-3 rounded text-sm">
+                  {error}
+                </div>
+              )}
+              <button
+                type="submit"
+                disabled={state === 'loading'}
+                className="w-full px-6 py-4 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {state === 'loading' ? t.cancelMembership.sending : t.cancelMembership.sendLink}
+              </button>
+            </form>
+          )}
+
+          <div className="text-center text-sm">
+            <Link href={href('/')} className="text-warmgray-600 hover:text-plum-800 transition-colors">
+              {t.form.backHome}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default function CancelMembershipPage() {
+  return (
+    <>
+      <Navigation />
+      <main className="flex-grow">
+        <Suspense
+          fallback={
+            <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+              <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
+            </div>
+          }
+        >
+          <CancelMembershipContent />
+        </Suspense>
+      </main>
+      <Footer />
+    </>
+  );
+}
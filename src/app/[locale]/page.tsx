@@ -4,6 +4,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
+import { useI18n } from '@/components/LocaleProvider';
 import { useState, useEffect } from 'react';
 
 const CAROUSEL_VIDEOS = [
@@ -16,6 +17,7 @@ const CAROUSEL_VIDEOS = [
 ];
 
 export default function LandingPage() {
+  const { t, href } = useI18n();
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [carouselIndex, setCarouselIndex] = useState(0);
 
@@ -70,24 +72,24 @@ export default function LandingPage() {
         {/* Hero Content */}
         <div className="relative z-10 text-center px-4 sm:px-6 max-w-3xl mx-auto">
           <h1 className="text-white text-3xl sm:text-4xl md:text-5xl lg:text-7xl font-bold leading-tight mb-4 sm:mb-6 whitespace-nowrap">
-            Her Physique. Her Power.
+            {t.home.heroTitle}
           </h1>
           <p className="text-white/90 text-base sm:text-lg md:text-xl font-light leading-relaxed mb-8 sm:mb-10 max-w-2xl mx-auto px-2 sm:px-0">
-            24/7 Access. Personal trainers included. No contracts.
+            {t.home.heroSubtitle}
           </p>
 
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
             <Link
-              href="/subscribe"
+              href={href('/subscribe')}
               className="inline-block px-6 sm:px-8 py-3 sm:py-4 bg-rose-300 text-plum-900 font-semibold rounded hover:bg-rose-200 transition-all duration-300 text-base sm:text-lg shadow-lg"
             >
-              Subscribe Here
+              {t.home.subscribe}
             </Link>
             <Link
-              href="/free-trial"
+              href={href('/free-trial')}
               className="inline-block px-6 sm:px-8 py-3 sm:py-4 bg-white/20 text-white font-semibold rounded border border-white/60 hover:bg-white/30 transition-all duration-300 text-base sm:text-lg shadow-lg backdrop-blur-sm"
             >
-              Try 3 Days Free
+              {t.home.tryFree}
             </Link>
           </div>
         </div>
@@ -110,9 +112,9 @@ export default function LandingPage() {
             How We Grow
           </p> */}
           <blockquote className="text-2xl md:text-3xl font-light text-plum-900 leading-relaxed">
-            SheGymZ is a private wellness space for women
+            {t.home.quoteLine1}
             <br />
-            shaped by trust, privacy, and a sense of community
+            {t.home.quoteLine2}
           </blockquote>
         </div>
       </section>
@@ -121,101 +123,31 @@ export default function LandingPage() {
       <section id="about" className="py-12 sm:py-16 md:py-20 lg:py-28 bg-neutral-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6">
           <h2 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-plum-900 mb-8 sm:mb-12 md:mb-16 text-center">
-            What Is SheGymZ?
+            {t.home.aboutTitle}
           </h2>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 sm:gap-12 mb-12 sm:mb-16">
             {/* Left: Text content */}
             <div className="flex flex-col justify-center space-y-6 sm:space-y-8">
-              <div>
-                <div className="flex items-center gap-0 mb-3">
-                  <Image
-                    src="/images/bullet_point.png"
-                    alt="Bullet point"
-                    width={32}
-                    height={32}
-                    className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
-                  />
-                  <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
-                    Gym & CrossFit
-                  </h3>
+              {t.home.features.map((feature) => (
+                <div key={feature.title}>
+                  <div className="flex items-center gap-0 mb-3">
+                    <Image
+                      src="/images/bullet_point.png"
+                      alt="Bullet point"
+                      width={32}
+                      height={32}
+                      className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
+                    />
+                    <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
+                      {feature.title}
+                    </h3>
+                  </div>
+                  <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
+                    {feature.body}
+                  </p>
                 </div>
-                <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
-                  Fully equipped private facility. Training on your terms. No crowds, no distractions.
-                </p>
-              </div>
-
-              <div>
-                <div className="flex items-center gap-0 mb-3">
-                  <Image
-                    src="/images/bullet_point.png"
-                    alt="Bullet point"
-                    width={32}
-                    height={32}
-                    className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
-                  />
-                  <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
-                    Massage & Recovery
-                  </h3>
-                </div>
-                <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
-                  Dedicated recovery space. Professional massage therapy. Wellness is part of strength.
-                </p>
-              </div>
-
-              <div>
-                <div className="flex items-center gap-0 mb-3">
-                  <Image
-                    src="/images/bullet_point.png"
-                    alt="Bullet point"
-                    width={32}
-                    height={32}
-                    className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
-                  />
-                  <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
-                    Guided Training
-                  </h3>
-                </div>
-                <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
-                  Personal trainers included in every membership. No add-ons. No upsells. Just support.
-                </p>
-              </div>
-
-              <div>
-                <div className="flex items-center gap-0 mb-3">
-                  <Image
-                    src="/images/bullet_point.png"
-                    alt="Bullet point"
-                    width={32}
-                    height={32}
-                    className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
-                  />
-                  <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
-                    Meditation and Pilates
-                  </h3>
-                </div>
-                <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
-                  Serene natural spaces for reflection.
-                </p>
-              </div>
-
-              <div>
-                <div className="flex items-center gap-0 mb-3">
-                  <Image
-                    src="/images/bullet_point.png"
-                    alt="Bullet point"
-                    width={32}
-                    height={32}
-                    className="w-8 h-8 sm:w-12 sm:h-12 md:w-16 md:h-16 object-contain mr-2 sm:mr-3 flex-shrink-0"
-                  />
-                  <h3 className="text-lg sm:text-xl md:text-2xl font-semibold text-plum-800">
-                    Member Content
-                  </h3>
-                </div>
-                <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed ml-10 sm:ml-15 md:ml-19">
-                  Private content creation spaces. For members, by members. Ownership of your narrative.
-                </p>
-              </div>
+              ))}
             </div>
 
             {/* Right: Image */}
@@ -317,34 +249,40 @@ export default function LandingPage() {
       <section id="membership" className="py-12 sm:py-16 md:py-20 lg:py-28 bg-warmgray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6">
           <h2 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-plum-900 mb-8 sm:mb-12 md:mb-16 text-center">
-            How It Works
+            {t.home.howItWorksTitle}
           </h2>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 sm:gap-8 mb-8 sm:mb-12">
             {/* Card 1: Monthly */}
             <div className="bg-white rounded p-6 sm:p-8 border border-warmgray-200 hover:shadow-lg transition-shadow">
               <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">📅</div>
-              <h3 className="text-xl sm:text-2xl font-semibold text-plum-900 mb-2 sm:mb-3">Monthly Billing</h3>
+              <h3 className="text-xl sm:text-2xl font-semibold text-plum-900 mb-2 sm:mb-3">{t.home.monthlyTitle}</h3>
               <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed">
-                Simple monthly subscription. Charged automatically. No surprises.
+                {t.home.monthlyBody}
               </p>
             </div>
 
             {/* Card 2: Flexible */}
             <div className="bg-white rounded p-6 sm:p-8 border border-warmgray-200 hover:shadow-lg transition-shadow">
               <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">🔓</div>
-              <h3 className="text-xl sm:text-2xl font-semibold text-plum-900 mb-2 sm:mb-3">Cancel Anytime</h3>
+              <h3 className="text-xl sm:text-2xl font-semibold text-plum-900 mb-2 sm:mb-3">{t.home.cancelTitle}</h3>
               <p className="text-sm sm:text-base text-warmgray-700 leading-relaxed">
-                No contracts. No lock-in periods. Leave when you need to. Always welcome back.
+                {t.home.cancelBody}
               </p>
+              <Link
+                href={href('/membership/cancel')}
+                className="inline-block mt-3 text-sm text-plum-800 underline hover:text-plum-900"
+              >
+                {t.home.cancelLink}
+              </Link>
             </div>
 
             {/* Card 3: Invitation */}
             <div className="bg-white rounded p-8 border border-warmgray-200 hover:shadow-lg transition-shadow">
               <div className="text-4xl mb-4">✨</div>
-              <h3 className="text-2xl font-semibold text-plum-900 mb-3">Membership by Referral</h3>
+              <h3 className="text-2xl font-semibold text-plum-900 mb-3">{t.home.referralTitle}</h3>
               <p className="text-warmgray-700 leading-relaxed">
-                We grow through word of mouth. Know someone? They can request access too.
+                {t.home.referralBody}
               </p>
             </div>
           </div>
@@ -352,7 +290,7 @@ export default function LandingPage() {
           {/* Access Revocation Note */}
           <div className="max-w-2xl mx-auto bg-rose-100 border border-rose-300 rounded p-6 text-center">
             <p className="text-sm text-warmgray-700 leading-relaxed">
-              <span className="font-semibold text-plum-900">Private Club Terms:</span> SheGymZ reserves the right to revoke membership access in accordance with our private club policies. We are committed to maintaining a safe, respectful environment for all members.
+              <span className="font-semibold text-plum-900">{t.home.termsLabel}</span> {t.home.termsBody}
             </p>
           </div>
         </div>
@@ -372,17 +310,17 @@ export default function LandingPage() {
             />
           </div>
           <h2 className="text-4xl md:text-5xl font-bold mb-6 leading-tight">
-            Ready to join a community of strength?
+            {t.home.ctaTitle}
           </h2>
           <p className="text-lg text-white/80 mb-10 max-w-2xl mx-auto leading-relaxed">
-            Request membership today. We&apos;ll review your request and reach out to confirm your access to SheGymZ.
+            {t.home.ctaBody}
           </p>
 
           <Link
-            href="/subscribe"
+            href={href('/subscribe')}
             className="inline-block px-8 py-4 bg-rose-300 text-plum-900 font-semibold rounded hover:bg-rose-200 transition-all duration-300 text-lg shadow-lg"
           >
-            Subscribe Here
+            {t.home.subscribe}
           </Link>
         </div>
       </section>
@@ -410,7 +348,7 @@ export default function LandingPage() {
             </button>
             {/* Click anywhere to close hint */}
             <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white/70 text-sm bg-black/50 px-3 py-1 rounded">
-              Click anywhere to close
+              {t.home.closeHint}
             </div>
           </div>
         </div>
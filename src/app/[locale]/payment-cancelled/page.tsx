@@ -1,4 +1,7 @@
+'use client';
+
 import Link from 'next/link';
+import { useI18n } from '@/components/LocaleProvider';
 
 /**
  * GET /payment-cancelled
@@ -7,6 +10,8 @@ import Link from 'next/link';
  * provider reports a payment failure.
  */
 export default function PaymentCancelledPage() {
+  const { t, href } = useI18n();
+
   return (
     <div className="min-h-screen bg-neutral-50 py-20">
       <div className="max-w-2xl mx-auto px-6 text-center">
@@ -16,30 +21,29 @@ export default function PaymentCancelledPage() {
           </div>
         </div>
         <h1 className="text-4xl font-bold text-plum-900 mb-4">
-          Payment Cancelled
+          {t.paymentResult.cancelledTitle}
         </h1>
         <p className="text-lg text-warmgray-700 mb-8">
-          Your payment was cancelled and no charge has been made.
-          You can try again at any time or contact us for help.
+          {t.paymentResult.cancelledBody}
         </p>
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
           <Link
-            href="/subscribe"
+            href={href('/subscribe')}
             className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
           >
-            Try Again
+            {t.paymentResult.tryAgain}
           </Link>
           <Link
-            href="/"
+            href={href('/')}
             className="inline-block px-8 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
           >
-            Return Home
+            {t.freeTrial.returnHome}
           </Link>
         </div>
         <p className="mt-8 text-sm text-warmgray-600">
-          Need help?{' '}
+          {t.paymentResult.needHelp}{' '}
           <a href="mailto:admin@shegymz.com" className="underline hover:text-plum-800">
-            Contact support
+            {t.paymentResult.contactSupport}
           </a>
         </p>
       </div>
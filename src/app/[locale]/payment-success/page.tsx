@@ -0,0 +1,271 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useI18n } from '@/components/LocaleProvider';
+import { formatAmount, formatDate } from '@/lib/format';
+import { intlLocale } from '@/lib/i18n/config';
+
+type PageState = 'checking' | 'paid' | 'failed' | 'pending' | 'unknown';
+
+interface PaymentReceipt {
+  reference: string;
+  status: string;
+  paidAt: string | null;
+  amountCents: number | null;
+  currency: string | null;
+  planName: string | null;
+}
+
+/** Webhooks usually land within seconds; give up polling after this */
+const POLL_TIMEOUT_MS = 60_000;
+const INITIAL_POLL_DELAY_MS = 1_000;
+const MAX_POLL_DELAY_MS = 8_000;
+
+function portalUrl() {
+  return process.env.NEXT_PUBLIC_PORTAL_URL || 'https://portal.shegymz.com';
+}
+
+function PaymentStatusContent() {
+  const { locale, t, href } = useI18n();
+  const searchParams = useSearchParams();
+  // Our callback URLs carry `ref`; Paystack also appends `trxref` and `reference`.
+  const ref = searchParams.get('ref') ?? searchParams.get('reference') ?? searchParams.get('trxref');
+  const [state, setState] = useState<PageState>('checking');
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!ref) {
+      setState('unknown');
+      return;
+    }
+    const paymentRef = ref;
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    let delay = INITIAL_POLL_DELAY_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    setState('checking');
+
+    /** Retries with exponential backoff until a final status or the deadline */
+    function retryLater() {
+      if (Date.now() + delay > deadline) {
+        setState('pending');
+        return;
+      }
+      timer = setTimeout(check, delay);
+      delay = Math.min(delay * 2, MAX_POLL_DELAY_MS);
+    }
+
+    async function check() {
+      try {
+        const res = await fetch(`/api/payment/status?ref=${encodeURIComponent(paymentRef)}`);
+        if (cancelled) return;
+        if (!res.ok) {
+          // Verification can fail transiently while the provider catches up.
+          retryLater();
+          return;
+        }
+
+        const data = (await res.json()) as PaymentReceipt;
+        if (cancelled) return;
+        setReceipt(data);
+
+        if (data.status === 'paid') {
+          setState('paid');
+          return;
+        }
+
+        if (data.status === 'failed' || data.status === 'cancelled') {
+          setState('failed');
+          return;
+        }
+
+        if (data.status !== 'pending') {
+          setState('unknown');
+          return;
+        }
+
+        retryLater();
+      } catch {
+        if (!cancelled) retryLater();
+      }
+    }
+
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [ref, attempt]);
+
+  return (
+    <div className="min-h-screen bg-neutral-50 py-20">
+      <div className="max-w-2xl mx-auto px-6 text-center">
+        {state === 'checking' && (
+          <>
+            <div className="mb-6 flex justify-center">
+              <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
+            </div>
+            <h1 className="text-3xl font-bold text-plum-900 mb-4">{t.paymentResult.checkingTitle}</h1>
+            <p className="text-warmgray-700">{t.paymentResult.checkingBody}</p>
+          </>
+        )}
+
+        {state === 'paid' && (
+          <>
+            <div className="mb-8">
+              <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-green-100 text-4xl">
+                ✓
+              </div>
+            </div>
+            <h1 className="text-4xl font-bold text-plum-900 mb-4">{t.paymentResult.paidTitle}</h1>
+            <p className="text-lg text-warmgray-700 mb-8">{t.paymentResult.paidBody}</p>
+
+            {receipt && (
+              <dl className="bg-white border border-warmgray-200 rounded p-6 mb-8 text-left space-y-3">
+                {receipt.planName && (
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <dt className="text-warmgray-700 font-medium">{t.paymentResult.plan}</dt>
+                    <dd className="text-neutral-900 font-semibold">{receipt.planName}</dd>
+                  </div>
+                )}
+                {receipt.amountCents !== null && receipt.currency && (
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <dt className="text-warmgray-700 font-medium">{t.paymentResult.amount}</dt>
+                    <dd className="text-neutral-900 font-semibold">
+                      {formatAmount(receipt.amountCents, receipt.currency)}
+                    </dd>
+                  </div>
+                )}
+                {receipt.paidAt && (
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <dt className="text-warmgray-700 font-medium">{t.paymentResult.paidOn}</dt>
+                    <dd className="text-neutral-900 font-semibold">
+                      {formatDate(receipt.paidAt, intlLocale(locale))}
+                    </dd>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <dt className="text-warmgray-700 font-medium">{t.paymentResult.reference}</dt>
+                  <dd className="text-neutral-900 font-semibold break-all">{receipt.reference}</dd>
+                </div>
+              </dl>
+            )}
+
+            <div className="bg-rose-100 border border-rose-300 rounded p-6 mb-8 text-left">
+              <h2 className="text-xl font-semibold text-plum-900 mb-4">
+                {t.paymentResult.nextStepsTitle}
+              </h2>
+              <ol className="list-decimal list-inside space-y-2 text-warmgray-700 mb-6">
+                {t.paymentResult.nextSteps.map((step) => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ol>
+              <a
+                href={portalUrl()}
+                className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+              >
+                {t.paymentResult.openPortal}
+              </a>
+            </div>
+            <p className="text-sm text-warmgray-700 mb-8">
+              {t.paymentResult.noEmail}{' '}
+              <a href="mailto:admin@shegymz.com" className="underline">
+                admin@shegymz.com
+              </a>
+              .
+            </p>
+            <Link
+              href={href('/')}
+              className="inline-block px-8 py-4 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
+            >
+              {t.freeTrial.returnHome}
+            </Link>
+          </>
+        )}
+
+        {(state === 'pending' || state === 'unknown') && (
+          <>
+            <div className="mb-8">
+              <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-rose-100 text-4xl">
+                …
+              </div>
+            </div>
+            <h1 className="text-4xl font-bold text-plum-900 mb-4">
+              {state === 'pending' ? t.paymentResult.pendingTitle : t.paymentResult.unknownTitle}
+            </h1>
+            <p className="text-lg text-warmgray-700 mb-8">
+              {state === 'pending' ? t.paymentResult.pendingBody : t.paymentResult.unknownBody}
+            </p>
+            {receipt && (
+              <p className="text-sm text-warmgray-700 mb-8">
+                {t.paymentResult.reference}: <span className="font-semibold break-all">{receipt.reference}</span>
+              </p>
+            )}
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              {state === 'pending' && (
+                <button
+                  type="button"
+                  onClick={() => setAttempt((n) => n + 1)}
+                  className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+                >
+                  {t.paymentResult.checkAgain}
+                </button>
+              )}
+              <Link
+                href={href('/')}
+                className="inline-block px-8 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
+              >
+                {t.freeTrial.returnHome}
+              </Link>
+            </div>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <div className="mb-8">
+              <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-rose-100 text-4xl">
+                ✕
+              </div>
+            </div>
+            <h1 className="text-4xl font-bold text-plum-900 mb-4">{t.paymentResult.failedTitle}</h1>
+            <p className="text-lg text-warmgray-700 mb-8">{t.paymentResult.failedBody}</p>
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <Link
+                href={href('/subscribe')}
+                className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+              >
+                {t.paymentResult.tryAgain}
+              </Link>
+              <Link
+                href={href('/')}
+                className="inline-block px-8 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
+              >
+                {t.freeTrial.returnHome}
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentSuccessPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+          <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
+        </div>
+      }
+    >
+      <PaymentStatusContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,704 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import FieldError from '@/components/FieldError';
+import HoneypotField, { useFormToken } from '@/components/FormProtection';
+import ReferralCodeField from '@/components/ReferralCodeField';
+import { useI18n } from '@/components/LocaleProvider';
+import { CONTACT_SCHEMA, validateContactDetails, type ContactFieldErrors } from '@/lib/validation';
+import {
+  DEFAULT_PLAN_ID,
+  PLANS,
+  listPlans,
+  monthlyEquivalentCents,
+  monthlySavingsCents,
+} from '@/lib/payments/plans';
+
+interface FormData {
+  fullName: string;
+  email: string;
+  phone: string;
+  bodyGoals: string;
+  referralCode: string;
+}
+
+interface AppliedDiscount {
+  code: string;
+  discountCents: number;
+  amountCents: number;
+}
+
+function formatRand(cents: number) {
+  return `R${(cents / 100).toFixed(2)}`;
+}
+
+function portalUrl() {
+  return process.env.NEXT_PUBLIC_PORTAL_URL || 'https://portal.shegymz.com';
+}
+
+function SubscribeContent() {
+  const { locale, t, format, href } = useI18n();
+  const searchParams = useSearchParams();
+  const [step, setStep] = useState<'plan' | 'form' | 'review' | 'processing'>('plan');
+  const [planId, setPlanId] = useState(DEFAULT_PLAN_ID);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [honeypot, setHoneypot] = useState('');
+  const { token: formToken, refresh: refreshFormToken } = useFormToken('subscribe');
+  const [formData, setFormData] = useState<FormData>({
+    fullName: '',
+    email: '',
+    phone: '',
+    bodyGoals: '',
+    referralCode: searchParams.get('referral')?.toUpperCase() ?? '',
+  });
+  const [referrerName, setReferrerName] = useState<string | null>(null);
+  const [discountInput, setDiscountInput] = useState('');
+  const [discount, setDiscount] = useState<AppliedDiscount | null>(null);
+  const [discountError, setDiscountError] = useState('');
+  const [isCheckingDiscount, setIsCheckingDiscount] = useState(false);
+  /** The email already has a paid membership; offer the portal instead of a second payment */
+  const [alreadyMember, setAlreadyMember] = useState(false);
+  const [portalLinkState, setPortalLinkState] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const selectedPlan = PLANS[planId];
+  const savingsCents = monthlySavingsCents(selectedPlan);
+  const intervalLabel = t.plans.intervals[selectedPlan.interval];
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+    const field = name === 'fullName' ? 'name' : name;
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+    setError('');
+  };
+
+  const validateForm = (): boolean => {
+    const result = validateContactDetails({
+      name: formData.fullName,
+      email: formData.email,
+      phone: formData.phone,
+      bodyGoals: formData.bodyGoals,
+      referralCode: formData.referralCode,
+    });
+    if (!result.success) {
+      setFieldErrors(result.errors);
+      return false;
+    }
+    setFieldErrors({});
+    // Show the number the way we'll store it, so the review step confirms it.
+    setFormData((prev) => ({ ...prev, phone: result.data.phone }));
+    return true;
+  };
+
+  const handleSubmitForm = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) {
+      return;
+    }
+    setAlreadyMember(false);
+    setPortalLinkState('idle');
+    setStep('review');
+  };
+
+  const handleApplyDiscount = async () => {
+    if (!discountInput.trim()) {
+      setDiscountError(t.subscribe.discountRequired);
+      return;
+    }
+
+    setIsCheckingDiscount(true);
+    setDiscountError('');
+    try {
+      const response = await fetch('/api/discount-codes/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: discountInput, planId }),
+      });
+      const data = (await response.json().catch(() => ({}))) as Partial<AppliedDiscount> & {
+        error?: string;
+      };
+      if (!response.ok || !data.code) {
+        throw new Error(data.error ?? t.subscribe.discountInvalid);
+      }
+      setDiscount({
+        code: data.code,
+        discountCents: data.discountCents ?? 0,
+        amountCents: data.amountCents ?? selectedPlan.amountCents,
+      });
+    } catch (err) {
+      setDiscount(null);
+      setDiscountError(err instanceof Error ? err.message : t.subscribe.discountInvalid);
+    } finally {
+      setIsCheckingDiscount(false);
+    }
+  };
+
+  const handleConfirmAndPay = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      // Call API to initiate checkout (provider selected server-side via PAYMENTS_PROVIDER)
+      const response = await fetch('/api/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.fullName,
+          email: formData.email,
+          phone: formData.phone,
+          bodyGoals: formData.bodyGoals,
+          referralCode: formData.referralCode || undefined,
+          planId,
+          discountCode: discount?.code,
+          locale,
+          formToken,
+          website: honeypot,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as {
+          error?: string;
+          code?: string;
+          fieldErrors?: ContactFieldErrors;
+        } | null;
+        if (response.status === 429) {
+          throw new Error(t.form.tooManyRequests);
+        }
+        if (data?.code === 'form_rejected') {
+          void refreshFormToken();
+          throw new Error(t.form.formExpired);
+        }
+        if (data?.code === 'already_member') {
+          setAlreadyMember(true);
+          setIsLoading(false);
+          return;
+        }
+        if (data?.fieldErrors) {
+          setFieldErrors(data.fieldErrors);
+          setIsLoading(false);
+          setStep('form');
+          return;
+        }
+        throw new Error(data?.error || t.subscribe.paymentFailed);
+      }
+
+      const { redirectUrl } = await response.json();
+
+      // Redirect to the hosted Paystack checkout
+      setStep('processing');
+      window.location.href = redirectUrl;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendPortalLink = async () => {
+    setPortalLinkState('sending');
+    setError('');
+    try {
+      const response = await fetch('/api/membership/portal-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: formData.email }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(response.status === 429 ? t.form.tooManyRequests : (data.error ?? t.form.genericError));
+      }
+      setPortalLinkState('sent');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.form.genericError);
+      setPortalLinkState('idle');
+    }
+  };
+
+  return (
+    <>
+      <Navigation />
+
+      <main className="flex-grow">
+        {/* STEP 1: PLAN */}
+        {step === 'plan' && (
+          <section className="min-h-screen bg-neutral-50 py-20">
+            <div className="max-w-4xl mx-auto px-6">
+              <div className="mb-12 text-center">
+                <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
+                  {t.subscribe.chooseTitle}
+                </h1>
+                <p className="text-lg text-warmgray-700">
+                  {t.subscribe.chooseSubtitle}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {listPlans().map((plan) => {
+                  const selected = plan.id === planId;
+                  const planSavings = monthlySavingsCents(plan);
+                  return (
+                    <button
+                      key={plan.id}
+                      type="button"
+                      onClick={() => {
+                        setPlanId(plan.id);
+                        // Codes can be plan-specific, so re-apply after switching.
+                        setDiscount(null);
+                      }}
+                      aria-pressed={selected}
+                      className={`text-left bg-white rounded-lg shadow-lg p-6 border-2 transition-colors ${
+                        selected ? 'border-plum-900' : 'border-warmgray-200 hover:border-plum-400'
+                      }`}
+                    >
+                      <h3 className="text-xl font-semibold text-plum-900 mb-1">
+                        {t.plans.intervals[plan.interval]}
+                      </h3>
+                      <p className="text-sm text-warmgray-600 mb-4">{t.plans.descriptions[plan.interval]}</p>
+                      <p className="text-3xl font-bold text-plum-900">{formatRand(plan.amountCents)}</p>
+                      <p className="text-sm text-warmgray-700 mt-1">
+                        {plan.months === 1
+                          ? t.subscribe.perMonth
+                          : format(t.subscribe.amountPerMonth, {
+                              amount: formatRand(monthlyEquivalentCents(plan)),
+                            })}
+                      </p>
+                      {planSavings > 0 && (
+                        <p className="mt-3 inline-block text-xs font-semibold text-plum-900 bg-rose-100 px-2 py-1 rounded">
+                          {format(t.subscribe.savePerMonth, { amount: formatRand(planSavings) })}
+                        </p>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="mt-10 max-w-2xl mx-auto">
+                <button
+                  type="button"
+                  onClick={() => setStep('form')}
+                  className="w-full px-6 py-4 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+                >
+                  {format(t.subscribe.continueWith, { plan: intervalLabel })}
+                </button>
+                <div className="text-center text-sm mt-6">
+                  <Link href={href('/')} className="text-warmgray-600 hover:text-plum-800 transition-colors">
+                    {t.form.backHome}
+                  </Link>
+                </div>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* STEP 2: FORM */}
+        {step === 'form' && (
+          <section className="min-h-screen bg-neutral-50 py-20">
+            <div className="max-w-2xl mx-auto px-6">
+              <div className="mb-12 text-center">
+                <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
+                  {t.subscribe.formTitle}
+                </h1>
+                <p className="text-lg text-warmgray-700">
+                  {t.subscribe.formSubtitle}
+                </p>
+              </div>
+
+              <form onSubmit={handleSubmitForm}>
+                <div className="bg-white rounded-lg shadow-lg p-8 md:p-12 border border-warmgray-200">
+                  <div className="space-y-4 sm:space-y-6">
+                    {/* Full Name */}
+                  <div>
+                    <label htmlFor="fullName" className="block text-sm font-semibold text-plum-900 mb-2">
+                      {t.form.fullName}
+                    </label>
+                    <input
+                      id="fullName"
+                      name="fullName"
+                      type="text"
+                      maxLength={CONTACT_SCHEMA.name.maxLength}
+                      value={formData.fullName}
+                      onChange={handleInputChange}
+                      aria-invalid={Boolean(fieldErrors.name)}
+                      aria-describedby={fieldErrors.name ? 'fullName-error' : undefined}
+                      placeholder={t.form.fullNamePlaceholder}
+                      className={`w-full px-3 sm:px-4 py-2 sm:py-3 border ${fieldErrors.name ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent text-sm sm:text-base`}
+                      required
+                    />
+                    <FieldError id="fullName-error" field="name" error={fieldErrors.name} />
+                  </div>
+
+                  {/* Email */}
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-semibold text-plum-900 mb-2">
+                      {t.form.email}
+                    </label>
+                    <input
+                      id="email"
+                      name="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={handleInputChange}
+                      aria-invalid={Boolean(fieldErrors.email)}
+                      aria-describedby={fieldErrors.email ? 'email-error' : undefined}
+                      placeholder="your@email.com"
+                      className={`w-full px-4 py-3 border ${fieldErrors.email ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent`}
+                      required
+                    />
+                    <FieldError id="email-error" field="email" error={fieldErrors.email} />
+                  </div>
+
+                  {/* Phone */}
+                  <div>
+                    <label htmlFor="phone" className="block text-sm font-semibold text-plum-900 mb-2">
+                      {t.form.phone}
+                    </label>
+                    <input
+                      id="phone"
+                      name="phone"
+                      type="tel"
+                      value={formData.phone}
+                      onChange={handleInputChange}
+                      aria-invalid={Boolean(fieldErrors.phone)}
+                      aria-describedby={fieldErrors.phone ? 'phone-error' : undefined}
+                      placeholder="082 123 4567"
+                      className={`w-full px-4 py-3 border ${fieldErrors.phone ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent`}
+                      required
+                    />
+                    <FieldError id="phone-error" field="phone" error={fieldErrors.phone} />
+                  </div>
+
+                  {/* Body Goals */}
+                  <div>
+                    <label htmlFor="bodyGoals" className="block text-sm font-semibold text-plum-900 mb-2">
+                      {t.form.bodyGoals}
+                    </label>
+                    <textarea
+                      id="bodyGoals"
+                      name="bodyGoals"
+                      value={formData.bodyGoals}
+                      onChange={handleInputChange}
+                      aria-invalid={Boolean(fieldErrors.bodyGoals)}
+                      aria-describedby={fieldErrors.bodyGoals ? 'bodyGoals-error' : undefined}
+                      placeholder={t.form.bodyGoalsPlaceholder}
+                      className={`w-full px-4 py-3 border ${fieldErrors.bodyGoals ? 'border-rose-400' : 'border-warmgray-300'} rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent resize-none`}
+                      rows={3}
+                      maxLength={CONTACT_SCHEMA.bodyGoals.maxLength}
+                    />
+                    <FieldError id="bodyGoals-error" field="bodyGoals" error={fieldErrors.bodyGoals} />
+                  </div>
+
+                  <HoneypotField value={honeypot} onChange={setHoneypot} />
+
+                  {/* Referral Code (Optional) */}
+                  <ReferralCodeField
+                    value={formData.referralCode}
+                    onChange={(referralCode) => setFormData((prev) => ({ ...prev, referralCode }))}
+                    onResolved={setReferrerName}
+                    email={formData.email}
+                  />
+
+                  {/* Error Message */}
+                  {error && (
+                    <div className="bg-rose-100 border border-rose-300 text-plum-900 px-4 py-3 rounded text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  {/* Submit Button */}
+                  <div className="pt-4">
+                    <button
+                      type="submit"
+                      className="w-full px-6 py-4 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
+                    >
+                      {t.form.continueToReview}
+                    </button>
+                  </div>
+
+                  {/* Back to plans */}
+                  <div className="text-center text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setStep('plan')}
+                      className="text-warmgray-600 hover:text-plum-800 transition-colors"
+                    >
+                      {t.subscribe.changePlan}
+                    </button>
+                  </div>
+                </div>
+              </div>
+              </form>
+
+              {/* Privacy note */}
+              <div className="mt-8 p-6 bg-rose-50 border border-rose-200 rounded text-center text-sm text-warmgray-700">
+                {t.subscribe.privacyNote}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* STEP 3: REVIEW */}
+        {step === 'review' && (
+          <section className="min-h-screen bg-neutral-50 py-20">
+            <div className="max-w-2xl mx-auto px-6">
+              <div className="mb-12 text-center">
+                <h1 className="text-4xl md:text-5xl font-bold text-plum-900 mb-4">
+                  {t.form.reviewTitle}
+                </h1>
+                <p className="text-lg text-warmgray-700">
+                  {t.subscribe.reviewSubtitle}
+                </p>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-lg p-8 md:p-12 border border-warmgray-200 space-y-8">
+                {/* Summary */}
+                <div className="space-y-4">
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <span className="text-warmgray-700 font-medium">{t.subscribe.summaryPlan}</span>
+                    <span className="text-neutral-900 font-semibold">{selectedPlan.name}</span>
+                  </div>
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryName}</span>
+                    <span className="text-neutral-900 font-semibold">{formData.fullName}</span>
+                  </div>
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryEmail}</span>
+                    <span className="text-neutral-900 font-semibold">{formData.email}</span>
+                  </div>
+                  <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                    <span className="text-warmgray-700 font-medium">{t.form.summaryPhone}</span>
+                    <span className="text-neutral-900 font-semibold">{formData.phone}</span>
+                  </div>
+                  {formData.bodyGoals && (
+                    <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                      <span className="text-warmgray-700 font-medium">{t.form.summaryBodyGoals}</span>
+                      <span className="text-neutral-900 font-semibold text-right max-w-xs">{formData.bodyGoals}</span>
+                    </div>
+                  )}
+                  {referrerName && (
+                    <div className="flex justify-between border-b border-warmgray-200 pb-3">
+                      <span className="text-warmgray-700 font-medium">{t.form.summaryReferredBy}</span>
+                      <span className="text-neutral-900 font-semibold">{referrerName} ({formData.referralCode})</span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Membership Details */}
+                <div className="bg-warmgray-50 p-6 rounded">
+                  <h3 className="font-semibold text-plum-900 mb-3">{t.subscribe.detailsTitle}</h3>
+                  <ul className="space-y-2 text-sm text-warmgray-700">
+                    <li>✓ {format(t.subscribe.detailsBilling, { interval: intervalLabel })}</li>
+                    <li>✓ {t.subscribe.detailsCancel}</li>
+                    <li>✓ {t.subscribe.detailsTrainers}</li>
+                    <li>✓ {t.subscribe.detailsAccess}</li>
+                    <li>✓ {t.subscribe.detailsContent}</li>
+                  </ul>
+                </div>
+
+                {/* Discount Code */}
+                <div>
+                  <label htmlFor="discountCode" className="block text-sm font-semibold text-plum-900 mb-2">
+                    {t.subscribe.discountLabel}
+                  </label>
+                  <div className="flex gap-3">
+                    <input
+                      id="discountCode"
+                      name="discountCode"
+                      type="text"
+                      value={discountInput}
+                      onChange={(e) => {
+                        setDiscountInput(e.target.value);
+                        setDiscountError('');
+                      }}
+                      placeholder={t.subscribe.discountPlaceholder}
+                      className="flex-1 px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent uppercase"
+                      disabled={isLoading}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyDiscount}
+                      disabled={isCheckingDiscount || isLoading}
+                      className="px-6 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isCheckingDiscount ? t.subscribe.checking : t.subscribe.apply}
+                    </button>
+                  </div>
+                  {discountError && <p className="mt-2 text-sm text-rose-700">{discountError}</p>}
+                  {discount && (
+                    <p className="mt-2 text-sm text-plum-900">
+                      {format(t.subscribe.codeApplied, { code: discount.code })}{' '}
+                      <button
+                        type="button"
+                        onClick={() => setDiscount(null)}
+                        className="underline text-warmgray-600 hover:text-plum-800"
+                      >
+                        {t.subscribe.remove}
+                      </button>
+                    </p>
+                  )}
+                </div>
+
+                {/* Amount */}
+                <div className="border-t border-warmgray-200 pt-6">
+                  {discount && (
+                    <>
+                      <div className="flex justify-between items-center text-sm text-warmgray-700 mb-2">
+                        <span>{t.subscribe.planPrice}</span>
+                        <span className="line-through">{formatRand(selectedPlan.amountCents)}</span>
+                      </div>
+                      <div className="flex justify-between items-center text-sm font-semibold text-plum-900 mb-2">
+                        <span>{format(t.subscribe.discountLine, { code: discount.code })}</span>
+                        <span>−{formatRand(discount.discountCents)}</span>
+                      </div>
+                    </>
+                  )}
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-lg font-semibold text-neutral-900">
+                      {discount
+                        ? t.subscribe.amountDueToday
+                        : selectedPlan.months === 1
+                          ? t.subscribe.monthlyAmount
+                          : format(t.subscribe.intervalAmount, { interval: intervalLabel })}
+                    </span>
+                    <span className="text-3xl font-bold text-plum-900">
+                      {formatRand(discount?.amountCents ?? selectedPlan.amountCents)}
+                    </span>
+                  </div>
+                  {selectedPlan.months > 1 && (
+                    <div className="flex justify-between items-center text-sm text-warmgray-700 mb-2">
+                      <span>{t.subscribe.worksOutTo}</span>
+                      <span>
+                        {format(t.subscribe.amountPerMonth, {
+                          amount: formatRand(monthlyEquivalentCents(selectedPlan)),
+                        })}
+                      </span>
+                    </div>
+                  )}
+                  {savingsCents > 0 && (
+                    <div className="flex justify-between items-center text-sm font-semibold text-plum-900 mb-2">
+                      <span>{t.subscribe.youSave}</span>
+                      <span>
+                        {format(t.subscribe.savingsTotal, {
+                          perMonth: formatRand(savingsCents),
+                          total: formatRand(savingsCents * selectedPlan.months),
+                        })}
+                      </span>
+                    </div>
+                  )}
+                  <p className="text-xs text-warmgray-600 mt-4 mb-6">
+                    {format(t.subscribe.chargedNote, { interval: intervalLabel.toLowerCase() })}
+                    {discount && ` ${t.subscribe.discountNote}`}
+                  </p>
+                </div>
+
+                {/* Error Message */}
+                {error && (
+                  <div className="bg-rose-100 border border-rose-300 text-plum-900 px-4 py-3 rounded text-sm">
+                    {error}
+                  </div>
+                )}
+
+                {/* Already a member: no second payment */}
+                {alreadyMember && (
+                  <div className="bg-rose-50 border border-rose-200 rounded p-6 space-y-4">
+                    <h3 className="text-xl font-semibold text-plum-900">{t.subscribe.alreadyMemberTitle}</h3>
+                    <p className="text-sm text-warmgray-700">
+                      {format(t.subscribe.alreadyMemberBody, { email: formData.email })}
+                    </p>
+                    {portalLinkState === 'sent' && (
+                      <p className="text-sm font-semibold text-plum-900">
+                        {format(t.subscribe.portalLinkSent, { email: formData.email })}
+                      </p>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      <a
+                        href={portalUrl()}
+                        className="flex-1 px-6 py-3 bg-plum-900 text-white text-center font-semibold rounded hover:bg-plum-800 transition-colors"
+                      >
+                        {t.subscribe.manageMembership}
+                      </a>
+                      <button
+                        type="button"
+                        onClick={handleResendPortalLink}
+                        disabled={portalLinkState !== 'idle'}
+                        className="flex-1 px-6 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {portalLinkState === 'sending' ? t.subscribe.sendingPortalLink : t.subscribe.resendPortalLink}
+                      </button>
+                    </div>
+                    <div className="text-center text-sm">
+                      <button
+                        type="button"
+                        onClick={() => setStep('form')}
+                        className="text-warmgray-600 hover:text-plum-800 transition-colors"
+                      >
+                        {t.form.back}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                {!alreadyMember && (
+                  <div className="flex gap-4 pt-4">
+                    <button
+                      onClick={() => setStep('form')}
+                      className="flex-1 px-6 py-3 border border-warmgray-300 text-neutral-900 font-semibold rounded hover:bg-warmgray-50 transition-colors"
+                      disabled={isLoading}
+                    >
+                      {t.form.back}
+                    </button>
+                    <button
+                      onClick={handleConfirmAndPay}
+                      disabled={isLoading}
+                      className="flex-1 px-6 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? t.subscribe.processing : t.subscribe.confirmAndPay}
+                    </button>
+                  </div>
+                )}
+
+                {/* Terms */}
+                <div className="text-xs text-center text-warmgray-600">
+                  {t.subscribe.terms}
+                </div>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* STEP 4: PROCESSING */}
+        {step === 'processing' && (
+          <section className="min-h-screen bg-neutral-50 flex items-center justify-center py-20">
+            <div className="text-center px-6">
+              <div className="mb-6">
+                <div className="inline-block">
+                  <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full"></div>
+                </div>
+              </div>
+              <h2 className="text-3xl font-bold text-plum-900 mb-2">{t.subscribe.preparingTitle}</h2>
+              <p className="text-warmgray-700">{t.subscribe.redirecting}</p>
+            </div>
+          </section>
+        )}
+      </main>
+
+      <Footer />
+    </>
+  );
+}
+
+export default function SubscribePage() {
+  return (
+    <Suspense fallback={null}>
+      <SubscribeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,70 @@
+import RetryEmailButton from '@/components/admin/RetryEmailButton';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { getEmailOutboxRepository } from '@/lib/email/outbox/outbox-repository';
+import { formatDateTime } from '@/lib/format';
+
+export default async function AdminEmailsPage() {
+  await requireAdminSession();
+
+  const outbox = getEmailOutboxRepository();
+  const [dead, pending] = await Promise.all([outbox.list('dead'), outbox.list('pending')]);
+  const emails = [...dead, ...pending];
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-plum-900 mb-2">Email Outbox</h1>
+      <p className="text-warmgray-700 mb-6">
+        Emails still waiting to go out, and dead letters that ran out of retries. Sent emails
+        are not listed.
+      </p>
+      <p className="text-sm text-warmgray-600 mb-3">
+        {dead.length} dead-lettered, {pending.length} pending
+      </p>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-warmgray-50 text-left text-plum-900">
+            <tr>
+              <th className="px-4 py-3">Queued</th>
+              <th className="px-4 py-3">To</th>
+              <th className="px-4 py-3">Subject</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Attempts</th>
+              <th className="px-4 py-3">Last Error</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {emails.map((email) => (
+              <tr key={email.id} className="border-t border-warmgray-200 align-top">
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(email.createdAt)}</td>
+                <td className="px-4 py-3">{email.message.to}</td>
+                <td className="px-4 py-3">{email.message.subject}</td>
+                <td className="px-4 py-3">
+                  <StatusBadge status={email.status} />
+                  {email.status === 'pending' && email.attempts > 0 && (
+                    <p className="text-xs text-warmgray-600 mt-1 whitespace-nowrap">
+                      Next try {formatDateTime(email.nextAttemptAt)}
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-3">{email.attempts}</td>
+                <td className="px-4 py-3 max-w-xs break-words">{email.lastError ?? '—'}</td>
+                <td className="px-4 py-3">
+                  {email.status === 'dead' && <RetryEmailButton id={email.id} />}
+                </td>
+              </tr>
+            ))}
+            {emails.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-warmgray-600">
+                  The outbox is empty — every email has been delivered.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import LeadEditor from '@/components/admin/LeadEditor';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { formatDateTime } from '@/lib/format';
+import { getFreeTrialRequestRepository } from '@/lib/free-trials/free-trial-repository';
+import { formatSlot } from '@/lib/free-trials/slot-format';
+import { DEFAULT_LOCALE } from '@/lib/i18n/config';
+
+export default async function AdminLeadPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  await requireAdminSession();
+  const { id } = await params;
+  const lead = await getFreeTrialRequestRepository().findById(decodeURIComponent(id));
+  if (!lead) notFound();
+
+  const details: Array<[string, string | undefined]> = [
+    ['Requested', formatDateTime(lead.createdAt)],
+    [
+      'Trial session',
+      lead.booking &&
+        `${formatSlot(lead.booking.slotStart, DEFAULT_LOCALE)}${lead.booking.status === 'cancelled' ? ' (cancelled)' : ''}`,
+    ],
+    ['Body goals', lead.bodyGoals],
+    ['Referred by', lead.referralName],
+    ['Language', lead.locale],
+  ];
+
+  const followUps = Object.entries(lead.followUp?.sent ?? {}).sort(([, a], [, b]) =>
+    a.at.localeCompare(b.at),
+  );
+
+  return (
+    <>
+      <Link href="/admin/free-trials" className="text-sm text-warmgray-600 hover:text-plum-800 underline">
+        ← Back to free trial leads
+      </Link>
+      <h1 className="text-3xl font-bold text-plum-900 mt-4 mb-1 flex items-center gap-3">
+        {lead.name}
+        <StatusBadge status={lead.status} />
+      </h1>
+      <p className="text-warmgray-700 mb-8">
+        <Link href={`/admin/people/${encodeURIComponent(lead.email)}`} className="hover:underline">
+          {lead.email}
+        </Link>
+        {` · ${lead.phone}`}
+        {lead.assignedTo && ` · assigned to ${lead.assignedTo}`}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <section className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-4">Lead</h2>
+            <LeadEditor id={lead.id} status={lead.status} assignedTo={lead.assignedTo} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-4">Details</h2>
+            <dl className="space-y-2 text-sm">
+              {details
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4">
+                    <dt className="text-warmgray-700">{label}</dt>
+                    <dd className="text-right">{value}</dd>
+                  </div>
+                ))}
+            </dl>
+          </div>
+        </section>
+
+        <section className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-4">Notes</h2>
+            {lead.notes.length > 0 ? (
+              <ul className="space-y-4 text-sm">
+                {[...lead.notes].reverse().map((note, index) => (
+                  <li key={`${note.at}-${index}`}>
+                    <p className="text-xs text-warmgray-600">{formatDateTime(note.at)}</p>
+                    <p className="whitespace-pre-line text-neutral-900">{note.text}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-warmgray-600">No notes yet.</p>
+            )}
+          </div>
+
+          {lead.followUp && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-plum-900 mb-4">Follow-up emails</h2>
+              {followUps.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {followUps.map(([template, record]) => (
+                    <li key={template} className="flex justify-between gap-4">
+                      <span>{template}</span>
+                      <span className="text-warmgray-600">
+                        {record.skipped ? 'skipped' : 'sent'} {formatDateTime(record.at)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-warmgray-600">None sent yet.</p>
+              )}
+              {lead.followUp.stoppedAt && (
+                <p className="text-sm text-warmgray-700 mt-4">
+                  Stopped {formatDateTime(lead.followUp.stoppedAt)} — {lead.followUp.stoppedReason}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-6">Status history</h2>
+            <ol className="relative border-l border-warmgray-200 ml-2 space-y-6">
+              {[...lead.statusHistory].reverse().map((change, index) => (
+                <li key={`${change.at}-${index}`} className="ml-6">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-plum-700" />
+                  <p className="text-xs text-warmgray-600">{formatDateTime(change.at)}</p>
+                  <p className="font-semibold text-plum-900">{change.status}</p>
+                  <p className="text-sm text-warmgray-700">{change.reason}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </section>
+      </div>
+    </>
+  );
+}
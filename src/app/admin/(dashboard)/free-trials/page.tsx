@@ -0,0 +1,90 @@
+import Link from 'next/link';
+import FilterBar from '@/components/admin/FilterBar';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { listFreeTrialRequests, parseDashboardFilters } from '@/lib/admin-dashboard';
+import { formatDateTime } from '@/lib/format';
+import { LEAD_STATUSES } from '@/lib/free-trials/lead-status';
+import { formatSlot } from '@/lib/free-trials/slot-format';
+import { DEFAULT_LOCALE } from '@/lib/i18n/config';
+
+export default async function AdminFreeTrialsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdminSession();
+  const filters = parseDashboardFilters(await searchParams);
+  const requests = await listFreeTrialRequests(filters);
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-plum-900 mb-6">Free Trial Leads</h1>
+      <FilterBar action="/admin/free-trials" filters={filters} statuses={LEAD_STATUSES} />
+      <p className="text-sm text-warmgray-600 mb-3">{requests.length} leads</p>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-warmgray-50 text-left text-plum-900">
+            <tr>
+              <th className="px-4 py-3">Requested</th>
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Assigned To</th>
+              <th className="px-4 py-3">Email</th>
+              <th className="px-4 py-3">Phone</th>
+              <th className="px-4 py-3">Trial Session</th>
+              <th className="px-4 py-3">Body Goals</th>
+              <th className="px-4 py-3">Referred By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {requests.map((request) => (
+              <tr key={request.id} className="border-t border-warmgray-200 align-top">
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(request.createdAt)}</td>
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/admin/free-trials/${encodeURIComponent(request.id)}`}
+                    className="text-plum-900 font-semibold hover:underline"
+                  >
+                    {request.name}
+                  </Link>
+                </td>
+                <td className="px-4 py-3">
+                  <StatusBadge status={request.status} />
+                </td>
+                <td className="px-4 py-3">{request.assignedTo ?? '—'}</td>
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/admin/people/${encodeURIComponent(request.email)}`}
+                    className="hover:underline"
+                  >
+                    {request.email}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">{request.phone}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {request.booking ? (
+                    <span className={request.booking.status === 'cancelled' ? 'text-warmgray-600 line-through' : ''}>
+                      {formatSlot(request.booking.slotStart, DEFAULT_LOCALE)}
+                    </span>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className="px-4 py-3 max-w-xs">{request.bodyGoals ?? '—'}</td>
+                <td className="px-4 py-3">{request.referralName ?? '—'}</td>
+              </tr>
+            ))}
+            {requests.length === 0 && (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-warmgray-600">
+                  No free trial leads match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import LogoutButton from '@/components/admin/LogoutButton';
+
+export const metadata: Metadata = {
+  title: 'SheGymZ Admin',
+  robots: { index: false, follow: false },
+};
+
+const NAV_LINKS = [
+  { href: '/admin', label: 'Overview' },
+  { href: '/admin/subscriptions', label: 'Subscription Starts' },
+  { href: '/admin/free-trials', label: 'Free Trials' },
+  { href: '/admin/payments', label: 'Payments' },
+  { href: '/admin/emails', label: 'Emails' },
+];
+
+// Each page checks the session itself; layouts aren't re-run on client navigation.
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <>
+      <header className="bg-white border-b border-warmgray-200">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-8">
+            <Link href="/admin" className="text-lg font-bold text-plum-900">
+              SheGymZ Admin
+            </Link>
+            <nav className="flex gap-6 text-sm font-medium text-warmgray-700">
+              {NAV_LINKS.map((link) => (
+                <Link key={link.href} href={link.href} className="hover:text-plum-800">
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+          <LogoutButton />
+        </div>
+      </header>
+      <main className="flex-grow bg-neutral-50">
+        <div className="max-w-7xl mx-auto px-6 py-10">{children}</div>
+      </main>
+    </>
+  );
+}
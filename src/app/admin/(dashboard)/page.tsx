@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  listFreeTrialRequests,
+  listPayments,
+  listSubscriptionStarts,
+} from '@/lib/admin-dashboard';
+import { formatAmount } from '@/lib/format';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+
+const RECENT_DAYS = 30;
+
+export default async function AdminOverviewPage() {
+  await requireAdminSession();
+
+  const since = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const [starts, payments, trials, memberships] = await Promise.all([
+    listSubscriptionStarts({ from: since }),
+    listPayments({ from: since, status: 'paid' }),
+    listFreeTrialRequests({ from: since }),
+    getMembershipRepository().list(),
+  ]);
+
+  const collectedCents = payments.reduce((sum, record) => sum + record.amountCents, 0);
+  const activeMembers = memberships.filter((m) => m.status === 'active' || m.status === 'non_renewing');
+
+  const cards = [
+    { label: 'Subscription starts', value: String(starts.length), href: `/admin/subscriptions?from=${since}` },
+    { label: 'Payments received', value: formatAmount(collectedCents, 'ZAR'), href: `/admin/payments?from=${since}&status=paid` },
+    { label: 'Free trial leads', value: String(trials.length), href: `/admin/free-trials?from=${since}` },
+    { label: 'Members with access', value: String(activeMembers.length) },
+  ];
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-plum-900 mb-2">Overview</h1>
+      <p className="text-warmgray-700 mb-8">Last {RECENT_DAYS} days</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        {cards.map((card) => {
+          const content = (
+            <>
+              <p className="text-sm text-warmgray-600 mb-2">{card.label}</p>
+              <p className="text-3xl font-bold text-plum-900">{card.value}</p>
+            </>
+          );
+          return card.href ? (
+            <Link
+              key={card.label}
+              href={card.href}
+              className="bg-white rounded-lg shadow p-6 hover:shadow-lg transition-shadow"
+            >
+              {content}
+            </Link>
+          ) : (
+            <div key={card.label} className="bg-white rounded-lg shadow p-6">
+              {content}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
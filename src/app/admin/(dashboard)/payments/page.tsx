@@ -0,0 +1,91 @@
+import Link from 'next/link';
+import FilterBar from '@/components/admin/FilterBar';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { listPayments, parseDashboardFilters } from '@/lib/admin-dashboard';
+import { formatAmount, formatDateTime } from '@/lib/format';
+import { getPlan, listPlans } from '@/lib/payments/plans';
+
+const STATUSES = ['paid', 'failed', 'cancelled', 'refunded'];
+
+export default async function AdminPaymentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdminSession();
+  const filters = parseDashboardFilters(await searchParams);
+  const records = await listPayments(filters);
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-plum-900 mb-6">Payments</h1>
+      <FilterBar
+        action="/admin/payments"
+        filters={filters}
+        statuses={STATUSES}
+        plans={listPlans().map((plan) => ({ id: plan.id, name: plan.name }))}
+      />
+      <p className="text-sm text-warmgray-600 mb-3">{records.length} payments</p>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-warmgray-50 text-left text-plum-900">
+            <tr>
+              <th className="px-4 py-3">Date</th>
+              <th className="px-4 py-3">Reference</th>
+              <th className="px-4 py-3">Member</th>
+              <th className="px-4 py-3">Plan</th>
+              <th className="px-4 py-3">Amount</th>
+              <th className="px-4 py-3">Provider</th>
+              <th className="px-4 py-3">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => {
+              const refundedCents = (record.refunds ?? [])
+                .filter((refund) => refund.status === 'processed')
+                .reduce((sum, refund) => sum + refund.amountCents, 0);
+              return (
+                <tr key={record.id} className="border-t border-warmgray-200">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatDateTime(record.paidAt ?? record.updatedAt)}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{record.id}</td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/admin/people/${encodeURIComponent(record.member.email)}`}
+                      className="text-plum-900 font-semibold hover:underline"
+                    >
+                      {record.member.name}
+                    </Link>
+                    <span className="block text-xs text-warmgray-600">{record.member.email}</span>
+                  </td>
+                  <td className="px-4 py-3">{getPlan(record.planId)?.name ?? record.planId}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatAmount(record.amountCents, record.currency)}
+                    {refundedCents > 0 && (
+                      <span className="block text-xs text-warmgray-600">
+                        {formatAmount(refundedCents, record.currency)} refunded
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">{record.provider}</td>
+                  <td className="px-4 py-3">
+                    <StatusBadge status={record.status} />
+                  </td>
+                </tr>
+              );
+            })}
+            {records.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-warmgray-600">
+                  No payments match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
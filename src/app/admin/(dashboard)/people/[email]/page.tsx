@@ -0,0 +1,146 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { getPersonDetail } from '@/lib/admin-dashboard';
+import { formatAmount, formatDate, formatDateTime } from '@/lib/format';
+import { getPlan } from '@/lib/payments/plans';
+
+export default async function AdminPersonPage({
+  params,
+}: {
+  params: Promise<{ email: string }>;
+}) {
+  await requireAdminSession();
+  const { email } = await params;
+  const person = await getPersonDetail(decodeURIComponent(email));
+  if (!person) notFound();
+
+  const { membership } = person;
+
+  return (
+    <>
+      <Link href="/admin" className="text-sm text-warmgray-600 hover:text-plum-800 underline">
+        ← Back to overview
+      </Link>
+      <h1 className="text-3xl font-bold text-plum-900 mt-4 mb-1">{person.name ?? person.email}</h1>
+      <p className="text-warmgray-700 mb-8">
+        {person.email}
+        {person.phone && ` · ${person.phone}`}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <section className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-4">Membership</h2>
+            {membership ? (
+              <dl className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-warmgray-700">Status</dt>
+                  <dd>
+                    <StatusBadge status={membership.status} />
+                  </dd>
+                </div>
+                {membership.planId && (
+                  <div className="flex justify-between">
+                    <dt className="text-warmgray-700">Plan</dt>
+                    <dd>{getPlan(membership.planId)?.name ?? membership.planId}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <dt className="text-warmgray-700">Provider</dt>
+                  <dd>{membership.provider}</dd>
+                </div>
+                {membership.nextPaymentDate && (
+                  <div className="flex justify-between">
+                    <dt className="text-warmgray-700">Next payment</dt>
+                    <dd>{formatDate(membership.nextPaymentDate)}</dd>
+                  </div>
+                )}
+                {membership.accessEndsAt && (
+                  <div className="flex justify-between">
+                    <dt className="text-warmgray-700">Access ends</dt>
+                    <dd>{formatDate(membership.accessEndsAt)}</dd>
+                  </div>
+                )}
+                {membership.referralCode && (
+                  <div className="flex justify-between">
+                    <dt className="text-warmgray-700">Referral code</dt>
+                    <dd className="font-mono">{membership.referralCode}</dd>
+                  </div>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-warmgray-600">Not a member yet.</p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-plum-900 mb-4">Payments</h2>
+            {person.payments.length > 0 ? (
+              <ul className="space-y-3 text-sm">
+                {person.payments.map((record) => (
+                  <li key={record.id} className="flex justify-between gap-4">
+                    <span>
+                      {formatAmount(record.amountCents, record.currency)}
+                      <span className="block text-xs text-warmgray-600 font-mono">{record.id}</span>
+                    </span>
+                    <StatusBadge status={record.status} />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-warmgray-600">No payments.</p>
+            )}
+          </div>
+
+          {(person.referralsMade.length > 0 || person.referredBy) && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-plum-900 mb-4">Referrals</h2>
+              {person.referredBy && (
+                <p className="text-sm mb-3">
+                  Referred by{' '}
+                  <Link
+                    href={`/admin/people/${encodeURIComponent(person.referredBy.referrerEmail)}`}
+                    className="text-plum-900 font-semibold hover:underline"
+                  >
+                    {person.referredBy.referrerEmail}
+                  </Link>
+                </p>
+              )}
+              {person.referralsMade.length > 0 && (
+                <ul className="space-y-2 text-sm">
+                  {person.referralsMade.map((referral) => (
+                    <li key={referral.id} className="flex justify-between gap-4">
+                      <Link
+                        href={`/admin/people/${encodeURIComponent(referral.referredEmail)}`}
+                        className="text-plum-900 hover:underline"
+                      >
+                        {referral.referredName}
+                      </Link>
+                      <span className="text-warmgray-600">free month {referral.reward.status}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-plum-900 mb-6">Timeline</h2>
+          <ol className="relative border-l border-warmgray-200 ml-2 space-y-6">
+            {person.timeline.map((entry, index) => (
+              <li key={`${entry.at}-${index}`} className="ml-6">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-plum-700" />
+                <p className="text-xs text-warmgray-600">{formatDateTime(entry.at)}</p>
+                <p className="font-semibold text-plum-900">{entry.title}</p>
+                {entry.detail && <p className="text-sm text-warmgray-700">{entry.detail}</p>}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </>
+  );
+}
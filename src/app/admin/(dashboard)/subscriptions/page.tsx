@@ -0,0 +1,83 @@
+import Link from 'next/link';
+import FilterBar from '@/components/admin/FilterBar';
+import StatusBadge from '@/components/admin/StatusBadge';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { listSubscriptionStarts, parseDashboardFilters } from '@/lib/admin-dashboard';
+import { formatAmount, formatDateTime } from '@/lib/format';
+import { getPlan, listPlans } from '@/lib/payments/plans';
+
+const STATUSES = ['pending', 'paid', 'failed', 'cancelled', 'refunded'];
+
+export default async function AdminSubscriptionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdminSession();
+  const filters = parseDashboardFilters(await searchParams);
+  const records = await listSubscriptionStarts(filters);
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold text-plum-900 mb-6">Subscription Starts</h1>
+      <FilterBar
+        action="/admin/subscriptions"
+        filters={filters}
+        statuses={STATUSES}
+        plans={listPlans().map((plan) => ({ id: plan.id, name: plan.name }))}
+      />
+      <p className="text-sm text-warmgray-600 mb-3">{records.length} checkouts</p>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-warmgray-50 text-left text-plum-900">
+            <tr>
+              <th className="px-4 py-3">Started</th>
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">Email</th>
+              <th className="px-4 py-3">Phone</th>
+              <th className="px-4 py-3">Plan</th>
+              <th className="px-4 py-3">Amount</th>
+              <th className="px-4 py-3">Referred By</th>
+              <th className="px-4 py-3">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => (
+              <tr key={record.id} className="border-t border-warmgray-200">
+                <td className="px-4 py-3 whitespace-nowrap">{formatDateTime(record.createdAt)}</td>
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/admin/people/${encodeURIComponent(record.member.email)}`}
+                    className="text-plum-900 font-semibold hover:underline"
+                  >
+                    {record.member.name}
+                  </Link>
+                </td>
+                <td className="px-4 py-3">{record.member.email}</td>
+                <td className="px-4 py-3 whitespace-nowrap">{record.member.phone}</td>
+                <td className="px-4 py-3">{getPlan(record.planId)?.name ?? record.planId}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {formatAmount(record.amountCents, record.currency)}
+                  {record.discount && (
+                    <span className="block text-xs text-warmgray-600">{record.discount.code}</span>
+                  )}
+                </td>
+                <td className="px-4 py-3">{record.member.referralName ?? '—'}</td>
+                <td className="px-4 py-3">
+                  <StatusBadge status={record.status} />
+                </td>
+              </tr>
+            ))}
+            {records.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-warmgray-600">
+                  No subscription starts match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import '../globals.css';
+import { siteIcons } from '../site-metadata';
+
+export const metadata: Metadata = {
+  title: 'SheGymZ Admin',
+  icons: siteIcons,
+  robots: { index: false, follow: false },
+};
+
+// The admin area is English-only and sits outside the [locale] pages, so it has its own root layout.
+export default function AdminRootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body className="bg-neutral-50 text-neutral-900 antialiased">
+        <div className="flex flex-col min-h-screen">
+          {children}
+        </div>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getDiscountCodeRepository } from '@/lib/discounts/discount-code-repository';
+import type { DiscountType, NewDiscountCode } from '@/lib/discounts/types';
+import { getPlan } from '@/lib/payments/plans';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/** GET /api/admin/discount-codes — lists all codes with their usage. */
+export const GET = withRequestLogging('admin/discount-codes', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const codes = await getDiscountCodeRepository().list();
+  return NextResponse.json({ codes });
+});
+
+/**
+ * POST /api/admin/discount-codes
+ *
+ * Creates a code. Body: { code, type: 'percentage' | 'fixed', value,
+ * description?, expiresAt?, maxRedemptions?, planIds? } where `value` is a
+ * percentage (1–100) or an amount in cents.
+ */
+export const POST = withRequestLogging('admin/discount-codes', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: Partial<NewDiscountCode>;
+  try {
+    body = (await request.json()) as Partial<NewDiscountCode>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const error = validateNewCode(body);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const created = await getDiscountCodeRepository().create({
+      code: body.code!,
+      type: body.type as DiscountType,
+      value: body.value!,
+      description: body.description?.trim() || undefined,
+      expiresAt: body.expiresAt ? new Date(body.expiresAt).toISOString() : undefined,
+      maxRedemptions: body.maxRedemptions,
+      planIds: body.planIds?.length ? body.planIds : undefined,
+      active: body.active ?? true,
+    });
+    return NextResponse.json({ code: created }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 409 });
+  }
+});
+
+function validateNewCode(body: Partial<NewDiscountCode>): string | undefined {
+  if (!body.code?.trim() || !/^[A-Za-z0-9_-]{3,32}$/.test(body.code.trim())) {
+    return 'code must be 3–32 letters, digits, dashes or underscores';
+  }
+  if (body.type !== 'percentage' && body.type !== 'fixed') {
+    return "type must be 'percentage' or 'fixed'";
+  }
+  if (typeof body.value !== 'number' || !Number.isInteger(body.value) || body.value <= 0) {
+    return 'value must be a positive whole number';
+  }
+  if (body.type === 'percentage' && body.value > 100) {
+    return 'A percentage discount cannot exceed 100';
+  }
+  if (body.expiresAt && Number.isNaN(new Date(body.expiresAt).getTime())) {
+    return 'expiresAt must be a valid date';
+  }
+  if (
+    body.maxRedemptions !== undefined &&
+    (!Number.isInteger(body.maxRedemptions) || body.maxRedemptions <= 0)
+  ) {
+    return 'maxRedemptions must be a positive whole number';
+  }
+  const unknownPlan = body.planIds?.find((planId) => !getPlan(planId));
+  if (unknownPlan) {
+    return `Unknown plan: ${unknownPlan}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { retryDeadLetter, summarizeOutboxEmail } from '@/lib/email/outbox/outbox';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * POST /api/admin/email-outbox/:id/retry
+ *
+ * Puts a dead-lettered email back in the queue with a fresh set of attempts
+ * and tries to deliver it straight away.
+ */
+export const POST = withRequestLogging(
+  'admin/email-outbox/retry',
+  async (request, _log, { params }: { params: Promise<{ id: string }> }) => {
+    if (!(await isAdminRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const email = await retryDeadLetter(id);
+    if (!email) {
+      return NextResponse.json({ error: 'Dead-lettered email not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ email: summarizeOutboxEmail(email) });
+  },
+);
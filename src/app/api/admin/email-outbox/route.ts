@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { summarizeOutboxEmail } from '@/lib/email/outbox/outbox';
+import { getEmailOutboxRepository } from '@/lib/email/outbox/outbox-repository';
+import type { OutboxStatus } from '@/lib/email/outbox/types';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+const STATUSES: OutboxStatus[] = ['pending', 'sent', 'dead'];
+
+/**
+ * GET /api/admin/email-outbox?status=dead
+ *
+ * Lists queued emails, newest first. Defaults to the dead-letter list.
+ */
+export const GET = withRequestLogging('admin/email-outbox', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status') ?? 'dead';
+  if (status !== 'all' && !STATUSES.includes(status as OutboxStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of: all, ${STATUSES.join(', ')}` },
+      { status: 400 },
+    );
+  }
+
+  const emails = await getEmailOutboxRepository().list(
+    status === 'all' ? undefined : (status as OutboxStatus),
+  );
+  return NextResponse.json({ emails: emails.map(summarizeOutboxEmail) });
+});
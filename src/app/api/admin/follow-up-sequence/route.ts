@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getFollowUpSequenceRepository } from '@/lib/free-trials/follow-up-sequence-repository';
+import type { FollowUpSequence, FollowUpTemplate } from '@/lib/free-trials/types';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+const TEMPLATES: FollowUpTemplate[] = ['thanks', 'trial-reminder', 'join-now'];
+/** A month either side of the anchor */
+const MAX_OFFSET_HOURS = 30 * 24;
+
+/** GET /api/admin/follow-up-sequence — the emails sent to free-trial leads and when. */
+export const GET = withRequestLogging('admin/follow-up-sequence', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json({ sequence: await getFollowUpSequenceRepository().get() });
+});
+
+/**
+ * PUT /api/admin/follow-up-sequence
+ *
+ * Replaces the sequence. Body: { steps: [{ template: 'join-now', anchor:
+ * 'trial', offsetHours: 72, enabled: true }, …] }. `anchor: 'trial'` counts
+ * from the booked session (or the request, for visitors who didn't book);
+ * a negative offset sends before it. Each template may appear once, and
+ * the trial reminder must be anchored to the trial.
+ */
+export const PUT = withRequestLogging('admin/follow-up-sequence', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: Partial<FollowUpSequence>;
+  try {
+    body = (await request.json()) as Partial<FollowUpSequence>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const error = validateSequence(body);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const sequence = await getFollowUpSequenceRepository().save({
+    steps: body.steps!.map(({ template, anchor, offsetHours, enabled }) => ({
+      template,
+      anchor,
+      offsetHours,
+      enabled,
+    })),
+  });
+  return NextResponse.json({ sequence });
+});
+
+function validateSequence(body: Partial<FollowUpSequence>): string | undefined {
+  if (!Array.isArray(body.steps)) {
+    return 'steps must be a list';
+  }
+  for (const [index, step] of body.steps.entries()) {
+    if (!TEMPLATES.includes(step?.template)) {
+      return `steps[${index}].template must be one of: ${TEMPLATES.join(', ')}`;
+    }
+    if (step.anchor !== 'submitted' && step.anchor !== 'trial') {
+      return `steps[${index}].anchor must be submitted or trial`;
+    }
+    if (step.template === 'trial-reminder' && step.anchor !== 'trial') {
+      return `steps[${index}]: the trial reminder must be anchored to the trial`;
+    }
+    if (
+      typeof step.offsetHours !== 'number' ||
+      !Number.isInteger(step.offsetHours) ||
+      Math.abs(step.offsetHours) > MAX_OFFSET_HOURS
+    ) {
+      return `steps[${index}].offsetHours must be a whole number from -${MAX_OFFSET_HOURS} to ${MAX_OFFSET_HOURS}`;
+    }
+    if (typeof step.enabled !== 'boolean') {
+      return `steps[${index}].enabled must be true or false`;
+    }
+  }
+  if (new Set(body.steps.map((step) => step.template)).size !== body.steps.length) {
+    return 'Each template can only appear once';
+  }
+  return undefined;
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getFreeTrialRequestRepository } from '@/lib/free-trials/free-trial-repository';
+import { isLeadStatus, LEAD_STATUSES } from '@/lib/free-trials/lead-status';
+import type { LeadUpdate } from '@/lib/free-trials/types';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+const MAX_NOTE_LENGTH = 2000;
+
+/** GET /api/admin/leads/:id — a free-trial lead with its notes and status history. */
+export const GET = withRequestLogging(
+  'admin/leads',
+  async (request, _log, { params }: { params: Promise<{ id: string }> }) => {
+    if (!(await isAdminRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const lead = await getFreeTrialRequestRepository().findById(id);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ lead });
+  },
+);
+
+/**
+ * PATCH /api/admin/leads/:id
+ *
+ * Body: { status?, reason?, assignedTo?, note? }. Moving a lead records the
+ * change (and reason) in its history; `assignedTo: null` or '' unassigns it;
+ * `note` is appended to the lead's notes.
+ */
+export const PATCH = withRequestLogging(
+  'admin/leads',
+  async (request, _log, { params }: { params: Promise<{ id: string }> }) => {
+    if (!(await isAdminRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: LeadUpdate;
+    try {
+      body = (await request.json()) as LeadUpdate;
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    if (body.status !== undefined && !isLeadStatus(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${LEAD_STATUSES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (body.assignedTo !== undefined && body.assignedTo !== null && typeof body.assignedTo !== 'string') {
+      return NextResponse.json({ error: 'assignedTo must be a string or null' }, { status: 400 });
+    }
+    if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > MAX_NOTE_LENGTH)) {
+      return NextResponse.json(
+        { error: `note must be text of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+    if (body.reason !== undefined && typeof body.reason !== 'string') {
+      return NextResponse.json({ error: 'reason must be a string' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const lead = await getFreeTrialRequestRepository().updateLead(id, {
+      status: body.status,
+      reason: body.reason,
+      assignedTo: body.assignedTo,
+      note: body.note,
+    });
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ lead });
+  },
+);
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { reconcilePayments } from '@/lib/payments/reconciliation';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * POST /api/admin/reconciliation
+ *
+ * Reconciles Paystack transactions with our checkout records and returns the
+ * discrepancy report. Body (all optional): { from, to, notify } — ISO dates
+ * defaulting to the last 48 hours, and whether to email the report to the admin.
+ */
+export const POST = withRequestLogging('admin/reconciliation', async (request, log) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { from?: string; to?: string; notify?: boolean };
+  try {
+    body = (await request.json().catch(() => ({}))) as typeof body;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const from = body.from ? new Date(body.from) : undefined;
+  const to = body.to ? new Date(body.to) : undefined;
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return NextResponse.json({ error: 'from and to must be valid dates' }, { status: 400 });
+  }
+
+  try {
+    const result = await reconcilePayments({ from, to, notify: body.notify ?? false });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 502 });
+    }
+    return NextResponse.json({ report: result.report });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Reconciliation failed' }, { status: 500 });
+  }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getReferralRepository } from '@/lib/referrals/referral-repository';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * POST /api/admin/referrals/:id/grant
+ *
+ * Marks a referral's free month as given to the referrer. The month itself is
+ * applied by staff on the provider's dashboard; this keeps the ledger honest.
+ */
+export const POST = withRequestLogging(
+  'admin/referrals/grant',
+  async (request, _log, { params }: { params: Promise<{ id: string }> }) => {
+    if (!(await isAdminRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const referral = await getReferralRepository().markRewardGranted(id);
+    if (!referral) {
+      return NextResponse.json({ error: 'Referral not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ referral });
+  },
+);
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { summarizeReferrals } from '@/lib/referrals/referrals';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/** GET /api/admin/referrals — referrals grouped by referrer, with reward status. */
+export const GET = withRequestLogging('admin/referrals', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const referrers = await summarizeReferrals();
+  return NextResponse.json({ referrers });
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import { startRefund } from '@/lib/payments/refunds';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * POST /api/admin/refunds
+ *
+ * Starts a refund. Body: { reference, amountCents?, reason? } where
+ * `reference` is our payment record id and `amountCents` is omitted for a
+ * full refund. Once the payment is fully refunded, a membership it paid
+ * for is lapsed and its subscription cancelled; `membershipStatus` reports
+ * where the member's membership stands.
+ */
+export const POST = withRequestLogging('admin/refunds', async (request, log) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { reference?: string; amountCents?: number; reason?: string };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!body.reference?.trim()) {
+    return NextResponse.json({ error: 'Missing payment reference' }, { status: 400 });
+  }
+  if (body.amountCents !== undefined && typeof body.amountCents !== 'number') {
+    return NextResponse.json({ error: 'amountCents must be a number' }, { status: 400 });
+  }
+
+  try {
+    const result = await startRefund({
+      reference: body.reference.trim(),
+      amountCents: body.amountCents,
+      reason: body.reason?.trim() || undefined,
+      requestedBy: 'admin',
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const membership = await getMembershipRepository().findByEmail(result.record.member.email);
+    return NextResponse.json({
+      reference: result.record.id,
+      refund: result.refund,
+      paymentStatus: result.record.status,
+      membershipStatus: membership?.status ?? null,
+    });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Failed to start refund' }, { status: 500 });
+  }
+});
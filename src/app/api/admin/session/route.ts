@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  createAdminSession,
+  isAdminPassword,
+  isAdminRequest,
+  limitAdminLogins,
+  revokeAdminSessions,
+} from '@/lib/admin-auth';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+import { tooManyRequests } from '@/lib/rate-limit/rate-limit';
+import { isJsonObject } from '@/lib/validation';
+
+/** POST /api/admin/session — logs in to /admin. Body: { password } */
+export const POST = withRequestLogging('admin/session', async (request, log) => {
+  const limit = await limitAdminLogins(request);
+  if (!limit.allowed) {
+    log.warn('Login attempts limited');
+    return tooManyRequests(limit.retryAfterSeconds);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (!isJsonObject(body)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!isAdminPassword(typeof body.password === 'string' ? body.password : '')) {
+    return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+  }
+
+  let session: string;
+  try {
+    session = await createAdminSession();
+  } catch (error) {
+    log.error('Cannot create session', { error });
+    return NextResponse.json({ error: 'Admin login is not configured' }, { status: 500 });
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, session, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: ADMIN_SESSION_TTL_SECONDS,
+  });
+  return response;
+});
+
+/**
+ * DELETE /api/admin/session — logs out. The session generation is bumped so
+ * the old cookie stops working even if it was copied elsewhere; this ends
+ * every open admin session.
+ */
+export const DELETE = withRequestLogging('admin/session', async (request) => {
+  if (await isAdminRequest(request)) {
+    await revokeAdminSessions();
+  }
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+});
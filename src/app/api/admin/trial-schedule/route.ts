@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getTrialScheduleRepository } from '@/lib/free-trials/schedule-repository';
+import { listSlots, WEEKDAYS } from '@/lib/free-trials/slots';
+import type { TrialSchedule, Weekday } from '@/lib/free-trials/types';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/** GET /api/admin/trial-schedule — the schedule plus upcoming sessions and their bookings. */
+export const GET = withRequestLogging('admin/trial-schedule', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const [schedule, slots] = await Promise.all([getTrialScheduleRepository().get(), listSlots()]);
+  return NextResponse.json({ schedule, slots });
+});
+
+/**
+ * PUT /api/admin/trial-schedule
+ *
+ * Replaces the schedule. Body: { weekly: { monday: [{ time: '06:00',
+ * capacity: 4 }], … }, durationMinutes, bookingWindowDays, minNoticeHours,
+ * blackoutDates: ['2026-12-25'] }. Existing bookings are kept even if their
+ * session is no longer on the schedule.
+ */
+export const PUT = withRequestLogging('admin/trial-schedule', async (request) => {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: Partial<TrialSchedule>;
+  try {
+    body = (await request.json()) as Partial<TrialSchedule>;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const error = validateSchedule(body);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const schedule = await getTrialScheduleRepository().save({
+    weekly: body.weekly!,
+    durationMinutes: body.durationMinutes!,
+    bookingWindowDays: body.bookingWindowDays!,
+    minNoticeHours: body.minNoticeHours!,
+    blackoutDates: [...new Set(body.blackoutDates ?? [])].sort(),
+  });
+  return NextResponse.json({ schedule });
+});
+
+function isWholeNumber(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function validateSchedule(body: Partial<TrialSchedule>): string | undefined {
+  if (!body.weekly || typeof body.weekly !== 'object') {
+    return 'weekly is required';
+  }
+  for (const [day, slots] of Object.entries(body.weekly)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return `Unknown weekday: ${day}`;
+    }
+    if (!Array.isArray(slots)) {
+      return `weekly.${day} must be a list of sessions`;
+    }
+    for (const slot of slots) {
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(slot?.time ?? '')) {
+        return `weekly.${day}: time must be HH:mm`;
+      }
+      if (!isWholeNumber(slot.capacity, 1, 100)) {
+        return `weekly.${day}: capacity must be a whole number from 1 to 100`;
+      }
+    }
+    if (new Set(slots.map((slot) => slot.time)).size !== slots.length) {
+      return `weekly.${day} lists the same time twice`;
+    }
+  }
+  if (!isWholeNumber(body.durationMinutes, 15, 480)) {
+    return 'durationMinutes must be a whole number from 15 to 480';
+  }
+  if (!isWholeNumber(body.bookingWindowDays, 1, 60)) {
+    return 'bookingWindowDays must be a whole number from 1 to 60';
+  }
+  if (!isWholeNumber(body.minNoticeHours, 0, 168)) {
+    return 'minNoticeHours must be a whole number from 0 to 168';
+  }
+  if (body.blackoutDates !== undefined && !Array.isArray(body.blackoutDates)) {
+    return 'blackoutDates must be a list of dates';
+  }
+  const badDate = (body.blackoutDates ?? []).find(
+    (date) => !/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(date).getTime()),
+  );
+  if (badDate !== undefined) {
+    return `blackoutDates must be YYYY-MM-DD dates (got ${badDate})`;
+  }
+  return undefined;
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { applyDiscountCode } from '@/lib/discounts/discounts';
+import { DEFAULT_PLAN_ID, getPlan } from '@/lib/payments/plans';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+import { isJsonObject } from '@/lib/validation';
+
+/**
+ * POST /api/discount-codes/validate
+ *
+ * Lets the subscribe page preview a code before checkout. /api/subscribe
+ * validates the code again, so this is informational only.
+ */
+export const POST = withRequestLogging('discount-codes/validate', async (request, log) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (!isJsonObject(body)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return NextResponse.json({ error: 'Please enter a discount code' }, { status: 400 });
+  }
+
+  const planId = body.planId ?? DEFAULT_PLAN_ID;
+  const plan = getPlan(planId);
+  if (!plan) {
+    return NextResponse.json({ error: `Unknown plan: ${String(planId)}` }, { status: 400 });
+  }
+
+  try {
+    const result = await applyDiscountCode(body.code, plan);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      code: result.discount.code,
+      originalAmountCents: result.discount.originalAmountCents,
+      discountCents: result.discount.discountCents,
+      amountCents: result.discount.amountCents,
+    });
+  } catch (error) {
+    log.error('Validation error', { error });
+    return NextResponse.json({ error: 'Unable to check discount code' }, { status: 500 });
+  }
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { isPublicForm, issueFormToken } from '@/lib/form-protection';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * GET /api/form-token?form=subscribe|free-trial
+ *
+ * Issued when a sign-up form loads and sent back with the submission, which
+ * is refused if it comes back too soon or not at all.
+ */
+export const GET = withRequestLogging('form-token', async (request) => {
+  const form = request.nextUrl.searchParams.get('form');
+  if (!isPublicForm(form)) {
+    return NextResponse.json({ error: 'form must be subscribe or free-trial' }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    { token: issueFormToken(form) },
+    { headers: { 'Cache-Control': 'no-store' } },
+  );
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { cancelTrialWithToken } from '@/lib/free-trials/bookings';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+export const POST = withRequestLogging('free-trial/booking/cancel', async (request, log) => {
+  let token: string | undefined;
+  try {
+    ({ token } = (await request.json()) as { token?: string });
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!token) {
+    return NextResponse.json({ error: 'Missing booking token' }, { status: 400 });
+  }
+
+  try {
+    const result = await cancelTrialWithToken(token);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, status: result.request.booking!.status });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Failed to cancel booking' }, { status: 500 });
+  }
+});
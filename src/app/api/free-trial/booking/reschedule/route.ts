@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { rescheduleTrialWithToken } from '@/lib/free-trials/bookings';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+export const POST = withRequestLogging('free-trial/booking/reschedule', async (request, log) => {
+  let body: { token?: string; slotStart?: string };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!body.token) {
+    return NextResponse.json({ error: 'Missing booking token' }, { status: 400 });
+  }
+  if (!body.slotStart) {
+    return NextResponse.json({ error: 'Please choose a new session' }, { status: 400 });
+  }
+
+  try {
+    const result = await rescheduleTrialWithToken(body.token, body.slotStart);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      slotStart: result.request.booking!.slotStart,
+      slotEnd: result.request.booking!.slotEnd,
+    });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Failed to reschedule booking' }, { status: 500 });
+  }
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { findBookingByToken } from '@/lib/free-trials/bookings';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/** GET /api/free-trial/booking?token=… — the booking behind a manage link. */
+export const GET = withRequestLogging('free-trial/booking', async (request, log) => {
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) {
+    return NextResponse.json({ error: 'Missing booking token' }, { status: 400 });
+  }
+
+  try {
+    const trialRequest = await findBookingByToken(token);
+    if (!trialRequest?.booking) {
+      return NextResponse.json(
+        { error: 'This booking link is invalid or has expired' },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({
+      name: trialRequest.name,
+      status: trialRequest.booking.status,
+      slotStart: trialRequest.booking.slotStart,
+      slotEnd: trialRequest.booking.slotEnd,
+    });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Failed to load booking' }, { status: 500 });
+  }
+});
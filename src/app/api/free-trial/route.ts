@@ -1,50 +1,102 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { sendFreeTrialRequestEmail } from '@/lib/email';
+import { NextResponse } from 'next/server';
+import {
+  detectAutomatedSubmission,
+  FORM_REJECTED,
+  limitFormByEmail,
+  limitFormByIp,
+} from '@/lib/form-protection';
+import { requestFreeTrial } from '@/lib/free-trials/bookings';
+import { isLocale } from '@/lib/i18n/config';
+import { tooManyRequests } from '@/lib/rate-limit/rate-limit';
+import { resolveReferralCode } from '@/lib/referrals/referrals';
+import { isJsonObject, validateContactDetails } from '@/lib/validation';
+import { withRequestLogging } from '@/lib/logging/request-logging';
 
 interface FreeTrialRequestBody {
   name: string;
   email: string;
   phone: string;
   bodyGoals?: string;
-  referralName?: string;
+  referralCode?: string;
+  locale?: string;
+  /** Start of the chosen trial session, from GET /api/free-trial/slots */
+  slotStart?: string;
+  /** From GET /api/form-token?form=free-trial */
+  formToken?: string;
 }
 
-export async function POST(request: NextRequest) {
-  let body: FreeTrialRequestBody;
+export const POST = withRequestLogging('free-trial', async (request, log) => {
+  const ipLimit = await limitFormByIp('free-trial', request);
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit.retryAfterSeconds);
+  }
+
+  let parsed: unknown;
 
   try {
-    body = (await request.json()) as FreeTrialRequestBody;
+    parsed = await request.json();
   } catch {
     return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
   }
+  if (!isJsonObject(parsed)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const body = parsed as Partial<FreeTrialRequestBody>;
 
-  const { name, email, phone, bodyGoals, referralName } = body;
+  const automated = detectAutomatedSubmission('free-trial', body);
+  if (automated) {
+    log.warn('Rejected submission', { reason: automated });
+    return NextResponse.json({ error: FORM_REJECTED, code: 'form_rejected' }, { status: 400 });
+  }
 
-  if (!name?.trim()) {
-    return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+  const validation = validateContactDetails(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Please correct the highlighted fields', fieldErrors: validation.errors },
+      { status: 400 },
+    );
   }
-  if (!email?.trim() || !email.includes('@')) {
-    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+  const { name, email, phone, bodyGoals, referralCode } = validation.data;
+  const { locale, slotStart } = body;
+
+  const emailLimit = await limitFormByEmail('free-trial', email);
+  if (!emailLimit.allowed) {
+    return tooManyRequests(emailLimit.retryAfterSeconds);
   }
-  if (!phone?.trim()) {
-    return NextResponse.json({ error: 'Phone number is required' }, { status: 400 });
+
+  let referral;
+  if (referralCode) {
+    const resolved = await resolveReferralCode(referralCode, email);
+    if (!resolved.success) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+    referral = resolved.referral;
   }
 
-  const sent = await sendFreeTrialRequestEmail({
-    name: name.trim(),
-    email: email.trim(),
-    phone: phone.trim(),
-    bodyGoals: bodyGoals?.trim(),
-    referralName: referralName?.trim(),
-  });
+  const trialRequest = {
+    name,
+    email,
+    phone,
+    bodyGoals,
+    referralName: referral?.referrerName,
+    referralCode: referral?.code,
+    locale: isLocale(locale) ? locale : undefined,
+  };
 
-  if (!sent) {
-    console.error('[free-trial] Email delivery failed for:', email);
+  try {
+    const result = await requestFreeTrial(trialRequest, slotStart?.trim() || undefined);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({
+      success: true,
+      slotStart: result.request.booking?.slotStart ?? null,
+    });
+  } catch (error) {
+    log.error('Failed to store request', { error });
     return NextResponse.json(
       { error: 'We could not process your request right now. Please try again later.' },
       { status: 500 },
     );
   }
-
-  return NextResponse.json({ success: true });
-}
+});
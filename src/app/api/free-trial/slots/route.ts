@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listAvailableSlots } from '@/lib/free-trials/slots';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * GET /api/free-trial/slots
+ *
+ * Upcoming trial sessions with places left, for the booking forms. Only the
+ * number of free places is returned, never who has booked.
+ */
+export const GET = withRequestLogging('free-trial/slots', async (_request, log) => {
+  try {
+    const slots = await listAvailableSlots();
+    return NextResponse.json({
+      slots: slots.map(({ start, end, remaining }) => ({ start, end, remaining })),
+    });
+  } catch (error) {
+    log.error('Failed to list slots', { error });
+    return NextResponse.json({ error: 'Unable to load trial sessions' }, { status: 500 });
+  }
+});
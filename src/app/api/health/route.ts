@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/health — liveness: the server is up and answering. Used by the
+ * Docker healthcheck every 30 seconds, so it checks no dependencies and
+ * isn't wrapped in request logging. Dependencies are covered by /api/ready.
+ */
+export async function GET() {
+  return NextResponse.json(
+    { status: 'ok', uptimeSeconds: Math.round(process.uptime()) },
+    { headers: { 'Cache-Control': 'no-store' } },
+  );
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { requestCancellationLink } from '@/lib/memberships/cancellation';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+export const POST = withRequestLogging('membership/cancel/request', async (request, log) => {
+  let email: string | undefined;
+  try {
+    ({ email } = (await request.json()) as { email?: string });
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!email?.trim() || !email.includes('@')) {
+    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+  }
+
+  try {
+    await requestCancellationLink(email);
+  } catch (error) {
+    log.error('Failed to send cancellation link', { error });
+    return NextResponse.json(
+      { error: 'We could not process your request right now. Please try again later.' },
+      { status: 500 },
+    );
+  }
+
+  // Same response whether or not the email has a membership.
+  return NextResponse.json({ success: true });
+});
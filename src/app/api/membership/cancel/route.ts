@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { cancelMembershipWithToken } from '@/lib/memberships/cancellation';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+export const POST = withRequestLogging('membership/cancel', async (request, log) => {
+  let token: string | undefined;
+  try {
+    ({ token } = (await request.json()) as { token?: string });
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!token) {
+    return NextResponse.json({ error: 'Missing cancellation token' }, { status: 400 });
+  }
+
+  try {
+    const result = await cancelMembershipWithToken(token);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.membership.status,
+      accessEndsAt: result.membership.accessEndsAt ?? null,
+    });
+  } catch (error) {
+    log.error('Unexpected error', { error });
+    return NextResponse.json({ error: 'Failed to cancel membership' }, { status: 500 });
+  }
+});
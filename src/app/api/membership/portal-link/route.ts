@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { limitPortalLinkRequests, requestPortalLink } from '@/lib/memberships/portal-link';
+import { tooManyRequests } from '@/lib/rate-limit/rate-limit';
+import { parseEmail } from '@/lib/validation';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+export const POST = withRequestLogging('membership/portal-link', async (request, log) => {
+  let body: { email?: unknown };
+  try {
+    body = (await request.json()) as { email?: unknown };
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const email = typeof body.email === 'string' ? parseEmail(body.email) : undefined;
+  if (!email) {
+    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+  }
+
+  const limit = await limitPortalLinkRequests(email);
+  if (!limit.allowed) {
+    return tooManyRequests(limit.retryAfterSeconds);
+  }
+
+  try {
+    await requestPortalLink(email);
+  } catch (error) {
+    log.error('Failed to send portal link', { error });
+    return NextResponse.json(
+      { error: 'We could not process your request right now. Please try again later.' },
+      { status: 500 },
+    );
+  }
+
+  // Same response whether or not the email has a membership.
+  return NextResponse.json({ success: true });
+});
@@ -1,16 +1,46 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { PaystackProvider } from '@/lib/payments/paystack-provider';
+import { NextResponse } from 'next/server';
+import { getPaymentProvider } from '@/lib/payments/provider-registry';
+import { getPaymentRecordRepository } from '@/lib/payments/payment-record-repository';
+import { getPlan } from '@/lib/payments/plans';
+import type { PaymentRecord, PaymentStatus } from '@/lib/payments/types';
+import { withRequestLogging } from '@/lib/logging/request-logging';
 
-export async function GET(request: NextRequest) {
-  const ref = request.nextUrl.searchParams.get('ref');
+/** Receipt details safe to show on the public payment-success page */
+function receipt(ref: string, record: PaymentRecord | undefined, status: PaymentStatus, paidAt?: string) {
+  return {
+    reference: record?.id ?? ref,
+    status,
+    paidAt: paidAt ?? record?.paidAt ?? null,
+    amountCents: record?.amountCents ?? null,
+    currency: record?.currency ?? null,
+    planName: record ? (getPlan(record.planId)?.name ?? null) : null,
+  };
+}
+
+/**
+ * GET /api/payment/status?ref=…
+ *
+ * Also accepts Paystack's own `reference`/`trxref` callback params.
+ */
+export const GET = withRequestLogging('payment/status', async (request) => {
+  const params = request.nextUrl.searchParams;
+  const ref = params.get('ref') ?? params.get('reference') ?? params.get('trxref');
 
   if (!ref) {
     return NextResponse.json({ error: 'Missing ref parameter' }, { status: 400 });
   }
 
   try {
-    const provider = new PaystackProvider();
-    const verification = await provider.verifyPayment(ref);
+    const records = getPaymentRecordRepository();
+    const record = (await records.findById(ref)) ?? (await records.findByProviderReference(ref));
+
+    // Final states are already settled locally, usually by the webhook.
+    if (record && record.status !== 'pending') {
+      return NextResponse.json(receipt(ref, record, record.status));
+    }
+
+    const provider = getPaymentProvider(record?.provider);
+    const verification = await provider.verifyPayment(record?.providerReference ?? ref);
 
     if (!verification.success) {
       return NextResponse.json(
@@ -19,12 +49,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
-      reference: ref,
-      status: verification.status ?? 'pending',
-      paidAt: verification.paidAt ?? null,
-    });
+    // Paystack reports checkouts still in progress as abandoned; leave those
+    // pending and let reconciliation close them once they are truly stale.
+    const inProgress = provider.name === 'paystack' && verification.status === 'cancelled';
+    const status = !verification.status || inProgress ? 'pending' : verification.status;
+    if (record && status !== record.status) {
+      await records.updateStatus(record.id, {
+        status,
+        source: 'verification',
+        paidAt: verification.paidAt,
+      });
+    }
+
+    return NextResponse.json(receipt(ref, record, status, verification.paidAt));
   } catch {
     return NextResponse.json({ error: 'Unable to verify payment status' }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+import { checkReadiness } from '@/lib/readiness';
+
+/**
+ * GET /api/ready — readiness: the active payment provider, email,
+ * APP_BASE_URL and the data store, each with its own status. 200 when all
+ * pass, 503 when degraded. Results are reused for a few seconds.
+ */
+export const GET = withRequestLogging('ready', async (_request, log) => {
+  const report = await checkReadiness();
+
+  if (report.status !== 'ready') {
+    const failing = Object.entries(report.checks)
+      .filter(([, check]) => check.status === 'fail')
+      .map(([name, check]) => `${name}: ${check.message}`);
+    log.warn('Not ready', { failing });
+  }
+
+  return NextResponse.json(report, {
+    status: report.status === 'ready' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+});
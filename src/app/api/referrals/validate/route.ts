@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { limitReferralLookups, resolveReferralCode } from '@/lib/referrals/referrals';
+import { tooManyRequests } from '@/lib/rate-limit/rate-limit';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+/**
+ * POST /api/referrals/validate
+ *
+ * Lets the sign-up forms show who referred the visitor. Only the referrer's
+ * first name is returned; the forms' own routes validate the code again.
+ * Lookups are rate-limited per IP address.
+ */
+export const POST = withRequestLogging('referrals/validate', async (request, log) => {
+  const limit = await limitReferralLookups(request);
+  if (!limit.allowed) {
+    return tooManyRequests(limit.retryAfterSeconds);
+  }
+
+  let body: { code?: string; email?: string };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!body.code?.trim()) {
+    return NextResponse.json({ error: 'Please enter a referral code' }, { status: 400 });
+  }
+
+  try {
+    const result = await resolveReferralCode(body.code, body.email);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      code: result.referral.code,
+      referrerFirstName: result.referral.referrerName.split(/\s+/)[0],
+    });
+  } catch (error) {
+    log.error('Validation error', { error });
+    return NextResponse.json({ error: 'Unable to check referral code' }, { status: 500 });
+  }
+});
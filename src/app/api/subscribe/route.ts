@@ -1,33 +1,86 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { PaystackProvider } from '@/lib/payments/paystack-provider';
+import { getPaymentProvider } from '@/lib/payments/provider-registry';
 import { DEFAULT_PLAN_ID, getPlan } from '@/lib/payments/plans';
+import { getPaymentRecordRepository } from '@/lib/payments/payment-record-repository';
+import { getDiscountCodeRepository } from '@/lib/discounts/discount-code-repository';
+import { reserveDiscountCode } from '@/lib/discounts/discounts';
+import type { AppliedDiscount } from '@/lib/discounts/types';
+import { resolveReferralCode } from '@/lib/referrals/referrals';
+import type { ResolvedReferral } from '@/lib/referrals/referrals';
+import { formatAmount } from '@/lib/format';
+import {
+  detectAutomatedSubmission,
+  FORM_REJECTED,
+  limitFormByEmail,
+  limitFormByIp,
+} from '@/lib/form-protection';
+import { isLocale } from '@/lib/i18n/config';
+import { addLogContext, currentCorrelationId } from '@/lib/logging/logger';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import { hasPaidAccess } from '@/lib/memberships/portal-link';
+import { tooManyRequests } from '@/lib/rate-limit/rate-limit';
+import { isJsonObject, validateContactDetails } from '@/lib/validation';
 import {
   sendNewSubscriptionNotification,
   sendSubscriptionInitiatedEmail,
 } from '@/lib/email';
 
-export async function POST(request: NextRequest) {
+export const POST = withRequestLogging('subscribe', async (request, log) => {
+  const ipLimit = await limitFormByIp('subscribe', request);
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit.retryAfterSeconds);
+  }
+
+  let body: unknown;
+
   try {
-    const body = await request.json();
-    const { name, email, phone, bodyGoals, referralName, planId } = body as {
-      name?: string;
-      email?: string;
-      phone?: string;
-      bodyGoals?: string;
-      referralName?: string;
-      planId?: string;
-    };
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (!isJsonObject(body)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
 
-    if (!name?.trim() || !email?.trim() || !phone?.trim()) {
+  try {
+    const { planId, discountCode, locale } = body;
+    if (
+      (planId !== undefined && typeof planId !== 'string') ||
+      (discountCode !== undefined && typeof discountCode !== 'string')
+    ) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const automated = detectAutomatedSubmission('subscribe', body);
+    if (automated) {
+      log.warn('Rejected submission', { reason: automated });
+      return NextResponse.json({ error: FORM_REJECTED, code: 'form_rejected' }, { status: 400 });
+    }
+
+    const validation = validateContactDetails(body);
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Missing required fields: name, email, phone' },
+        { error: 'Please correct the highlighted fields', fieldErrors: validation.errors },
         { status: 400 },
       );
     }
+    const { name, email, phone, bodyGoals, referralCode } = validation.data;
 
-    if (!email.includes('@')) {
-      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 });
+    const emailLimit = await limitFormByEmail('subscribe', email);
+    if (!emailLimit.allowed) {
+      return tooManyRequests(emailLimit.retryAfterSeconds);
+    }
+
+    // A second checkout would bill an existing member twice; the page offers
+    // the portal (and a fresh link to it) instead.
+    const existing = await getMembershipRepository().findByEmail(email);
+    if (hasPaidAccess(existing)) {
+      return NextResponse.json(
+        { error: 'This email address already has an active membership', code: 'already_member' },
+        { status: 409 },
+      );
     }
 
     const resolvedPlanId = planId ?? DEFAULT_PLAN_ID;
@@ -36,59 +89,106 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: `Unknown plan: ${resolvedPlanId}` }, { status: 400 });
     }
 
+    let referral: ResolvedReferral | undefined;
+    if (referralCode) {
+      const resolved = await resolveReferralCode(referralCode, email);
+      if (!resolved.success) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      referral = resolved.referral;
+    }
+
     const paymentReference = `pay_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
-    const normalizedEmail = email.toLowerCase().trim();
-    const normalizedName = name.trim();
-    const normalizedPhone = phone.trim();
+    addLogContext({ paymentReference });
+
+    // Reserved last, so no other validation can fail while a redemption is held.
+    let discount: AppliedDiscount | undefined;
+    if (discountCode?.trim()) {
+      const applied = await reserveDiscountCode(discountCode, plan, paymentReference);
+      if (!applied.success) {
+        return NextResponse.json({ error: applied.error }, { status: 400 });
+      }
+      discount = applied.discount;
+    }
+    const amountCents = discount?.amountCents ?? plan.amountCents;
+    const member = {
+      name,
+      email,
+      phone,
+      bodyGoals,
+      referralName: referral?.referrerName,
+      referralCode: referral?.code,
+      locale: isLocale(locale) ? locale : undefined,
+    };
+
+    const provider = getPaymentProvider();
+    const records = getPaymentRecordRepository();
+    await records.create({
+      id: paymentReference,
+      provider: provider.name,
+      planId: resolvedPlanId,
+      amountCents,
+      currency: plan.currency,
+      member,
+      discount,
+    });
 
-    const provider = new PaystackProvider();
     const checkout = await provider.createCheckout({
       planId: resolvedPlanId,
-      userId: normalizedEmail,
+      userId: email,
       paymentRecordId: paymentReference,
-      metadata: {
-        name: normalizedName,
-        email: normalizedEmail,
-        phone: normalizedPhone,
-        bodyGoals: bodyGoals?.trim(),
-        referralName: referralName?.trim(),
-      },
+      metadata: member,
+      discount,
+      correlationId: currentCorrelationId(),
     });
 
     if (!checkout.success || !checkout.checkoutUrl) {
+      log.error('Checkout failed', { provider: provider.name, error: checkout.error });
+      await records.updateStatus(paymentReference, {
+        status: 'failed',
+        source: 'checkout',
+        note: checkout.error ?? 'Failed to create checkout',
+      });
+      if (discount) {
+        await getDiscountCodeRepository().releaseReservation(discount.code, paymentReference);
+      }
       return NextResponse.json(
         { error: checkout.error ?? 'Failed to create checkout' },
         { status: 500 },
       );
     }
 
+    log.info('Checkout created', { provider: provider.name, planId: resolvedPlanId, amountCents });
+    await records.attachCheckout(paymentReference, {
+      providerReference: checkout.providerReference ?? paymentReference,
+      checkoutUrl: checkout.checkoutUrl,
+      billing: checkout.billing,
+    });
+
     const emailData = {
-      name: normalizedName,
-      email: normalizedEmail,
-      phone: normalizedPhone,
-      bodyGoals: bodyGoals?.trim(),
-      referralName: referralName?.trim(),
+      ...member,
       paymentLink: checkout.checkoutUrl,
+      amount: formatAmount(amountCents, plan.currency),
+      discountCode: discount?.code,
     };
 
-    Promise.all([
+    // Both land in the outbox before we respond; delivery is retried from there.
+    await Promise.all([
       sendSubscriptionInitiatedEmail(emailData),
       sendNewSubscriptionNotification(emailData),
-    ]).catch((err) => {
-      console.error('[subscribe] Email notification error:', (err as Error).message);
-    });
+    ]);
 
     return NextResponse.json({
       redirectUrl: checkout.checkoutUrl,
       ref: checkout.providerReference ?? paymentReference,
-      planAmount: plan.amountCents,
+      planAmount: amountCents,
       planCurrency: plan.currency,
     });
   } catch (error) {
-    console.error('[subscribe] Unexpected error:', (error as Error).message);
+    log.error('Unexpected error', { error });
     return NextResponse.json(
       { error: 'Failed to initiate subscription' },
       { status: 500 },
     );
   }
-}
+});
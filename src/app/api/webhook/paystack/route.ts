@@ -1,13 +1,55 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { PaystackProvider } from '@/lib/payments/paystack-provider';
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
 import {
-  sendPaymentFailedEmail,
-  sendPaymentReceivedNotification,
-  sendPaymentSuccessEmail,
-} from '@/lib/email';
+  PaystackProvider,
+  planIdFromPaystackPlanCode,
+} from '@/lib/payments/paystack-provider';
+import { getWebhookEventLog } from '@/lib/payments/webhook-event-log';
+import {
+  handlePaymentFailed,
+  handlePaymentSucceeded,
+  type PaymentEventDetails,
+} from '@/lib/payments/payment-events';
+import { handleRefundOutcome } from '@/lib/payments/refunds';
+import { addLogContext, createLogger } from '@/lib/logging/logger';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+import {
+  handleRenewalFailed,
+  handleRenewalPaid,
+  handleRenewalUpcoming,
+  handleSubscriptionCreated,
+  handleSubscriptionDisabled,
+  handleSubscriptionNotRenewing,
+  type SubscriptionEventDetails,
+} from '@/lib/memberships/membership-events';
+
+const log = createLogger('webhook/paystack');
+
+interface PaystackCustomer {
+  email?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  customer_code?: string;
+}
+
+interface PaystackPlan {
+  plan_code?: string;
+  name?: string;
+}
 
 interface PaystackWebhookPayload {
-  event: 'charge.success' | 'charge.failed' | string;
+  event:
+    | 'charge.success'
+    | 'charge.failed'
+    | 'subscription.create'
+    | 'subscription.not_renew'
+    | 'subscription.disable'
+    | 'invoice.create'
+    | 'invoice.update'
+    | 'invoice.payment_failed'
+    | 'refund.processed'
+    | 'refund.failed'
+    | string;
   data: {
     amount: number;
     currency: string;
@@ -21,13 +63,40 @@ interface PaystackWebhookPayload {
       phone?: string;
       [key: string]: unknown;
     };
-    customer?: {
-      email?: string;
+    customer?: PaystackCustomer;
+    authorization?: {
+      authorization_code?: string;
+      reusable?: boolean;
+    };
+    // subscription.* events
+    subscription_code?: string;
+    email_token?: string;
+    next_payment_date?: string | null;
+    plan?: PaystackPlan;
+    // invoice.* events
+    invoice_code?: string;
+    paid?: boolean;
+    description?: string;
+    subscription?: {
+      subscription_code?: string;
+      email_token?: string;
+      next_payment_date?: string | null;
+      plan?: PaystackPlan;
+    };
+    transaction?: {
+      reference?: string;
+      status?: string;
+      currency?: string;
     };
+    // refund.* events
+    /** Paystack's refund id, returned when the refund was created */
+    id?: number;
+    transaction_reference?: string;
+    refund_reference?: string | null;
   };
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRequestLogging('webhook/paystack', async (request) => {
   const rawBody = await request.text().catch(() => '');
   if (!rawBody) {
     return NextResponse.json({ error: 'Failed to read request body' }, { status: 400 });
@@ -45,73 +114,182 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
   }
 
+  const eventType = event.event ?? 'unknown';
+  const reference = eventReference(event, rawBody);
+  const metadata = event.data?.metadata ?? {};
+  // Ties the webhook back to the subscribe request that opened the checkout.
+  addLogContext({
+    eventType,
+    eventReference: reference,
+    paymentReference: metadata.paymentRecordId,
+    checkoutCorrelationId: metadata.correlationId || undefined,
+  });
+
+  const eventLog = getWebhookEventLog();
+  const { event: logged, duplicate } = await eventLog.begin({
+    provider: 'paystack',
+    eventType,
+    reference,
+    payload: event,
+  });
+
+  // Paystack retries deliveries; a repeat must not send the emails again.
+  if (duplicate) {
+    log.info('Duplicate delivery ignored', { eventId: logged.id });
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  try {
+    const outcome = await processEvent(event);
+    await eventLog.complete(logged.id, outcome);
+    log.info('Event processed', { eventId: logged.id, outcome });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    log.error('Failed to process event', { eventId: logged.id, error: message });
+    await eventLog.complete(logged.id, 'failed', message);
+    // A non-2xx response makes Paystack redeliver, and failed events are retried.
+    return NextResponse.json({ error: 'Failed to process event' }, { status: 500 });
+  }
+
+  return NextResponse.json({ received: true });
+});
+
+/**
+ * Key used to spot redeliveries. Invoices are updated in place, so their key
+ * includes the paid state to let a later successful retry through.
+ */
+function eventReference(event: PaystackWebhookPayload, rawBody: string): string {
+  const data = event.data ?? {};
+  if (data.invoice_code) {
+    return `${data.invoice_code}:${data.paid ? 'paid' : data.status ?? 'open'}`;
+  }
+  // Partial refunds of one transaction can share an amount and often have
+  // no refund_reference, so only the refund id tells them apart.
+  if (data.transaction_reference && data.id !== undefined) {
+    return `${data.transaction_reference}:${data.id}`;
+  }
+  return (
+    data.reference ||
+    data.subscription_code ||
+    crypto.createHash('sha256').update(rawBody).digest('hex')
+  );
+}
+
+async function processEvent(event: PaystackWebhookPayload): Promise<'handled' | 'ignored'> {
   switch (event.event) {
     case 'charge.success':
-      await handlePaymentSucceeded(event);
-      break;
+      await handlePaymentSucceeded(toPaymentEventDetails(event));
+      return 'handled';
     case 'charge.failed':
-      await handlePaymentFailed(event);
-      break;
+      await handlePaymentFailed(toPaymentEventDetails(event));
+      return 'handled';
+    case 'subscription.create':
+    case 'subscription.not_renew':
+    case 'subscription.disable':
+    case 'invoice.create':
+    case 'invoice.update':
+    case 'invoice.payment_failed':
+      return processSubscriptionEvent(event);
+    case 'refund.processed':
+    case 'refund.failed': {
+      const matched = await handleRefundOutcome({
+        provider: 'paystack',
+        transactionReference: event.data.transaction_reference ?? '',
+        providerRefundReference: event.data.id !== undefined ? String(event.data.id) : undefined,
+        amountCents: event.data.amount,
+        outcome: event.event === 'refund.processed' ? 'processed' : 'failed',
+        reason: event.data.gateway_response,
+      });
+      return matched ? 'handled' : 'ignored';
+    }
     default:
-      break;
+      return 'ignored';
   }
-
-  return NextResponse.json({ received: true });
 }
 
-async function handlePaymentSucceeded(event: PaystackWebhookPayload) {
-  const metadata = event.data.metadata ?? {};
-  const email = metadata.email ?? event.data.customer?.email;
-  const name = metadata.name ?? 'SheGymZ Member';
-
-  if (!email) {
-    console.error('[Paystack webhook] Successful payment missing email', event.data.reference);
-    return;
+async function processSubscriptionEvent(
+  event: PaystackWebhookPayload,
+): Promise<'handled' | 'ignored'> {
+  const details = toSubscriptionEventDetails(event);
+  if (!details) {
+    log.error('Subscription event missing customer email');
+    return 'ignored';
   }
 
-  const amount = `${event.data.currency} ${(event.data.amount / 100).toFixed(2)}`;
-  const paymentDate = event.data.paid_at
-    ? new Date(event.data.paid_at).toLocaleDateString('en-ZA', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      })
-    : undefined;
-
-  await Promise.allSettled([
-    sendPaymentSuccessEmail({
-      name,
-      email,
-      amount,
-      paymentDate,
-      reference: event.data.reference,
-    }),
-    sendPaymentReceivedNotification({
-      name,
-      email,
-      amount,
-      paymentDate,
-      reference: event.data.reference,
-    }),
-  ]);
+  switch (event.event) {
+    case 'subscription.create':
+      await handleSubscriptionCreated(details);
+      return 'handled';
+    case 'subscription.not_renew':
+      await handleSubscriptionNotRenewing(details);
+      return 'handled';
+    case 'subscription.disable':
+      await handleSubscriptionDisabled(details);
+      return 'handled';
+    case 'invoice.create':
+      await handleRenewalUpcoming(details);
+      return 'handled';
+    case 'invoice.update':
+      // Failed attempts arrive separately as invoice.payment_failed.
+      if (!event.data.paid) return 'ignored';
+      await handleRenewalPaid(details);
+      return 'handled';
+    case 'invoice.payment_failed':
+      await handleRenewalFailed(details);
+      return 'handled';
+    default:
+      return 'ignored';
+  }
 }
 
-async function handlePaymentFailed(event: PaystackWebhookPayload) {
+function toPaymentEventDetails(event: PaystackWebhookPayload): PaymentEventDetails {
   const metadata = event.data.metadata ?? {};
-  const email = metadata.email ?? event.data.customer?.email;
-  const name = metadata.name ?? 'SheGymZ Member';
+  return {
+    provider: 'paystack',
+    reference: event.data.reference,
+    providerReference: event.data.reference,
+    paymentRecordId:
+      typeof metadata.paymentRecordId === 'string' ? metadata.paymentRecordId : undefined,
+    planId: typeof metadata.planId === 'string' ? metadata.planId : undefined,
+    amountCents: event.data.amount,
+    currency: event.data.currency,
+    paidAt: event.data.paid_at,
+    email: metadata.email ?? event.data.customer?.email,
+    name: metadata.name,
+    customerCode: event.data.customer?.customer_code,
+    authorizationCode: event.data.authorization?.reusable
+      ? event.data.authorization.authorization_code
+      : undefined,
+    reason: event.data.gateway_response,
+  };
+}
 
-  if (!email) {
-    return;
-  }
+function toSubscriptionEventDetails(
+  event: PaystackWebhookPayload,
+): SubscriptionEventDetails | undefined {
+  const { data } = event;
+  const email = data.customer?.email;
+  if (!email) return undefined;
 
-  const amount = `${event.data.currency} ${(event.data.amount / 100).toFixed(2)}`;
+  // subscription.* events carry the subscription at the top level,
+  // invoice.* events nest it under `subscription`.
+  const subscription = data.subscription ?? data;
+  const name = [data.customer?.first_name, data.customer?.last_name]
+    .filter(Boolean)
+    .join(' ');
 
-  await sendPaymentFailedEmail({
-    name,
+  return {
+    provider: 'paystack',
     email,
-    amount,
-    reference: event.data.reference,
-    reason: event.data.gateway_response || 'Payment could not be processed',
-  });
+    name: name || undefined,
+    planId: planIdFromPaystackPlanCode(subscription.plan?.plan_code),
+    subscriptionCode: subscription.subscription_code,
+    emailToken: subscription.email_token,
+    customerCode: data.customer?.customer_code,
+    nextPaymentDate: subscription.next_payment_date ?? undefined,
+    amountCents: data.amount,
+    currency: data.currency ?? data.transaction?.currency,
+    reference: data.transaction?.reference,
+    reason: event.event === 'invoice.payment_failed' ? data.description : undefined,
+  };
 }
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { YocoProvider } from '@/lib/payments/yoco-provider';
+import { getWebhookEventLog } from '@/lib/payments/webhook-event-log';
+import {
+  handlePaymentFailed,
+  handlePaymentSucceeded,
+  type PaymentEventDetails,
+} from '@/lib/payments/payment-events';
+import { handleRefundOutcome } from '@/lib/payments/refunds';
+import { addLogContext } from '@/lib/logging/logger';
+import { withRequestLogging } from '@/lib/logging/request-logging';
+
+interface YocoWebhookPayload {
+  id: string;
+  type: 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'refund.failed' | string;
+  createdDate?: string;
+  payload: {
+    /** The payment id, or the refund id on refund.* events */
+    id: string;
+    amount: number;
+    currency: string;
+    status?: string;
+    createdDate?: string;
+    // refund.* events
+    paymentId?: string;
+    failureReason?: string;
+    metadata?: {
+      checkoutId?: string;
+      paymentRecordId?: string;
+      name?: string;
+      email?: string;
+      [key: string]: unknown;
+    };
+  };
+}
+
+export const POST = withRequestLogging('webhook/yoco', async (request, log) => {
+  const rawBody = await request.text().catch(() => '');
+  if (!rawBody) {
+    return NextResponse.json({ error: 'Failed to read request body' }, { status: 400 });
+  }
+
+  const webhookId = request.headers.get('webhook-id') ?? '';
+  const signatureValid = YocoProvider.verifyWebhookSignature(rawBody, {
+    id: webhookId,
+    timestamp: request.headers.get('webhook-timestamp') ?? '',
+    signature: request.headers.get('webhook-signature') ?? '',
+  });
+  if (!signatureValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  let event: YocoWebhookPayload;
+  try {
+    event = JSON.parse(rawBody) as YocoWebhookPayload;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const eventType = event.type ?? 'unknown';
+  // Each partial refund of a checkout is its own event, so refunds are keyed by refund id.
+  const reference = isRefundEvent(event)
+    ? event.payload?.id || webhookId
+    : event.payload?.metadata?.checkoutId || event.payload?.id || webhookId;
+  const metadata = event.payload?.metadata ?? {};
+  addLogContext({
+    eventType,
+    eventReference: reference,
+    paymentReference: metadata.paymentRecordId,
+    checkoutCorrelationId: metadata.correlationId || undefined,
+  });
+
+  const eventLog = getWebhookEventLog();
+  const { event: logged, duplicate } = await eventLog.begin({
+    provider: 'yoco',
+    eventType,
+    reference,
+    payload: event,
+  });
+
+  if (duplicate) {
+    log.info('Duplicate delivery ignored', { eventId: logged.id });
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  try {
+    const outcome = await processEvent(event);
+    await eventLog.complete(logged.id, outcome);
+    log.info('Event processed', { eventId: logged.id, outcome });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    log.error('Failed to process event', { eventId: logged.id, error: message });
+    await eventLog.complete(logged.id, 'failed', message);
+    return NextResponse.json({ error: 'Failed to process event' }, { status: 500 });
+  }
+
+  return NextResponse.json({ received: true });
+});
+
+async function processEvent(event: YocoWebhookPayload): Promise<'handled' | 'ignored'> {
+  switch (event.type) {
+    case 'payment.succeeded':
+      await handlePaymentSucceeded(toPaymentEventDetails(event));
+      return 'handled';
+    case 'payment.failed':
+      await handlePaymentFailed(toPaymentEventDetails(event));
+      return 'handled';
+    case 'refund.succeeded':
+    case 'refund.failed': {
+      // Refunds Yoco doesn't complete straight away are settled here.
+      const matched = await handleRefundOutcome({
+        provider: 'yoco',
+        transactionReference:
+          event.payload.metadata?.checkoutId ?? event.payload.paymentId ?? '',
+        providerRefundReference: event.payload.id,
+        amountCents: event.payload.amount,
+        outcome: event.type === 'refund.succeeded' ? 'processed' : 'failed',
+        reason: event.payload.failureReason,
+      });
+      return matched ? 'handled' : 'ignored';
+    }
+    default:
+      return 'ignored';
+  }
+}
+
+function isRefundEvent(event: YocoWebhookPayload): boolean {
+  return event.type === 'refund.succeeded' || event.type === 'refund.failed';
+}
+
+function toPaymentEventDetails(event: YocoWebhookPayload): PaymentEventDetails {
+  const metadata = event.payload.metadata ?? {};
+  return {
+    provider: 'yoco',
+    reference: metadata.paymentRecordId ?? metadata.checkoutId ?? event.payload.id,
+    providerReference: metadata.checkoutId ?? event.payload.id,
+    paymentRecordId: metadata.paymentRecordId,
+    amountCents: event.payload.amount,
+    currency: event.payload.currency,
+    paidAt:
+      event.type === 'payment.succeeded'
+        ? (event.payload.createdDate ?? event.createdDate)
+        : undefined,
+    email: metadata.email,
+    name: metadata.name,
+  };
+}
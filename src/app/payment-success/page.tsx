@@ -1,148 +0,0 @@
-'use client';
-
-import { Suspense, useEffect, useState } from 'react';
-import Link from 'next/link';
-import { useSearchParams } from 'next/navigation';
-
-type PageState = 'checking' | 'paid' | 'failed' | 'unknown';
-
-function portalUrl() {
-  return process.env.NEXT_PUBLIC_PORTAL_URL || 'https://portal.shegymz.com';
-}
-
-function PaymentStatusContent() {
-  const searchParams = useSearchParams();
-  const ref = searchParams.get('ref');
-  const [state, setState] = useState<PageState>('checking');
-
-  useEffect(() => {
-    if (!ref) {
-      setState('unknown');
-      return;
-    }
-    const paymentRef = ref;
-
-    async function check() {
-      try {
-        const res = await fetch(`/api/payment/status?ref=${encodeURIComponent(paymentRef)}`);
-        if (!res.ok) {
-          setState('unknown');
-          return;
-        }
-
-        const data = (await res.json()) as { status?: string };
-        if (data.status === 'paid') {
-          setState('paid');
-          return;
-        }
-
-        if (data.status === 'failed' || data.status === 'cancelled') {
-          setState('failed');
-          return;
-        }
-
-        setState('unknown');
-      } catch {
-        setState('unknown');
-      }
-    }
-
-    check();
-  }, [ref]);
-
-  return (
-    <div className="min-h-screen bg-neutral-50 py-20">
-      <div className="max-w-2xl mx-auto px-6 text-center">
-        {state === 'checking' && (
-          <>
-            <div className="mb-6 flex justify-center">
-              <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
-            </div>
-            <h1 className="text-3xl font-bold text-plum-900 mb-4">Confirming Your Payment…</h1>
-            <p className="text-warmgray-700">This will only take a moment.</p>
-          </>
-        )}
-
-        {(state === 'paid' || state === 'unknown') && (
-          <>
-            <div className="mb-8">
-              <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-green-100 text-4xl">
-                ✓
-              </div>
-            </div>
-            <h1 className="text-4xl font-bold text-plum-900 mb-4">Payment Received</h1>
-            <p className="text-lg text-warmgray-700 mb-6">
-              Your SheGymZ subscription is active. Your portal link has been sent by email.
-            </p>
-            <div className="bg-rose-100 border border-rose-300 rounded p-6 mb-8">
-              <p className="text-sm text-warmgray-700 mb-4">
-                Continue into the member experience using the portal link below.
-              </p>
-              <a
-                href={portalUrl()}
-                className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
-              >
-                Open SheGymZ Portal
-              </a>
-            </div>
-            <p className="text-sm text-warmgray-700 mb-8">
-              Didn&apos;t get the email? Check your spam folder or contact{' '}
-              <a href="mailto:admin@shegymz.com" className="underline">
-                admin@shegymz.com
-              </a>
-              .
-            </p>
-            <Link
-              href="/"
-              className="inline-block px-8 py-4 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
-            >
-              Return Home
-            </Link>
-          </>
-        )}
-
-        {state === 'failed' && (
-          <>
-            <div className="mb-8">
-              <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-rose-100 text-4xl">
-                ✕
-              </div>
-            </div>
-            <h1 className="text-4xl font-bold text-plum-900 mb-4">Payment Failed</h1>
-            <p className="text-lg text-warmgray-700 mb-8">
-              Something went wrong with your payment. No charge has been made.
-            </p>
-            <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <Link
-                href="/subscribe"
-                className="inline-block px-8 py-3 bg-plum-900 text-white font-semibold rounded hover:bg-plum-800 transition-colors"
-              >
-                Try Again
-              </Link>
-              <Link
-                href="/"
-                className="inline-block px-8 py-3 border border-plum-900 text-plum-900 font-semibold rounded hover:bg-plum-50 transition-colors"
-              >
-                Return Home
-              </Link>
-            </div>
-          </>
-        )}
-      </div>
-    </div>
-  );
-}
-
-export default function PaymentSuccessPage() {
-  return (
-    <Suspense
-      fallback={
-        <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
-          <div className="animate-spin h-12 w-12 border-4 border-warmgray-300 border-t-plum-900 rounded-full" />
-        </div>
-      }
-    >
-      <PaymentStatusContent />
-    </Suspense>
-  );
-}
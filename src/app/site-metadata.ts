@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+
+/** Favicons shared by the public site and the admin area, which have separate root layouts */
+export const siteIcons: Metadata['icons'] = {
+  icon: [
+    { url: '/favicon/favicon.ico' },
+    { url: '/favicon/favicon.svg', type: 'image/svg+xml' },
+    { url: '/favicon/favicon-96x96.png', sizes: '96x96', type: 'image/png' },
+  ],
+  apple: '/favicon/apple-touch-icon.png',
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import { useI18n } from '@/components/LocaleProvider';
+import type { ContactField, FieldError as FieldErrorDetails } from '@/lib/validation';
+
+interface FieldErrorProps {
+  /** Referenced by the input's aria-describedby */
+  id: string;
+  field: ContactField;
+  error?: FieldErrorDetails;
+}
+
+/** Translated inline message for a field rejected by `validateContactDetails`. */
+export default function FieldError({ id, field, error }: FieldErrorProps) {
+  const { t, format } = useI18n();
+  if (!error) return null;
+
+  const required: Partial<Record<ContactField, string>> = {
+    name: t.form.nameRequired,
+    email: t.form.emailInvalid,
+    phone: t.form.phoneRequired,
+  };
+  const messages: Record<FieldErrorDetails['code'], string> = {
+    required: required[field] ?? t.form.fieldInvalid,
+    invalid: t.form.fieldInvalid,
+    invalidEmail: t.form.emailInvalid,
+    invalidPhone: t.form.phoneInvalid,
+    tooLong: format(t.form.tooLong, { max: error.max ?? '' }),
+  };
+
+  return (
+    <p id={id} className="mt-1 text-sm text-rose-700">
+      {messages[error.code]}
+    </p>
+  );
+}
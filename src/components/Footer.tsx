@@ -2,8 +2,10 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
+import { useI18n } from '@/components/LocaleProvider';
 
 export default function Footer() {
+  const { t, href } = useI18n();
   const currentYear = new Date().getFullYear();
 
   return (
@@ -12,7 +14,7 @@ export default function Footer() {
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8 sm:gap-12 mb-6 sm:mb-8">
           {/* Brand */}
           <div className="text-center sm:text-left">
-            <Link href="/" className="inline-block mb-3 sm:mb-4">
+            <Link href={href('/')} className="inline-block mb-3 sm:mb-4">
               <Image
                 src="/images/logo.png"
                 alt="SheGymZ Logo"
@@ -22,29 +24,29 @@ export default function Footer() {
               />
             </Link>
             <p className="text-sm text-warmgray-600">
-              A private space for women to train, restore, and belong.
+              {t.footer.tagline}
             </p>
           </div>
 
           {/* Links */}
           <div className="text-center sm:text-left">
             <h4 className="text-sm font-semibold text-neutral-900 uppercase tracking-widest mb-3 sm:mb-4">
-              Navigation
+              {t.footer.navigation}
             </h4>
             <ul className="space-y-2">
               <li>
                 <a href="#about" className="text-sm text-warmgray-600 hover:text-plum-800 transition-colors">
-                  About Us
+                  {t.footer.aboutUs}
                 </a>
               </li>
               <li>
                 <a href="#membership" className="text-sm text-warmgray-600 hover:text-plum-800 transition-colors">
-                  Membership
+                  {t.footer.membership}
                 </a>
               </li>
               <li>
-                <a href="/subscribe" className="text-sm text-warmgray-600 hover:text-plum-800 transition-colors">
-                  Request Access
+                <a href={href('/subscribe')} className="text-sm text-warmgray-600 hover:text-plum-800 transition-colors">
+                  {t.footer.requestAccess}
                 </a>
               </li>
             </ul>
@@ -53,17 +55,17 @@ export default function Footer() {
           {/* Discretion Note */}
           <div>
             <h4 className="text-sm font-semibold text-neutral-900 uppercase tracking-widest mb-4">
-              Privacy
+              {t.footer.privacy}
             </h4>
             <p className="text-xs text-warmgray-600 leading-relaxed">
-              SheGymZ is a private wellness space for women, shaped by trust, privacy, and a sense of community.
+              {t.footer.privacyNote}
             </p>
           </div>
 
           {/* Contact */}
           <div>
             <h4 className="text-sm font-semibold text-neutral-900 uppercase tracking-widest mb-4">
-              Contact
+              {t.footer.contact}
             </h4>
             <ul className="space-y-2 text-sm text-warmgray-600 mb-4">
               <li className="flex items-start gap-2">
@@ -81,7 +83,7 @@ export default function Footer() {
             {/* Google Maps embed */}
             <div className="rounded overflow-hidden border border-warmgray-200">
               <iframe
-                title="SheGymZ Location"
+                title={t.footer.location}
                 src="https://www.google.com/maps?q=65+Springbok+Street,+Fauna+Park,+Polokwane,+0699,+South+Africa&output=embed"
                 width="100%"
                 height="160"
@@ -96,9 +98,9 @@ export default function Footer() {
 
         <div className="border-t border-warmgray-200 pt-8 flex flex-col md:flex-row items-center justify-between text-xs text-warmgray-600 gap-4">
           <div className="flex flex-col items-center md:items-start gap-2">
-            <p>&copy; {currentYear} SheGymZ. All rights reserved.</p>
+            <p>&copy; {currentYear} SheGymZ. {t.footer.rights}</p>
             <p className="text-sm">
-              Developed & maintained by{' '}
+              {t.footer.developedBy}{' '}
               <a 
                 href="https://khulanode.com" 
                 target="_blank" 
@@ -111,13 +113,13 @@ export default function Footer() {
           </div>
           <div className="flex gap-6 mt-4 md:mt-0">
             <a href="#" className="hover:text-plum-800 transition-colors">
-              Privacy Policy
+              {t.footer.privacyPolicy}
             </a>
             <a href="#" className="hover:text-plum-800 transition-colors">
-              Terms of Service
+              {t.footer.terms}
             </a>
             <a href="#" className="hover:text-plum-800 transition-colors">
-              Contact
+              {t.footer.contact}
             </a>
           </div>
         </div>
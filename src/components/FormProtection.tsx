@@ -0,0 +1,51 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PublicForm } from '@/lib/form-protection';
+
+/**
+ * Fetches the signed timing token the sign-up APIs expect back with the
+ * submission. Call `refresh` after the server rejects an expired one.
+ */
+export function useFormToken(form: PublicForm) {
+  const [token, setToken] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/form-token?form=${form}`, { cache: 'no-store' });
+      const data = (await response.json().catch(() => ({}))) as { token?: string };
+      setToken(data.token ?? '');
+    } catch {
+      setToken('');
+    }
+  }, [form]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { token, refresh };
+}
+
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Off-screen field people never see or tab to; anything typed in it marks a bot. */
+export default function HoneypotField({ value, onChange }: HoneypotFieldProps) {
+  return (
+    <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+      <label htmlFor="website">Website</label>
+      <input
+        id="website"
+        name="website"
+        type="text"
+        tabIndex={-1}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { usePathname, useSearchParams } from 'next/navigation';
+import { LOCALES, LOCALE_NAMES, splitLocalePath, type Locale } from '@/lib/i18n/config';
+import { useI18n } from '@/components/LocaleProvider';
+
+/**
+ * Links to the current page in each language. English goes through /en so the
+ * middleware can remember the choice before dropping the prefix.
+ */
+export default function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const { locale, t } = useI18n();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const linkFor = (target: Locale) => {
+    const { path } = splitLocalePath(pathname);
+    const query = searchParams.toString();
+    return `/${target}${path === '/' ? '' : path}${query ? `?${query}` : ''}`;
+  };
+
+  return (
+    <div role="group" aria-label={t.nav.language} className={`flex items-center gap-2 text-xs ${className}`}>
+      {LOCALES.map((target) =>
+        target === locale ? (
+          <span key={target} className="font-semibold text-plum-900" aria-current="true">
+            {LOCALE_NAMES[target]}
+          </span>
+        ) : (
+          // A full page load, so the layout re-renders with the new language.
+          <a
+            key={target}
+            href={linkFor(target)}
+            hrefLang={target}
+            lang={target}
+            className="text-warmgray-600 hover:text-plum-800 transition-colors"
+          >
+            {LOCALE_NAMES[target]}
+          </a>
+        ),
+      )}
+    </div>
+  );
+}
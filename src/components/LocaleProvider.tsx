@@ -0,0 +1,48 @@
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import { localePath, type Locale } from '@/lib/i18n/config';
+import { formatMessage } from '@/lib/i18n/format';
+import type { Messages } from '@/lib/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  /** The catalogue for the current language */
+  t: Messages;
+  /** Fills {placeholders} in a catalogue string */
+  format: typeof formatMessage;
+  /** Prefixes an app path with the current language */
+  href: (path: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function LocaleProvider({
+  locale,
+  messages,
+  children,
+}: {
+  locale: Locale;
+  messages: Messages;
+  children: React.ReactNode;
+}) {
+  const value = useMemo(
+    () => ({
+      locale,
+      t: messages,
+      format: formatMessage,
+      href: (path: string) => localePath(locale, path),
+    }),
+    [locale, messages],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside LocaleProvider');
+  }
+  return context;
+}
@@ -2,9 +2,12 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import { useState } from 'react';
+import { Suspense, useState } from 'react';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { useI18n } from '@/components/LocaleProvider';
 
 export default function Navigation() {
+  const { t, href } = useI18n();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   return (
@@ -12,7 +15,7 @@ export default function Navigation() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 py-1 sm:py-2 flex items-center justify-between">
         <div className="flex items-center gap-2">
           {/* Logo / Brand */}
-          <Link href="/" className="flex items-center">
+          <Link href={href('/')} className="flex items-center">
             <Image
               src="/images/logo.png"
               alt="SheGymZ Logo"
@@ -23,7 +26,7 @@ export default function Navigation() {
             />
           </Link>
           <div className="hidden md:block text-sm lg:text-base text-warmgray-600 font-medium tracking-widest uppercase">
-            Private Wellness
+            {t.nav.tagline}
           </div>
         </div>
 
@@ -33,33 +36,36 @@ export default function Navigation() {
             href="#about"
             className="text-sm text-neutral-700 hover:text-plum-800 transition-colors font-medium"
           >
-            About 
+            {t.nav.about}
           </a>
           <a
             href="#membership"
             className="text-sm text-neutral-700 hover:text-plum-800 transition-colors font-medium"
           >
-            Subscription Details
+            {t.nav.subscriptionDetails}
           </a>
           <Link
-            href="/free-trial"
+            href={href('/free-trial')}
             className="px-3 lg:px-5 py-1.5 border border-plum-900 text-plum-900 text-sm font-semibold rounded hover:bg-plum-50 transition-colors"
           >
-            3-Day Free Trial
+            {t.nav.freeTrial}
           </Link>
           <Link
-            href="/subscribe"
+            href={href('/subscribe')}
             className="px-3 lg:px-5 py-1.5 bg-plum-900 text-white text-sm font-semibold rounded hover:bg-plum-800 transition-colors"
           >
-            Subscribe Here 
+            {t.nav.subscribe}
           </Link>
+          <Suspense fallback={null}>
+            <LanguageSwitcher />
+          </Suspense>
         </div>
 
         {/* Mobile Menu Button */}
         <button
           className="md:hidden flex flex-col items-center justify-center w-8 h-8 space-y-1"
           onClick={() => setIsMenuOpen(!isMenuOpen)}
-          aria-label="Toggle menu"
+          aria-label={t.nav.toggleMenu}
         >
           <span className={`block w-6 h-0.5 bg-neutral-700 transition-transform ${
             isMenuOpen ? 'rotate-45 translate-y-2' : ''
@@ -82,29 +88,32 @@ export default function Navigation() {
               className="block text-lg text-neutral-700 hover:text-plum-800 transition-colors font-medium py-2"
               onClick={() => setIsMenuOpen(false)}
             >
-              About
+              {t.nav.about}
             </a>
             <a
               href="#membership"
               className="block text-lg text-neutral-700 hover:text-plum-800 transition-colors font-medium py-2"
               onClick={() => setIsMenuOpen(false)}
             >
-              Subscription Details
+              {t.nav.subscriptionDetails}
             </a>
             <Link
-              href="/free-trial"
+              href={href('/free-trial')}
               className="block w-full px-6 py-3 border border-plum-900 text-plum-900 text-lg font-semibold rounded hover:bg-plum-50 transition-colors text-center"
               onClick={() => setIsMenuOpen(false)}
             >
-              3-Day Free Trial
+              {t.nav.freeTrial}
             </Link>
             <Link
-              href="/subscribe"
+              href={href('/subscribe')}
               className="block w-full px-6 py-3 bg-plum-900 text-white text-lg font-semibold rounded hover:bg-plum-800 transition-colors text-center"
               onClick={() => setIsMenuOpen(false)}
             >
-              Subscribe Here
+              {t.nav.subscribe}
             </Link>
+            <Suspense fallback={null}>
+              <LanguageSwitcher className="justify-center pt-2" />
+            </Suspense>
           </div>
         </div>
       )}
@@ -1,5 +1,21 @@
 'use client';
 
-export default function Providers({ children }: { children: React.ReactNode }) {
-  return <>{children}</>;
+import type { Locale } from '@/lib/i18n/config';
+import type { Messages } from '@/lib/i18n';
+import { LocaleProvider } from '@/components/LocaleProvider';
+
+export default function Providers({
+  locale,
+  messages,
+  children,
+}: {
+  locale: Locale;
+  messages: Messages;
+  children: React.ReactNode;
+}) {
+  return (
+    <LocaleProvider locale={locale} messages={messages}>
+      {children}
+    </LocaleProvider>
+  );
 }
@@ -0,0 +1,89 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useI18n } from '@/components/LocaleProvider';
+import { CONTACT_SCHEMA } from '@/lib/validation';
+
+interface ReferralCodeFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called with the referrer's first name once the code checks out, or null */
+  onResolved: (referrerFirstName: string | null) => void;
+  email?: string;
+}
+
+/**
+ * Optional referral code input shared by the sign-up forms. Codes arriving via
+ * a referral link are checked straight away; typed codes are checked on blur.
+ */
+export default function ReferralCodeField({ value, onChange, onResolved, email }: ReferralCodeFieldProps) {
+  const { t, format } = useI18n();
+  const [referrer, setReferrer] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // The code the field started with — from a referral link — is checked once on load.
+  const linkCode = useRef(value);
+
+  const check = useCallback(async (code: string) => {
+    if (!code.trim()) {
+      setReferrer(null);
+      setError('');
+      onResolved(null);
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/referrals/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, email: email || undefined }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        code?: string;
+        referrerFirstName?: string;
+        error?: string;
+      };
+      if (!response.ok || !data.referrerFirstName) {
+        throw new Error(data.error ?? t.form.invalidReferralCode);
+      }
+      setReferrer(data.referrerFirstName);
+      setError('');
+      onResolved(data.referrerFirstName);
+    } catch (err) {
+      setReferrer(null);
+      setError(err instanceof Error ? err.message : t.form.invalidReferralCode);
+      onResolved(null);
+    }
+  }, [email, onResolved, t]);
+
+  useEffect(() => {
+    const code = linkCode.current;
+    linkCode.current = '';
+    if (code) void check(code);
+  }, [check]);
+
+  return (
+    <div>
+      <label htmlFor="referralCode" className="block text-sm font-semibold text-plum-900 mb-2">
+        {t.form.referralCode}
+      </label>
+      <input
+        id="referralCode"
+        name="referralCode"
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value.toUpperCase());
+          setReferrer(null);
+          setError('');
+          onResolved(null);
+        }}
+        onBlur={() => void check(value)}
+        placeholder={t.form.referralCodePlaceholder}
+        maxLength={CONTACT_SCHEMA.referralCode.maxLength}
+        className="w-full px-4 py-3 border border-warmgray-300 rounded focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent uppercase"
+      />
+      {referrer && <p className="mt-2 text-sm text-plum-900">{format(t.form.referredBy, { name: referrer })}</p>}
+      {error && <p className="mt-2 text-sm text-rose-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useI18n } from '@/components/LocaleProvider';
+import { formatSlotDay, formatSlotTime } from '@/lib/free-trials/slot-format';
+
+export interface TrialSlotOption {
+  start: string;
+  end: string;
+  remaining: number;
+}
+
+/**
+ * Loads the bookable trial sessions. `slots` is null while loading and an
+ * empty list when nothing can be booked online (or loading failed).
+ */
+export function useTrialSlots() {
+  const [slots, setSlots] = useState<TrialSlotOption[] | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/free-trial/slots');
+      const data = (await response.json().catch(() => ({}))) as { slots?: TrialSlotOption[] };
+      setSlots(response.ok ? (data.slots ?? []) : []);
+    } catch {
+      setSlots([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { slots, reload };
+}
+
+interface TrialSlotPickerProps {
+  slots: TrialSlotOption[];
+  value: string;
+  onChange: (slotStart: string) => void;
+}
+
+/** Trial sessions grouped by day, shared by the booking and reschedule forms. */
+export default function TrialSlotPicker({ slots, value, onChange }: TrialSlotPickerProps) {
+  const { locale, t, format } = useI18n();
+
+  const days = new Map<string, TrialSlotOption[]>();
+  for (const slot of slots) {
+    const day = formatSlotDay(slot.start, locale);
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+
+  return (
+    <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+      {[...days].map(([day, daySlots]) => (
+        <fieldset key={day}>
+          <legend className="text-sm font-semibold text-warmgray-700 mb-2">{day}</legend>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {daySlots.map((slot) => {
+              const selected = slot.start === value;
+              return (
+                <button
+                  key={slot.start}
+                  type="button"
+                  onClick={() => onChange(slot.start)}
+                  aria-pressed={selected}
+                  className={`px-3 py-2 rounded border text-left transition-colors ${
+                    selected
+                      ? 'bg-plum-900 border-plum-900 text-white'
+                      : 'bg-white border-warmgray-300 text-neutral-900 hover:border-plum-700'
+                  }`}
+                >
+                  <span className="block font-semibold">{formatSlotTime(slot.start, locale)}</span>
+                  <span className={`block text-xs ${selected ? 'text-rose-100' : 'text-warmgray-600'}`}>
+                    {slot.remaining === 1
+                      ? t.freeTrial.onePlaceLeft
+                      : format(t.freeTrial.placesLeft, { count: slot.remaining })}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
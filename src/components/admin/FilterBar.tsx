@@ -0,0 +1,74 @@
+import Link from 'next/link';
+import type { DashboardFilters } from '@/lib/admin-dashboard';
+
+interface FilterBarProps {
+  /** Page the filters apply to, e.g. /admin/payments */
+  action: string;
+  filters: DashboardFilters;
+  statuses?: string[];
+  plans?: Array<{ id: string; name: string }>;
+}
+
+const inputClass =
+  'px-3 py-2 border border-warmgray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent';
+
+/** Plain GET form, so filtered views can be bookmarked and shared */
+export default function FilterBar({ action, filters, statuses, plans }: FilterBarProps) {
+  return (
+    <form action={action} method="get" className="flex flex-wrap items-end gap-3 mb-6">
+      <label className="flex flex-col text-xs font-semibold text-plum-900 gap-1">
+        Search
+        <input
+          name="q"
+          type="search"
+          defaultValue={filters.q}
+          placeholder="Name, email, phone or reference"
+          className={`${inputClass} w-64`}
+        />
+      </label>
+      {statuses && (
+        <label className="flex flex-col text-xs font-semibold text-plum-900 gap-1">
+          Status
+          <select name="status" defaultValue={filters.status ?? ''} className={inputClass}>
+            <option value="">Any</option>
+            {statuses.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {plans && (
+        <label className="flex flex-col text-xs font-semibold text-plum-900 gap-1">
+          Plan
+          <select name="planId" defaultValue={filters.planId ?? ''} className={inputClass}>
+            <option value="">Any</option>
+            {plans.map((plan) => (
+              <option key={plan.id} value={plan.id}>
+                {plan.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex flex-col text-xs font-semibold text-plum-900 gap-1">
+        From
+        <input name="from" type="date" defaultValue={filters.from} className={inputClass} />
+      </label>
+      <label className="flex flex-col text-xs font-semibold text-plum-900 gap-1">
+        To
+        <input name="to" type="date" defaultValue={filters.to} className={inputClass} />
+      </label>
+      <button
+        type="submit"
+        className="px-4 py-2 bg-plum-900 text-white text-sm font-semibold rounded hover:bg-plum-800 transition-colors"
+      >
+        Filter
+      </button>
+      <Link href={action} className="text-sm text-warmgray-600 hover:text-plum-800 underline py-2">
+        Clear
+      </Link>
+    </form>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LEAD_STATUSES } from '@/lib/free-trials/lead-status';
+import type { LeadStatus } from '@/lib/free-trials/types';
+
+interface LeadEditorProps {
+  id: string;
+  status: LeadStatus;
+  assignedTo?: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-warmgray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-plum-700 focus:border-transparent';
+
+/** Moves a lead through the pipeline, assigns it and adds notes. */
+export default function LeadEditor({ id, status, assignedTo }: LeadEditorProps) {
+  const router = useRouter();
+  const [nextStatus, setNextStatus] = useState<LeadStatus>(status);
+  const [reason, setReason] = useState('');
+  const [assignee, setAssignee] = useState(assignedTo ?? '');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const changed = nextStatus !== status || assignee.trim() !== (assignedTo ?? '') || note.trim() !== '';
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/leads/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: nextStatus !== status ? nextStatus : undefined,
+          reason: reason.trim() || undefined,
+          assignedTo: assignee.trim() !== (assignedTo ?? '') ? assignee.trim() : undefined,
+          note: note.trim() || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error ?? 'Saving failed');
+        return;
+      }
+      setReason('');
+      setNote('');
+      router.refresh();
+    } catch {
+      setError('Saving failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <label className="block font-semibold text-plum-900">
+        Status
+        <select
+          value={nextStatus}
+          onChange={(e) => setNextStatus(e.target.value as LeadStatus)}
+          className={`${inputClass} mt-1`}
+        >
+          {LEAD_STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      {nextStatus !== status && (
+        <label className="block font-semibold text-plum-900">
+          Reason
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Called, coming on Saturday"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      )}
+      <label className="block font-semibold text-plum-900">
+        Assigned to
+        <input
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          placeholder="Staff member"
+          className={`${inputClass} mt-1`}
+        />
+      </label>
+      <label className="block font-semibold text-plum-900">
+        Add a note
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          className={`${inputClass} mt-1`}
+        />
+      </label>
+      {error && <p className="text-xs text-rose-700">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={busy || !changed}
+        className="px-4 py-2 bg-plum-900 text-white text-sm font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50"
+      >
+        {busy ? 'Saving…' : 'Save'}
+      </button>
+    </div>
+  );
+}
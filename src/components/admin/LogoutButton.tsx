@@ -0,0 +1,23 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+
+export default function LogoutButton() {
+  const router = useRouter();
+
+  const handleLogout = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' }).catch(() => undefined);
+    router.push('/admin/login');
+    router.refresh();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleLogout}
+      className="text-sm text-warmgray-600 hover:text-plum-800 underline"
+    >
+      Log out
+    </button>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function RetryEmailButton({ id }: { id: string }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleRetry = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/email-outbox/${encodeURIComponent(id)}/retry`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error ?? 'Retry failed');
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError('Retry failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <button
+        type="button"
+        onClick={handleRetry}
+        disabled={busy}
+        className="px-3 py-1 bg-plum-900 text-white text-xs font-semibold rounded hover:bg-plum-800 transition-colors disabled:opacity-50"
+      >
+        {busy ? 'Retrying…' : 'Retry'}
+      </button>
+      {error && <span className="text-xs text-rose-700">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+const STATUS_STYLES: Record<string, string> = {
+  paid: 'bg-green-100 text-green-800',
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-warmgray-100 text-warmgray-700',
+  non_renewing: 'bg-rose-100 text-plum-900',
+  refunded: 'bg-rose-100 text-plum-900',
+  failed: 'bg-rose-200 text-plum-900',
+  cancelled: 'bg-warmgray-200 text-warmgray-600',
+  lapsed: 'bg-warmgray-200 text-warmgray-700',
+  sent: 'bg-green-100 text-green-800',
+  dead: 'bg-rose-200 text-plum-900',
+  new: 'bg-rose-100 text-plum-900',
+  contacted: 'bg-warmgray-100 text-warmgray-700',
+  booked: 'bg-plum-700 text-white',
+  attended: 'bg-green-50 text-green-800',
+  converted: 'bg-green-100 text-green-800',
+  lost: 'bg-warmgray-200 text-warmgray-600',
+};
+
+export default function StatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${
+        STATUS_STYLES[status] ?? 'bg-warmgray-100 text-warmgray-700'
+      }`}
+    >
+      {status.replace('_', '-')}
+    </span>
+  );
+}
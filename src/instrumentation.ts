@@ -0,0 +1,7 @@
+export async function register() {
+  // Background jobs need Node APIs (fs, timers) and only one copy per server.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduledJobs } = await import('@/lib/jobs/scheduler');
+    startScheduledJobs();
+  }
+}
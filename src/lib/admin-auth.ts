@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { checkRateLimit, clientIp } from '@/lib/rate-limit/rate-limit';
+import type { RateLimitResult } from '@/lib/rate-limit/types';
+import { createSignedToken, signingSecret, verifySignedToken } from '@/lib/signed-tokens';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+
+export const ADMIN_SESSION_COOKIE = 'shegymz_admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+const ADMIN_SESSION_PURPOSE = 'admin-session';
+/** Sessions get their own secret, so a leaked member-link secret can't mint one */
+const ADMIN_SESSION_SECRET_ENV = 'ADMIN_SESSION_SECRET';
+
+const LOGIN_ATTEMPTS_PER_IP = 10;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+interface AdminSessionData {
+  /** Session generation; logging out bumps it and ends every session */
+  version: number;
+  /** Ties the session to the password it was opened with */
+  password: string;
+}
+
+interface AdminSessionDocument {
+  version: number;
+}
+
+const sessionStore = new JsonFileStore<AdminSessionDocument>('admin-session.json', () => ({
+  version: 1,
+}));
+
+function safeEqual(actual: string, expected: string): boolean {
+  try {
+    return crypto.timingSafeEqual(Buffer.from(actual, 'utf8'), Buffer.from(expected, 'utf8'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the password entered on the /admin login page.
+ *
+ * Required env vars:
+ *   ADMIN_PASSWORD
+ */
+export function isAdminPassword(password: string): boolean {
+  const expected = process.env.ADMIN_PASSWORD?.trim();
+  if (!expected || !password) return false;
+  return safeEqual(password, expected);
+}
+
+/** Guessing the password is limited per IP address. */
+export function limitAdminLogins(request: NextRequest): Promise<RateLimitResult> {
+  return checkRateLimit([
+    {
+      key: `admin-login:ip:${clientIp(request)}`,
+      limit: LOGIN_ATTEMPTS_PER_IP,
+      windowMs: LOGIN_WINDOW_MS,
+    },
+  ]);
+}
+
+/** Keyed hash of ADMIN_PASSWORD, so changing the password ends existing sessions */
+function passwordFingerprint(): string {
+  return crypto
+    .createHmac('sha256', signingSecret(ADMIN_SESSION_SECRET_ENV))
+    .update(process.env.ADMIN_PASSWORD?.trim() ?? '')
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/**
+ * Signed session value stored in the admin cookie after logging in.
+ *
+ * Required env vars:
+ *   ADMIN_SESSION_SECRET
+ */
+export async function createAdminSession(): Promise<string> {
+  const { version } = await sessionStore.read();
+  return createSignedToken<AdminSessionData>(
+    ADMIN_SESSION_PURPOSE,
+    { version, password: passwordFingerprint() },
+    ADMIN_SESSION_TTL_SECONDS,
+    ADMIN_SESSION_SECRET_ENV,
+  );
+}
+
+/** Logs out every admin session — there is one shared admin password. */
+export async function revokeAdminSessions(): Promise<void> {
+  await sessionStore.update((doc) => {
+    doc.version += 1;
+  });
+}
+
+export async function isAdminSession(token: string | undefined): Promise<boolean> {
+  if (!token) return false;
+  try {
+    const data = verifySignedToken<AdminSessionData>(
+      ADMIN_SESSION_PURPOSE,
+      token,
+      ADMIN_SESSION_SECRET_ENV,
+    );
+    if (!data || !safeEqual(data.password ?? '', passwordFingerprint())) return false;
+    const { version } = await sessionStore.read();
+    return data.version === version;
+  } catch {
+    // ADMIN_SESSION_SECRET missing — no session can be valid.
+    return false;
+  }
+}
+
+/**
+ * Checks that a request carries the admin API token as a bearer token, or
+ * comes from a logged-in /admin session.
+ *
+ * Required env vars:
+ *   ADMIN_API_TOKEN   (for bearer access)
+ */
+export async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  if (await isAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value)) return true;
+
+  const expected = process.env.ADMIN_API_TOKEN?.trim();
+  if (!expected) return false;
+
+  const header = request.headers.get('authorization') ?? '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) return false;
+
+  return safeEqual(token, expected);
+}
+
+/** For /admin pages: sends visitors without a valid session to the login page. */
+export async function requireAdminSession(): Promise<void> {
+  const cookieStore = await cookies();
+  if (!(await isAdminSession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value))) {
+    redirect('/admin/login');
+  }
+}
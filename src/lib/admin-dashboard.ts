@@ -0,0 +1,216 @@
+import { getFreeTrialRequestRepository } from '@/lib/free-trials/free-trial-repository';
+import { formatSlot } from '@/lib/free-trials/slot-format';
+import type { FreeTrialRequest } from '@/lib/free-trials/types';
+import { DEFAULT_LOCALE } from '@/lib/i18n/config';
+import { formatAmount } from '@/lib/format';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import type { Membership } from '@/lib/memberships/types';
+import { getPaymentRecordRepository } from '@/lib/payments/payment-record-repository';
+import { getPlan } from '@/lib/payments/plans';
+import type { PaymentRecord } from '@/lib/payments/types';
+import { getReferralRepository } from '@/lib/referrals/referral-repository';
+import type { Referral } from '@/lib/referrals/types';
+
+/** Filters shared by the /admin list views; all optional */
+export interface DashboardFilters {
+  /** Free-text search over name, email, phone and reference */
+  q?: string;
+  status?: string;
+  planId?: string;
+  /** ISO dates (inclusive) */
+  from?: string;
+  to?: string;
+}
+
+export interface TimelineEntry {
+  at: string;
+  title: string;
+  detail?: string;
+}
+
+export interface PersonDetail {
+  email: string;
+  name?: string;
+  phone?: string;
+  membership?: Membership;
+  payments: PaymentRecord[];
+  freeTrialRequests: FreeTrialRequest[];
+  referralsMade: Referral[];
+  referredBy?: Referral;
+  /** Everything that happened to this person, newest first */
+  timeline: TimelineEntry[];
+}
+
+function matchesSearch(q: string | undefined, fields: Array<string | undefined>): boolean {
+  const needle = q?.trim().toLowerCase();
+  if (!needle) return true;
+  return fields.some((field) => field?.toLowerCase().includes(needle));
+}
+
+function inDateRange(iso: string, filters: DashboardFilters): boolean {
+  const date = iso.slice(0, 10);
+  if (filters.from && date < filters.from) return false;
+  if (filters.to && date > filters.to) return false;
+  return true;
+}
+
+function matchesRecord(record: PaymentRecord, filters: DashboardFilters, at: string): boolean {
+  return (
+    (!filters.status || record.status === filters.status) &&
+    (!filters.planId || record.planId === filters.planId) &&
+    inDateRange(at, filters) &&
+    matchesSearch(filters.q, [
+      record.member.name,
+      record.member.email,
+      record.member.phone,
+      record.id,
+      record.providerReference,
+    ])
+  );
+}
+
+/** Every checkout started from the subscribe form, newest first */
+export async function listSubscriptionStarts(filters: DashboardFilters): Promise<PaymentRecord[]> {
+  const records = await getPaymentRecordRepository().list();
+  return records.filter((record) => matchesRecord(record, filters, record.createdAt));
+}
+
+/** Checkouts that reached an outcome, most recently settled first */
+export async function listPayments(filters: DashboardFilters): Promise<PaymentRecord[]> {
+  const records = await getPaymentRecordRepository().list();
+  return records
+    .filter((record) => record.status !== 'pending')
+    .filter((record) => matchesRecord(record, filters, record.paidAt ?? record.updatedAt))
+    .sort((a, b) => (b.paidAt ?? b.updatedAt).localeCompare(a.paidAt ?? a.updatedAt));
+}
+
+export async function listFreeTrialRequests(filters: DashboardFilters): Promise<FreeTrialRequest[]> {
+  const requests = await getFreeTrialRequestRepository().list();
+  return requests.filter(
+    (request) =>
+      (!filters.status || request.status === filters.status) &&
+      inDateRange(request.createdAt, filters) &&
+      matchesSearch(filters.q, [request.name, request.email, request.phone]),
+  );
+}
+
+function paymentTimeline(record: PaymentRecord): TimelineEntry[] {
+  const planName = getPlan(record.planId)?.name ?? record.planId;
+  const amount = formatAmount(record.amountCents, record.currency);
+
+  const entries: TimelineEntry[] = record.statusHistory.map((change, index) => ({
+    at: change.at,
+    title:
+      index === 0
+        ? `Started checkout for ${planName}`
+        : `Payment ${change.status} (${change.source})`,
+    detail: [`${amount} · ${record.id}`, change.note].filter(Boolean).join(' — '),
+  }));
+
+  for (const refund of record.refunds ?? []) {
+    entries.push({
+      at: refund.requestedAt,
+      title: 'Refund requested',
+      detail: [formatAmount(refund.amountCents, record.currency), refund.reason].filter(Boolean).join(' — '),
+    });
+    if (refund.completedAt) {
+      entries.push({
+        at: refund.completedAt,
+        title: `Refund ${refund.status}`,
+        detail: refund.failureReason,
+      });
+    }
+  }
+  return entries;
+}
+
+/** Everything we know about one person, looked up by email */
+export async function getPersonDetail(email: string): Promise<PersonDetail | undefined> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const [membership, payments, freeTrialRequests, referralsMade, referredBy] = await Promise.all([
+    getMembershipRepository().findByEmail(normalizedEmail),
+    getPaymentRecordRepository().findByEmail(normalizedEmail),
+    getFreeTrialRequestRepository().findByEmail(normalizedEmail),
+    getReferralRepository().listByReferrer(normalizedEmail),
+    getReferralRepository().findByReferredEmail(normalizedEmail),
+  ]);
+
+  if (!membership && payments.length === 0 && freeTrialRequests.length === 0) {
+    return undefined;
+  }
+
+  const timeline: TimelineEntry[] = [
+    ...freeTrialRequests.map((request) => ({
+      at: request.createdAt,
+      title: 'Requested a free trial',
+      detail:
+        [
+          request.booking &&
+            `Session ${formatSlot(request.booking.slotStart, DEFAULT_LOCALE)} (${request.booking.status})`,
+          request.bodyGoals,
+        ]
+          .filter(Boolean)
+          .join(' — ') || undefined,
+    })),
+    // The first entry is the submission itself, already listed above.
+    ...freeTrialRequests.flatMap((request) =>
+      request.statusHistory.slice(1).map((change) => ({
+        at: change.at,
+        title: `Lead ${change.status}`,
+        detail: change.reason,
+      })),
+    ),
+    ...freeTrialRequests.flatMap((request) =>
+      request.notes.map((note) => ({ at: note.at, title: 'Lead note', detail: note.text })),
+    ),
+    ...payments.flatMap(paymentTimeline),
+    ...(membership?.statusHistory ?? []).map((change) => ({
+      at: change.at,
+      title: `Membership ${change.status.replace('_', '-')}`,
+      detail: change.reason,
+    })),
+    ...referralsMade.map((referral) => ({
+      at: referral.attributedAt,
+      title: `Referred ${referral.referredName}`,
+      detail: `Free month ${referral.reward.status}`,
+    })),
+  ];
+  if (referredBy) {
+    timeline.push({
+      at: referredBy.attributedAt,
+      title: 'Joined through a referral',
+      detail: `Code ${referredBy.referralCode} from ${referredBy.referrerEmail}`,
+    });
+  }
+
+  const latestDetails = payments[0]?.member ?? freeTrialRequests[0];
+  return {
+    email: normalizedEmail,
+    name: membership?.name ?? latestDetails?.name,
+    phone: latestDetails?.phone,
+    membership,
+    payments,
+    freeTrialRequests,
+    referralsMade,
+    referredBy,
+    timeline: timeline.sort((a, b) => b.at.localeCompare(a.at)),
+  };
+}
+
+/** Reads list filters from a page's search params */
+export function parseDashboardFilters(
+  searchParams: Record<string, string | string[] | undefined>,
+): DashboardFilters {
+  const value = (key: string) => {
+    const raw = searchParams[key];
+    const first = Array.isArray(raw) ? raw[0] : raw;
+    return first?.trim() || undefined;
+  };
+  return {
+    q: value('q'),
+    status: value('status'),
+    planId: value('planId'),
+    from: value('from'),
+    to: value('to'),
+  };
+}
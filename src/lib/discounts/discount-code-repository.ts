@@ -0,0 +1,123 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type {
+  DiscountCode,
+  IDiscountCodeRepository,
+  NewDiscountCode,
+  ReserveRedemptionResult,
+} from './types';
+
+interface DiscountCodeDocument {
+  codes: Record<string, DiscountCode>;
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Stores discount codes in data/discount-codes.json, keyed by code. */
+export class FileDiscountCodeRepository implements IDiscountCodeRepository {
+  private readonly store = new JsonFileStore<DiscountCodeDocument>(
+    'discount-codes.json',
+    () => ({ codes: {} }),
+  );
+
+  async findByCode(code: string): Promise<DiscountCode | undefined> {
+    const doc = await this.store.read();
+    return doc.codes[normalizeDiscountCode(code)];
+  }
+
+  /** All codes, newest first */
+  async list(): Promise<DiscountCode[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.codes).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async create(input: NewDiscountCode): Promise<DiscountCode> {
+    const discountCode: DiscountCode = {
+      ...input,
+      code: normalizeDiscountCode(input.code),
+      redemptions: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    return this.store.update((doc) => {
+      if (doc.codes[discountCode.code]) {
+        throw new Error(`Discount code ${discountCode.code} already exists`);
+      }
+      doc.codes[discountCode.code] = discountCode;
+      return discountCode;
+    });
+  }
+
+  async setActive(code: string, active: boolean): Promise<DiscountCode | undefined> {
+    return this.store.update((doc) => {
+      const discountCode = doc.codes[normalizeDiscountCode(code)];
+      if (!discountCode) return undefined;
+
+      discountCode.active = active;
+      return discountCode;
+    });
+  }
+
+  async reserveRedemption(
+    code: string,
+    paymentRecordId: string,
+    check: (discountCode: DiscountCode) => string | undefined,
+    reservedSince: Date,
+  ): Promise<ReserveRedemptionResult> {
+    return this.store.update((doc): ReserveRedemptionResult => {
+      const discountCode = doc.codes[normalizeDiscountCode(code)];
+      if (!discountCode) return { success: false, error: 'Invalid discount code' };
+
+      discountCode.reservations = Object.fromEntries(
+        Object.entries(discountCode.reservations ?? {}).filter(
+          ([, reservedAt]) => new Date(reservedAt) >= reservedSince,
+        ),
+      );
+
+      const error = check(discountCode);
+      if (error) return { success: false, error };
+
+      discountCode.reservations[paymentRecordId] = new Date().toISOString();
+      return { success: true, discountCode };
+    });
+  }
+
+  async releaseReservation(
+    code: string,
+    paymentRecordId: string,
+  ): Promise<DiscountCode | undefined> {
+    return this.store.update((doc) => {
+      const discountCode = doc.codes[normalizeDiscountCode(code)];
+      if (!discountCode) return undefined;
+
+      delete discountCode.reservations?.[paymentRecordId];
+      return discountCode;
+    });
+  }
+
+  async recordRedemption(
+    code: string,
+    paymentRecordId: string,
+  ): Promise<DiscountCode | undefined> {
+    return this.store.update((doc) => {
+      const discountCode = doc.codes[normalizeDiscountCode(code)];
+      if (!discountCode) return undefined;
+
+      delete discountCode.reservations?.[paymentRecordId];
+      const redeemed = discountCode.redeemedPaymentIds ?? [];
+      if (redeemed.includes(paymentRecordId)) return discountCode;
+
+      discountCode.redeemedPaymentIds = [...redeemed, paymentRecordId];
+      discountCode.redemptions += 1;
+      return discountCode;
+    });
+  }
+}
+
+let repository: IDiscountCodeRepository | undefined;
+
+export function getDiscountCodeRepository(): IDiscountCodeRepository {
+  repository ??= new FileDiscountCodeRepository();
+  return repository;
+}
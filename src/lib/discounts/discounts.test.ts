@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Plan } from '@/lib/payments/types';
+import { getDiscountCodeRepository } from './discount-code-repository';
+import { calculateDiscount, reserveDiscountCode } from './discounts';
+import type { DiscountCode } from './types';
+
+const plan: Plan = {
+  id: 'monthly',
+  name: 'Monthly',
+  description: 'Monthly membership',
+  amountCents: 39900,
+  currency: 'ZAR',
+  interval: 'monthly',
+  months: 1,
+};
+
+function discountCode(overrides: Partial<DiscountCode>): DiscountCode {
+  return {
+    code: 'WELCOME',
+    type: 'percentage',
+    value: 10,
+    redemptions: 0,
+    active: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('calculateDiscount', () => {
+  it('takes a percentage off, rounded to the cent', () => {
+    const applied = calculateDiscount(discountCode({ type: 'percentage', value: 15 }), plan);
+    expect(applied.discountCents).toBe(5985);
+    expect(applied.amountCents).toBe(33915);
+    expect(applied.originalAmountCents).toBe(39900);
+  });
+
+  it('takes a fixed amount off', () => {
+    const applied = calculateDiscount(discountCode({ type: 'fixed', value: 5000 }), plan);
+    expect(applied.amountCents).toBe(34900);
+  });
+
+  it('never discounts below the R1 minimum charge', () => {
+    const all = calculateDiscount(discountCode({ type: 'percentage', value: 100 }), plan);
+    const tooMuch = calculateDiscount(discountCode({ type: 'fixed', value: 50000 }), plan);
+    expect(all.amountCents).toBe(100);
+    expect(tooMuch.amountCents).toBe(100);
+  });
+});
+
+describe('reserveDiscountCode', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'discounts-'));
+    vi.stubEnv('DATA_DIR', dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('holds the last redemption for one checkout only', async () => {
+    await getDiscountCodeRepository().create({
+      code: 'last1',
+      type: 'fixed',
+      value: 1000,
+      maxRedemptions: 1,
+      active: true,
+    });
+
+    const [first, second] = await Promise.all([
+      reserveDiscountCode('LAST1', plan, 'pay_1'),
+      reserveDiscountCode('LAST1', plan, 'pay_2'),
+    ]);
+    expect(first.success).toBe(true);
+    expect(second).toEqual({
+      success: false,
+      error: 'This discount code has reached its usage limit',
+    });
+  });
+
+  it('counts a paid checkout once, however often it is reported', async () => {
+    const repository = getDiscountCodeRepository();
+    await repository.create({ code: 'TWICE', type: 'percentage', value: 10, active: true });
+
+    await reserveDiscountCode('TWICE', plan, 'pay_1');
+    await repository.recordRedemption('TWICE', 'pay_1');
+    const recorded = await repository.recordRedemption('TWICE', 'pay_1');
+
+    expect(recorded?.redemptions).toBe(1);
+    expect(recorded?.reservations ?? {}).toEqual({});
+  });
+
+  it('rejects codes that are inactive, expired or for another plan', async () => {
+    const repository = getDiscountCodeRepository();
+    await repository.create({ code: 'OFF', type: 'fixed', value: 1000, active: false });
+    await repository.create({
+      code: 'OLD',
+      type: 'fixed',
+      value: 1000,
+      expiresAt: '2020-01-01T00:00:00.000Z',
+      active: true,
+    });
+    await repository.create({
+      code: 'YEAR',
+      type: 'fixed',
+      value: 1000,
+      planIds: ['annual'],
+      active: true,
+    });
+
+    expect(await reserveDiscountCode('OFF', plan, 'pay_1')).toMatchObject({ success: false });
+    expect(await reserveDiscountCode('OLD', plan, 'pay_1')).toMatchObject({ success: false });
+    expect(await reserveDiscountCode('YEAR', plan, 'pay_1')).toMatchObject({ success: false });
+    expect(await reserveDiscountCode('NOPE', plan, 'pay_1')).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,90 @@
+import type { Plan } from '@/lib/payments/types';
+import { getDiscountCodeRepository } from './discount-code-repository';
+import type { AppliedDiscount, DiscountCode } from './types';
+
+/** Providers reject charges below R1, so a discount never goes lower */
+const MIN_CHARGE_CENTS = 100;
+
+/** How long an unpaid checkout holds one of a limited code's redemptions */
+const RESERVATION_TTL_MS = 60 * 60 * 1000;
+
+export type ApplyDiscountResult =
+  | { success: true; discount: AppliedDiscount }
+  | { success: false; error: string };
+
+/** Why a code can't be used for `plan` right now, if anything */
+function rejectionReason(discountCode: DiscountCode, plan: Plan, now: Date): string | undefined {
+  if (!discountCode.active) return 'This discount code is no longer active';
+  if (discountCode.expiresAt && new Date(discountCode.expiresAt) <= now) {
+    return 'This discount code has expired';
+  }
+  const reserved = Object.keys(discountCode.reservations ?? {}).length;
+  if (
+    discountCode.maxRedemptions !== undefined &&
+    discountCode.redemptions + reserved >= discountCode.maxRedemptions
+  ) {
+    return 'This discount code has reached its usage limit';
+  }
+  if (discountCode.planIds?.length && !discountCode.planIds.includes(plan.id)) {
+    return 'This discount code does not apply to the selected plan';
+  }
+  return undefined;
+}
+
+export function calculateDiscount(discountCode: DiscountCode, plan: Plan): AppliedDiscount {
+  const rawDiscount =
+    discountCode.type === 'percentage'
+      ? Math.round((plan.amountCents * discountCode.value) / 100)
+      : discountCode.value;
+  const discountCents = Math.min(rawDiscount, plan.amountCents - MIN_CHARGE_CENTS);
+
+  return {
+    code: discountCode.code,
+    type: discountCode.type,
+    value: discountCode.value,
+    originalAmountCents: plan.amountCents,
+    discountCents,
+    amountCents: plan.amountCents - discountCents,
+  };
+}
+
+/**
+ * Validates a code and prices it against the plan without holding it —
+ * for previews. Checkouts use reserveDiscountCode().
+ */
+export async function applyDiscountCode(code: string, plan: Plan): Promise<ApplyDiscountResult> {
+  const discountCode = await getDiscountCodeRepository().findByCode(code);
+  if (!discountCode) {
+    return { success: false, error: 'Invalid discount code' };
+  }
+
+  const reason = rejectionReason(discountCode, plan, new Date());
+  if (reason) {
+    return { success: false, error: reason };
+  }
+
+  return { success: true, discount: calculateDiscount(discountCode, plan) };
+}
+
+/**
+ * Validates a code for a checkout and holds one of its redemptions for the
+ * payment record until it is paid, released or the reservation expires.
+ */
+export async function reserveDiscountCode(
+  code: string,
+  plan: Plan,
+  paymentRecordId: string,
+): Promise<ApplyDiscountResult> {
+  const now = new Date();
+  const result = await getDiscountCodeRepository().reserveRedemption(
+    code,
+    paymentRecordId,
+    (discountCode) => rejectionReason(discountCode, plan, now),
+    new Date(now.getTime() - RESERVATION_TTL_MS),
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  return { success: true, discount: calculateDiscount(result.discountCode, plan) };
+}
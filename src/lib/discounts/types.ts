@@ -0,0 +1,75 @@
+/**
+ * Discount Codes — Type Definitions
+ */
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface DiscountCode {
+  /** Stored upper-case; matching is case-insensitive */
+  code: string;
+  type: DiscountType;
+  /** Percentage off (1–100) or a fixed amount off in cents */
+  value: number;
+  description?: string;
+  /** ISO timestamp after which the code stops working */
+  expiresAt?: string;
+  /** Maximum number of paid redemptions; unlimited when omitted */
+  maxRedemptions?: number;
+  /** Number of payments that succeeded with this code */
+  redemptions: number;
+  /** Payment record ids already counted in `redemptions` */
+  redeemedPaymentIds?: string[];
+  /**
+   * Unpaid checkouts holding one of the redemptions, as payment record id →
+   * ISO time reserved. They count towards `maxRedemptions` until they expire.
+   */
+  reservations?: Record<string, string>;
+  /** Plans the code applies to; every plan when omitted */
+  planIds?: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+export type NewDiscountCode = Omit<
+  DiscountCode,
+  'redemptions' | 'redeemedPaymentIds' | 'reservations' | 'createdAt'
+>;
+
+export type ReserveRedemptionResult =
+  | { success: true; discountCode: DiscountCode }
+  | { success: false; error: string };
+
+/** A code applied to a plan price, as stored on the payment record */
+export interface AppliedDiscount {
+  code: string;
+  type: DiscountType;
+  value: number;
+  originalAmountCents: number;
+  discountCents: number;
+  /** Amount actually charged */
+  amountCents: number;
+}
+
+/** Contract for persisting discount codes */
+export interface IDiscountCodeRepository {
+  findByCode(code: string): Promise<DiscountCode | undefined>;
+  list(): Promise<DiscountCode[]>;
+  create(input: NewDiscountCode): Promise<DiscountCode>;
+  setActive(code: string, active: boolean): Promise<DiscountCode | undefined>;
+  /**
+   * Holds a redemption for a checkout. `check` sees the code with expired
+   * reservations dropped and returns why it can't be used, if anything;
+   * checking and reserving happen in one update so two checkouts can't both
+   * take the last redemption.
+   */
+  reserveRedemption(
+    code: string,
+    paymentRecordId: string,
+    check: (discountCode: DiscountCode) => string | undefined,
+    reservedSince: Date,
+  ): Promise<ReserveRedemptionResult>;
+  /** Gives back a checkout's reservation, e.g. when the checkout failed. */
+  releaseReservation(code: string, paymentRecordId: string): Promise<DiscountCode | undefined>;
+  /** Counts a paid checkout once, however often it is reported. */
+  recordRedemption(code: string, paymentRecordId: string): Promise<DiscountCode | undefined>;
+}
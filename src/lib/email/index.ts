@@ -0,0 +1,854 @@
+import { formatAmount, formatDate } from '@/lib/format';
+import { GYM_ADDRESS, trialCalendarAttachment } from '@/lib/free-trials/calendar';
+import { formatSlot } from '@/lib/free-trials/slot-format';
+import { DEFAULT_LOCALE, localePath, type Locale } from '@/lib/i18n/config';
+import { createLogger } from '@/lib/logging/logger';
+import type { ReconciliationReport } from '@/lib/payments/reconciliation';
+import { getEmailMessages } from './messages';
+import {
+  button,
+  detail,
+  detailsBox,
+  html,
+  renderEmail,
+  translated,
+  type RenderedEmail,
+} from './templates';
+import { enqueueEmail } from './outbox/outbox';
+import type { EmailAttachment } from './transports/types';
+
+const log = createLogger('email');
+
+/**
+ * Queues a rendered message in the outbox; the outbox worker delivers it
+ * through the transport selected by EMAIL_TRANSPORT and retries on failure.
+ */
+async function sendEmail(
+  opts: RenderedEmail & { to: string; from?: string; attachments?: EmailAttachment[] },
+) {
+  const from =
+    opts.from ??
+    process.env.EMAIL_FROM ??
+    process.env.PLUNK_FROM_EMAIL ??
+    process.env.ADMIN_EMAIL ??
+    'hello@shegymz.com';
+
+  await enqueueEmail({
+    to: opts.to,
+    from,
+    subject: opts.subject,
+    html: opts.html,
+    text: opts.text,
+    attachments: opts.attachments,
+  });
+}
+
+interface SubscriptionEmailData {
+  name: string;
+  email: string;
+  phone: string;
+  bodyGoals?: string;
+  referralName?: string;
+  referralCode?: string;
+  paymentLink?: string;
+  /** Formatted amount due, e.g. "ZAR 359.10" */
+  amount?: string;
+  discountCode?: string;
+  /** Language the member chose on the form */
+  locale?: Locale;
+}
+
+interface PaymentEmailData {
+  name: string;
+  email: string;
+  amount: string;
+  paymentDate?: string;
+  reference: string;
+  reason?: string;
+  discountCode?: string;
+  /** The member's own link for referring friends */
+  referralLink?: string;
+  locale?: Locale;
+}
+
+interface MembershipEmailData {
+  name: string;
+  email: string;
+  planName?: string;
+  amount?: string;
+  /** Formatted date — the next charge, or when access ends */
+  date?: string;
+  reason?: string;
+  locale?: Locale;
+}
+
+interface TrialBookingEmailData {
+  name: string;
+  email: string;
+  /** Free-trial request id; doubles as the calendar event id */
+  requestId: string;
+  slotStart: string;
+  slotEnd: string;
+  sequence: number;
+  /** Signed link to reschedule or cancel */
+  manageLink: string;
+  locale?: Locale;
+}
+
+function portalUrl() {
+  return process.env.PORTAL_URL?.trim() || 'https://portal.shegymz.com';
+}
+
+function subscribeUrl(locale: Locale = DEFAULT_LOCALE) {
+  const baseUrl = process.env.APP_BASE_URL?.replace(/\/$/, '') || 'https://shegymz.com';
+  return `${baseUrl}${localePath(locale, '/subscribe')}`;
+}
+
+
+function freeTrialUrl(locale: Locale = DEFAULT_LOCALE) {
+  const baseUrl = process.env.APP_BASE_URL?.replace(/\/$/, '') || 'https://shegymz.com';
+  return `${baseUrl}${localePath(locale, '/free-trial')}`;
+}
+
+function adminEmail() {
+  return process.env.ADMIN_EMAIL || 'admin@shegymz.com';
+}
+
+export async function sendNewSubscriptionNotification(
+  data: SubscriptionEmailData,
+): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: `New Subscription: ${data.name}`,
+        heading: 'New Subscription Request',
+        tone: 'neutral',
+        content: html`
+          <p>A new member started the subscription flow.</p>
+          ${detailsBox([
+            ['Name', data.name],
+            ['Email', data.email],
+            ['Phone', data.phone],
+            ['Body Goals', data.bodyGoals],
+            [
+              'Referred By',
+              data.referralName &&
+                `${data.referralName}${data.referralCode ? ` (${data.referralCode})` : ''}`,
+            ],
+            ['Amount Due', data.amount],
+            ['Discount Code', data.discountCode],
+          ])}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue admin subscription notification', { error });
+    return false;
+  }
+}
+
+export async function sendSubscriptionInitiatedEmail(
+  data: SubscriptionEmailData,
+): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.subscriptionInitiated.subject,
+        heading: m.subscriptionInitiated.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.subscriptionInitiated.intro}</p>
+          ${data.paymentLink && button(data.paymentLink, m.subscriptionInitiated.button)}
+          <p>${m.subscriptionInitiated.outro}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue subscription initiated email', { error });
+    return false;
+  }
+}
+
+export async function sendPaymentSuccessEmail(data: PaymentEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.paymentSuccess.subject,
+        heading: m.paymentSuccess.heading,
+        tone: 'success',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(m.paymentSuccess.confirmed, { amount: html`<strong>${data.amount}</strong>` })}</p>
+          ${detail(m.labels.paymentDate, data.paymentDate)}
+          ${detail(m.labels.reference, data.reference)}
+          <p>${m.paymentSuccess.nextStep}</p>
+          ${button(portalUrl(), m.openPortal)}
+          ${data.referralLink && html`
+            <p>${m.paymentSuccess.referral}</p>
+            <p><a href="${data.referralLink}">${data.referralLink}</a></p>
+          `}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue payment success email', { error });
+    return false;
+  }
+}
+
+export async function sendPaymentReceivedNotification(data: PaymentEmailData): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: `Payment Received: ${data.name}`,
+        heading: 'Payment Received',
+        tone: 'neutral',
+        content: html`
+          <p>A SheGymZ subscription payment has been confirmed.</p>
+          ${detailsBox([
+            ['Name', data.name],
+            ['Email', data.email],
+            ['Amount', data.amount],
+            ['Date', data.paymentDate],
+            ['Reference', data.reference],
+            ['Discount Code', data.discountCode],
+          ])}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue admin payment notification', { error });
+    return false;
+  }
+}
+
+export async function sendPaymentFailedEmail(data: PaymentEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.paymentFailed.subject,
+        heading: m.paymentFailed.heading,
+        tone: 'danger',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.paymentFailed.body}</p>
+          ${detail(m.labels.amount, data.amount)}
+          ${detail(m.labels.reference, data.reference)}
+          ${detail(m.labels.reason, data.reason)}
+          ${button(subscribeUrl(data.locale), m.paymentFailed.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue payment failed email', { error });
+    return false;
+  }
+}
+
+export async function sendSubscriptionActivatedEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.subscriptionActivated.subject,
+        heading: m.subscriptionActivated.heading,
+        tone: 'success',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${
+            data.planName
+              ? translated(m.subscriptionActivated.bodyWithPlan, { plan: html`<strong>${data.planName}</strong>` })
+              : m.subscriptionActivated.body
+          }</p>
+          ${detail(m.labels.amount, data.amount)}
+          ${detail(m.labels.nextPayment, data.date)}
+          <p>${m.subscriptionActivated.autoCharge}</p>
+          ${button(portalUrl(), m.openPortal)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue subscription activated email', { error });
+    return false;
+  }
+}
+
+/** Re-sends the member portal link, e.g. when a member tries to subscribe again. */
+export async function sendPortalLinkEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.portalLink.subject,
+        heading: m.portalLink.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.portalLink.body}</p>
+          ${detail(m.labels.nextPayment, data.date)}
+          ${button(portalUrl(), m.openPortal)}
+          <p>${m.portalLink.ignore}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue portal link email', { error });
+    return false;
+  }
+}
+
+export async function sendSubscriptionNotRenewingEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.notRenewing.subject,
+        heading: m.notRenewing.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.notRenewing.body}</p>
+          ${data.date && html`<p>${translated(m.accessUntil, { date: html`<strong>${data.date}</strong>` })}</p>`}
+          <p>${m.notRenewing.changedMind}</p>
+          ${button(subscribeUrl(data.locale), m.notRenewing.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue subscription not renewing email', { error });
+    return false;
+  }
+}
+
+export async function sendSubscriptionEndedEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.ended.subject,
+        heading: m.ended.heading,
+        tone: 'danger',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.ended.body}</p>
+          ${detail(m.labels.reason, data.reason)}
+          <p>${m.ended.welcomeBack}</p>
+          ${button(subscribeUrl(data.locale), m.rejoin)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue subscription ended email', { error });
+    return false;
+  }
+}
+
+export async function sendRenewalReminderEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.renewalReminder.subject,
+        heading: m.renewalReminder.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${
+            data.planName
+              ? translated(m.renewalReminder.bodyWithPlan, { plan: html`<strong>${data.planName}</strong>` })
+              : m.renewalReminder.body
+          }</p>
+          ${detail(m.labels.amount, data.amount)}
+          ${detail(m.labels.renewalDate, data.date)}
+          <p>${m.renewalReminder.noAction}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue renewal reminder email', { error });
+    return false;
+  }
+}
+
+export async function sendRenewalFailedEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.renewalFailed.subject,
+        heading: m.renewalFailed.heading,
+        tone: 'danger',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.renewalFailed.body}</p>
+          ${detail(m.labels.amount, data.amount)}
+          ${detail(m.labels.reason, data.reason)}
+          ${data.date && html`<p>${translated(m.accessUntil, { date: html`<strong>${data.date}</strong>` })}</p>`}
+          <p>${m.renewalFailed.restore}</p>
+          ${button(portalUrl(), m.renewalFailed.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue renewal failed email', { error });
+    return false;
+  }
+}
+
+export async function sendCancellationLinkEmail(data: {
+  name: string;
+  email: string;
+  cancelLink: string;
+  expiresAt: string;
+  locale?: Locale;
+}): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.cancellationLink.subject,
+        heading: m.cancellationLink.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.cancellationLink.body}</p>
+          ${button(data.cancelLink, m.cancellationLink.button)}
+          <p>${translated(m.cancellationLink.expiry, { date: data.expiresAt })}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue cancellation link email', { error });
+    return false;
+  }
+}
+
+export async function sendCancellationConfirmedEmail(data: MembershipEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.cancellationConfirmed.subject,
+        heading: m.cancellationConfirmed.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.cancellationConfirmed.body}</p>
+          ${data.date && html`<p>${translated(m.accessUntil, { date: html`<strong>${data.date}</strong>` })}</p>`}
+          <p>${m.cancellationConfirmed.welcomeBack}</p>
+          ${button(subscribeUrl(data.locale), m.rejoin)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue cancellation confirmed email', { error });
+    return false;
+  }
+}
+
+export async function sendMembershipStatusNotification(
+  data: MembershipEmailData & { change: string },
+): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: `${data.change}: ${data.name}`,
+        heading: `Membership Update: ${data.change}`,
+        tone: 'neutral',
+        content: detailsBox([
+          ['Name', data.name],
+          ['Email', data.email],
+          ['Plan', data.planName],
+          ['Amount', data.amount],
+          ['Date', data.date],
+          ['Reason', data.reason],
+        ]),
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue admin membership notification', { error });
+    return false;
+  }
+}
+
+export async function sendRefundOutcomeEmail(data: {
+  name: string;
+  email: string;
+  amount: string;
+  reference: string;
+  outcome: 'processed' | 'failed';
+  reason?: string;
+  locale?: Locale;
+}): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    const processed = data.outcome === 'processed';
+    const amount = html`<strong>${data.amount}</strong>`;
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: processed ? m.refund.processedSubject : m.refund.failedSubject,
+        heading: processed ? m.refund.processedHeading : m.refund.failedHeading,
+        tone: processed ? 'success' : 'danger',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(processed ? m.refund.processedBody : m.refund.failedBody, { amount })}</p>
+          ${detail(m.labels.paymentReference, data.reference)}
+          ${detail(processed ? m.labels.note : m.labels.reason, data.reason)}
+          <p>${translated(m.refund.questions, { email: process.env.CONTACT_EMAIL || 'admin@shegymz.com' })}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue refund outcome email', { error });
+    return false;
+  }
+}
+
+export async function sendReferralRewardEmail(data: {
+  name: string;
+  email: string;
+  referredName: string;
+  locale?: Locale;
+}): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.referralReward.subject,
+        heading: m.referralReward.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(m.referralReward.joined, { name: data.referredName })}</p>
+          <p>${m.referralReward.applied}</p>
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue referral reward email', { error });
+    return false;
+  }
+}
+
+export async function sendReconciliationReportEmail(report: ReconciliationReport): Promise<boolean> {
+  try {
+    const section = (title: string, rows: string[]) =>
+      rows.length > 0 &&
+      html`<h3>${title} (${rows.length})</h3><ul>${rows.map((row) => html`<li>${row}</li>`)}</ul>`;
+
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: 'Payment Reconciliation: Discrepancies Found',
+        heading: 'Payment Reconciliation Report',
+        tone: 'neutral',
+        content: html`
+          <p>${formatDate(report.from)} – ${formatDate(report.to)}: checked ${report.transactionsChecked} Paystack transactions against ${report.recordsChecked} checkouts.</p>
+          ${section(
+            'Statuses corrected',
+            report.corrected.map((c) => `${c.reference}: ${c.from} → ${c.to}`),
+          )}
+          ${section('Missed payment confirmations processed', report.successProcessed)}
+          ${section(
+            'Subscription renewals (for reference)',
+            report.renewals.map(
+              (r) => `${r.reference}: ${formatAmount(r.amountCents, r.currency)}${r.email ? ` from ${r.email}` : ''}`,
+            ),
+          )}
+          ${section(
+            'Paid with no checkout record',
+            report.paidWithoutRecord.map(
+              (p) => `${p.reference}: ${formatAmount(p.amountCents, p.currency)}${p.email ? ` from ${p.email}` : ''}`,
+            ),
+          )}
+          ${section(
+            'Stuck in pending',
+            report.stuckPending.map((p) => `${p.reference}: ${p.email}, started ${formatDate(p.createdAt)}`),
+          )}
+          ${section(
+            'Amount mismatches',
+            report.amountMismatches.map(
+              (m) =>
+                `${m.reference}: expected ${formatAmount(m.recordAmountCents, m.currency)}, Paystack charged ${formatAmount(m.providerAmountCents, m.currency)}`,
+            ),
+          )}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue reconciliation report', { error });
+    return false;
+  }
+}
+
+export async function sendFreeTrialRequestEmail(data: {
+  name: string;
+  email: string;
+  phone: string;
+  bodyGoals?: string;
+  referralName?: string;
+  referralCode?: string;
+  slotStart?: string;
+}): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: `Free Trial Request: ${data.name}`,
+        heading: 'New Free Trial Request',
+        content: detailsBox([
+          ['Name', data.name],
+          ['Email', data.email],
+          ['Phone', data.phone],
+          ['Body Goals', data.bodyGoals],
+          ['Trial Session', data.slotStart && formatSlot(data.slotStart, DEFAULT_LOCALE)],
+          [
+            'Referred By',
+            data.referralName &&
+              `${data.referralName}${data.referralCode ? ` (${data.referralCode})` : ''}`,
+          ],
+        ]),
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue free trial request email', { error });
+    return false;
+  }
+}
+
+/** Confirms a new or moved trial session, with a calendar invite attached. */
+export async function sendTrialBookedEmail(
+  data: TrialBookingEmailData & { rescheduled?: boolean },
+): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    const date = formatSlot(data.slotStart, data.locale ?? DEFAULT_LOCALE);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: data.rescheduled ? m.trialRescheduled.subject : m.trialBooked.subject,
+        heading: data.rescheduled ? m.trialRescheduled.heading : m.trialBooked.heading,
+        tone: 'success',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(data.rescheduled ? m.trialRescheduled.body : m.trialBooked.body, {
+            date: html`<strong>${date}</strong>`,
+          })}</p>
+          ${detail(m.labels.location, GYM_ADDRESS)}
+          <p>${data.rescheduled ? m.trialRescheduled.calendar : m.trialBooked.calendar}</p>
+          <p>${m.trialBooked.manage}</p>
+          ${button(data.manageLink, m.trialBooked.button)}
+        `,
+      }),
+      attachments: [
+        trialCalendarAttachment({
+          uid: `${data.requestId}@shegymz.com`,
+          sequence: data.sequence,
+          start: data.slotStart,
+          end: data.slotEnd,
+          title: m.trialBooked.eventTitle,
+          description: m.trialBooked.eventDescription,
+          url: data.manageLink,
+        }),
+      ],
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue trial booking email', { error });
+    return false;
+  }
+}
+
+/** Confirms a cancelled trial session and removes it from the visitor's calendar. */
+export async function sendTrialCancelledEmail(
+  data: Omit<TrialBookingEmailData, 'manageLink'>,
+): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    const date = formatSlot(data.slotStart, data.locale ?? DEFAULT_LOCALE);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.trialCancelled.subject,
+        heading: m.trialCancelled.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(m.trialCancelled.body, { date })}</p>
+          <p>${m.trialCancelled.bookAgain}</p>
+          ${button(freeTrialUrl(data.locale), m.trialCancelled.button)}
+        `,
+      }),
+      attachments: [
+        trialCalendarAttachment({
+          uid: `${data.requestId}@shegymz.com`,
+          sequence: data.sequence,
+          start: data.slotStart,
+          end: data.slotEnd,
+          title: m.trialBooked.eventTitle,
+          description: m.trialBooked.eventDescription,
+          cancelled: true,
+        }),
+      ],
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue trial cancellation email', { error });
+    return false;
+  }
+}
+
+export async function sendTrialBookingNotification(
+  data: Omit<TrialBookingEmailData, 'manageLink' | 'sequence'> & { change: string },
+): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: adminEmail(),
+      ...renderEmail({
+        subject: `Trial ${data.change}: ${data.name}`,
+        heading: `Free Trial Update: ${data.change}`,
+        tone: 'neutral',
+        content: detailsBox([
+          ['Name', data.name],
+          ['Email', data.email],
+          ['Session', formatSlot(data.slotStart, DEFAULT_LOCALE)],
+        ]),
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue admin trial notification', { error });
+    return false;
+  }
+}
+
+interface TrialFollowUpEmailData {
+  name: string;
+  email: string;
+  locale?: Locale;
+}
+
+/** First email of the follow-up sequence, sent as soon as the form comes in. */
+export async function sendTrialThanksEmail(data: TrialFollowUpEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.trialThanks.subject,
+        heading: m.trialThanks.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.trialThanks.body}</p>
+          <p>${m.trialThanks.book}</p>
+          ${button(freeTrialUrl(data.locale), m.trialCancelled.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue trial thanks email', { error });
+    return false;
+  }
+}
+
+export async function sendTrialReminderEmail(
+  data: TrialFollowUpEmailData & { slotStart: string; manageLink: string },
+): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    const date = formatSlot(data.slotStart, data.locale ?? DEFAULT_LOCALE);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.trialReminder.subject,
+        heading: m.trialReminder.heading,
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${translated(m.trialReminder.body, { date: html`<strong>${date}</strong>` })}</p>
+          ${detail(m.labels.location, GYM_ADDRESS)}
+          <p>${m.trialReminder.bring}</p>
+          <p>${m.trialReminder.manage}</p>
+          ${button(data.manageLink, m.trialBooked.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue trial reminder email', { error });
+    return false;
+  }
+}
+
+/** Last email of the follow-up sequence, inviting the visitor to subscribe. */
+export async function sendTrialJoinNowEmail(data: TrialFollowUpEmailData): Promise<boolean> {
+  try {
+    const m = getEmailMessages(data.locale);
+    await sendEmail({
+      to: data.email,
+      ...renderEmail({
+        locale: data.locale,
+        subject: m.trialJoinNow.subject,
+        heading: m.trialJoinNow.heading,
+        tone: 'success',
+        content: html`
+          <p>${translated(m.greeting, { name: data.name })}</p>
+          <p>${m.trialJoinNow.body}</p>
+          <p>${m.trialJoinNow.signUp}</p>
+          ${button(subscribeUrl(data.locale), m.trialJoinNow.button)}
+        `,
+      }),
+    });
+    return true;
+  } catch (error) {
+    log.error('Failed to queue trial join-now email', { error });
+    return false;
+  }
+}
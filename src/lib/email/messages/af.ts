@@ -0,0 +1,160 @@
+import type { EmailMessages } from './en';
+
+/** Afrikaans copy for member-facing emails */
+const af: EmailMessages = {
+  tagline: 'Privaat Welstandsklub vir Vroue',
+  greeting: 'Hallo {name},',
+  labels: {
+    amount: 'Bedrag',
+    reference: 'Verwysing',
+    reason: 'Rede',
+    paymentDate: 'Betaaldatum',
+    nextPayment: 'Volgende Betaling',
+    renewalDate: 'Hernuwingsdatum',
+    paymentReference: 'Betalingsverwysing',
+    note: 'Nota',
+    location: 'Ligging',
+  },
+  openPortal: 'Maak SheGymZ-portaal Oop',
+  rejoin: 'Sluit Weer by SheGymZ Aan',
+  accessUntil: 'Jy behou volle toegang tot {date}.',
+  subscriptionInitiated: {
+    subject: 'Voltooi Jou SheGymZ-intekening',
+    heading: 'Welkom by SheGymZ',
+    intro: 'Jou intekening is begin. Voltooi jou betaling met die skakel hieronder.',
+    button: 'Voltooi Betaling',
+    outro: 'Sodra die betaling slaag, ontvang jy jou portaalskakel.',
+  },
+  paymentSuccess: {
+    subject: 'Jou SheGymZ-portaal Is Gereed',
+    heading: 'Jou SheGymZ-intekening Is Aktief',
+    confirmed: 'Jou betaling van {amount} is bevestig.',
+    nextStep: 'Jou volgende stap is om toegang tot die ledeportaal te kry.',
+    referral:
+      "Ken jy iemand wat SheGymZ sal geniet? Deel jou verwysingskakel — jy kry 'n gratis maand vir elke vriendin wat aansluit.",
+  },
+  portalLink: {
+    subject: 'Jou SheGymZ-portaalskakel',
+    heading: 'Jou SheGymZ-lidmaatskap',
+    body: "Jy het reeds 'n aktiewe lidmaatskap, so daar is niks meer om te betaal nie. Gebruik die knoppie hieronder om die ledeportaal oop te maak en jou lidmaatskap te bestuur.",
+    ignore: 'As jy nie vir hierdie skakel gevra het nie, kan jy hierdie e-pos ignoreer.',
+  },
+  paymentFailed: {
+    subject: 'Betaling Onsuksesvol - SheGymZ',
+    heading: 'Betaling Onsuksesvol',
+    body: 'Jou betaling vir SheGymZ kon nie voltooi word nie.',
+    button: 'Probeer Weer',
+  },
+  subscriptionActivated: {
+    subject: 'Jou SheGymZ-lidmaatskap Is Aktief',
+    heading: 'Jou SheGymZ-lidmaatskap Is Opgestel',
+    body: 'Jou herhalende lidmaatskap is nou aktief.',
+    bodyWithPlan: 'Jou herhalende lidmaatskap ({plan}) is nou aktief.',
+    autoCharge: 'Jy word elke faktuurtydperk outomaties gedebiteer. Jy kan enige tyd kanselleer.',
+  },
+  notRenewing: {
+    subject: 'Jou SheGymZ-lidmaatskap Sal Nie Hernu Nie',
+    heading: 'Jou Lidmaatskap Sal Nie Hernu Nie',
+    body: 'Jou SheGymZ-lidmaatskap is gestel om nie te hernu nie.',
+    changedMind: 'Van plan verander? Jy kan enige tyd weer inteken.',
+    button: 'Hernu My Lidmaatskap',
+  },
+  ended: {
+    subject: 'Jou SheGymZ-lidmaatskap Het Verval',
+    heading: 'Jou Lidmaatskap Het Verval',
+    body: 'Jou SheGymZ-lidmaatskap is nie meer aktief nie.',
+    welcomeBack: 'Ons sal jou graag terug hê wanneer jy gereed is.',
+  },
+  renewalReminder: {
+    subject: 'Jou SheGymZ-lidmaatskap Hernu Binnekort',
+    heading: 'Komende Lidmaatskaphernuwing',
+    body: 'Jou SheGymZ-lidmaatskap hernu binnekort.',
+    bodyWithPlan: 'Jou SheGymZ-lidmaatskap ({plan}) hernu binnekort.',
+    noAction: 'Jy hoef niks te doen nie — ons debiteer die kaart op lêer.',
+  },
+  renewalFailed: {
+    subject: 'Aksie Nodig: SheGymZ-hernuwing Onsuksesvol',
+    heading: 'Lidmaatskaphernuwing Onsuksesvol',
+    body: 'Ons kon nie jou SheGymZ-hernuwingsbetaling invorder nie. Ons sal die komende paar dae weer probeer.',
+    restore:
+      'As dit dan steeds nie ingevorder kan word nie, sal jou lidmaatskap verval. Gaan jou kaartbesonderhede in die lidportaal na om dit te behou.',
+    button: 'Werk My Betaalbesonderhede By',
+  },
+  cancellationLink: {
+    subject: 'Bevestig Jou SheGymZ-kansellasie',
+    heading: 'Kanselleer Jou SheGymZ-lidmaatskap',
+    body: "Ons het 'n versoek ontvang om jou lidmaatskap te kanselleer. Gebruik die knoppie hieronder om te bevestig.",
+    button: 'Kanselleer My Lidmaatskap',
+    expiry:
+      'Hierdie skakel verval op {date}. As jy nie gevra het om te kanselleer nie, kan jy hierdie e-pos ignoreer.',
+  },
+  cancellationConfirmed: {
+    subject: 'Jou SheGymZ-lidmaatskap Is Gekanselleer',
+    heading: 'Jou Lidmaatskap Is Gekanselleer',
+    body: 'Jou SheGymZ-lidmaatskap is gekanselleer en jy sal nie weer gedebiteer word nie.',
+    welcomeBack: 'Jy is altyd welkom terug.',
+  },
+  refund: {
+    processedSubject: 'Jou SheGymZ-terugbetaling Is Verwerk',
+    failedSubject: 'Nuus oor Jou SheGymZ-terugbetaling',
+    processedHeading: 'Jou Terugbetaling Is Verwerk',
+    failedHeading: 'Jou Terugbetaling Kon Nie Verwerk Word Nie',
+    processedBody:
+      "Ons het {amount} na jou oorspronklike betaalmetode terugbetaal. Dit kan, afhangend van jou bank, 'n paar werksdae neem om te reflekteer.",
+    failedBody:
+      'Ons kon nie {amount} terugbetaal nie. Ons span is in kennis gestel en sal met jou in verbinding tree.',
+    questions: 'Vrae? Kontak ons by {email}.',
+  },
+  referralReward: {
+    subject: "Jou SheGymZ-verwysing Het Vir Jou 'n Gratis Maand Verdien",
+    heading: "Jy Het 'n Gratis Maand Verdien",
+    joined:
+      '{name} het pas met jou verwysingskode by SheGymZ aangesluit. Dankie dat jy die woord versprei!',
+    applied: 'Ons span sal jou gratis maand binnekort op jou lidmaatskap toepas.',
+  },
+  trialBooked: {
+    subject: 'Jou SheGymZ Gratis Proeflopie Is Bespreek',
+    heading: 'Jou Gratis Proeflopie Is Bespreek',
+    body: "Jou 3-dag gratis proeflopie begin met 'n sessie op {date}.",
+    calendar: 'Die aangehegte uitnodiging voeg die sessie by jou kalender.',
+    manage: "Het jy 'n ander tyd nodig? Jy kan met die knoppie hieronder herskeduleer of kanselleer.",
+    button: 'Bestuur My Bespreking',
+    eventTitle: 'SheGymZ Gratis Proeflopie-sessie',
+    eventDescription: 'Jou eerste sessie van die SheGymZ 3-dag gratis proeflopie.',
+  },
+  trialRescheduled: {
+    subject: 'Jou SheGymZ Proeflopie-sessie Is Verskuif',
+    heading: 'Jou Sessie Is Verskuif',
+    body: 'Jou gratis proeflopie-sessie is nou op {date}.',
+    calendar: 'Die aangehegte uitnodiging vervang die vorige een in jou kalender.',
+  },
+  trialCancelled: {
+    subject: 'Jou SheGymZ Proeflopie-sessie Is Gekanselleer',
+    heading: 'Jou Sessie Is Gekanselleer',
+    body: 'Jou gratis proeflopie-sessie op {date} is gekanselleer.',
+    bookAgain: "Van plan verander? Jy is welkom om 'n ander sessie te bespreek.",
+    button: "Bespreek 'n Sessie",
+  },
+  trialThanks: {
+    subject: 'Dankie vir Jou Belangstelling in SheGymZ',
+    heading: 'Dankie dat Jy Kontak Gemaak Het',
+    body: "Dankie dat jy 'n gratis proeflopie by SheGymZ aangevra het. Ons span sal binnekort met jou in verbinding tree om 'n tyd te vind wat jou pas.",
+    book: "Verkies jy om self 'n tyd te kies? Jy kan jou proeflopie-sessie aanlyn bespreek.",
+  },
+  trialReminder: {
+    subject: 'Herinnering: Jou SheGymZ Proeflopie-sessie',
+    heading: 'Jou Proeflopie-sessie Kom Nader',
+    body: "'n Vinnige herinnering dat jou gratis proeflopie-sessie op {date} is.",
+    bring: "Bring gemaklike oefenklere, tekkies, 'n handdoek en 'n waterbottel.",
+    manage: 'Kan jy nie kom nie? Gebruik die knoppie hieronder om te herskeduleer of te kanselleer.',
+  },
+  trialJoinNow: {
+    subject: 'Gereed om by SheGymZ aan te sluit?',
+    heading: 'Hou Jou Momentum Aan die Gang',
+    body: "Dankie dat jy SheGymZ probeer het. Ons wil jou graag verder ondersteun in 'n private ruimte net vir vroue, gebou rondom jou doelwitte.",
+    signUp: "Om lid te word neem net 'n paar minute aanlyn.",
+    button: 'Sluit by SheGymZ Aan',
+  },
+};
+
+export default af;
@@ -0,0 +1,163 @@
+/**
+ * English copy for member-facing emails. Every other language must match this
+ * shape; placeholders in braces, e.g. {amount}, are filled in by `translated`.
+ */
+const en = {
+  tagline: "Private Women's Wellness Club",
+  greeting: 'Hi {name},',
+  labels: {
+    amount: 'Amount',
+    reference: 'Reference',
+    reason: 'Reason',
+    paymentDate: 'Payment Date',
+    nextPayment: 'Next Payment',
+    renewalDate: 'Renewal Date',
+    paymentReference: 'Payment Reference',
+    note: 'Note',
+    location: 'Location',
+  },
+  openPortal: 'Open SheGymZ Portal',
+  rejoin: 'Rejoin SheGymZ',
+  accessUntil: 'You keep full access until {date}.',
+  subscriptionInitiated: {
+    subject: 'Complete Your SheGymZ Subscription',
+    heading: 'Welcome to SheGymZ',
+    intro: 'Your subscription has been started. Complete your payment using the link below.',
+    button: 'Complete Payment',
+    outro: 'Once payment succeeds, you will receive your portal link.',
+  },
+  paymentSuccess: {
+    subject: 'Your SheGymZ Portal Is Ready',
+    heading: 'Your SheGymZ Subscription Is Active',
+    confirmed: 'Your payment of {amount} has been confirmed.',
+    nextStep: 'Your next step is to access the member portal.',
+    referral:
+      'Know someone who would love SheGymZ? Share your referral link — you get a free month for every friend who joins.',
+  },
+  portalLink: {
+    subject: 'Your SheGymZ Portal Link',
+    heading: 'Your SheGymZ Membership',
+    body: 'You already have an active membership, so there is nothing more to pay. Use the button below to open the member portal and manage your membership.',
+    ignore: 'If you did not ask for this link, you can ignore this email.',
+  },
+  paymentFailed: {
+    subject: 'Payment Failed - SheGymZ',
+    heading: 'Payment Failed',
+    body: 'Your payment for SheGymZ could not be completed.',
+    button: 'Try Again',
+  },
+  subscriptionActivated: {
+    subject: 'Your SheGymZ Membership Is Active',
+    heading: 'Your SheGymZ Membership Is Set Up',
+    body: 'Your recurring membership is now active.',
+    bodyWithPlan: 'Your recurring membership ({plan}) is now active.',
+    autoCharge: 'You will be charged automatically each billing period. You can cancel anytime.',
+  },
+  notRenewing: {
+    subject: 'Your SheGymZ Membership Will Not Renew',
+    heading: 'Your Membership Will Not Renew',
+    body: 'Your SheGymZ membership has been set not to renew.',
+    changedMind: 'Changed your mind? You can subscribe again at any time.',
+    button: 'Renew My Membership',
+  },
+  ended: {
+    subject: 'Your SheGymZ Membership Has Ended',
+    heading: 'Your Membership Has Ended',
+    body: 'Your SheGymZ membership is no longer active.',
+    welcomeBack: 'We would love to have you back whenever you are ready.',
+  },
+  renewalReminder: {
+    subject: 'Your SheGymZ Membership Renews Soon',
+    heading: 'Upcoming Membership Renewal',
+    body: 'Your SheGymZ membership renews soon.',
+    bodyWithPlan: 'Your SheGymZ membership ({plan}) renews soon.',
+    noAction: 'No action is needed — we will charge the card on file.',
+  },
+  renewalFailed: {
+    subject: 'Action Needed: SheGymZ Renewal Failed',
+    heading: 'Membership Renewal Failed',
+    body: 'We could not collect your SheGymZ renewal payment. We will try again over the next few days.',
+    restore:
+      'If it still cannot be collected by then, your membership will lapse. Check your card details in the member portal to keep it.',
+    button: 'Update My Payment Details',
+  },
+  cancellationLink: {
+    subject: 'Confirm Your SheGymZ Cancellation',
+    heading: 'Cancel Your SheGymZ Membership',
+    body: 'We received a request to cancel your membership. Use the button below to confirm.',
+    button: 'Cancel My Membership',
+    expiry:
+      'This link expires on {date}. If you did not ask to cancel, you can ignore this email.',
+  },
+  cancellationConfirmed: {
+    subject: 'Your SheGymZ Membership Has Been Cancelled',
+    heading: 'Your Membership Has Been Cancelled',
+    body: 'Your SheGymZ membership has been cancelled and you will not be charged again.',
+    welcomeBack: 'You are always welcome back.',
+  },
+  refund: {
+    processedSubject: 'Your SheGymZ Refund Has Been Processed',
+    failedSubject: 'Update on Your SheGymZ Refund',
+    processedHeading: 'Your Refund Has Been Processed',
+    failedHeading: 'Your Refund Could Not Be Processed',
+    processedBody:
+      'We have refunded {amount} to your original payment method. It can take a few working days to reflect, depending on your bank.',
+    failedBody:
+      'We were unable to refund {amount}. Our team has been notified and will be in touch.',
+    questions: 'Questions? Contact us at {email}.',
+  },
+  referralReward: {
+    subject: 'Your SheGymZ Referral Earned You a Free Month',
+    heading: 'You Earned a Free Month',
+    joined:
+      '{name} just joined SheGymZ with your referral code. Thank you for spreading the word!',
+    applied: 'Your free month will be applied to your membership by our team shortly.',
+  },
+  trialBooked: {
+    subject: 'Your SheGymZ Free Trial Is Booked',
+    heading: 'Your Free Trial Is Booked',
+    body: 'Your 3-day free trial starts with a session on {date}.',
+    calendar: 'The attached invite adds the session to your calendar.',
+    manage: 'Need a different time? You can reschedule or cancel with the button below.',
+    button: 'Manage My Booking',
+    eventTitle: 'SheGymZ Free Trial Session',
+    eventDescription: 'Your first session of the SheGymZ 3-day free trial.',
+  },
+  trialRescheduled: {
+    subject: 'Your SheGymZ Trial Session Has Moved',
+    heading: 'Your Session Has Moved',
+    body: 'Your free trial session is now on {date}.',
+    calendar: 'The attached invite replaces the earlier one in your calendar.',
+  },
+  trialCancelled: {
+    subject: 'Your SheGymZ Trial Session Is Cancelled',
+    heading: 'Your Session Is Cancelled',
+    body: 'Your free trial session on {date} has been cancelled.',
+    bookAgain: 'Changed your mind? You are welcome to book another session.',
+    button: 'Book a Session',
+  },
+  trialThanks: {
+    subject: 'Thanks for Your Interest in SheGymZ',
+    heading: 'Thanks for Reaching Out',
+    body: 'Thank you for requesting a free trial at SheGymZ. Our team will be in touch shortly to find a time that suits you.',
+    book: 'Prefer to pick a time yourself? You can book your trial session online.',
+  },
+  trialReminder: {
+    subject: 'Reminder: Your SheGymZ Trial Session',
+    heading: 'Your Trial Session Is Coming Up',
+    body: 'A quick reminder that your free trial session is on {date}.',
+    bring: 'Bring comfortable workout clothes, trainers, a towel and a water bottle.',
+    manage: "Can't make it? Use the button below to reschedule or cancel.",
+  },
+  trialJoinNow: {
+    subject: 'Ready to Join SheGymZ?',
+    heading: 'Keep Your Momentum Going',
+    body: 'Thank you for trying SheGymZ. We would love to keep supporting you in a private, women-only space built around your goals.',
+    signUp: 'Becoming a member takes just a few minutes online.',
+    button: 'Join SheGymZ',
+  },
+};
+
+export type EmailMessages = typeof en;
+
+export default en;
@@ -0,0 +1,13 @@
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/config';
+import af from './af';
+import en, { type EmailMessages } from './en';
+import xh from './xh';
+import zu from './zu';
+
+export type { EmailMessages };
+
+const CATALOGUES: Record<Locale, EmailMessages> = { en, zu, af, xh };
+
+export function getEmailMessages(locale: Locale = DEFAULT_LOCALE): EmailMessages {
+  return CATALOGUES[locale];
+}
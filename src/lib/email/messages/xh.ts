@@ -0,0 +1,160 @@
+import type { EmailMessages } from './en';
+
+/** isiXhosa copy for member-facing emails */
+const xh: EmailMessages = {
+  tagline: 'Iklabhu Yabucala Yempilo Yabasetyhini',
+  greeting: 'Molo {name},',
+  labels: {
+    amount: 'Imali',
+    reference: 'Isalathiso',
+    reason: 'Isizathu',
+    paymentDate: 'Umhla Wentlawulo',
+    nextPayment: 'Intlawulo Elandelayo',
+    renewalDate: 'Umhla Wohlaziyo',
+    paymentReference: 'Isalathiso Sentlawulo',
+    note: 'Inqaku',
+    location: 'Indawo',
+  },
+  openPortal: 'Vula Iphothali Ye-SheGymZ',
+  rejoin: 'Joyina I-SheGymZ Kwakhona',
+  accessUntil: 'Uza kuqhubeka nokungena ngokupheleleyo de kube ngu-{date}.',
+  subscriptionInitiated: {
+    subject: 'Gqibezela Ubhaliso Lwakho Kwi-SheGymZ',
+    heading: 'Wamkelekile Kwi-SheGymZ',
+    intro: 'Ubhaliso lwakho luqalisiwe. Gqibezela intlawulo yakho usebenzisa ikhonkco elingezantsi.',
+    button: 'Gqibezela Intlawulo',
+    outro: 'Xa intlawulo iphumelele, uza kufumana ikhonkco lakho lephothali.',
+  },
+  paymentSuccess: {
+    subject: 'Iphothali Yakho Ye-SheGymZ Ilungile',
+    heading: 'Ubhaliso Lwakho Kwi-SheGymZ Luyasebenza',
+    confirmed: 'Intlawulo yakho ka-{amount} iqinisekisiwe.',
+    nextStep: 'Inyathelo lakho elilandelayo kukungena kwiphothali yamalungu.',
+    referral:
+      'Ingaba ukhona umntu onokuyithanda i-SheGymZ? Yabelana ngekhonkco lakho lokuthumela — ufumana inyanga yasimahla ngomhlobo ngamnye ojoyinayo.',
+  },
+  portalLink: {
+    subject: 'Ikhonkco Lakho Lephothali Ye-SheGymZ',
+    heading: 'Ubulungu Bakho Be-SheGymZ',
+    body: 'Sele unobulungu obusebenzayo, ngoko akukho nto yimbi ekufuneka uyihlawule. Sebenzisa iqhosha elingezantsi ukuvula iphothali yamalungu kwaye ulawule ubulungu bakho.',
+    ignore: 'Ukuba khange ulicele eli khonkco, ungayihoya le imeyile.',
+  },
+  paymentFailed: {
+    subject: 'Intlawulo Ayiphumelelanga - SheGymZ',
+    heading: 'Intlawulo Ayiphumelelanga',
+    body: 'Intlawulo yakho ye-SheGymZ ayikwazanga ukugqitywa.',
+    button: 'Zama Kwakhona',
+  },
+  subscriptionActivated: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buyasebenza',
+    heading: 'Ubulungu Bakho Be-SheGymZ Bulungisiwe',
+    body: 'Ubulungu bakho obuphindaphindwayo ngoku buyasebenza.',
+    bodyWithPlan: 'Ubulungu bakho obuphindaphindwayo ({plan}) ngoku buyasebenza.',
+    autoCharge: 'Uza kuhlawuliswa ngokuzenzekelayo kwixesha ngalinye lokuhlawula. Ungarhoxisa nanini na.',
+  },
+  notRenewing: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Abuzi Kuhlaziywa',
+    heading: 'Ubulungu Bakho Abuzi Kuhlaziywa',
+    body: 'Ubulungu bakho be-SheGymZ bumiselwe ukuba bungahlaziywa.',
+    changedMind: 'Utshintshe ingqondo? Ungabhalisa kwakhona nanini na.',
+    button: 'Hlaziya Ubulungu Bam',
+  },
+  ended: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buphelile',
+    heading: 'Ubulungu Bakho Buphelile',
+    body: 'Ubulungu bakho be-SheGymZ abusasebenzi.',
+    welcomeBack: 'Singavuya ukukubona ubuya nanini na xa ukulungele.',
+  },
+  renewalReminder: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buza Kuhlaziywa Kungekudala',
+    heading: 'Uhlaziyo Lobulungu Oluzayo',
+    body: 'Ubulungu bakho be-SheGymZ buza kuhlaziywa kungekudala.',
+    bodyWithPlan: 'Ubulungu bakho be-SheGymZ ({plan}) buza kuhlaziywa kungekudala.',
+    noAction: 'Akukho nto ekufuneka uyenzile — siza kuhlawulisa ikhadi elikwiirekhodi.',
+  },
+  renewalFailed: {
+    subject: 'Kufuneka Inyathelo: Uhlaziyo Lwe-SheGymZ Aluphumelelanga',
+    heading: 'Uhlaziyo Lobulungu Aluphumelelanga',
+    body: 'Asikwazanga ukuqokelela intlawulo yakho yohlaziyo lwe-SheGymZ. Siza kuzama kwakhona kwiintsuku ezimbalwa ezizayo.',
+    restore:
+      'Ukuba ayikakwazi ukuqokelelwa ngelo xesha, ubulungu bakho buza kuphelelwa lixesha. Jonga iinkcukacha zekhadi lakho kwiphotali yamalungu ukuze ubugcine.',
+    button: 'Hlaziya Iinkcukacha Zam Zentlawulo',
+  },
+  cancellationLink: {
+    subject: 'Qinisekisa Ukurhoxisa Kwakho Kwi-SheGymZ',
+    heading: 'Rhoxisa Ubulungu Bakho Be-SheGymZ',
+    body: 'Sifumene isicelo sokurhoxisa ubulungu bakho. Sebenzisa iqhosha elingezantsi ukuqinisekisa.',
+    button: 'Rhoxisa Ubulungu Bam',
+    expiry:
+      'Eli khonkco liphelelwa lixesha ngo-{date}. Ukuba akucelanga ukurhoxisa, ungayihoya le imeyile.',
+  },
+  cancellationConfirmed: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Burhoxisiwe',
+    heading: 'Ubulungu Bakho Burhoxisiwe',
+    body: 'Ubulungu bakho be-SheGymZ burhoxisiwe kwaye awusayi kuphinda uhlawuliswe.',
+    welcomeBack: 'Wamkelekile ukubuya nanini na.',
+  },
+  refund: {
+    processedSubject: 'Imbuyekezo Yakho Ye-SheGymZ Iqhutyiwe',
+    failedSubject: 'Iindaba Ngembuyekezo Yakho Ye-SheGymZ',
+    processedHeading: 'Imbuyekezo Yakho Iqhutyiwe',
+    failedHeading: 'Imbuyekezo Yakho Ayikwazanga Ukuqhutywa',
+    processedBody:
+      'Sibuyisele u-{amount} kwindlela obuhlawule ngayo ekuqaleni. Kungathatha iintsuku ezimbalwa zokusebenza ukuba kubonakale, kuxhomekeke kwibhanki yakho.',
+    failedBody:
+      'Asikwazanga ukubuyisela u-{amount}. Iqela lethu laziswe kwaye liza kuqhagamshelana nawe.',
+    questions: 'Unemibuzo? Qhagamshelana nathi ku-{email}.',
+  },
+  referralReward: {
+    subject: 'Ukuthumela Kwakho Kwi-SheGymZ Kukuzuzele Inyanga Yasimahla',
+    heading: 'Uzuze Inyanga Yasimahla',
+    joined:
+      'U-{name} usandul’ ukujoyina i-SheGymZ esebenzisa ikhowudi yakho yokuthumela. Enkosi ngokusasaza ilizwi!',
+    applied: 'Iqela lethu liza kufaka inyanga yakho yasimahla kubulungu bakho kungekudala.',
+  },
+  trialBooked: {
+    subject: 'Uvavanyo Lwakho Lwasimahla Lwe-SheGymZ Lubhukishiwe',
+    heading: 'Uvavanyo Lwakho Lwasimahla Lubhukishiwe',
+    body: 'Iintsuku zakho ezi-3 zasimahla ziqala ngeseshoni ngo-{date}.',
+    calendar: 'Isimemo esincanyathiselweyo songeza iseshoni kwikhalenda yakho.',
+    manage: 'Ufuna ixesha elahlukileyo? Ungatshintsha okanye urhoxise ngeqhosha elingezantsi.',
+    button: 'Lawula Ukubhukisha Kwam',
+    eventTitle: 'Iseshoni Yovavanyo Lwasimahla Lwe-SheGymZ',
+    eventDescription: 'Iseshoni yakho yokuqala yeentsuku ezi-3 zasimahla ze-SheGymZ.',
+  },
+  trialRescheduled: {
+    subject: 'Iseshoni Yakho Yovavanyo Lwe-SheGymZ Itshintshiwe',
+    heading: 'Iseshoni Yakho Itshintshiwe',
+    body: 'Iseshoni yakho yovavanyo lwasimahla ngoku ingo-{date}.',
+    calendar: 'Isimemo esincanyathiselweyo sithatha indawo yesangaphambili kwikhalenda yakho.',
+  },
+  trialCancelled: {
+    subject: 'Iseshoni Yakho Yovavanyo Lwe-SheGymZ Irhoxisiwe',
+    heading: 'Iseshoni Yakho Irhoxisiwe',
+    body: 'Iseshoni yakho yovavanyo lwasimahla ngo-{date} irhoxisiwe.',
+    bookAgain: 'Utshintshe ingqondo? Wamkelekile ukubhukisha enye iseshoni.',
+    button: 'Bhukisha Iseshoni',
+  },
+  trialThanks: {
+    subject: 'Enkosi Ngomdla Wakho Kwi-SheGymZ',
+    heading: 'Enkosi Ngokuqhagamshelana Nathi',
+    body: 'Enkosi ngokucela uvavanyo lwasimahla kwi-SheGymZ. Iqela lethu liza kuqhagamshelana nawe kungekudala ukuze sifumane ixesha elikulungeleyo.',
+    book: 'Ukhetha ukuzikhethela ixesha? Ungabhukisha iseshoni yakho yovavanyo kwi-intanethi.',
+  },
+  trialReminder: {
+    subject: 'Isikhumbuzo: Iseshoni Yakho Yovavanyo Lwe-SheGymZ',
+    heading: 'Iseshoni Yakho Yovavanyo Iyasondela',
+    body: 'Isikhumbuzo nje sokuba iseshoni yakho yovavanyo lwasimahla ingo-{date}.',
+    bring: 'Zisa iimpahla zokuzilolonga ezikhululekileyo, izihlangu zokubaleka, itawuli nebhotile yamanzi.',
+    manage: 'Awukwazi ukufika? Sebenzisa iqhosha elingezantsi ukutshintsha okanye ukurhoxisa.',
+  },
+  trialJoinNow: {
+    subject: 'Ukulungele Ukujoyina i-SheGymZ?',
+    heading: 'Qhubeka Namandla Akho',
+    body: 'Enkosi ngokuzama i-SheGymZ. Singathanda ukuqhubeka sikuxhasa kwindawo yabucala yabasetyhini kuphela eyakhelwe iinjongo zakho.',
+    signUp: 'Ukuba lilungu kuthatha imizuzu embalwa nje kwi-intanethi.',
+    button: 'Joyina i-SheGymZ',
+  },
+};
+
+export default xh;
@@ -0,0 +1,160 @@
+import type { EmailMessages } from './en';
+
+/** isiZulu copy for member-facing emails */
+const zu: EmailMessages = {
+  tagline: 'Iqembu Langasese Lezempilo Yabesifazane',
+  greeting: 'Sawubona {name},',
+  labels: {
+    amount: 'Imali',
+    reference: 'Inkomba',
+    reason: 'Isizathu',
+    paymentDate: 'Usuku Lokukhokha',
+    nextPayment: 'Inkokhelo Elandelayo',
+    renewalDate: 'Usuku Lokuvuselela',
+    paymentReference: 'Inkomba Yenkokhelo',
+    note: 'Inothi',
+    location: 'Indawo',
+  },
+  openPortal: 'Vula Iphothali Ye-SheGymZ',
+  rejoin: 'Joyina I-SheGymZ Futhi',
+  accessUntil: 'Uzoqhubeka nokungena ngokugcwele kuze kube ngu-{date}.',
+  subscriptionInitiated: {
+    subject: 'Qedela Ukubhalisa Kwakho Ku-SheGymZ',
+    heading: 'Siyakwamukela Ku-SheGymZ',
+    intro: 'Ukubhalisa kwakho sekuqalile. Qedela inkokhelo yakho usebenzisa isixhumanisi esingezansi.',
+    button: 'Qedela Inkokhelo',
+    outro: 'Uma inkokhelo iphumelele, uzothola isixhumanisi sakho sephothali.',
+  },
+  paymentSuccess: {
+    subject: 'Iphothali Yakho Ye-SheGymZ Isilungile',
+    heading: 'Ukubhalisa Kwakho Ku-SheGymZ Kuyasebenza',
+    confirmed: 'Inkokhelo yakho engu-{amount} iqinisekisiwe.',
+    nextStep: 'Isinyathelo sakho esilandelayo ukungena ephothalini yamalungu.',
+    referral:
+      'Ingabe ukhona umuntu ongayithanda i-SheGymZ? Yabelana ngesixhumanisi sakho sokudlulisela — uthola inyanga yamahhala ngomngane ngamunye ojoyinayo.',
+  },
+  portalLink: {
+    subject: 'Isixhumanisi Sakho Sephothali Ye-SheGymZ',
+    heading: 'Ubulungu Bakho Be-SheGymZ',
+    body: 'Usunabo kakade ubulungu obusebenzayo, ngakho akukho okunye okufanele ukukhokhe. Sebenzisa inkinobho engezansi ukuvula iphothali yamalungu futhi uphathe ubulungu bakho.',
+    ignore: 'Uma ungazange usicele lesi sixhumanisi, ungayiziba le imeyili.',
+  },
+  paymentFailed: {
+    subject: 'Inkokhelo Ayiphumelelanga - SheGymZ',
+    heading: 'Inkokhelo Ayiphumelelanga',
+    body: 'Inkokhelo yakho ye-SheGymZ ayikwazanga ukuqedelwa.',
+    button: 'Zama Futhi',
+  },
+  subscriptionActivated: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buyasebenza',
+    heading: 'Ubulungu Bakho Be-SheGymZ Sebuhleliwe',
+    body: 'Ubulungu bakho obuphindaphindwayo sebuyasebenza.',
+    bodyWithPlan: 'Ubulungu bakho obuphindaphindwayo ({plan}) sebuyasebenza.',
+    autoCharge: 'Uzokhokhiswa ngokuzenzakalela njalo ngesikhathi sokukhokha. Ungakhansela noma nini.',
+  },
+  notRenewing: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Ngeke Buvuselelwe',
+    heading: 'Ubulungu Bakho Ngeke Buvuselelwe',
+    body: 'Ubulungu bakho be-SheGymZ busethwe ukuthi bungavuselelwa.',
+    changedMind: 'Ushintshe umqondo? Ungabhalisa futhi noma nini.',
+    button: 'Vuselela Ubulungu Bami',
+  },
+  ended: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buphelile',
+    heading: 'Ubulungu Bakho Buphelile',
+    body: 'Ubulungu bakho be-SheGymZ abusasebenzi.',
+    welcomeBack: 'Singathanda ukukubona ubuya noma nini uma usukulungele.',
+  },
+  renewalReminder: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Buzovuselelwa Maduze',
+    heading: 'Ukuvuselelwa Kobulungu Okuzayo',
+    body: 'Ubulungu bakho be-SheGymZ buzovuselelwa maduze.',
+    bodyWithPlan: 'Ubulungu bakho be-SheGymZ ({plan}) buzovuselelwa maduze.',
+    noAction: 'Akukho okudingeka ukwenze — sizokhokhisa ikhadi elisohlelweni.',
+  },
+  renewalFailed: {
+    subject: 'Kudingeka Wenze Okuthile: Ukuvuselela Kwe-SheGymZ Akuphumelelanga',
+    heading: 'Ukuvuselela Ubulungu Akuphumelelanga',
+    body: 'Asikwazanga ukuqoqa inkokhelo yakho yokuvuselela i-SheGymZ. Sizozama futhi ezinsukwini ezimbalwa ezizayo.',
+    restore:
+      'Uma ingakaqoqwa ngaleso sikhathi, ubulungu bakho buzophelelwa isikhathi. Hlola imininingwane yekhadi lakho kuphothali yamalungu ukuze ubugcine.',
+    button: 'Buyekeza Imininingwane Yami Yokukhokha',
+  },
+  cancellationLink: {
+    subject: 'Qinisekisa Ukukhansela Kwakho Ku-SheGymZ',
+    heading: 'Khansela Ubulungu Bakho Be-SheGymZ',
+    body: 'Sithole isicelo sokukhansela ubulungu bakho. Sebenzisa inkinobho engezansi ukuqinisekisa.',
+    button: 'Khansela Ubulungu Bami',
+    expiry:
+      'Lesi sixhumanisi siphelelwa yisikhathi ngo-{date}. Uma ungacelanga ukukhansela, ungayishaya indiva le imeyili.',
+  },
+  cancellationConfirmed: {
+    subject: 'Ubulungu Bakho Be-SheGymZ Bukhanseliwe',
+    heading: 'Ubulungu Bakho Bukhanseliwe',
+    body: 'Ubulungu bakho be-SheGymZ bukhanseliwe futhi ngeke uphinde ukhokhiswe.',
+    welcomeBack: 'Wamukelekile ukubuya njalo.',
+  },
+  refund: {
+    processedSubject: 'Imali Yakho Ebuyiswayo Ye-SheGymZ Isicutshunguliwe',
+    failedSubject: 'Izindaba Ngemali Yakho Ebuyiswayo Ye-SheGymZ',
+    processedHeading: 'Imali Yakho Ebuyiswayo Isicutshunguliwe',
+    failedHeading: 'Imali Yakho Ebuyiswayo Ayikwazanga Ukucutshungulwa',
+    processedBody:
+      'Sibuyisele u-{amount} endleleni obukhokhe ngayo ekuqaleni. Kungathatha izinsuku ezimbalwa zokusebenza ukuthi kuvele, kuya ngebhange lakho.',
+    failedBody:
+      'Asikwazanga ukubuyisela u-{amount}. Ithimba lethu lazisiwe futhi lizoxhumana nawe.',
+    questions: 'Unemibuzo? Xhumana nathi ku-{email}.',
+  },
+  referralReward: {
+    subject: 'Ukudlulisela Kwakho Ku-SheGymZ Kukuzuzele Inyanga Yamahhala',
+    heading: 'Uzuze Inyanga Yamahhala',
+    joined:
+      'U-{name} usanda kujoyina i-SheGymZ esebenzisa ikhodi yakho yokudlulisela. Siyabonga ngokusabalalisa izwi!',
+    applied: 'Ithimba lethu lizofaka inyanga yakho yamahhala kubulungu bakho maduze.',
+  },
+  trialBooked: {
+    subject: 'Isivivinyo Sakho Samahhala Se-SheGymZ Sibhukiwe',
+    heading: 'Isivivinyo Sakho Samahhala Sibhukiwe',
+    body: 'Izinsuku zakho ezi-3 zamahhala ziqala ngeseshini ngo-{date}.',
+    calendar: 'Isimemo esinamathiselwe sifaka iseshini kukhalenda yakho.',
+    manage: 'Udinga isikhathi esehlukile? Ungashintsha noma ukhansele ngenkinobho engezansi.',
+    button: 'Phatha Ukubhuka Kwami',
+    eventTitle: 'Iseshini Yesivivinyo Samahhala Se-SheGymZ',
+    eventDescription: 'Iseshini yakho yokuqala yezinsuku ezi-3 zamahhala ze-SheGymZ.',
+  },
+  trialRescheduled: {
+    subject: 'Iseshini Yakho Yesivivinyo Se-SheGymZ Ishintshiwe',
+    heading: 'Iseshini Yakho Ishintshiwe',
+    body: 'Iseshini yakho yesivivinyo samahhala manje ingo-{date}.',
+    calendar: 'Isimemo esinamathiselwe sithatha indawo yesangaphambili kukhalenda yakho.',
+  },
+  trialCancelled: {
+    subject: 'Iseshini Yakho Yesivivinyo Se-SheGymZ Ikhanseliwe',
+    heading: 'Iseshini Yakho Ikhanseliwe',
+    body: 'Iseshini yakho yesivivinyo samahhala ngo-{date} ikhanseliwe.',
+    bookAgain: 'Ushintshe umqondo? Wamukelekile ukubhuka enye iseshini.',
+    button: 'Bhuka Iseshini',
+  },
+  trialThanks: {
+    subject: 'Siyabonga Ngentshisekelo Yakho Ku-SheGymZ',
+    heading: 'Siyabonga Ngokuxhumana Nathi',
+    body: 'Siyabonga ngokucela isivivinyo samahhala e-SheGymZ. Ithimba lethu lizoxhumana nawe maduze ukuze sithole isikhathi esikufanelayo.',
+    book: 'Ukhetha ukuzikhethela isikhathi? Ungabhuka iseshini yakho yesivivinyo ku-inthanethi.',
+  },
+  trialReminder: {
+    subject: 'Isikhumbuzo: Iseshini Yakho Yesivivinyo Se-SheGymZ',
+    heading: 'Iseshini Yakho Yesivivinyo Iyasondela',
+    body: 'Isikhumbuzo nje sokuthi iseshini yakho yesivivinyo samahhala ingo-{date}.',
+    bring: 'Letha izingubo zokuzivocavoca ezikhululekile, izicathulo zokugijima, ithawula nebhodlela lamanzi.',
+    manage: 'Ngeke ukwazi ukufika? Sebenzisa inkinobho engezansi ukuze ushintshe noma ukhansele.',
+  },
+  trialJoinNow: {
+    subject: 'Usukulungele Ukujoyina I-SheGymZ?',
+    heading: 'Qhubeka Nomfutho Wakho',
+    body: 'Siyabonga ngokuzama i-SheGymZ. Singathanda ukuqhubeka sikusekela endaweni eyimfihlo yabesifazane kuphela eyakhelwe izinhloso zakho.',
+    signUp: 'Ukuba yilungu kuthatha imizuzu embalwa nje ku-inthanethi.',
+    button: 'Joyina I-SheGymZ',
+  },
+};
+
+export default zu;
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { EmailMessage } from '../transports/types';
+import type { IEmailOutboxRepository, OutboxEmail, OutboxStatus } from './types';
+
+interface OutboxDocument {
+  emails: Record<string, OutboxEmail>;
+}
+
+/** Stores queued emails in data/email-outbox.json. */
+export class FileEmailOutboxRepository implements IEmailOutboxRepository {
+  private readonly store = new JsonFileStore<OutboxDocument>(
+    'email-outbox.json',
+    () => ({ emails: {} }),
+  );
+
+  async enqueue(message: EmailMessage): Promise<OutboxEmail> {
+    const now = new Date().toISOString();
+    const email: OutboxEmail = {
+      id: `eml_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+      message,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.update((doc) => {
+      doc.emails[email.id] = email;
+      return email;
+    });
+  }
+
+  async claimDue(limit: number, leaseMs: number): Promise<OutboxEmail[]> {
+    return this.store.update((doc) => {
+      const now = new Date();
+      const due = Object.values(doc.emails)
+        .filter((e) => e.status === 'pending' && new Date(e.nextAttemptAt) <= now)
+        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+        .slice(0, limit);
+
+      for (const email of due) {
+        email.attempts += 1;
+        email.nextAttemptAt = new Date(now.getTime() + leaseMs).toISOString();
+        email.updatedAt = now.toISOString();
+      }
+      return due.map((email) => ({ ...email }));
+    });
+  }
+
+  async markSent(id: string): Promise<OutboxEmail | undefined> {
+    return this.store.update((doc) => {
+      const email = doc.emails[id];
+      if (!email) return undefined;
+
+      const now = new Date().toISOString();
+      email.status = 'sent';
+      email.sentAt = now;
+      email.updatedAt = now;
+      delete email.lastError;
+      return email;
+    });
+  }
+
+  async markFailed(id: string, error: string, retryAt?: Date): Promise<OutboxEmail | undefined> {
+    return this.store.update((doc) => {
+      const email = doc.emails[id];
+      if (!email) return undefined;
+
+      const now = new Date().toISOString();
+      email.lastError = error;
+      email.updatedAt = now;
+      if (retryAt) {
+        email.nextAttemptAt = retryAt.toISOString();
+      } else {
+        email.status = 'dead';
+        email.deadAt = now;
+      }
+      return email;
+    });
+  }
+
+  async requeue(id: string): Promise<OutboxEmail | undefined> {
+    return this.store.update((doc) => {
+      const email = doc.emails[id];
+      if (email?.status !== 'dead') return undefined;
+
+      const now = new Date().toISOString();
+      email.status = 'pending';
+      email.attempts = 0;
+      email.nextAttemptAt = now;
+      email.updatedAt = now;
+      delete email.deadAt;
+      return email;
+    });
+  }
+
+  async pruneSent(before: Date): Promise<number> {
+    return this.store.update((doc) => {
+      let removed = 0;
+      for (const email of Object.values(doc.emails)) {
+        if (email.status === 'sent' && email.sentAt && new Date(email.sentAt) < before) {
+          delete doc.emails[email.id];
+          removed += 1;
+        }
+      }
+      return removed;
+    });
+  }
+
+  async findById(id: string): Promise<OutboxEmail | undefined> {
+    const doc = await this.store.read();
+    return doc.emails[id];
+  }
+
+  /** Emails with the given status (or all), newest first */
+  async list(status?: OutboxStatus): Promise<OutboxEmail[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.emails)
+      .filter((e) => !status || e.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+let repository: IEmailOutboxRepository | undefined;
+
+export function getEmailOutboxRepository(): IEmailOutboxRepository {
+  repository ??= new FileEmailOutboxRepository();
+  return repository;
+}
@@ -0,0 +1,128 @@
+import { createLogger } from '@/lib/logging/logger';
+import { getEmailTransport } from '../transports/transport-registry';
+import type { EmailMessage } from '../transports/types';
+import { getEmailOutboxRepository } from './outbox-repository';
+import type { OutboxEmail } from './types';
+
+const log = createLogger('email-outbox');
+
+const BATCH_SIZE = 20;
+/** How long a claimed email is held before another run may try it again */
+const SEND_LEASE_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Shared across route bundles so an enqueue-triggered drain and the scheduled
+// job never send the same batch twice.
+const globalOutbox = globalThis as typeof globalThis & {
+  __emailOutboxDraining?: Promise<OutboxRunResult>;
+  __emailOutboxPrunedAt?: number;
+};
+
+export interface OutboxRunResult {
+  sent: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+/** Attempts before an email is moved to the dead-letter list */
+function maxAttempts(): number {
+  const value = Number(process.env.EMAIL_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value > 0 ? value : 8;
+}
+
+/** 1, 2, 4, 8 … minutes after each failure, capped at an hour */
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Writes a message to the outbox and starts a delivery run in the background.
+ * Resolves once the message is safely on disk, not when it has been sent.
+ */
+export async function enqueueEmail(message: EmailMessage): Promise<OutboxEmail> {
+  const email = await getEmailOutboxRepository().enqueue(message);
+  void processOutbox().catch((error) => {
+    log.error('Delivery run failed', { error });
+  });
+  return email;
+}
+
+/**
+ * Sends every email that is due. Failures are rescheduled with exponential
+ * backoff until EMAIL_MAX_ATTEMPTS is reached, then dead-lettered.
+ */
+export function processOutbox(): Promise<OutboxRunResult> {
+  globalOutbox.__emailOutboxDraining ??= drain().finally(() => {
+    globalOutbox.__emailOutboxDraining = undefined;
+  });
+  return globalOutbox.__emailOutboxDraining;
+}
+
+async function drain(): Promise<OutboxRunResult> {
+  const outbox = getEmailOutboxRepository();
+  const result: OutboxRunResult = { sent: 0, retrying: 0, deadLettered: 0 };
+
+  for (;;) {
+    const batch = await outbox.claimDue(BATCH_SIZE, SEND_LEASE_MS);
+    if (batch.length === 0) break;
+
+    const transport = getEmailTransport();
+    for (const email of batch) {
+      try {
+        await transport.send(email.message);
+        await outbox.markSent(email.id);
+        result.sent += 1;
+      } catch (error) {
+        const message = (error as Error).message;
+        if (email.attempts >= maxAttempts()) {
+          await outbox.markFailed(email.id, message);
+          result.deadLettered += 1;
+          log.error('Email dead-lettered', {
+            emailId: email.id,
+            to: email.message.to,
+            attempts: email.attempts,
+            error: message,
+          });
+        } else {
+          await outbox.markFailed(
+            email.id,
+            message,
+            new Date(Date.now() + retryDelayMs(email.attempts)),
+          );
+          result.retrying += 1;
+          log.warn('Delivery failed; will retry', {
+            emailId: email.id,
+            transport: transport.name,
+            attempts: email.attempts,
+            error: message,
+          });
+        }
+      }
+    }
+  }
+
+  const prunedAt = globalOutbox.__emailOutboxPrunedAt ?? 0;
+  if (Date.now() - prunedAt > PRUNE_INTERVAL_MS) {
+    globalOutbox.__emailOutboxPrunedAt = Date.now();
+    await outbox.pruneSent(new Date(Date.now() - SENT_RETENTION_MS));
+  }
+
+  return result;
+}
+
+/** Moves a dead-lettered email back into the queue and tries it straight away. */
+export async function retryDeadLetter(id: string): Promise<OutboxEmail | undefined> {
+  const email = await getEmailOutboxRepository().requeue(id);
+  if (!email) return undefined;
+
+  await processOutbox();
+  return getEmailOutboxRepository().findById(id);
+}
+
+/** An outbox entry without its rendered body, for admin listings */
+export function summarizeOutboxEmail({ message, ...email }: OutboxEmail) {
+  return { ...email, to: message.to, subject: message.subject };
+}
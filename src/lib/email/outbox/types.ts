@@ -0,0 +1,49 @@
+/**
+ * Email Outbox — Type Definitions
+ */
+
+import type { EmailMessage } from '../transports/types';
+
+/**
+ * - pending: waiting for its next delivery attempt
+ * - sent: accepted by the transport
+ * - dead: ran out of attempts; stays in the dead-letter list until retried by hand
+ */
+export type OutboxStatus = 'pending' | 'sent' | 'dead';
+
+/** A queued email and its delivery history */
+export interface OutboxEmail {
+  id: string;
+  message: EmailMessage;
+  status: OutboxStatus;
+  /** Delivery attempts made so far */
+  attempts: number;
+  /** When the worker may next pick this email up */
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  /** Set when the email moved to the dead-letter list */
+  deadAt?: string;
+}
+
+/** Contract for persisting the outbox */
+export interface IEmailOutboxRepository {
+  enqueue(message: EmailMessage): Promise<OutboxEmail>;
+  /**
+   * Claims up to `limit` pending emails that are due, counting the attempt
+   * and pushing their next attempt out by `leaseMs` so a crash mid-send
+   * simply leads to a later retry.
+   */
+  claimDue(limit: number, leaseMs: number): Promise<OutboxEmail[]>;
+  markSent(id: string): Promise<OutboxEmail | undefined>;
+  /** Records a failed attempt; `retryAt` undefined moves the email to dead letters. */
+  markFailed(id: string, error: string, retryAt?: Date): Promise<OutboxEmail | undefined>;
+  /** Puts a dead-lettered email back in the queue with a fresh set of attempts. */
+  requeue(id: string): Promise<OutboxEmail | undefined>;
+  /** Drops sent emails older than `before`; returns how many were removed. */
+  pruneSent(before: Date): Promise<number>;
+  findById(id: string): Promise<OutboxEmail | undefined>;
+  list(status?: OutboxStatus): Promise<OutboxEmail[]>;
+}
@@ -0,0 +1,177 @@
+/**
+ * Email templates — auto-escaping HTML, the shared SheGymZ layout and a
+ * plain-text alternative for every message.
+ *
+ * Build markup with the `html` tag: interpolated strings are escaped unless
+ * they are themselves `html` fragments, so form input can never inject markup.
+ *
+ *   html`<p>Hi ${data.name},</p>${button(portalUrl, 'Open Portal')}`
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/config';
+import { getEmailMessages } from './messages';
+
+const BRAND_COLOR = '#E91E63';
+
+const TONE_COLORS = {
+  brand: BRAND_COLOR,
+  success: '#2e7d32',
+  danger: '#d32f2f',
+  neutral: '#333333',
+} as const;
+
+export type EmailTone = keyof typeof TONE_COLORS;
+
+/** Markup that is already safe to insert without escaping */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  // false/null/undefined render nothing so `${cond && html`…`}` reads naturally.
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+/** Tagged template that escapes every interpolated value */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, index) => {
+    out += renderValue(value) + strings[index + 1];
+  });
+  return new SafeHtml(out);
+}
+
+/**
+ * Fills {placeholders} in a translated string. The string itself is escaped;
+ * values may be `html` fragments, e.g. to keep an amount in bold.
+ */
+export function translated(template: string, values: Record<string, HtmlValue> = {}): SafeHtml {
+  const out = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const key = /^\{(\w+)\}$/.exec(part)?.[1];
+      return key && key in values ? renderValue(values[key]) : escapeHtml(part);
+    })
+    .join('');
+  return new SafeHtml(out);
+}
+
+/** Call-to-action button */
+export function button(href: string, label: string): SafeHtml {
+  return html`
+    <p style="margin:24px 0;">
+      <a href="${href}" style="display:inline-block;background:${BRAND_COLOR};color:#fff;padding:14px 28px;text-decoration:none;border-radius:6px;font-weight:bold;">
+        ${label}
+      </a>
+    </p>
+  `;
+}
+
+/** One "Label: value" line; renders nothing when the value is missing */
+export function detail(label: string, value: HtmlValue): SafeHtml {
+  if (value === undefined || value === null || value === '') return html``;
+  return html`<p><strong>${label}:</strong> ${value}</p>`;
+}
+
+/** Grey summary box of "Label: value" lines, as used in admin notifications */
+export function detailsBox(rows: Array<[label: string, value: HtmlValue]>): SafeHtml {
+  return html`
+    <div style="background:#f5f5f5;padding:20px;border-radius:8px;">
+      ${rows.map(([label, value]) => detail(label, value))}
+    </div>
+  `;
+}
+
+function layout(
+  heading: string,
+  tone: EmailTone,
+  content: SafeHtml,
+  locale: Locale,
+): string {
+  const contactEmail = process.env.CONTACT_EMAIL || 'admin@shegymz.com';
+  return html`<!doctype html>
+<html lang="${locale}">
+  <body style="margin:0;padding:0;background:#faf8f7;">
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px; background:#fff; color:#333;">
+      <p style="font-size:20px;font-weight:bold;color:#4a2c4a;letter-spacing:2px;margin:0 0 24px;">SHEGYMZ</p>
+      <h2 style="color:${TONE_COLORS[tone]};">${heading}</h2>
+      ${content}
+      <hr style="border:none;border-top:1px solid #ebe6e2;margin:32px 0 16px;" />
+      <p style="font-size:12px;color:#9d8d7f;">
+        SheGymZ · ${getEmailMessages(locale).tagline} · ${contactEmail}
+      </p>
+    </div>
+  </body>
+</html>`.value;
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/** Plain-text rendering of email markup: links become "label (url)", blocks become lines */
+export function htmlToText(markup: string): string {
+  return markup
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim();
+      return text && text !== href ? `${text} (${href})` : href;
+    })
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|li|tr)>/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n---\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Wraps content in the branded layout and derives its plain-text alternative. */
+export function renderEmail(input: {
+  subject: string;
+  heading: string;
+  tone?: EmailTone;
+  content: SafeHtml;
+  /** Language of the recipient; admin notifications stay in English */
+  locale?: Locale;
+}): RenderedEmail {
+  const tone = input.tone ?? 'brand';
+  const contactEmail = process.env.CONTACT_EMAIL || 'admin@shegymz.com';
+  return {
+    subject: input.subject,
+    html: layout(input.heading, tone, input.content, input.locale ?? DEFAULT_LOCALE),
+    text: `${input.heading}\n\n${htmlToText(input.content.value)}\n\n--\nSheGymZ · ${contactEmail}`,
+  };
+}
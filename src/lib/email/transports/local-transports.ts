@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dataDir } from '@/lib/storage/json-file-store';
+import type { EmailMessage, IEmailTransport } from './types';
+
+/**
+ * Writes each message to EMAIL_FILE_DIR (default <DATA_DIR>/emails) as an
+ * .html file to open in a browser plus a .json file with every field.
+ */
+export class FileTransport implements IEmailTransport {
+  readonly name = 'file' as const;
+
+  private get directory(): string {
+    return process.env.EMAIL_FILE_DIR?.trim() || path.join(dataDir(), 'emails');
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${crypto.randomBytes(3).toString('hex')}`;
+    await Promise.all([
+      fs.writeFile(path.join(this.directory, `${baseName}.html`), message.html, 'utf8'),
+      fs.writeFile(
+        path.join(this.directory, `${baseName}.json`),
+        JSON.stringify(message, null, 2),
+        'utf8',
+      ),
+    ]);
+    console.log(`[email:file] ${message.subject} → ${message.to} (${baseName})`);
+  }
+}
+
+/** Prints the plain-text version of each message to the server log. */
+export class ConsoleTransport implements IEmailTransport {
+  readonly name = 'console' as const;
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(
+      [
+        '[email:console] ─────────────────────────────',
+        `To:      ${message.to}`,
+        `From:    ${message.from}`,
+        `Subject: ${message.subject}`,
+        ...(message.attachments ?? []).map((attachment) => `Attached: ${attachment.filename}`),
+        '',
+        message.text,
+      ].join('\n'),
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import type { EmailMessage, IEmailTransport } from './types';
+
+const PLUNK_API_URL = 'https://next-api.useplunk.com/v1/send';
+
+/**
+ * Sends through the Plunk API.
+ *
+ * Required env vars:
+ *   PLUNK_API_KEY
+ */
+export class PlunkTransport implements IEmailTransport {
+  readonly name = 'plunk' as const;
+
+  async send(message: EmailMessage): Promise<void> {
+    const apiKey = process.env.PLUNK_API_KEY;
+    if (!apiKey) {
+      throw new Error('PLUNK_API_KEY is not configured');
+    }
+
+    const res = await fetch(PLUNK_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      // Plunk takes a single HTML body; the text alternative isn't sent.
+      body: JSON.stringify({
+        to: message.to,
+        subject: message.subject,
+        body: message.html,
+        from: message.from,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: Buffer.from(attachment.content, 'utf8').toString('base64'),
+        })),
+      }),
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Plunk API error ${res.status}: ${text}`);
+    }
+  }
+
+  /**
+   * Confirms the API host answers, for the readiness check. Plunk has no
+   * read-only endpoint to test the key against without sending, so any
+   * HTTP response counts and the key itself is only checked for presence.
+   */
+  async checkConnection(timeoutMs: number): Promise<void> {
+    if (!process.env.PLUNK_API_KEY) {
+      throw new Error('PLUNK_API_KEY is not configured');
+    }
+    await fetch(new URL(PLUNK_API_URL).origin, { signal: AbortSignal.timeout(timeoutMs) });
+  }
+}
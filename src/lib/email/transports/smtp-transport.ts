@@ -0,0 +1,49 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailMessage, IEmailTransport } from './types';
+
+/**
+ * Sends through any SMTP server (e.g. a mail provider's SMTP relay).
+ *
+ * Required env vars:
+ *   SMTP_HOST
+ * Optional env vars:
+ *   SMTP_PORT      default 587
+ *   SMTP_SECURE    "true" for implicit TLS (usually port 465)
+ *   SMTP_USER, SMTP_PASSWORD
+ */
+export class SmtpTransport implements IEmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter | undefined;
+
+  private getTransporter(): Transporter {
+    const host = process.env.SMTP_HOST?.trim();
+    if (!host) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+
+    this.transporter ??= nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD ?? '' }
+        : undefined,
+    });
+    return this.transporter;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.getTransporter().sendMail({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content,
+      })),
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { createLogger } from '@/lib/logging/logger';
+import { ConsoleTransport, FileTransport } from './local-transports';
+import { PlunkTransport } from './plunk-transport';
+import { SmtpTransport } from './smtp-transport';
+import type { EmailTransportName, IEmailTransport } from './types';
+
+const log = createLogger('email');
+
+const TRANSPORTS: Record<EmailTransportName, () => IEmailTransport> = {
+  plunk: () => new PlunkTransport(),
+  smtp: () => new SmtpTransport(),
+  file: () => new FileTransport(),
+  console: () => new ConsoleTransport(),
+};
+
+export function isEmailTransportName(value: string): value is EmailTransportName {
+  return Object.prototype.hasOwnProperty.call(TRANSPORTS, value);
+}
+
+/**
+ * Transport selected with EMAIL_TRANSPORT. When unset, Plunk is used if
+ * PLUNK_API_KEY is present; otherwise development falls back to the console
+ * so the app runs offline, while production keeps Plunk and fails loudly.
+ */
+export function getActiveTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  if (configured) {
+    if (isEmailTransportName(configured)) return configured;
+    log.error('Unknown EMAIL_TRANSPORT, falling back to the default', { configured });
+  }
+
+  if (process.env.PLUNK_API_KEY || process.env.NODE_ENV === 'production') return 'plunk';
+  return 'console';
+}
+
+let transport: IEmailTransport | undefined;
+
+export function getEmailTransport(): IEmailTransport {
+  const name = getActiveTransportName();
+  if (transport?.name !== name) {
+    transport = TRANSPORTS[name]();
+  }
+  return transport;
+}
@@ -0,0 +1,30 @@
+/**
+ * Email Transports — Type Definitions
+ */
+
+export type EmailTransportName = 'plunk' | 'smtp' | 'file' | 'console';
+
+/** A small file sent with the message, e.g. a calendar invite */
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  /** Text content; transports encode it as needed */
+  content: string;
+}
+
+/** A fully rendered message, ready to hand to a transport */
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+/** Contract every email transport must fulfil */
+export interface IEmailTransport {
+  readonly name: EmailTransportName;
+  /** Delivers the message or throws */
+  send(message: EmailMessage): Promise<void>;
+}
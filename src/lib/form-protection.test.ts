@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectAutomatedSubmission, HONEYPOT_FIELD, issueFormToken } from './form-protection';
+
+describe('form protection', () => {
+  beforeEach(() => {
+    vi.stubEnv('LINK_SIGNING_SECRET', 'link-secret');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a submission made a few seconds after the form loaded', () => {
+    const formToken = issueFormToken('subscribe');
+    vi.setSystemTime(new Date('2026-03-01T10:00:05Z'));
+    expect(detectAutomatedSubmission('subscribe', { formToken })).toBeUndefined();
+  });
+
+  it('refuses a missing, early or other-form token and a filled honeypot', () => {
+    const formToken = issueFormToken('subscribe');
+    expect(detectAutomatedSubmission('subscribe', { formToken })).toBe('submitted too quickly');
+
+    vi.setSystemTime(new Date('2026-03-01T10:00:05Z'));
+    expect(detectAutomatedSubmission('subscribe', {})).toBe('missing or invalid form token');
+    expect(detectAutomatedSubmission('free-trial', { formToken })).toBe(
+      'missing or invalid form token',
+    );
+    expect(
+      detectAutomatedSubmission('subscribe', { formToken, [HONEYPOT_FIELD]: 'http://spam' }),
+    ).toBe('honeypot filled');
+  });
+
+  it('skips the timing check but keeps the honeypot without LINK_SIGNING_SECRET', () => {
+    vi.stubEnv('LINK_SIGNING_SECRET', '');
+
+    expect(issueFormToken('free-trial')).toBeUndefined();
+    expect(detectAutomatedSubmission('free-trial', {})).toBeUndefined();
+    expect(detectAutomatedSubmission('free-trial', { [HONEYPOT_FIELD]: 'x' })).toBe(
+      'honeypot filled',
+    );
+  });
+});
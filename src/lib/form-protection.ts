@@ -0,0 +1,107 @@
+import type { NextRequest } from 'next/server';
+import { checkRateLimit, clientIp } from '@/lib/rate-limit/rate-limit';
+import type { RateLimitResult } from '@/lib/rate-limit/types';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-tokens';
+
+/**
+ * Protection for the public sign-up forms, which send email and (for
+ * subscribe) open a real checkout on every submission:
+ *
+ * - rate limits per IP address and per email address
+ * - a honeypot field people never see, so never fill in
+ * - a signed token issued when the form loads; submissions arriving faster
+ *   than a person could type, or without a token, are refused
+ *
+ * The token is signed with LINK_SIGNING_SECRET. Without it the timing check
+ * is skipped rather than refusing every sign-up; /api/ready reports it.
+ */
+
+export type PublicForm = 'subscribe' | 'free-trial';
+
+/** Hidden field name; bots tend to fill anything that looks like a URL */
+export const HONEYPOT_FIELD = 'website';
+
+const FORM_TOKEN_PURPOSE = 'form-timing';
+/** Long enough for someone to leave the tab open over lunch */
+const FORM_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+const MIN_FILL_MS = 3000;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+export const FORM_REJECTED = 'We could not accept this form. Please reload the page and try again.';
+
+interface FormTokenData {
+  form: PublicForm;
+  /** Unix ms when the form was loaded */
+  issuedAt: number;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function isPublicForm(value: unknown): value is PublicForm {
+  return value === 'subscribe' || value === 'free-trial';
+}
+
+/** False when LINK_SIGNING_SECRET is missing, so no timing token can be signed */
+export function formTokensEnabled(): boolean {
+  return Boolean(process.env.LINK_SIGNING_SECRET?.trim());
+}
+
+/** Undefined when form tokens are not enabled. */
+export function issueFormToken(form: PublicForm): string | undefined {
+  if (!formTokensEnabled()) return undefined;
+  return createSignedToken<FormTokenData>(
+    FORM_TOKEN_PURPOSE,
+    { form, issuedAt: Date.now() },
+    FORM_TOKEN_TTL_SECONDS,
+  );
+}
+
+/**
+ * Checks the honeypot and timing token from a submitted body. Returns why
+ * the submission looks automated, or undefined when it looks human.
+ */
+export function detectAutomatedSubmission(form: PublicForm, submitted: object): string | undefined {
+  const body = submitted as Record<string, unknown>;
+  const honeypot = body[HONEYPOT_FIELD];
+  if (typeof honeypot === 'string' && honeypot.trim()) {
+    return 'honeypot filled';
+  }
+  if (!formTokensEnabled()) {
+    return undefined;
+  }
+
+  const token = typeof body.formToken === 'string' ? body.formToken : '';
+  const data = token ? verifySignedToken<FormTokenData>(FORM_TOKEN_PURPOSE, token) : undefined;
+  if (!data || data.form !== form) {
+    return 'missing or invalid form token';
+  }
+  if (Date.now() - data.issuedAt < MIN_FILL_MS) {
+    return 'submitted too quickly';
+  }
+  return undefined;
+}
+
+/** Counted before anything else, so floods are refused cheaply. */
+export function limitFormByIp(form: PublicForm, request: NextRequest): Promise<RateLimitResult> {
+  return checkRateLimit([
+    {
+      key: `${form}:ip:${clientIp(request)}`,
+      limit: limitFromEnv('FORM_RATE_LIMIT_PER_IP', 20),
+      windowMs: RATE_LIMIT_WINDOW_MS,
+    },
+  ]);
+}
+
+/** Counted once the email has been validated, so typos don't use up the allowance. */
+export function limitFormByEmail(form: PublicForm, email: string): Promise<RateLimitResult> {
+  return checkRateLimit([
+    {
+      key: `${form}:email:${email}`,
+      limit: limitFromEnv('FORM_RATE_LIMIT_PER_EMAIL', 5),
+      windowMs: RATE_LIMIT_WINDOW_MS,
+    },
+  ]);
+}
@@ -0,0 +1,28 @@
+/** Formats an amount in cents for emails, e.g. 39900 → "ZAR 399.00" */
+export function formatAmount(amountCents: number, currency: string): string {
+  return `${currency} ${(amountCents / 100).toFixed(2)}`;
+}
+
+/** Formats an ISO date, e.g. "12 March 2026"; pass the reader's BCP 47 tag to localise it */
+export function formatDate(isoDate?: string | null, intlLocale = 'en-ZA'): string | undefined {
+  return isoDate
+    ? new Date(isoDate).toLocaleDateString(intlLocale, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      })
+    : undefined;
+}
+
+/** Formats an ISO timestamp with the time, e.g. "12 Mar 2026, 14:05"; localised like formatDate */
+export function formatDateTime(isoDate?: string | null, intlLocale = 'en-ZA'): string | undefined {
+  return isoDate
+    ? new Date(isoDate).toLocaleString(intlLocale, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : undefined;
+}
@@ -0,0 +1,157 @@
+import {
+  sendFreeTrialRequestEmail,
+  sendTrialBookedEmail,
+  sendTrialBookingNotification,
+  sendTrialCancelledEmail,
+} from '@/lib/email';
+import { createLogger } from '@/lib/logging/logger';
+import { getFreeTrialRequestRepository } from './free-trial-repository';
+import { sendDueFollowUps } from './follow-ups';
+import { trialManageLink, verifyManageToken } from './manage-link';
+import { findSlot } from './slots';
+import type { FreeTrialRequest, NewFreeTrialRequest } from './types';
+
+const log = createLogger('free-trial');
+
+const SLOT_UNAVAILABLE = 'That session is no longer available. Please pick another time.';
+
+export type TrialBookingResult =
+  | { success: true; request: FreeTrialRequest }
+  | { success: false; status: number; error: string };
+
+async function notifyAdmin(request: FreeTrialRequest) {
+  // The request is on the admin dashboard even if the notification fails.
+  const sent = await sendFreeTrialRequestEmail({ ...request, slotStart: request.booking?.slotStart });
+  if (!sent) {
+    log.error('Failed to queue notification', { requestId: request.id, email: request.email });
+  }
+}
+
+async function sendBookedEmail(request: FreeTrialRequest, rescheduled: boolean) {
+  const booking = request.booking!;
+  await sendTrialBookedEmail({
+    name: request.name,
+    email: request.email,
+    requestId: request.id,
+    slotStart: booking.slotStart,
+    slotEnd: booking.slotEnd,
+    sequence: booking.sequence,
+    manageLink: trialManageLink(request),
+    locale: request.locale,
+    rescheduled,
+  });
+}
+
+/**
+ * Stores a free-trial request and, when the visitor picked a session,
+ * reserves a place in it. Visitors can hold one upcoming session at a time.
+ */
+export async function requestFreeTrial(
+  input: NewFreeTrialRequest,
+  slotStart?: string,
+): Promise<TrialBookingResult> {
+  const repository = getFreeTrialRequestRepository();
+
+  if (!slotStart) {
+    const request = await repository.create(input);
+    await Promise.all([sendDueFollowUps(request), notifyAdmin(request)]);
+    return { success: true, request };
+  }
+
+  const slot = await findSlot(slotStart);
+  if (!slot || slot.remaining === 0) {
+    return { success: false, status: 409, error: SLOT_UNAVAILABLE };
+  }
+
+  const created = await repository.createWithBooking(input, slot);
+  if (!created.success) {
+    return {
+      success: false,
+      status: 409,
+      error:
+        created.reason === 'already_booked'
+          ? 'You already have a trial session booked. Use the link in your confirmation email to change it.'
+          : SLOT_UNAVAILABLE,
+    };
+  }
+  const { request } = created;
+
+  // Both land in the outbox before we respond; delivery is retried from there.
+  await Promise.all([sendBookedEmail(request, false), sendDueFollowUps(request), notifyAdmin(request)]);
+  return { success: true, request };
+}
+
+/** The request behind a manage link, or undefined when the link is invalid. */
+export async function findBookingByToken(token: string): Promise<FreeTrialRequest | undefined> {
+  const requestId = verifyManageToken(token);
+  if (!requestId) return undefined;
+
+  const request = await getFreeTrialRequestRepository().findById(requestId);
+  return request?.booking ? request : undefined;
+}
+
+async function changeableBooking(token: string): Promise<TrialBookingResult> {
+  const request = await findBookingByToken(token);
+  if (!request) {
+    return { success: false, status: 400, error: 'This booking link is invalid or has expired' };
+  }
+  if (request.booking!.status === 'cancelled') {
+    return { success: false, status: 409, error: 'This booking has already been cancelled' };
+  }
+  if (new Date(request.booking!.slotStart) <= new Date()) {
+    return { success: false, status: 409, error: 'This trial session has already started' };
+  }
+  return { success: true, request };
+}
+
+export async function rescheduleTrialWithToken(
+  token: string,
+  slotStart: string,
+): Promise<TrialBookingResult> {
+  const current = await changeableBooking(token);
+  if (!current.success) return current;
+  if (current.request.booking!.slotStart === slotStart) return current;
+
+  const slot = await findSlot(slotStart);
+  const updated = slot && (await getFreeTrialRequestRepository().reschedule(current.request.id, slot));
+  if (!updated) {
+    return { success: false, status: 409, error: SLOT_UNAVAILABLE };
+  }
+
+  await Promise.all([
+    sendBookedEmail(updated, true),
+    sendTrialBookingNotification({
+      name: updated.name,
+      email: updated.email,
+      requestId: updated.id,
+      slotStart: slot.start,
+      slotEnd: slot.end,
+      change: 'Rescheduled',
+    }),
+  ]);
+  return { success: true, request: updated };
+}
+
+export async function cancelTrialWithToken(token: string): Promise<TrialBookingResult> {
+  const current = await changeableBooking(token);
+  if (!current.success) return current;
+
+  const updated = await getFreeTrialRequestRepository().cancelBooking(current.request.id);
+  if (!updated?.booking) {
+    return { success: false, status: 404, error: 'Booking not found' };
+  }
+
+  const data = {
+    name: updated.name,
+    email: updated.email,
+    requestId: updated.id,
+    slotStart: updated.booking.slotStart,
+    slotEnd: updated.booking.slotEnd,
+    locale: updated.locale,
+  };
+  await Promise.all([
+    sendTrialCancelledEmail({ ...data, sequence: updated.booking.sequence }),
+    sendTrialBookingNotification({ ...data, change: 'Cancelled' }),
+  ]);
+  return { success: true, request: updated };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { trialCalendarAttachment } from './calendar';
+
+const event = {
+  uid: 'trial_1@shegymz.com',
+  sequence: 0,
+  start: '2026-03-03T07:00:00.000Z',
+  end: '2026-03-03T08:00:00.000Z',
+  title: 'SheGymZ free trial',
+  // Long enough to fold several times, with multi-byte characters near the cuts.
+  description: 'Bring water, a towel and comfy shoes — we’ll do the rest. '.repeat(4),
+};
+
+describe('trialCalendarAttachment', () => {
+  const { content } = trialCalendarAttachment(event);
+  const lines = content.split('\r\n');
+
+  it('keeps every line, continuation space included, within 75 octets', () => {
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+  });
+
+  it('unfolds back to the original content line', () => {
+    const unfolded = content.replace(/\r\n /g, '');
+    const description = unfolded.split('\r\n').find((line) => line.startsWith('DESCRIPTION:'));
+    expect(description).toBe(`DESCRIPTION:${event.description.replace(/,/g, '\\,')}`);
+  });
+
+  it('cancels with the same UID', () => {
+    const cancelled = trialCalendarAttachment({ ...event, sequence: 1, cancelled: true });
+    expect(cancelled.contentType).toContain('method=CANCEL');
+    expect(cancelled.content).toContain('STATUS:CANCELLED');
+    expect(cancelled.content).toContain(`UID:${event.uid}`);
+  });
+});
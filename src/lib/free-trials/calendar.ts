@@ -0,0 +1,72 @@
+import type { EmailAttachment } from '@/lib/email/transports/types';
+
+export const GYM_ADDRESS = '65 Springbok Street, Fauna Park, Polokwane, 0699, South Africa';
+
+export interface TrialCalendarEvent {
+  /** Stable per booking so updates replace the original invite */
+  uid: string;
+  sequence: number;
+  start: string;
+  end: string;
+  title: string;
+  description: string;
+  url?: string;
+  cancelled?: boolean;
+}
+
+/** 2026-03-03T15:30:00.000Z → 20260303T153000Z */
+function icsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** RFC 5545 keeps content lines to 75 octets; longer ones continue after CRLF + space. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  // Continuation lines start with a space, which counts towards their 75.
+  let limit = 75;
+  while (Buffer.byteLength(rest, 'utf8') > limit) {
+    let cut = Math.min(rest.length, limit);
+    while (Buffer.byteLength(rest.slice(0, cut), 'utf8') > limit) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+    limit = 74;
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+}
+
+/** An iCalendar file for a trial session, as an email attachment. */
+export function trialCalendarAttachment(event: TrialCalendarEvent): EmailAttachment {
+  const method = event.cancelled ? 'CANCEL' : 'PUBLISH';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SheGymZ//Free Trial//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${icsDate(new Date().toISOString())}`,
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(GYM_ADDRESS)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return {
+    filename: 'shegymz-free-trial.ics',
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: `${lines.map(fold).join('\r\n')}\r\n`,
+  };
+}
@@ -0,0 +1,43 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { FollowUpSequence, IFollowUpSequenceRepository } from './types';
+
+/** Used until an admin saves a sequence of their own */
+export const DEFAULT_FOLLOW_UP_SEQUENCE: FollowUpSequence = {
+  steps: [
+    { template: 'thanks', anchor: 'submitted', offsetHours: 0, enabled: true },
+    { template: 'trial-reminder', anchor: 'trial', offsetHours: -24, enabled: true },
+    { template: 'join-now', anchor: 'trial', offsetHours: 72, enabled: true },
+  ],
+};
+
+interface FollowUpSequenceDocument {
+  sequence?: FollowUpSequence;
+}
+
+/** Stores the follow-up sequence in data/follow-up-sequence.json. */
+export class FileFollowUpSequenceRepository implements IFollowUpSequenceRepository {
+  private readonly store = new JsonFileStore<FollowUpSequenceDocument>(
+    'follow-up-sequence.json',
+    () => ({}),
+  );
+
+  async get(): Promise<FollowUpSequence> {
+    const doc = await this.store.read();
+    return doc.sequence ?? DEFAULT_FOLLOW_UP_SEQUENCE;
+  }
+
+  async save(sequence: FollowUpSequence): Promise<FollowUpSequence> {
+    const saved: FollowUpSequence = { ...sequence, updatedAt: new Date().toISOString() };
+    return this.store.update((doc) => {
+      doc.sequence = saved;
+      return saved;
+    });
+  }
+}
+
+let repository: IFollowUpSequenceRepository | undefined;
+
+export function getFollowUpSequenceRepository(): IFollowUpSequenceRepository {
+  repository ??= new FileFollowUpSequenceRepository();
+  return repository;
+}
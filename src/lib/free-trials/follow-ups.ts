@@ -0,0 +1,157 @@
+import {
+  sendTrialJoinNowEmail,
+  sendTrialReminderEmail,
+  sendTrialThanksEmail,
+} from '@/lib/email';
+import { createLogger } from '@/lib/logging/logger';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import { hasPaidAccess } from '@/lib/memberships/portal-link';
+import { getFreeTrialRequestRepository } from './free-trial-repository';
+import { getFollowUpSequenceRepository } from './follow-up-sequence-repository';
+import { trialManageLink } from './manage-link';
+import type { FollowUpRecord, FollowUpStep, FreeTrialRequest, TrialBooking } from './types';
+
+const log = createLogger('free-trial');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface FollowUpRunResult {
+  sent: number;
+  stopped: number;
+}
+
+function activeBooking(request: FreeTrialRequest): TrialBooking | undefined {
+  return request.booking?.status === 'booked' ? request.booking : undefined;
+}
+
+/** Why the sequence should end for this lead, if it should */
+async function stopReason(request: FreeTrialRequest): Promise<string | undefined> {
+  if (request.status === 'converted') return 'Became a member';
+  if (request.status === 'lost') return 'Lead closed as lost';
+
+  const membership = await getMembershipRepository().findByEmail(request.email);
+  if (hasPaidAccess(membership)) {
+    return 'Already a member';
+  }
+  return undefined;
+}
+
+/** When the step is due for this lead; undefined when it never applies */
+function dueAt(step: FollowUpStep, request: FreeTrialRequest): Date | undefined {
+  const booking = activeBooking(request);
+  if (step.template === 'trial-reminder' && !booking) return undefined;
+
+  const anchor = step.anchor === 'trial' && booking ? booking.slotStart : request.createdAt;
+  return new Date(new Date(anchor).getTime() + step.offsetHours * HOUR_MS);
+}
+
+/**
+ * Emails that no longer make sense by the time they are due are recorded as
+ * skipped: thanks for visitors whose booking confirmation already said it,
+ * and reminders for sessions booked after the reminder would have gone out.
+ */
+function shouldSkip(step: FollowUpStep, request: FreeTrialRequest, due: Date, now: Date): boolean {
+  const booking = activeBooking(request);
+  switch (step.template) {
+    case 'thanks':
+      return request.booking !== undefined;
+    case 'trial-reminder':
+      return !booking || new Date(booking.slotStart) <= now || due < new Date(booking.updatedAt);
+    case 'join-now':
+      return false;
+  }
+}
+
+async function sendStep(step: FollowUpStep, request: FreeTrialRequest): Promise<boolean> {
+  const data = { name: request.name, email: request.email, locale: request.locale };
+  switch (step.template) {
+    case 'thanks':
+      return sendTrialThanksEmail(data);
+    case 'trial-reminder':
+      return sendTrialReminderEmail({
+        ...data,
+        slotStart: request.booking!.slotStart,
+        manageLink: trialManageLink(request),
+      });
+    case 'join-now':
+      return sendTrialJoinNowEmail(data);
+  }
+}
+
+async function followUpLead(
+  request: FreeTrialRequest,
+  steps: FollowUpStep[],
+  now: Date,
+): Promise<FollowUpRunResult> {
+  const result: FollowUpRunResult = { sent: 0, stopped: 0 };
+  if (!request.followUp || request.followUp.stoppedAt) return result;
+
+  const repository = getFreeTrialRequestRepository();
+  const reason = await stopReason(request);
+  if (reason) {
+    await repository.stopFollowUps(request.id, reason);
+    result.stopped += 1;
+    return result;
+  }
+
+  for (const step of steps) {
+    if (!step.enabled) continue;
+
+    const due = dueAt(step, request);
+    if (!due || due > now) continue;
+
+    const slotStart = step.anchor === 'trial' ? activeBooking(request)?.slotStart : undefined;
+    const handled = request.followUp.sent[step.template];
+    if (handled && handled.slotStart === slotStart) continue;
+
+    const skipped = shouldSkip(step, request, due, now);
+    const record: FollowUpRecord = { at: now.toISOString(), slotStart, ...(skipped && { skipped }) };
+    if (!(await repository.claimFollowUp(request.id, step.template, record))) continue;
+    if (skipped) continue;
+
+    if (await sendStep(step, request)) {
+      result.sent += 1;
+    } else {
+      await repository.releaseFollowUp(request.id, step.template);
+    }
+  }
+  return result;
+}
+
+/** Sends whatever is already due for a lead, e.g. the thanks email right after the form. */
+export async function sendDueFollowUps(request: FreeTrialRequest): Promise<void> {
+  const { steps } = await getFollowUpSequenceRepository().get();
+  await followUpLead(request, steps, new Date()).catch((error) => {
+    log.error('Follow-up failed', { requestId: request.id, email: request.email, error });
+  });
+}
+
+/**
+ * Works through every lead's follow-up sequence, sending the emails that
+ * are due. The sequence stops once the lead subscribes or is closed.
+ */
+export async function processFollowUps(now = new Date()): Promise<FollowUpRunResult> {
+  const [{ steps }, requests] = await Promise.all([
+    getFollowUpSequenceRepository().get(),
+    getFreeTrialRequestRepository().list(),
+  ]);
+
+  const total: FollowUpRunResult = { sent: 0, stopped: 0 };
+  const followedUp = new Set<string>();
+  for (const request of requests) {
+    // Newest first: someone who filled in the form twice only hears from the latest.
+    if (followedUp.has(request.email)) {
+      if (request.followUp && !request.followUp.stoppedAt) {
+        await getFreeTrialRequestRepository().stopFollowUps(request.id, 'Replaced by a newer request');
+        total.stopped += 1;
+      }
+      continue;
+    }
+    followedUp.add(request.email);
+
+    const result = await followUpLead(request, steps, now);
+    total.sent += result.sent;
+    total.stopped += result.stopped;
+  }
+  return total;
+}
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type {
+  CreateBookingResult,
+  FollowUpRecord,
+  FollowUpTemplate,
+  FreeTrialRequest,
+  IFreeTrialRequestRepository,
+  LeadStatus,
+  LeadUpdate,
+  NewFreeTrialRequest,
+  TrialSlot,
+} from './types';
+
+interface FreeTrialRequestDocument {
+  requests: Record<string, FreeTrialRequest>;
+}
+
+/** Bookings in `slot` other than `exceptId`'s own */
+function bookedInSlot(doc: FreeTrialRequestDocument, slot: TrialSlot, exceptId?: string): number {
+  return Object.values(doc.requests).filter(
+    (r) => r.id !== exceptId && r.booking?.status === 'booked' && r.booking.slotStart === slot.start,
+  ).length;
+}
+
+function hasUpcomingBooking(doc: FreeTrialRequestDocument, email: string, now: Date): boolean {
+  return Object.values(doc.requests).some(
+    (r) => r.email === email && r.booking?.status === 'booked' && new Date(r.booking.slotStart) > now,
+  );
+}
+
+/** Requests stored before leads had a pipeline start out as `new`. */
+function withLeadDefaults(request: FreeTrialRequest): FreeTrialRequest {
+  return {
+    ...request,
+    status: request.status ?? 'new',
+    statusHistory: request.statusHistory ?? [],
+    notes: request.notes ?? [],
+    updatedAt: request.updatedAt ?? request.createdAt,
+  };
+}
+
+/** Records a status change; returns false when the lead is already there. */
+function moveLead(request: FreeTrialRequest, status: LeadStatus, reason: string, at: string): boolean {
+  if (request.status === status) return false;
+  request.status = status;
+  request.statusHistory.push({ status, at, reason });
+  request.updatedAt = at;
+  return true;
+}
+
+/** Stores free-trial requests in data/free-trial-requests.json. */
+export class FileFreeTrialRequestRepository implements IFreeTrialRequestRepository {
+  private readonly store = new JsonFileStore<FreeTrialRequestDocument>(
+    'free-trial-requests.json',
+    () => ({ requests: {} }),
+  );
+
+  async create(input: NewFreeTrialRequest): Promise<FreeTrialRequest> {
+    const request = this.newRequest(input);
+
+    return this.store.update((doc) => {
+      doc.requests[request.id] = request;
+      return request;
+    });
+  }
+
+  async createWithBooking(
+    input: NewFreeTrialRequest,
+    slot: TrialSlot,
+  ): Promise<CreateBookingResult> {
+    const request = this.newRequest(input);
+
+    // Checking and writing inside one update keeps two visitors from taking
+    // the last place in the same slot, and one visitor from double-booking.
+    return this.store.update((doc): CreateBookingResult => {
+      if (hasUpcomingBooking(doc, request.email, new Date())) {
+        return { success: false, reason: 'already_booked' };
+      }
+      if (bookedInSlot(doc, slot) >= slot.capacity) return { success: false, reason: 'slot_full' };
+
+      request.booking = {
+        status: 'booked',
+        slotStart: slot.start,
+        slotEnd: slot.end,
+        sequence: 0,
+        updatedAt: request.createdAt,
+      };
+      moveLead(request, 'booked', 'Booked a trial session online', request.createdAt);
+      doc.requests[request.id] = request;
+      return { success: true, request };
+    });
+  }
+
+  async reschedule(id: string, slot: TrialSlot): Promise<FreeTrialRequest | undefined> {
+    return this.store.update((doc) => {
+      const stored = doc.requests[id];
+      if (!stored?.booking) return undefined;
+      if (bookedInSlot(doc, slot, id) >= slot.capacity) return undefined;
+
+      const existing = withLeadDefaults(stored);
+      const now = new Date().toISOString();
+      existing.booking = {
+        status: 'booked',
+        slotStart: slot.start,
+        slotEnd: slot.end,
+        sequence: existing.booking!.sequence + 1,
+        updatedAt: now,
+      };
+      existing.updatedAt = now;
+      doc.requests[id] = existing;
+      return existing;
+    });
+  }
+
+  async cancelBooking(id: string): Promise<FreeTrialRequest | undefined> {
+    return this.store.update((doc) => {
+      const stored = doc.requests[id];
+      if (!stored?.booking) return undefined;
+
+      const existing = withLeadDefaults(stored);
+      if (existing.booking!.status === 'cancelled') return existing;
+
+      const now = new Date().toISOString();
+      existing.booking = {
+        ...existing.booking!,
+        status: 'cancelled',
+        sequence: existing.booking!.sequence + 1,
+        updatedAt: now,
+        cancelledAt: now,
+      };
+      existing.updatedAt = now;
+      if (existing.status === 'booked') {
+        moveLead(existing, 'new', 'Trial session cancelled by visitor', now);
+      }
+      doc.requests[id] = existing;
+      return existing;
+    });
+  }
+
+  async updateLead(id: string, update: LeadUpdate): Promise<FreeTrialRequest | undefined> {
+    return this.store.update((doc) => {
+      const stored = doc.requests[id];
+      if (!stored) return undefined;
+
+      const existing = withLeadDefaults(stored);
+      const now = new Date().toISOString();
+      if (update.status) {
+        moveLead(existing, update.status, update.reason?.trim() || 'Updated by staff', now);
+      }
+      if (update.assignedTo !== undefined) {
+        existing.assignedTo = update.assignedTo?.trim() || undefined;
+        existing.updatedAt = now;
+      }
+      if (update.note?.trim()) {
+        existing.notes.push({ at: now, text: update.note.trim() });
+        existing.updatedAt = now;
+      }
+      doc.requests[id] = existing;
+      return existing;
+    });
+  }
+
+  async convertByEmail(email: string, reason: string): Promise<FreeTrialRequest[]> {
+    const normalizedEmail = email.toLowerCase().trim();
+
+    return this.store.update((doc) => {
+      const converted: FreeTrialRequest[] = [];
+      const now = new Date().toISOString();
+      for (const stored of Object.values(doc.requests)) {
+        if (stored.email !== normalizedEmail) continue;
+
+        const existing = withLeadDefaults(stored);
+        if (moveLead(existing, 'converted', reason, now)) {
+          doc.requests[existing.id] = existing;
+          converted.push(existing);
+        }
+      }
+      return converted;
+    });
+  }
+
+  async countBookings(): Promise<Record<string, number>> {
+    const doc = await this.store.read();
+    const counts: Record<string, number> = {};
+    for (const request of Object.values(doc.requests)) {
+      if (request.booking?.status !== 'booked') continue;
+      counts[request.booking.slotStart] = (counts[request.booking.slotStart] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  async claimFollowUp(id: string, template: FollowUpTemplate, record: FollowUpRecord): Promise<boolean> {
+    return this.store.update((doc) => {
+      const followUp = doc.requests[id]?.followUp;
+      if (!followUp || followUp.stoppedAt) return false;
+
+      const existing = followUp.sent[template];
+      if (existing && existing.slotStart === record.slotStart) return false;
+
+      followUp.sent[template] = record;
+      return true;
+    });
+  }
+
+  async releaseFollowUp(id: string, template: FollowUpTemplate): Promise<void> {
+    await this.store.update((doc) => {
+      delete doc.requests[id]?.followUp?.sent[template];
+    });
+  }
+
+  async stopFollowUps(id: string, reason: string): Promise<FreeTrialRequest | undefined> {
+    return this.store.update((doc) => {
+      const stored = doc.requests[id];
+      if (!stored?.followUp) return undefined;
+
+      const existing = withLeadDefaults(stored);
+      existing.followUp!.stoppedAt ??= new Date().toISOString();
+      existing.followUp!.stoppedReason ??= reason;
+      doc.requests[id] = existing;
+      return existing;
+    });
+  }
+
+  async findById(id: string): Promise<FreeTrialRequest | undefined> {
+    const doc = await this.store.read();
+    const request = doc.requests[id];
+    return request && withLeadDefaults(request);
+  }
+
+  async findByEmail(email: string): Promise<FreeTrialRequest[]> {
+    const normalizedEmail = email.toLowerCase().trim();
+    const requests = await this.list();
+    return requests.filter((r) => r.email === normalizedEmail);
+  }
+
+  /** All requests, newest first */
+  async list(): Promise<FreeTrialRequest[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.requests)
+      .map(withLeadDefaults)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private newRequest(input: NewFreeTrialRequest): FreeTrialRequest {
+    const now = new Date().toISOString();
+    return {
+      ...input,
+      email: input.email.toLowerCase().trim(),
+      id: `trial_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+      status: 'new',
+      statusHistory: [{ status: 'new', at: now, reason: 'Submitted the free-trial form' }],
+      notes: [],
+      followUp: { sent: {} },
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
+
+let repository: IFreeTrialRequestRepository | undefined;
+
+export function getFreeTrialRequestRepository(): IFreeTrialRequestRepository {
+  repository ??= new FileFreeTrialRequestRepository();
+  return repository;
+}
@@ -0,0 +1,8 @@
+import type { LeadStatus } from './types';
+
+/** Pipeline order, as shown in the admin filters and lead editor */
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'booked', 'attended', 'converted', 'lost'];
+
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return LEAD_STATUSES.includes(value as LeadStatus);
+}
@@ -0,0 +1,31 @@
+import { DEFAULT_LOCALE, localePath } from '@/lib/i18n/config';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-tokens';
+import type { FreeTrialRequest } from './types';
+
+const MANAGE_TOKEN_PURPOSE = 'manage-trial-booking';
+/** Long enough to outlast any booking window */
+const MANAGE_LINK_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+interface ManageTokenData {
+  requestId: string;
+}
+
+function appBaseUrl() {
+  return (process.env.APP_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+}
+
+/** Signed link to the page where a visitor reschedules or cancels their session. */
+export function trialManageLink(request: FreeTrialRequest): string {
+  const token = createSignedToken<ManageTokenData>(
+    MANAGE_TOKEN_PURPOSE,
+    { requestId: request.id },
+    MANAGE_LINK_TTL_SECONDS,
+  );
+  const path = localePath(request.locale ?? DEFAULT_LOCALE, '/free-trial/booking');
+  return `${appBaseUrl()}${path}?token=${encodeURIComponent(token)}`;
+}
+
+/** The request id behind a manage link, or undefined when the token is invalid. */
+export function verifyManageToken(token: string): string | undefined {
+  return verifySignedToken<ManageTokenData>(MANAGE_TOKEN_PURPOSE, token)?.requestId;
+}
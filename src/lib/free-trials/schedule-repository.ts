@@ -0,0 +1,56 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { ITrialScheduleRepository, TrialSchedule, WeeklySlot } from './types';
+
+const WEEKDAY_SESSIONS: WeeklySlot[] = [
+  { time: '06:00', capacity: 4 },
+  { time: '09:00', capacity: 4 },
+  { time: '17:30', capacity: 4 },
+];
+
+/** Used until an admin saves a schedule of their own */
+export const DEFAULT_TRIAL_SCHEDULE: TrialSchedule = {
+  weekly: {
+    monday: WEEKDAY_SESSIONS,
+    tuesday: WEEKDAY_SESSIONS,
+    wednesday: WEEKDAY_SESSIONS,
+    thursday: WEEKDAY_SESSIONS,
+    friday: WEEKDAY_SESSIONS,
+    saturday: [
+      { time: '08:00', capacity: 4 },
+      { time: '10:00', capacity: 4 },
+    ],
+  },
+  durationMinutes: 60,
+  bookingWindowDays: 14,
+  minNoticeHours: 12,
+  blackoutDates: [],
+};
+
+interface TrialScheduleDocument {
+  schedule?: TrialSchedule;
+}
+
+/** Stores the trial schedule in data/trial-schedule.json. */
+export class FileTrialScheduleRepository implements ITrialScheduleRepository {
+  private readonly store = new JsonFileStore<TrialScheduleDocument>('trial-schedule.json', () => ({}));
+
+  async get(): Promise<TrialSchedule> {
+    const doc = await this.store.read();
+    return doc.schedule ?? DEFAULT_TRIAL_SCHEDULE;
+  }
+
+  async save(schedule: TrialSchedule): Promise<TrialSchedule> {
+    const saved: TrialSchedule = { ...schedule, updatedAt: new Date().toISOString() };
+    return this.store.update((doc) => {
+      doc.schedule = saved;
+      return saved;
+    });
+  }
+}
+
+let repository: ITrialScheduleRepository | undefined;
+
+export function getTrialScheduleRepository(): ITrialScheduleRepository {
+  repository ??= new FileTrialScheduleRepository();
+  return repository;
+}
@@ -0,0 +1,36 @@
+import { intlLocale, type Locale } from '@/lib/i18n/config';
+
+/** Trial sessions are always shown in gym time, wherever the visitor is */
+export const GYM_TIME_ZONE = 'Africa/Johannesburg';
+
+/** e.g. "Tuesday, 3 March" */
+export function formatSlotDay(iso: string, locale: Locale): string {
+  return new Date(iso).toLocaleDateString(intlLocale(locale), {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: GYM_TIME_ZONE,
+  });
+}
+
+/** e.g. "17:30" */
+export function formatSlotTime(iso: string, locale: Locale): string {
+  return new Date(iso).toLocaleTimeString(intlLocale(locale), {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: GYM_TIME_ZONE,
+  });
+}
+
+/** e.g. "Tuesday, 3 March 2026, 17:30" */
+export function formatSlot(iso: string, locale: Locale): string {
+  return new Date(iso).toLocaleString(intlLocale(locale), {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: GYM_TIME_ZONE,
+  });
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFreeTrialRequestRepository } from './free-trial-repository';
+import { getTrialScheduleRepository } from './schedule-repository';
+import { findSlot, listAvailableSlots, listSlots, WEEKDAYS } from './slots';
+import type { NewFreeTrialRequest, TrialSchedule } from './types';
+
+const schedule: TrialSchedule = {
+  weekly: Object.fromEntries(WEEKDAYS.map((day) => [day, [{ time: '09:00', capacity: 2 }]])),
+  durationMinutes: 60,
+  bookingWindowDays: 7,
+  minNoticeHours: 0,
+  blackoutDates: [],
+};
+
+function visitor(email: string): NewFreeTrialRequest {
+  return { name: 'Ann', email, phone: '+27821234567' };
+}
+
+describe('trial slots', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trial-slots-'));
+    vi.stubEnv('DATA_DIR', dir);
+    await getTrialScheduleRepository().save(schedule);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('offers one session a day at gym time within the booking window', async () => {
+    const now = new Date('2026-03-02T05:00:00Z');
+    const slots = await listSlots(now);
+
+    expect(slots).toHaveLength(8);
+    expect(slots[0]).toMatchObject({
+      start: '2026-03-02T07:00:00.000Z',
+      end: '2026-03-02T08:00:00.000Z',
+      capacity: 2,
+      booked: 0,
+      remaining: 2,
+    });
+  });
+
+  it('skips blackout dates and sessions inside the notice period', async () => {
+    await getTrialScheduleRepository().save({
+      ...schedule,
+      minNoticeHours: 3,
+      blackoutDates: ['2026-03-03'],
+    });
+
+    const slots = await listSlots(new Date('2026-03-02T05:00:00Z'));
+    const starts = slots.map((slot) => slot.start);
+    expect(starts).not.toContain('2026-03-02T07:00:00.000Z');
+    expect(starts).not.toContain('2026-03-03T07:00:00.000Z');
+    expect(starts).toContain('2026-03-04T07:00:00.000Z');
+  });
+
+  it('only rejects session times the schedule does not offer', async () => {
+    const now = new Date('2026-03-02T05:00:00Z');
+    expect(await findSlot('2026-03-02T07:00:00Z', now)).toBeDefined();
+    expect(await findSlot('2026-03-02T08:00:00Z', now)).toBeUndefined();
+    expect(await findSlot('not a date', now)).toBeUndefined();
+  });
+
+  it('never books a session past its capacity', async () => {
+    const [slot] = await listAvailableSlots();
+    const repository = getFreeTrialRequestRepository();
+
+    const results = await Promise.all(
+      ['a', 'b', 'c'].map((name) =>
+        repository.createWithBooking(visitor(`${name}@example.com`), slot),
+      ),
+    );
+
+    expect(results.filter((result) => result.success)).toHaveLength(2);
+    expect(results.find((result) => !result.success)).toEqual({
+      success: false,
+      reason: 'slot_full',
+    });
+    const [after] = await listSlots();
+    expect(after).toMatchObject({ start: slot.start, booked: 2, remaining: 0 });
+    expect((await listAvailableSlots()).map((s) => s.start)).not.toContain(slot.start);
+  });
+
+  it('holds one upcoming session per email', async () => {
+    const [first, second] = await listAvailableSlots();
+    const repository = getFreeTrialRequestRepository();
+
+    const results = await Promise.all([
+      repository.createWithBooking(visitor('ann@example.com'), first),
+      repository.createWithBooking(visitor('ANN@example.com '), second),
+    ]);
+
+    expect(results.map((result) => result.success)).toEqual([true, false]);
+    expect(results[1]).toEqual({ success: false, reason: 'already_booked' });
+  });
+});
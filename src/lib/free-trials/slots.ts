@@ -0,0 +1,76 @@
+import { getFreeTrialRequestRepository } from './free-trial-repository';
+import { getTrialScheduleRepository } from './schedule-repository';
+import type { TrialSchedule, TrialSlot, Weekday } from './types';
+
+export const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+/** South Africa has no daylight saving, so gym time is always UTC+2 */
+const GYM_UTC_OFFSET = '+02:00';
+const GYM_UTC_OFFSET_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every session the schedule produces in its booking window, ignoring bookings */
+function scheduledSessions(schedule: TrialSchedule, now: Date): Array<Omit<TrialSlot, 'booked' | 'remaining'>> {
+  const blackouts = new Set(schedule.blackoutDates);
+  const earliest = now.getTime() + schedule.minNoticeHours * 60 * 60 * 1000;
+  // Shifting by the offset makes the UTC calendar fields read as gym-local ones.
+  const localToday = new Date(now.getTime() + GYM_UTC_OFFSET_MS);
+  const sessions = [];
+
+  for (let day = 0; day <= schedule.bookingWindowDays; day++) {
+    const local = new Date(localToday.getTime() + day * DAY_MS);
+    const date = local.toISOString().slice(0, 10);
+    if (blackouts.has(date)) continue;
+
+    for (const { time, capacity } of schedule.weekly[WEEKDAYS[local.getUTCDay()]] ?? []) {
+      const start = new Date(`${date}T${time}:00${GYM_UTC_OFFSET}`);
+      if (start.getTime() < earliest) continue;
+      sessions.push({
+        start: start.toISOString(),
+        end: new Date(start.getTime() + schedule.durationMinutes * 60 * 1000).toISOString(),
+        capacity,
+      });
+    }
+  }
+
+  return sessions.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Upcoming sessions with at least one place left, soonest first */
+export async function listAvailableSlots(now = new Date()): Promise<TrialSlot[]> {
+  const slots = await listSlots(now);
+  return slots.filter((slot) => slot.remaining > 0);
+}
+
+/** Every upcoming session with its bookings, full ones included */
+export async function listSlots(now = new Date()): Promise<TrialSlot[]> {
+  const [schedule, counts] = await Promise.all([
+    getTrialScheduleRepository().get(),
+    getFreeTrialRequestRepository().countBookings(),
+  ]);
+
+  return scheduledSessions(schedule, now).map((session) => {
+    const booked = counts[session.start] ?? 0;
+    return { ...session, booked, remaining: Math.max(0, session.capacity - booked) };
+  });
+}
+
+/**
+ * Looks up a session by its start time. Only sessions the schedule currently
+ * offers are returned, so stale or hand-made times are rejected.
+ */
+export async function findSlot(start: string, now = new Date()): Promise<TrialSlot | undefined> {
+  const time = new Date(start).getTime();
+  if (Number.isNaN(time)) return undefined;
+
+  const slots = await listSlots(now);
+  return slots.find((slot) => new Date(slot.start).getTime() === time);
+}
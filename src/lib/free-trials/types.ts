@@ -0,0 +1,214 @@
+/**
+ * Free Trials — Type Definitions
+ */
+
+import type { Locale } from '@/lib/i18n/config';
+
+/**
+ * Where a free-trial lead is in the sales pipeline.
+ *
+ * new        — submitted, nobody has followed up yet
+ * contacted  — staff have been in touch
+ * booked     — a trial session is booked
+ * attended   — came in for the trial
+ * converted  — became a paying member
+ * lost       — not going ahead
+ */
+export type LeadStatus = 'new' | 'contacted' | 'booked' | 'attended' | 'converted' | 'lost';
+
+export interface LeadStatusChange {
+  status: LeadStatus;
+  /** ISO timestamp */
+  at: string;
+  reason: string;
+}
+
+export interface LeadNote {
+  at: string;
+  text: string;
+}
+
+/** A request submitted through the free-trial form, tracked as a sales lead */
+export interface FreeTrialRequest {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  bodyGoals?: string;
+  /** Referrer's name, filled in from a validated referral code */
+  referralName?: string;
+  referralCode?: string;
+  /** Language the form was filled in */
+  locale?: Locale;
+  /** The trial session the visitor picked, if they booked one online */
+  booking?: TrialBooking;
+  status: LeadStatus;
+  statusHistory: LeadStatusChange[];
+  notes: LeadNote[];
+  /** Staff member following up */
+  assignedTo?: string;
+  /**
+   * Progress through the follow-up emails. Missing on requests made before
+   * the sequence existed; those are never emailed.
+   */
+  followUp?: LeadFollowUp;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewFreeTrialRequest = Omit<
+  FreeTrialRequest,
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'booking'
+  | 'status'
+  | 'statusHistory'
+  | 'notes'
+  | 'assignedTo'
+  | 'followUp'
+>;
+
+/** Changes staff can make to a lead; `assignedTo: null` unassigns it */
+export interface LeadUpdate {
+  status?: LeadStatus;
+  /** Recorded in the history when the status changes */
+  reason?: string;
+  assignedTo?: string | null;
+  note?: string;
+}
+
+/** Emails in the trial-to-member follow-up sequence */
+export type FollowUpTemplate = 'thanks' | 'trial-reminder' | 'join-now';
+
+/**
+ * One email in the sequence. `anchor: 'trial'` counts from the booked
+ * session, or from the request for visitors who did not book one.
+ */
+export interface FollowUpStep {
+  template: FollowUpTemplate;
+  anchor: 'submitted' | 'trial';
+  /** Hours after the anchor; negative sends before it */
+  offsetHours: number;
+  enabled: boolean;
+}
+
+/** The follow-up sequence; edited through /api/admin/follow-up-sequence */
+export interface FollowUpSequence {
+  steps: FollowUpStep[];
+  updatedAt?: string;
+}
+
+export interface FollowUpRecord {
+  at: string;
+  /** Not sent because it no longer applied, e.g. a reminder for a session booked at short notice */
+  skipped?: boolean;
+  /** The session a trial-anchored email was about; a new session gets its own */
+  slotStart?: string;
+}
+
+export interface LeadFollowUp {
+  sent: Partial<Record<FollowUpTemplate, FollowUpRecord>>;
+  /** Set once the lead subscribes or is closed; nothing more is sent */
+  stoppedAt?: string;
+  stoppedReason?: string;
+}
+
+export type TrialBookingStatus = 'booked' | 'cancelled';
+
+export interface TrialBooking {
+  status: TrialBookingStatus;
+  /** ISO timestamps of the session */
+  slotStart: string;
+  slotEnd: string;
+  /** Bumped on every change so calendar apps replace the earlier invite */
+  sequence: number;
+  updatedAt: string;
+  cancelledAt?: string;
+}
+
+/** A bookable session generated from the weekly schedule */
+export interface TrialSlot {
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+}
+
+/** Why a booking wasn't created: the slot filled up, or the email already holds an upcoming session */
+export type CreateBookingResult =
+  | { success: true; request: FreeTrialRequest }
+  | { success: false; reason: 'slot_full' | 'already_booked' };
+
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+export interface WeeklySlot {
+  /** Local start time, HH:mm */
+  time: string;
+  /** Visitors who can book this session */
+  capacity: number;
+}
+
+/** When trial sessions run; edited through /api/admin/trial-schedule */
+export interface TrialSchedule {
+  weekly: Partial<Record<Weekday, WeeklySlot[]>>;
+  durationMinutes: number;
+  /** How many days ahead visitors can book */
+  bookingWindowDays: number;
+  /** Sessions starting sooner than this are no longer offered */
+  minNoticeHours: number;
+  /** YYYY-MM-DD dates with no sessions, e.g. public holidays */
+  blackoutDates: string[];
+  updatedAt?: string;
+}
+
+/** Contract for persisting free-trial requests */
+export interface IFreeTrialRequestRepository {
+  create(input: NewFreeTrialRequest): Promise<FreeTrialRequest>;
+  /**
+   * Creates the request holding a place in `slot`, unless the slot filled up
+   * in the meantime or the email already has an upcoming booking.
+   */
+  createWithBooking(input: NewFreeTrialRequest, slot: TrialSlot): Promise<CreateBookingResult>;
+  /** Moves a booking to `slot`; undefined when the slot is full. */
+  reschedule(id: string, slot: TrialSlot): Promise<FreeTrialRequest | undefined>;
+  /** Cancels the booking; a lead that was `booked` goes back to `new`. */
+  cancelBooking(id: string): Promise<FreeTrialRequest | undefined>;
+  updateLead(id: string, update: LeadUpdate): Promise<FreeTrialRequest | undefined>;
+  /** Marks every open lead for the email as converted and returns them. */
+  convertByEmail(email: string, reason: string): Promise<FreeTrialRequest[]>;
+  /**
+   * Records a follow-up email as handled before it is queued. Returns false
+   * when it already was (for the same session) or the sequence has stopped,
+   * so concurrent runs never send it twice.
+   */
+  claimFollowUp(id: string, template: FollowUpTemplate, record: FollowUpRecord): Promise<boolean>;
+  /** Undoes a claim whose email could not be queued, so the next run retries it. */
+  releaseFollowUp(id: string, template: FollowUpTemplate): Promise<void>;
+  stopFollowUps(id: string, reason: string): Promise<FreeTrialRequest | undefined>;
+  /** Active bookings per slot start */
+  countBookings(): Promise<Record<string, number>>;
+  findById(id: string): Promise<FreeTrialRequest | undefined>;
+  findByEmail(email: string): Promise<FreeTrialRequest[]>;
+  list(): Promise<FreeTrialRequest[]>;
+}
+
+/** Contract for persisting the follow-up sequence */
+export interface IFollowUpSequenceRepository {
+  get(): Promise<FollowUpSequence>;
+  save(sequence: FollowUpSequence): Promise<FollowUpSequence>;
+}
+
+/** Contract for persisting the trial schedule */
+export interface ITrialScheduleRepository {
+  get(): Promise<TrialSchedule>;
+  save(schedule: TrialSchedule): Promise<TrialSchedule>;
+}
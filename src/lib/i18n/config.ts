@@ -0,0 +1,50 @@
+/**
+ * Supported languages and locale-aware paths.
+ *
+ * English is served without a prefix (/subscribe); every other language lives
+ * under its code (/zu/subscribe). Pages live under src/app/[locale]; the
+ * middleware rewrites unprefixed paths onto /en so they can be prerendered.
+ */
+export const LOCALES = ['en', 'zu', 'af', 'xh'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each language in its own name, for the language switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  zu: 'isiZulu',
+  af: 'Afrikaans',
+  xh: 'isiXhosa',
+};
+
+/** Remembers the visitor's last chosen language */
+export const LOCALE_COOKIE = 'shegymz_locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/** The locale, or English when the value isn't a supported language */
+export function normalizeLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/** Prefixes an app path with the locale, e.g. ('zu', '/subscribe') → '/zu/subscribe' */
+export function localePath(locale: Locale, path: string): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/** Splits a locale prefix off a pathname, e.g. '/zu/subscribe' → { locale: 'zu', path: '/subscribe' } */
+export function splitLocalePath(pathname: string): { locale?: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) return { path: pathname };
+  return { locale: first, path: `/${rest.join('/')}` };
+}
+
+/** BCP 47 tag for date formatting, e.g. 'zu' → 'zu-ZA' */
+export function intlLocale(locale: Locale): string {
+  return `${locale}-ZA`;
+}
@@ -0,0 +1,6 @@
+/** Fills {placeholders} in a catalogue string, e.g. ('Thanks, {name}!', { name: 'Ann' }) */
+export function formatMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
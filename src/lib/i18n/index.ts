@@ -0,0 +1,15 @@
+import type { Locale } from './config';
+import af from './messages/af';
+import en, { type Messages } from './messages/en';
+import xh from './messages/xh';
+import zu from './messages/zu';
+
+export type { Messages };
+export { formatMessage } from './format';
+
+// Server-side only: client components get their one catalogue from LocaleProvider.
+const CATALOGUES: Record<Locale, Messages> = { en, zu, af, xh };
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGUES[locale];
+}
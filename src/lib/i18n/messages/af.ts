@@ -0,0 +1,283 @@
+import type { Messages } from './en';
+
+/** Afrikaans site copy */
+const af: Messages = {
+  nav: {
+    tagline: 'Privaat Welstand',
+    about: 'Oor Ons',
+    subscriptionDetails: 'Lidmaatskap',
+    freeTrial: '3-Dag Gratis Proeflopie',
+    subscribe: 'Teken Hier In',
+    toggleMenu: 'Wys of versteek kieslys',
+    language: 'Taal',
+  },
+  footer: {
+    tagline: "'n Privaat ruimte vir vroue om te oefen, te herstel en te behoort.",
+    navigation: 'Navigasie',
+    aboutUs: 'Oor Ons',
+    membership: 'Lidmaatskap',
+    requestAccess: 'Versoek Toegang',
+    privacy: 'Privaatheid',
+    privacyNote:
+      "SheGymZ is 'n privaat welstandsruimte vir vroue, gebou op vertroue, privaatheid en 'n gevoel van gemeenskap.",
+    contact: 'Kontak',
+    location: 'SheGymZ se Ligging',
+    rights: 'Alle regte voorbehou.',
+    developedBy: 'Ontwikkel en onderhou deur',
+    privacyPolicy: 'Privaatheidsbeleid',
+    terms: 'Diensvoorwaardes',
+  },
+  form: {
+    fullName: 'Volle Naam *',
+    fullNamePlaceholder: 'Voer jou volle naam in',
+    email: 'E-posadres *',
+    phone: 'Telefoonnommer *',
+    bodyGoals: 'Liggaamsdoelwitte (Opsioneel)',
+    bodyGoalsPlaceholder: 'Vertel ons van jou fiksheidsdoelwitte en wat jy wil bereik...',
+    referralCode: 'Verwysingskode (Opsioneel)',
+    referralCodePlaceholder: 'bv. THANDI-7K3Q',
+    referredBy: 'Verwys deur {name}',
+    invalidReferralCode: 'Ongeldige verwysingskode',
+    nameRequired: 'Voer asseblief jou volle naam in',
+    emailInvalid: "Voer asseblief 'n geldige e-posadres in",
+    phoneRequired: 'Voer asseblief jou telefoonnommer in',
+    phoneInvalid: "Voer asseblief 'n Suid-Afrikaanse selnommer in, bv. 082 123 4567",
+    fieldInvalid: 'Kontroleer asseblief hierdie veld',
+    tooLong: 'Hou dit asseblief by {max} karakters of minder',
+    continueToReview: 'Gaan voort na Oorsig',
+    reviewTitle: 'Gaan Jou Versoek Na',
+    back: 'Terug',
+    backHome: 'Terug na tuisblad',
+    summaryName: 'Naam',
+    summaryEmail: 'E-pos',
+    summaryPhone: 'Telefoon',
+    summaryBodyGoals: 'Liggaamsdoelwitte',
+    summaryReferredBy: 'Verwys deur',
+    tooManyRequests: "Te veel pogings. Wag asseblief 'n paar minute en probeer weer.",
+    formExpired: 'Hierdie vorm het verval. Probeer asseblief weer.',
+    genericError: "'n Fout het voorgekom. Probeer asseblief weer.",
+  },
+  home: {
+    heroTitle: 'Haar Liggaam. Haar Krag.',
+    heroSubtitle: '24/7 Toegang. Persoonlike afrigters ingesluit. Geen kontrakte nie.',
+    subscribe: 'Teken Hier In',
+    tryFree: 'Probeer 3 Dae Gratis',
+    quoteLine1: "SheGymZ is 'n privaat welstandsruimte vir vroue",
+    quoteLine2: "gebou op vertroue, privaatheid en 'n gevoel van gemeenskap",
+    aboutTitle: 'Wat Is SheGymZ?',
+    features: [
+      {
+        title: 'Gimnasium & CrossFit',
+        body: "Volledig toegeruste privaat fasiliteit. Oefen op jou eie terme. Geen skares, geen afleidings nie.",
+      },
+      {
+        title: 'Masserings & Herstel',
+        body: "Toegewyde herstelruimte. Professionele masseerterapie. Welstand is deel van krag.",
+      },
+      {
+        title: 'Begeleide Oefening',
+        body: 'Persoonlike afrigters by elke lidmaatskap ingesluit. Geen ekstras, geen opverkope nie. Net ondersteuning.',
+      },
+      {
+        title: 'Meditasie en Pilates',
+        body: 'Rustige natuurlike ruimtes vir nadenke.',
+      },
+      {
+        title: 'Lede-inhoud',
+        body: 'Privaat ruimtes om inhoud te skep. Vir lede, deur lede. Besit jou eie storie.',
+      },
+    ],
+    howItWorksTitle: 'Hoe Dit Werk',
+    monthlyTitle: 'Maandelikse Fakturering',
+    monthlyBody: 'Eenvoudige maandelikse intekening. Outomaties gedebiteer. Geen verrassings nie.',
+    cancelTitle: 'Kanselleer Enige Tyd',
+    cancelBody:
+      'Geen kontrakte nie. Geen vasgebonde tydperke nie. Vertrek wanneer jy moet. Altyd welkom terug.',
+    cancelLink: 'Kanselleer my lidmaatskap',
+    referralTitle: 'Lidmaatskap deur Verwysing',
+    referralBody:
+      "Ons groei deur mond-tot-mond. Elke lid kry 'n persoonlike verwysingskakel — deel dit en verdien 'n gratis maand vir elke vriendin wat aansluit.",
+    termsLabel: 'Privaatklub-voorwaardes:',
+    termsBody:
+      "SheGymZ behou die reg voor om lidmaatskaptoegang in te trek volgens ons privaatklubbeleid. Ons is daartoe verbind om 'n veilige, respekvolle omgewing vir alle lede te handhaaf.",
+    ctaTitle: "Gereed om by 'n gemeenskap van krag aan te sluit?",
+    ctaBody:
+      'Versoek vandag lidmaatskap. Ons sal jou versoek nagaan en met jou in verbinding tree om jou toegang tot SheGymZ te bevestig.',
+    closeHint: 'Klik enige plek om toe te maak',
+  },
+  plans: {
+    intervals: {
+      monthly: 'Maandeliks',
+      quarterly: 'Elke 3 maande',
+      annual: 'Jaarliks',
+    },
+    descriptions: {
+      monthly: 'Privaat welstandsklub vir vroue — 24/7 toegang, persoonlike afrigters ingesluit',
+      quarterly: 'Drie maande lidmaatskap, elke kwartaal gefaktureer',
+      annual: "'n Volle jaar lidmaatskap, een keer per jaar gefaktureer",
+    },
+  },
+  subscribe: {
+    chooseTitle: 'Kies Jou Lidmaatskap',
+    chooseSubtitle:
+      'Elke plan sluit 24/7 toegang en persoonlike afrigters in. Langer planne kos minder per maand.',
+    perMonth: 'per maand',
+    amountPerMonth: '{amount} per maand',
+    savePerMonth: 'Spaar {amount} per maand',
+    continueWith: 'Gaan voort met {plan}',
+    formTitle: 'Intekenvorm',
+    formSubtitle:
+      'Voltooi die vorm hieronder. Ons sal jou versoek nagaan en met jou in verbinding tree om toegang te bevestig.',
+    changePlan: 'Verander plan',
+    privacyNote:
+      'Jou inligting is privaat en veilig. Ons kontak jou slegs om lidmaatskaptoegang te bevestig.',
+    reviewSubtitle: 'Bevestig jou besonderhede hieronder en gaan voort na betaling.',
+    summaryPlan: 'Plan',
+    detailsTitle: 'Lidmaatskapbesonderhede',
+    detailsBilling: '{interval} fakturering',
+    detailsCancel: 'Kanselleer enige tyd, geen kontrakte nie',
+    detailsTrainers: 'Persoonlike afrigters ingesluit',
+    detailsAccess: '24/7 toegang',
+    detailsContent: 'Inhoudsruimte net vir lede',
+    discountLabel: 'Afslagkode (Opsioneel)',
+    discountPlaceholder: "Voer 'n promosiekode in",
+    discountRequired: "Voer asseblief 'n afslagkode in",
+    discountInvalid: 'Ongeldige afslagkode',
+    checking: 'Kontroleer…',
+    apply: 'Pas toe',
+    codeApplied: 'Kode {code} toegepas.',
+    remove: 'Verwyder',
+    planPrice: 'Planprys',
+    discountLine: 'Afslag ({code})',
+    amountDueToday: 'Bedrag Vandag Betaalbaar',
+    monthlyAmount: 'Maandelikse Bedrag',
+    intervalAmount: 'Bedrag ({interval})',
+    worksOutTo: 'Kom neer op',
+    youSave: 'Jy spaar',
+    savingsTotal: '{perMonth} per maand ({total} altesaam)',
+    chargedNote:
+      'Gedebiteer: {interval}. Die eerste betaling word onmiddellik na bevestiging verwerk.',
+    discountNote: 'Die afslag geld vir hierdie eerste betaling.',
+    paymentFailed: 'Kon nie die betaling begin nie',
+    processing: 'Verwerk tans...',
+    confirmAndPay: 'Bevestig & Betaal',
+    terms: 'Deur te bevestig, stem jy in tot ons lidmaatskapvoorwaardes en privaatheidsbeleid.',
+    preparingTitle: 'Berei Jou Betaling Voor',
+    redirecting: 'Stuur jou aan na veilige betaling…',
+    alreadyMemberTitle: 'Jy Is Reeds Lid',
+    alreadyMemberBody:
+      "{email} het reeds 'n aktiewe SheGymZ-lidmaatskap, so ons het nie 'n nuwe betaling begin nie.",
+    manageMembership: 'Bestuur My Lidmaatskap',
+    resendPortalLink: 'Stuur Portaalskakel Weer',
+    sendingPortalLink: 'Stuur tans…',
+    portalLinkSent: 'Ons het jou portaalskakel na {email} gestuur.',
+  },
+  freeTrial: {
+    title: '3-Dag Gratis Proeflopie',
+    subtitle:
+      'Kry 3 volle dae toegang — geen betaling, geen verpligting nie. Vul jou besonderhede in en ons sal met jou in verbinding tree om te begin.',
+    privacyNote:
+      'Jou inligting is privaat en veilig. Ons kontak jou slegs om jou 3-dag gratis proeflopie te reël — geen betaling of kaartbesonderhede nodig nie.',
+    reviewSubtitle:
+      'Bevestig jou besonderhede en dien in — ons sal in verbinding tree om jou 3-dag gratis proeflopie te skeduleer.',
+    nextTitle: 'Wat Gebeur Nou',
+    nextSteps: [
+      "Kies 'n sessie wat jou pas — jou plek word dadelik gehou",
+      "Jou bevestigings-e-pos bevat 'n kalenderuitnodiging en 'n skakel om te herskeduleer of te kanselleer",
+      '3 volle dae toegang — geen betaling, geen kontrakte nie',
+      'Ervaar al die fasiliteite en klasse self',
+    ],
+    submitError: 'Iets het skeefgeloop. Probeer asseblief weer.',
+    submitting: 'Dien tans in…',
+    submit: 'Dien Versoek In',
+    terms:
+      'Deur in te dien, stem jy in tot ons privaatheidsbeleid. Ons gebruik jou besonderhede slegs om jou oor jou proeflopie te kontak.',
+    submittedTitle: 'Versoek Ingedien!',
+    thanks: 'Dankie, {name}!',
+    submittedBody:
+      'Ons het jou versoek vir die 3-dag gratis proeflopie ontvang en sal binne 24 uur met jou in verbinding tree.',
+    slotsTitle: 'Kies Jou Eerste Sessie',
+    slotsHint: 'Tye word in Suid-Afrikaanse tyd gewys.',
+    slotsLoading: 'Laai beskikbare sessies…',
+    noSlots:
+      "Daar is tans geen sessies oop vir aanlyn bespreking nie. Stuur jou versoek en ons sal jou kontak om 'n tyd te reël.",
+    slotRequired: "Kies asseblief 'n sessie",
+    placesLeft: '{count} plekke oor',
+    onePlaceLeft: '1 plek oor',
+    summarySession: 'Sessie',
+    submittedBookedBody:
+      "Jou eerste sessie is bespreek vir {date}. Ons het vir jou 'n bevestiging met 'n kalenderuitnodiging en 'n skakel om te herskeduleer of te kanselleer gestuur.",
+    returnHome: 'Terug na Tuisblad',
+  },
+  trialBooking: {
+    title: 'Jou Proeflopie-sessie',
+    loading: 'Laai jou bespreking…',
+    invalidLink: 'Hierdie besprekingskakel is ongeldig of het verval.',
+    bookedFor: 'Jy is bespreek vir {date}.',
+    cancelledNote: 'Hierdie bespreking is gekanselleer.',
+    startedNote: 'Hierdie sessie het reeds begin.',
+    rescheduleTitle: "Kies 'n Nuwe Tyd",
+    reschedule: 'Skuif My Sessie',
+    cancel: 'Kanselleer My Sessie',
+    saving: 'Stoor tans…',
+    rescheduled: "Jou sessie is na {date} geskuif. Ons het vir jou 'n bygewerkte kalenderuitnodiging gestuur.",
+    cancelled: "Jou sessie is gekanselleer. Ons het 'n bevestiging na jou e-pos gestuur.",
+    bookAgain: "Bespreek 'n Ander Sessie",
+  },
+  paymentResult: {
+    checkingTitle: 'Bevestig Tans Jou Betaling…',
+    checkingBody: "Dit sal net 'n oomblik neem.",
+    paidTitle: 'Betaling Ontvang',
+    paidBody:
+      'Welkom by SheGymZ! Jou lidmaatskap is aktief en jou portaalskakel is per e-pos op pad.',
+    plan: 'Plan',
+    amount: 'Bedrag',
+    paidOn: 'Betaal Op',
+    reference: 'Verwysing',
+    nextStepsTitle: 'Jou Volgende Stappe',
+    nextSteps: [
+      'Kyk in jou inkassie vir jou kwitansie en lidportaalskakel.',
+      'Maak die portaal oop en voltooi jou lidprofiel.',
+      'Bespreek jou eerste sessie met een van ons persoonlike afrigters.',
+      "Kom in — bring water, 'n handdoek en jou doelwitte.",
+    ],
+    openPortal: 'Maak SheGymZ-portaal Oop',
+    noEmail: 'Nie die e-pos gekry nie? Kyk in jou gemorspos of e-pos ons by',
+    pendingTitle: 'Bevestig Steeds Jou Betaling',
+    pendingBody:
+      "Jou bank neem 'n bietjie langer as gewoonlik. Jy sal 'n e-pos kry sodra die betaling bevestig is — jy hoef nie weer te betaal nie.",
+    unknownTitle: 'Ons Kon Nie Jou Betaling Bevestig Nie',
+    unknownBody:
+      "Ons kon nie hierdie betaling hier bevestig nie. As jy 'n betaling voltooi het, bevat jou bevestigings-e-pos die besonderhede.",
+    checkAgain: 'Kyk Weer',
+    failedTitle: 'Betaling Onsuksesvol',
+    failedBody: 'Iets het met jou betaling skeefgeloop. Niks is gedebiteer nie.',
+    tryAgain: 'Probeer Weer',
+    cancelledTitle: 'Betaling Gekanselleer',
+    cancelledBody:
+      'Jou betaling is gekanselleer en niks is gedebiteer nie. Jy kan enige tyd weer probeer of ons vir hulp kontak.',
+    needHelp: 'Hulp nodig?',
+    contactSupport: 'Kontak ondersteuning',
+  },
+  cancelMembership: {
+    title: 'Kanselleer Lidmaatskap',
+    subtitle:
+      'Geen kontrakte, geen inperking nie. Jy behou toegang tot aan die einde van die tydperk waarvoor jy betaal het.',
+    cancelledTitle: 'Jou Lidmaatskap Is Gekanselleer',
+    noMoreCharges: 'Jy sal nie weer gedebiteer word nie.',
+    accessUntil: 'Jy behou volle toegang tot {date}.',
+    confirmationSent: "'n Bevestiging is na jou e-pos gestuur.",
+    linkSentTitle: 'Kyk Jou E-pos',
+    linkSentBody:
+      "As daar 'n aktiewe lidmaatskap vir daardie adres is, het ons 'n skakel gestuur om die kansellasie te bevestig. Die skakel verval oor 24 uur.",
+    confirmPrompt:
+      'Bevestig hieronder om toekomstige betalings te stop. Dit kan nie ontdoen word nie, maar jy is altyd welkom om weer in te teken.',
+    cancelling: 'Kanselleer tans…',
+    confirm: 'Bevestig Kansellasie',
+    emailLabel: 'Lidmaatskap-e-posadres',
+    sending: 'Stuur tans…',
+    sendLink: "E-pos Vir My 'n Kansellasieskakel",
+  },
+};
+
+export default af;
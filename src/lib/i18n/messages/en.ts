@@ -0,0 +1,285 @@
+/**
+ * English site copy. This catalogue defines the shape every other language
+ * must match; placeholders in braces, e.g. {name}, are filled in at render time.
+ */
+const en = {
+  nav: {
+    tagline: 'Private Wellness',
+    about: 'About',
+    subscriptionDetails: 'Subscription Details',
+    freeTrial: '3-Day Free Trial',
+    subscribe: 'Subscribe Here',
+    toggleMenu: 'Toggle menu',
+    language: 'Language',
+  },
+  footer: {
+    tagline: 'A private space for women to train, restore, and belong.',
+    navigation: 'Navigation',
+    aboutUs: 'About Us',
+    membership: 'Membership',
+    requestAccess: 'Request Access',
+    privacy: 'Privacy',
+    privacyNote:
+      'SheGymZ is a private wellness space for women, shaped by trust, privacy, and a sense of community.',
+    contact: 'Contact',
+    location: 'SheGymZ Location',
+    rights: 'All rights reserved.',
+    developedBy: 'Developed & maintained by',
+    privacyPolicy: 'Privacy Policy',
+    terms: 'Terms of Service',
+  },
+  form: {
+    fullName: 'Full Name *',
+    fullNamePlaceholder: 'Enter your full name',
+    email: 'Email Address *',
+    phone: 'Phone Number *',
+    bodyGoals: 'Body Goals (Optional)',
+    bodyGoalsPlaceholder: "Tell us about your fitness goals and what you'd like to achieve...",
+    referralCode: 'Referral Code (Optional)',
+    referralCodePlaceholder: 'e.g. THANDI-7K3Q',
+    referredBy: 'Referred by {name}',
+    invalidReferralCode: 'Invalid referral code',
+    nameRequired: 'Please enter your full name',
+    emailInvalid: 'Please enter a valid email address',
+    phoneRequired: 'Please enter your phone number',
+    phoneInvalid: 'Please enter a South African mobile number, e.g. 082 123 4567',
+    fieldInvalid: 'Please check this field',
+    tooLong: 'Please keep this to {max} characters or fewer',
+    continueToReview: 'Continue to Review',
+    reviewTitle: 'Review Your Request',
+    back: 'Back',
+    backHome: 'Back to home',
+    summaryName: 'Name',
+    summaryEmail: 'Email',
+    summaryPhone: 'Phone',
+    summaryBodyGoals: 'Body Goals',
+    summaryReferredBy: 'Referred by',
+    tooManyRequests: 'Too many attempts. Please wait a few minutes and try again.',
+    formExpired: 'This form has expired. Please try again.',
+    genericError: 'An error occurred. Please try again.',
+  },
+  home: {
+    heroTitle: 'Her Physique. Her Power.',
+    heroSubtitle: '24/7 Access. Personal trainers included. No contracts.',
+    subscribe: 'Subscribe Here',
+    tryFree: 'Try 3 Days Free',
+    quoteLine1: 'SheGymZ is a private wellness space for women',
+    quoteLine2: 'shaped by trust, privacy, and a sense of community',
+    aboutTitle: 'What Is SheGymZ?',
+    features: [
+      {
+        title: 'Gym & CrossFit',
+        body: 'Fully equipped private facility. Training on your terms. No crowds, no distractions.',
+      },
+      {
+        title: 'Massage & Recovery',
+        body: 'Dedicated recovery space. Professional massage therapy. Wellness is part of strength.',
+      },
+      {
+        title: 'Guided Training',
+        body: 'Personal trainers included in every membership. No add-ons. No upsells. Just support.',
+      },
+      {
+        title: 'Meditation and Pilates',
+        body: 'Serene natural spaces for reflection.',
+      },
+      {
+        title: 'Member Content',
+        body: 'Private content creation spaces. For members, by members. Ownership of your narrative.',
+      },
+    ],
+    howItWorksTitle: 'How It Works',
+    monthlyTitle: 'Monthly Billing',
+    monthlyBody: 'Simple monthly subscription. Charged automatically. No surprises.',
+    cancelTitle: 'Cancel Anytime',
+    cancelBody: 'No contracts. No lock-in periods. Leave when you need to. Always welcome back.',
+    cancelLink: 'Cancel my membership',
+    referralTitle: 'Membership by Referral',
+    referralBody:
+      'We grow through word of mouth. Every member gets a personal referral link — share it and earn a free month for each friend who joins.',
+    termsLabel: 'Private Club Terms:',
+    termsBody:
+      'SheGymZ reserves the right to revoke membership access in accordance with our private club policies. We are committed to maintaining a safe, respectful environment for all members.',
+    ctaTitle: 'Ready to join a community of strength?',
+    ctaBody:
+      "Request membership today. We'll review your request and reach out to confirm your access to SheGymZ.",
+    closeHint: 'Click anywhere to close',
+  },
+  plans: {
+    intervals: {
+      monthly: 'Monthly',
+      quarterly: 'Every 3 months',
+      annual: 'Yearly',
+    },
+    descriptions: {
+      monthly: "Private women's wellness club — 24/7 access, personal trainers included",
+      quarterly: 'Three months of membership, billed every quarter',
+      annual: 'A full year of membership, billed once a year',
+    },
+  },
+  subscribe: {
+    chooseTitle: 'Choose Your Membership',
+    chooseSubtitle:
+      'Every plan includes 24/7 access and personal trainers. Longer plans cost less per month.',
+    perMonth: 'per month',
+    amountPerMonth: '{amount} per month',
+    savePerMonth: 'Save {amount} per month',
+    continueWith: 'Continue with {plan}',
+    formTitle: 'Subscription Form',
+    formSubtitle:
+      "Complete the form below. We'll review your request and reach out to confirm access.",
+    changePlan: 'Change plan',
+    privacyNote:
+      'Your information is private and secure. We only contact you to confirm membership access.',
+    reviewSubtitle: 'Confirm your details below and proceed to payment.',
+    summaryPlan: 'Plan',
+    detailsTitle: 'Membership Details',
+    detailsBilling: '{interval} billing',
+    detailsCancel: 'Cancel anytime, no contracts',
+    detailsTrainers: 'Personal trainers included',
+    detailsAccess: '24/7 access',
+    detailsContent: 'Member-only content space',
+    discountLabel: 'Discount Code (Optional)',
+    discountPlaceholder: 'Enter a promo code',
+    discountRequired: 'Please enter a discount code',
+    discountInvalid: 'Invalid discount code',
+    checking: 'Checking…',
+    apply: 'Apply',
+    codeApplied: 'Code {code} applied.',
+    remove: 'Remove',
+    planPrice: 'Plan price',
+    discountLine: 'Discount ({code})',
+    amountDueToday: 'Amount Due Today',
+    monthlyAmount: 'Monthly Amount',
+    intervalAmount: '{interval} Amount',
+    worksOutTo: 'Works out to',
+    youSave: 'You save',
+    savingsTotal: '{perMonth} per month ({total} in total)',
+    chargedNote:
+      'Charged {interval}. First payment will be processed immediately upon confirmation.',
+    discountNote: 'The discount applies to this first payment.',
+    paymentFailed: 'Failed to initiate payment',
+    processing: 'Processing...',
+    confirmAndPay: 'Confirm & Pay',
+    terms: 'By confirming, you agree to our membership terms and privacy policy.',
+    preparingTitle: 'Preparing Your Checkout',
+    redirecting: 'Redirecting to secure checkout…',
+    alreadyMemberTitle: "You're Already a Member",
+    alreadyMemberBody:
+      '{email} already has an active SheGymZ membership, so we have not started a new payment.',
+    manageMembership: 'Manage My Membership',
+    resendPortalLink: 'Resend Portal Link',
+    sendingPortalLink: 'Sending…',
+    portalLinkSent: "We've emailed your portal link to {email}.",
+  },
+  freeTrial: {
+    title: '3-Day Free Trial',
+    subtitle:
+      "Get 3 full days of access — no payment, no commitment. Fill in your details and we'll reach out to get you started.",
+    privacyNote:
+      'Your information is private and secure. We only contact you to arrange your 3-day free trial — no payment or card details required.',
+    reviewSubtitle:
+      "Confirm your details and submit — we'll be in touch to schedule your 3-day free trial.",
+    nextTitle: 'What Happens Next',
+    nextSteps: [
+      'Pick a session that suits you — your place is held straight away',
+      'Your confirmation email has a calendar invite and a link to reschedule or cancel',
+      '3 full days of access — no payment, no contracts',
+      'Experience all facilities and classes firsthand',
+    ],
+    submitError: 'Something went wrong. Please try again.',
+    submitting: 'Submitting…',
+    submit: 'Submit Request',
+    terms:
+      "By submitting, you agree to our privacy policy. We'll only use your details to contact you about your trial.",
+    submittedTitle: 'Request Submitted!',
+    thanks: 'Thanks, {name}!',
+    submittedBody:
+      "We've received your 3-day free trial request and will be in touch within 24 hours to get you started.",
+    slotsTitle: 'Choose Your First Session',
+    slotsHint: 'Times are shown in South African time.',
+    slotsLoading: 'Loading available sessions…',
+    noSlots:
+      "There are no sessions open for online booking right now. Send your request and we'll contact you to arrange a time.",
+    slotRequired: 'Please choose a session',
+    placesLeft: '{count} places left',
+    onePlaceLeft: '1 place left',
+    summarySession: 'Session',
+    submittedBookedBody:
+      "Your first session is booked for {date}. We've emailed you a confirmation with a calendar invite and a link to reschedule or cancel.",
+    returnHome: 'Return Home',
+  },
+  trialBooking: {
+    title: 'Your Trial Session',
+    loading: 'Loading your booking…',
+    invalidLink: 'This booking link is invalid or has expired.',
+    bookedFor: 'You are booked for {date}.',
+    cancelledNote: 'This booking has been cancelled.',
+    startedNote: 'This session has already started.',
+    rescheduleTitle: 'Choose a New Time',
+    reschedule: 'Move My Session',
+    cancel: 'Cancel My Session',
+    saving: 'Saving…',
+    rescheduled: "Your session has moved to {date}. We've emailed you an updated calendar invite.",
+    cancelled: "Your session is cancelled. We've sent a confirmation to your email.",
+    bookAgain: 'Book Another Session',
+  },
+  paymentResult: {
+    checkingTitle: 'Confirming Your Payment…',
+    checkingBody: 'This will only take a moment.',
+    paidTitle: 'Payment Received',
+    paidBody:
+      'Welcome to SheGymZ! Your membership is active and your portal link is on its way by email.',
+    plan: 'Plan',
+    amount: 'Amount',
+    paidOn: 'Paid On',
+    reference: 'Reference',
+    nextStepsTitle: 'Your Next Steps',
+    nextSteps: [
+      'Check your inbox for your receipt and member portal link.',
+      'Open the portal and complete your member profile.',
+      'Book your first session with one of our personal trainers.',
+      'Come in — bring water, a towel and your goals.',
+    ],
+    openPortal: 'Open SheGymZ Portal',
+    noEmail: "Didn't get the email? Check your spam folder or email us at",
+    pendingTitle: 'Still Confirming Your Payment',
+    pendingBody:
+      'Your bank is taking a little longer than usual. You will get an email as soon as the payment is confirmed — there is no need to pay again.',
+    unknownTitle: 'We Could Not Confirm Your Payment',
+    unknownBody:
+      'We could not confirm this payment here. If you completed a payment, your confirmation email has the details.',
+    checkAgain: 'Check Again',
+    failedTitle: 'Payment Failed',
+    failedBody: 'Something went wrong with your payment. No charge has been made.',
+    tryAgain: 'Try Again',
+    cancelledTitle: 'Payment Cancelled',
+    cancelledBody:
+      'Your payment was cancelled and no charge has been made. You can try again at any time or contact us for help.',
+    needHelp: 'Need help?',
+    contactSupport: 'Contact support',
+  },
+  cancelMembership: {
+    title: 'Cancel Membership',
+    subtitle:
+      "No contracts, no lock-in. You keep access until the end of the period you've paid for.",
+    cancelledTitle: 'Your Membership Is Cancelled',
+    noMoreCharges: "You won't be charged again.",
+    accessUntil: 'You keep full access until {date}.',
+    confirmationSent: 'A confirmation has been sent to your email.',
+    linkSentTitle: 'Check Your Email',
+    linkSentBody:
+      "If there is an active membership for that address, we've sent a link to confirm the cancellation. The link expires in 24 hours.",
+    confirmPrompt:
+      "Confirm below to stop future payments. This can't be undone, but you are always welcome to subscribe again.",
+    cancelling: 'Cancelling…',
+    confirm: 'Confirm Cancellation',
+    emailLabel: 'Membership Email Address',
+    sending: 'Sending…',
+    sendLink: 'Email Me a Cancellation Link',
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
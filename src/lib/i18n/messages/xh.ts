@@ -0,0 +1,283 @@
+import type { Messages } from './en';
+
+/** isiXhosa site copy */
+const xh: Messages = {
+  nav: {
+    tagline: 'Impilo Yabucala',
+    about: 'Malunga Nathi',
+    subscriptionDetails: 'Iinkcukacha Zobulungu',
+    freeTrial: 'Iintsuku Ezi-3 Simahla',
+    subscribe: 'Bhalisa Apha',
+    toggleMenu: 'Vula okanye uvale imenyu',
+    language: 'Ulwimi',
+  },
+  footer: {
+    tagline: 'Indawo yabucala yabasetyhini yokuzilolonga, ukuphumla nokuba yinxalenye.',
+    navigation: 'Ukuhamba',
+    aboutUs: 'Malunga Nathi',
+    membership: 'Ubulungu',
+    requestAccess: 'Cela Ukungena',
+    privacy: 'Ubumfihlo',
+    privacyNote:
+      'I-SheGymZ yindawo yabucala yempilo yabasetyhini, eyakhelwe phezu kokuthembana, ubumfihlo nomoya woluntu.',
+    contact: 'Qhagamshelana Nathi',
+    location: 'Apho I-SheGymZ Ikhoyo',
+    rights: 'Onke amalungelo agciniwe.',
+    developedBy: 'Yakhiwe kwaye igcinwa ngu',
+    privacyPolicy: 'Umgaqo-nkqubo Wabucala',
+    terms: 'Imiqathango Yenkonzo',
+  },
+  form: {
+    fullName: 'Igama Elipheleleyo *',
+    fullNamePlaceholder: 'Faka igama lakho elipheleleyo',
+    email: 'Idilesi Ye-imeyile *',
+    phone: 'Inombolo Yefowuni *',
+    bodyGoals: 'Iinjongo Zomzimba (Ayinyanzelekanga)',
+    bodyGoalsPlaceholder: 'Sixelele ngeenjongo zakho zokomelela nento ofuna ukuyifezekisa...',
+    referralCode: 'Ikhowudi Yokuthunyelwa (Ayinyanzelekanga)',
+    referralCodePlaceholder: 'umz. THANDI-7K3Q',
+    referredBy: 'Uthunyelwe ngu-{name}',
+    invalidReferralCode: 'Ikhowudi yokuthunyelwa ayisebenzi',
+    nameRequired: 'Nceda ufake igama lakho elipheleleyo',
+    emailInvalid: 'Nceda ufake idilesi ye-imeyile esebenzayo',
+    phoneRequired: 'Nceda ufake inombolo yakho yefowuni',
+    phoneInvalid: 'Nceda ufake inombolo yeselfowuni yoMzantsi Afrika, umz. 082 123 4567',
+    fieldInvalid: 'Nceda ujonge le ndawo',
+    tooLong: 'Nceda ungadluli kwiimpawu ezi-{max}',
+    continueToReview: 'Qhubeka Uye Kuphononongo',
+    reviewTitle: 'Phonononga Isicelo Sakho',
+    back: 'Emva',
+    backHome: 'Buyela ekhaya',
+    summaryName: 'Igama',
+    summaryEmail: 'I-imeyile',
+    summaryPhone: 'Ifowuni',
+    summaryBodyGoals: 'Iinjongo Zomzimba',
+    summaryReferredBy: 'Uthunyelwe ngu',
+    tooManyRequests: 'Iinzame ezininzi kakhulu. Nceda ulinde imizuzu embalwa uze uzame kwakhona.',
+    formExpired: 'Le fomu iphelelwe lixesha. Nceda uzame kwakhona.',
+    genericError: 'Kwenzeke impazamo. Nceda uzame kwakhona.',
+  },
+  home: {
+    heroTitle: 'Umzimba Wakhe. Amandla Akhe.',
+    heroSubtitle: 'Ukungena 24/7. Abaqeqeshi bobuqu babandakanyiwe. Akukho zivumelwano.',
+    subscribe: 'Bhalisa Apha',
+    tryFree: 'Zama Iintsuku Ezi-3 Simahla',
+    quoteLine1: 'I-SheGymZ yindawo yabucala yempilo yabasetyhini',
+    quoteLine2: 'eyakhelwe phezu kokuthembana, ubumfihlo nomoya woluntu',
+    aboutTitle: 'Yintoni I-SheGymZ?',
+    features: [
+      {
+        title: 'Ijim ne-CrossFit',
+        body: 'Indawo yabucala exhotyiswe ngokupheleleyo. Zilolonge ngendlela yakho. Akukho sihlwele, akukho ziphazamiso.',
+      },
+      {
+        title: 'Ukuphulula Nokuchacha',
+        body: 'Indawo ekhethekileyo yokuchacha. Unyango lokuphulula lobuchwephesha. Impilo yinxalenye yamandla.',
+      },
+      {
+        title: 'Uqeqesho Olukhokelwayo',
+        body: 'Abaqeqeshi bobuqu babandakanyiwe kubo bonke ubulungu. Akukho zongezo. Yinkxaso nje.',
+      },
+      {
+        title: 'Ukucamngca ne-Pilates',
+        body: 'Iindawo zendalo ezizolileyo zokucamngca.',
+      },
+      {
+        title: 'Umxholo Wamalungu',
+        body: 'Iindawo zabucala zokudala umxholo. Ngamalungu, kumalungu. Ibali lakho lelakho.',
+      },
+    ],
+    howItWorksTitle: 'Isebenza Njani',
+    monthlyTitle: 'Intlawulo Yenyanga',
+    monthlyBody: 'Ubhaliso olulula lwenyanga nenyanga. Luhlawulwa ngokuzenzekelayo. Akukho zimanga.',
+    cancelTitle: 'Rhoxisa Nanini Na',
+    cancelBody:
+      'Akukho zivumelwano. Akukho xesha lokubotshwa. Hamba xa kufuneka. Wamkelekile ukubuya nanini na.',
+    cancelLink: 'Rhoxisa ubulungu bam',
+    referralTitle: 'Ubulungu Ngokuthunyelwa',
+    referralBody:
+      'Sikhula ngokuthethwa ngathi. Ilungu ngalinye lifumana ikhonkco lalo lokuthumela — labelane nabanye ufumane inyanga yasimahla ngomhlobo ngamnye ojoyinayo.',
+    termsLabel: 'Imiqathango Yeklabhu Yabucala:',
+    termsBody:
+      'I-SheGymZ inelungelo lokurhoxisa ukungena kobulungu ngokwemigaqo-nkqubo yeklabhu yethu yabucala. Sizibophelele ekugcineni indawo ekhuselekileyo nehloniphekileyo kuwo onke amalungu.',
+    ctaTitle: 'Ukulungele ukujoyina uluntu lwamandla?',
+    ctaBody:
+      'Cela ubulungu namhlanje. Siza kuphonononga isicelo sakho size siqhagamshelane nawe ukuqinisekisa ukungena kwakho kwi-SheGymZ.',
+    closeHint: 'Cofa naphi na ukuze uvale',
+  },
+  plans: {
+    intervals: {
+      monthly: 'Nyanga nganye',
+      quarterly: 'Rhoqo kwiinyanga ezi-3',
+      annual: 'Nyaka nganye',
+    },
+    descriptions: {
+      monthly: 'Iklabhu yabucala yempilo yabasetyhini — ukungena 24/7, abaqeqeshi babandakanyiwe',
+      quarterly: 'Iinyanga ezintathu zobulungu, zihlawulwa rhoqo ngekota',
+      annual: 'Unyaka wonke wobulungu, uhlawulwa kanye ngonyaka',
+    },
+  },
+  subscribe: {
+    chooseTitle: 'Khetha Ubulungu Bakho',
+    chooseSubtitle:
+      'Zonke izicwangciso ziquka ukungena 24/7 nabaqeqeshi bobuqu. Izicwangciso ezinde zixabisa kancinci ngenyanga.',
+    perMonth: 'ngenyanga',
+    amountPerMonth: '{amount} ngenyanga',
+    savePerMonth: 'Gcina {amount} ngenyanga',
+    continueWith: 'Qhubeka no-{plan}',
+    formTitle: 'Ifomu Yobhaliso',
+    formSubtitle:
+      'Gcwalisa le fomu ingezantsi. Siza kuphonononga isicelo sakho size siqhagamshelane nawe ukuqinisekisa ukungena.',
+    changePlan: 'Tshintsha isicwangciso',
+    privacyNote:
+      'Iinkcukacha zakho zezabucala kwaye zikhuselekile. Siqhagamshelana nawe kuphela ukuqinisekisa ukungena kobulungu.',
+    reviewSubtitle: 'Qinisekisa iinkcukacha zakho ngezantsi uze uqhubeke nentlawulo.',
+    summaryPlan: 'Isicwangciso',
+    detailsTitle: 'Iinkcukacha Zobulungu',
+    detailsBilling: 'Intlawulo: {interval}',
+    detailsCancel: 'Rhoxisa nanini na, akukho zivumelwano',
+    detailsTrainers: 'Abaqeqeshi bobuqu babandakanyiwe',
+    detailsAccess: 'Ukungena 24/7',
+    detailsContent: 'Indawo yomxholo yamalungu kuphela',
+    discountLabel: 'Ikhowudi Yesaphulelo (Ayinyanzelekanga)',
+    discountPlaceholder: 'Faka ikhowudi yesaphulelo',
+    discountRequired: 'Nceda ufake ikhowudi yesaphulelo',
+    discountInvalid: 'Ikhowudi yesaphulelo ayisebenzi',
+    checking: 'Iyakhangela…',
+    apply: 'Sebenzisa',
+    codeApplied: 'Ikhowudi {code} isetyenzisiwe.',
+    remove: 'Susa',
+    planPrice: 'Ixabiso lesicwangciso',
+    discountLine: 'Isaphulelo ({code})',
+    amountDueToday: 'Imali Ehlawulwa Namhlanje',
+    monthlyAmount: 'Imali Yenyanga',
+    intervalAmount: 'Imali ({interval})',
+    worksOutTo: 'Iphuma kwi',
+    youSave: 'Ugcina',
+    savingsTotal: '{perMonth} ngenyanga ({total} iyonke)',
+    chargedNote:
+      'Ihlawulwa: {interval}. Intlawulo yokuqala iza kwenziwa ngoko nangoko emva kokuqinisekisa.',
+    discountNote: 'Isaphulelo sisebenza kule ntlawulo yokuqala.',
+    paymentFailed: 'Akukwazekanga ukuqalisa intlawulo',
+    processing: 'Iyaqhubekeka...',
+    confirmAndPay: 'Qinisekisa Uhlawule',
+    terms: 'Ngokuqinisekisa, uyavumelana nemiqathango yobulungu nomgaqo-nkqubo wabucala.',
+    preparingTitle: 'Silungiselela Intlawulo Yakho',
+    redirecting: 'Ikuthumela kwindawo yokuhlawula ekhuselekileyo…',
+    alreadyMemberTitle: 'Sele Ulilungu',
+    alreadyMemberBody:
+      'I-{email} sele inobulungu be-SheGymZ obusebenzayo, ngoko asiqalanga ntlawulo intsha.',
+    manageMembership: 'Lawula Ubulungu Bam',
+    resendPortalLink: 'Phinda Uthumele Ikhonkco Lephothali',
+    sendingPortalLink: 'Iyathumela…',
+    portalLinkSent: 'Sithumele ikhonkco lakho lephothali ku-{email}.',
+  },
+  freeTrial: {
+    title: 'Iintsuku Ezi-3 Simahla',
+    subtitle:
+      'Fumana iintsuku ezi-3 ezipheleleyo zokungena — akukho ntlawulo, akukho sibophelelo. Gcwalisa iinkcukacha zakho kwaye siza kuqhagamshelana nawe ukuze uqalise.',
+    privacyNote:
+      'Iinkcukacha zakho zezabucala kwaye zikhuselekile. Siqhagamshelana nawe kuphela ukulungiselela iintsuku zakho ezi-3 zasimahla — akufuneki ntlawulo okanye iinkcukacha zekhadi.',
+    reviewSubtitle:
+      'Qinisekisa iinkcukacha zakho uze uthumele — siza kuqhagamshelana nawe ukucwangcisa iintsuku zakho ezi-3 zasimahla.',
+    nextTitle: 'Okulandelayo',
+    nextSteps: [
+      'Khetha iseshoni ekulungeleyo — indawo yakho igcinwa kwangoko',
+      'I-imeyile yakho yokuqinisekisa inesimemo sekhalenda nekhonkco lokutshintsha okanye lokurhoxisa',
+      'Iintsuku ezi-3 ezipheleleyo zokungena — akukho ntlawulo, akukho zivumelwano',
+      'Zibonele zonke iindawo neeklasi',
+    ],
+    submitError: 'Kukho into engahambanga kakuhle. Nceda uzame kwakhona.',
+    submitting: 'Iyathumela…',
+    submit: 'Thumela Isicelo',
+    terms:
+      'Ngokuthumela, uyavumelana nomgaqo-nkqubo wethu wabucala. Siza kusebenzisa iinkcukacha zakho kuphela ukuqhagamshelana nawe malunga neentsuku zakho zasimahla.',
+    submittedTitle: 'Isicelo Sithunyelwe!',
+    thanks: 'Enkosi, {name}!',
+    submittedBody:
+      'Sisifumene isicelo sakho seentsuku ezi-3 zasimahla kwaye siza kuqhagamshelana nawe kwiiyure ezingama-24 ukuze uqalise.',
+    slotsTitle: 'Khetha Iseshoni Yakho Yokuqala',
+    slotsHint: 'Amaxesha aboniswa ngexesha laseMzantsi Afrika.',
+    slotsLoading: 'Ilayisha iiseshoni ezikhoyo…',
+    noSlots:
+      'Akukho ziseshoni zivulelekileyo ukubhukisha kwi-intanethi okwangoku. Thumela isicelo sakho kwaye siza kuqhagamshelana nawe ukucwangcisa ixesha.',
+    slotRequired: 'Nceda ukhethe iseshoni',
+    placesLeft: 'Kushiyeke iindawo ezi-{count}',
+    onePlaceLeft: 'Kushiyeke indawo e-1',
+    summarySession: 'Iseshoni',
+    submittedBookedBody:
+      'Iseshoni yakho yokuqala ibhukishelwe u-{date}. Sikuthumelele i-imeyile yokuqinisekisa enesimemo sekhalenda nekhonkco lokutshintsha okanye lokurhoxisa.',
+    returnHome: 'Buyela Ekhaya',
+  },
+  trialBooking: {
+    title: 'Iseshoni Yakho Yovavanyo',
+    loading: 'Ilayisha ukubhukisha kwakho…',
+    invalidLink: 'Eli khonkco lokubhukisha alisebenzi okanye liphelelwe lixesha.',
+    bookedFor: 'Ubhukishelwe u-{date}.',
+    cancelledNote: 'Oku kubhukisha kurhoxisiwe.',
+    startedNote: 'Le seshoni sele iqalile.',
+    rescheduleTitle: 'Khetha Ixesha Elitsha',
+    reschedule: 'Tshintsha Iseshoni Yam',
+    cancel: 'Rhoxisa Iseshoni Yam',
+    saving: 'Iyagcina…',
+    rescheduled: 'Iseshoni yakho itshintshelwe ku-{date}. Sikuthumelele isimemo sekhalenda esihlaziyiweyo.',
+    cancelled: 'Iseshoni yakho irhoxisiwe. Sithumele isiqinisekiso kwi-imeyile yakho.',
+    bookAgain: 'Bhukisha Enye Iseshoni',
+  },
+  paymentResult: {
+    checkingTitle: 'Siqinisekisa Intlawulo Yakho…',
+    checkingBody: 'Oku kuza kuthatha umzuzwana nje.',
+    paidTitle: 'Intlawulo Ifunyenwe',
+    paidBody:
+      'Wamkelekile kwi-SheGymZ! Ubulungu bakho buyasebenza kwaye ikhonkco lakho lephothali liyeza nge-imeyile.',
+    plan: 'Isicwangciso',
+    amount: 'Imali',
+    paidOn: 'Umhla Wentlawulo',
+    reference: 'Isalathiso',
+    nextStepsTitle: 'Amanyathelo Akho Alandelayo',
+    nextSteps: [
+      'Jonga i-imeyile yakho ufumane irisithi nekhonkco lephothali yamalungu.',
+      'Vula iphothali uze ugcwalise iprofayile yakho yelungu.',
+      'Bhukisha iseshoni yakho yokuqala nomnye wabaqeqeshi bethu bobuqu.',
+      'Ngena — phatha amanzi, itawuli neenjongo zakho.',
+    ],
+    openPortal: 'Vula Iphothali Ye-SheGymZ',
+    noEmail: 'Awuyifumananga i-imeyile? Jonga ifolda ye-spam okanye usithumelele i-imeyile:',
+    pendingTitle: 'Sisaqinisekisa Intlawulo Yakho',
+    pendingBody:
+      'Ibhanki yakho ithatha ixesha elide kunesiqhelo. Uza kufumana i-imeyile xa intlawulo iqinisekisiwe — akukho mfuneko yokuhlawula kwakhona.',
+    unknownTitle: 'Asikwazanga Ukuqinisekisa Intlawulo Yakho',
+    unknownBody:
+      'Asikwazanga ukuqinisekisa le ntlawulo apha. Ukuba ugqibile ukuhlawula, i-imeyile yakho yokuqinisekisa ineenkcukacha.',
+    checkAgain: 'Jonga Kwakhona',
+    failedTitle: 'Intlawulo Ayiphumelelanga',
+    failedBody: 'Kukho into engahambanga kakuhle ngentlawulo yakho. Akukho mali itsaliweyo.',
+    tryAgain: 'Zama Kwakhona',
+    cancelledTitle: 'Intlawulo Irhoxisiwe',
+    cancelledBody:
+      'Intlawulo yakho irhoxisiwe kwaye akukho mali itsaliweyo. Ungazama kwakhona nanini na okanye uqhagamshelane nathi ukuze ufumane uncedo.',
+    needHelp: 'Ufuna uncedo?',
+    contactSupport: 'Qhagamshelana nenkxaso',
+  },
+  cancelMembership: {
+    title: 'Rhoxisa Ubulungu',
+    subtitle:
+      'Akukho zivumelwano, akukho kubotshwa. Ugcina ukungena de kuphele ixesha olihlawuleleyo.',
+    cancelledTitle: 'Ubulungu Bakho Burhoxisiwe',
+    noMoreCharges: 'Akusayi kuphinda uhlawuliswe.',
+    accessUntil: 'Uza kuqhubeka nokungena ngokupheleleyo de kube ngu-{date}.',
+    confirmationSent: 'Isiqinisekiso sithunyelwe kwi-imeyile yakho.',
+    linkSentTitle: 'Jonga I-imeyile Yakho',
+    linkSentBody:
+      'Ukuba kukho ubulungu obusebenzayo bale dilesi, sithumele ikhonkco lokuqinisekisa ukurhoxisa. Ikhonkco liphelelwa lixesha kwiiyure ezingama-24.',
+    confirmPrompt:
+      'Qinisekisa ngezantsi ukuze umise iintlawulo ezizayo. Oku akunakurhoxiswa, kodwa wamkelekile ukubhalisa kwakhona nanini na.',
+    cancelling: 'Iyarhoxisa…',
+    confirm: 'Qinisekisa Ukurhoxisa',
+    emailLabel: 'Idilesi Ye-imeyile Yobulungu',
+    sending: 'Iyathumela…',
+    sendLink: 'Ndithumelele Ikhonkco Lokurhoxisa',
+  },
+};
+
+export default xh;
@@ -0,0 +1,283 @@
+import type { Messages } from './en';
+
+/** isiZulu site copy */
+const zu: Messages = {
+  nav: {
+    tagline: 'Impilo Ngasese',
+    about: 'Mayelana Nathi',
+    subscriptionDetails: 'Imininingwane Yobulungu',
+    freeTrial: 'Izinsuku Ezi-3 Mahhala',
+    subscribe: 'Bhalisa Lapha',
+    toggleMenu: 'Vula noma uvale imenyu',
+    language: 'Ulimi',
+  },
+  footer: {
+    tagline: 'Indawo yangasese yabesifazane yokuzivocavoca, ukuphumula nokuba yingxenye.',
+    navigation: 'Ukuzulazula',
+    aboutUs: 'Mayelana Nathi',
+    membership: 'Ubulungu',
+    requestAccess: 'Cela Ukungena',
+    privacy: 'Ubumfihlo',
+    privacyNote:
+      'I-SheGymZ iyindawo yangasese yezempilo yabesifazane, eyakhelwe phezu kokwethembana, ubumfihlo nomoya womphakathi.',
+    contact: 'Xhumana Nathi',
+    location: 'Lapho I-SheGymZ Ikhona',
+    rights: 'Wonke amalungelo agodliwe.',
+    developedBy: 'Yakhiwe futhi inakekelwa ngu',
+    privacyPolicy: 'Inqubomgomo Yobumfihlo',
+    terms: 'Imigomo Yesevisi',
+  },
+  form: {
+    fullName: 'Igama Eliphelele *',
+    fullNamePlaceholder: 'Faka igama lakho eliphelele',
+    email: 'Ikheli Le-imeyili *',
+    phone: 'Inombolo Yocingo *',
+    bodyGoals: 'Izinhloso Zomzimba (Akuphoqelekile)',
+    bodyGoalsPlaceholder: 'Sitshele ngezinhloso zakho zokuqina nalokho ofuna ukukufeza...',
+    referralCode: 'Ikhodi Yokudluliselwa (Akuphoqelekile)',
+    referralCodePlaceholder: 'isb. THANDI-7K3Q',
+    referredBy: 'Uthunyelwe ngu-{name}',
+    invalidReferralCode: 'Ikhodi yokudluliselwa ayivumelekile',
+    nameRequired: 'Sicela ufake igama lakho eliphelele',
+    emailInvalid: 'Sicela ufake ikheli le-imeyili elivumelekile',
+    phoneRequired: 'Sicela ufake inombolo yakho yocingo',
+    phoneInvalid: 'Sicela ufake inombolo yeselula yaseNingizimu Afrika, isb. 082 123 4567',
+    fieldInvalid: 'Sicela uhlole le ndawo',
+    tooLong: 'Sicela ungadluli izinhlamvu ezingu-{max}',
+    continueToReview: 'Qhubeka Uye Ekubuyekezeni',
+    reviewTitle: 'Buyekeza Isicelo Sakho',
+    back: 'Emuva',
+    backHome: 'Buyela ekhasini lasekhaya',
+    summaryName: 'Igama',
+    summaryEmail: 'I-imeyili',
+    summaryPhone: 'Ucingo',
+    summaryBodyGoals: 'Izinhloso Zomzimba',
+    summaryReferredBy: 'Uthunyelwe ngu',
+    tooManyRequests: 'Imizamo iningi kakhulu. Sicela ulinde imizuzu embalwa bese uzama futhi.',
+    formExpired: 'Leli fomu liphelelwe yisikhathi. Sicela uzame futhi.',
+    genericError: 'Kuvele iphutha. Sicela uzame futhi.',
+  },
+  home: {
+    heroTitle: 'Umzimba Wakhe. Amandla Akhe.',
+    heroSubtitle: 'Ukungena 24/7. Abaqeqeshi bomuntu siqu bafakiwe. Azikho izinkontileka.',
+    subscribe: 'Bhalisa Lapha',
+    tryFree: 'Zama Izinsuku Ezi-3 Mahhala',
+    quoteLine1: 'I-SheGymZ iyindawo yangasese yezempilo yabesifazane',
+    quoteLine2: 'eyakhelwe phezu kokwethembana, ubumfihlo nomoya womphakathi',
+    aboutTitle: 'Iyini I-SheGymZ?',
+    features: [
+      {
+        title: 'Ijimu ne-CrossFit',
+        body: 'Indawo yangasese enemishini yonke. Zivocavoce ngendlela yakho. Asikho isixuku, akukho okukuphazamisayo.',
+      },
+      {
+        title: 'Ukubhucunga Nokululama',
+        body: 'Indawo ekhethekile yokululama. Ukubhucunga ngochwepheshe. Impilo iyingxenye yamandla.',
+      },
+      {
+        title: 'Ukuqeqeshwa Okuholwayo',
+        body: 'Abaqeqeshi bomuntu siqu bafakiwe kubo bonke ubulungu. Azikho izindleko ezengeziwe. Wusizo nje.',
+      },
+      {
+        title: 'Ukuzindla ne-Pilates',
+        body: 'Izindawo zemvelo ezithulile zokucabangisisa.',
+      },
+      {
+        title: 'Okuqukethwe Kwamalungu',
+        body: 'Izindawo zangasese zokwakha okuqukethwe. Okwamalungu, kwenziwa ngamalungu. Indaba yakho ingeyakho.',
+      },
+    ],
+    howItWorksTitle: 'Kusebenza Kanjani',
+    monthlyTitle: 'Ukukhokha Nyanga Zonke',
+    monthlyBody: 'Ukubhalisa okulula kwanyanga zonke. Kukhokhwa ngokuzenzakalela. Azikho izimanga.',
+    cancelTitle: 'Khansela Noma Nini',
+    cancelBody:
+      'Azikho izinkontileka. Asikho isikhathi sokuboshwa. Hamba uma kudingeka. Wamukelekile ukubuya njalo.',
+    cancelLink: 'Khansela ubulungu bami',
+    referralTitle: 'Ubulungu Ngokudluliselwa',
+    referralBody:
+      'Sikhula ngokukhulunywa ngathi. Ilungu ngalinye lithola isixhumanisi salo sokudlulisela — sabelane ngaso bese uthola inyanga yamahhala ngomngane ngamunye ojoyinayo.',
+    termsLabel: 'Imigomo Yeqembu Langasese:',
+    termsBody:
+      'I-SheGymZ inelungelo lokuhoxisa ukungena kobulungu ngokwezinqubomgomo zeqembu lethu langasese. Sizibophezele ekugcineni indawo ephephile nenenhlonipho kuwo wonke amalungu.',
+    ctaTitle: 'Usukulungele ukujoyina umphakathi wamandla?',
+    ctaBody:
+      'Cela ubulungu namuhla. Sizobuyekeza isicelo sakho bese sixhumana nawe ukuqinisekisa ukungena kwakho ku-SheGymZ.',
+    closeHint: 'Chofoza noma kuphi ukuze uvale',
+  },
+  plans: {
+    intervals: {
+      monthly: 'Nyanga zonke',
+      quarterly: 'Njalo ezinyangeni ezi-3',
+      annual: 'Minyaka yonke',
+    },
+    descriptions: {
+      monthly: 'Iqembu langasese lezempilo yabesifazane — ukungena 24/7, abaqeqeshi bafakiwe',
+      quarterly: 'Izinyanga ezintathu zobulungu, zikhokhwa njalo ngekota',
+      annual: 'Unyaka wonke wobulungu, ukhokhwa kanye ngonyaka',
+    },
+  },
+  subscribe: {
+    chooseTitle: 'Khetha Ubulungu Bakho',
+    chooseSubtitle:
+      'Zonke izinhlelo zifaka ukungena 24/7 nabaqeqeshi bomuntu siqu. Izinhlelo ezinde zibiza kancane ngenyanga.',
+    perMonth: 'ngenyanga',
+    amountPerMonth: '{amount} ngenyanga',
+    savePerMonth: 'Onga {amount} ngenyanga',
+    continueWith: 'Qhubeka no-{plan}',
+    formTitle: 'Ifomu Lokubhalisa',
+    formSubtitle:
+      'Gcwalisa ifomu elingezansi. Sizobuyekeza isicelo sakho bese sixhumana nawe ukuqinisekisa ukungena.',
+    changePlan: 'Shintsha uhlelo',
+    privacyNote:
+      'Imininingwane yakho iyimfihlo futhi iphephile. Sixhumana nawe kuphela ukuqinisekisa ukungena kobulungu.',
+    reviewSubtitle: 'Qinisekisa imininingwane yakho ngezansi bese uqhubeka nokukhokha.',
+    summaryPlan: 'Uhlelo',
+    detailsTitle: 'Imininingwane Yobulungu',
+    detailsBilling: 'Ukukhokha: {interval}',
+    detailsCancel: 'Khansela noma nini, azikho izinkontileka',
+    detailsTrainers: 'Abaqeqeshi bomuntu siqu bafakiwe',
+    detailsAccess: 'Ukungena 24/7',
+    detailsContent: 'Indawo yokuqukethwe yamalungu kuphela',
+    discountLabel: 'Ikhodi Yesaphulelo (Akuphoqelekile)',
+    discountPlaceholder: 'Faka ikhodi yesaphulelo',
+    discountRequired: 'Sicela ufake ikhodi yesaphulelo',
+    discountInvalid: 'Ikhodi yesaphulelo ayivumelekile',
+    checking: 'Iyahlola…',
+    apply: 'Sebenzisa',
+    codeApplied: 'Ikhodi {code} isetshenzisiwe.',
+    remove: 'Susa',
+    planPrice: 'Intengo yohlelo',
+    discountLine: 'Isaphulelo ({code})',
+    amountDueToday: 'Imali Ekhokhwa Namuhla',
+    monthlyAmount: 'Imali Yanyanga Zonke',
+    intervalAmount: 'Imali ({interval})',
+    worksOutTo: 'Kuphuma ku',
+    youSave: 'Wonga',
+    savingsTotal: '{perMonth} ngenyanga ({total} sekukonke)',
+    chargedNote:
+      'Kukhokhwa: {interval}. Inkokhelo yokuqala izokwenziwa ngokushesha uma usuqinisekisile.',
+    discountNote: 'Isaphulelo sisebenza kule nkokhelo yokuqala.',
+    paymentFailed: 'Akukwazekanga ukuqala inkokhelo',
+    processing: 'Iyacubungula...',
+    confirmAndPay: 'Qinisekisa Ukhokhe',
+    terms: 'Ngokuqinisekisa, uyavumelana nemigomo yobulungu nenqubomgomo yobumfihlo.',
+    preparingTitle: 'Silungiselela Inkokhelo Yakho',
+    redirecting: 'Ikuthumela endaweni yokukhokha ephephile…',
+    alreadyMemberTitle: 'Usuyilungu Kakade',
+    alreadyMemberBody:
+      'I-{email} isinabo ubulungu be-SheGymZ obusebenzayo, ngakho asiqalanga inkokhelo entsha.',
+    manageMembership: 'Phatha Ubulungu Bami',
+    resendPortalLink: 'Phinda Uthumele Isixhumanisi Sephothali',
+    sendingPortalLink: 'Iyathumela…',
+    portalLinkSent: 'Sithumele isixhumanisi sakho sephothali ku-{email}.',
+  },
+  freeTrial: {
+    title: 'Izinsuku Ezi-3 Mahhala',
+    subtitle:
+      'Thola izinsuku ezi-3 ezigcwele zokungena — akukho ukukhokha, akukho sibopho. Gcwalisa imininingwane yakho futhi sizoxhumana nawe ukuze uqale.',
+    privacyNote:
+      'Imininingwane yakho iyimfihlo futhi iphephile. Sixhumana nawe kuphela ukuhlela izinsuku zakho ezi-3 zamahhala — akudingeki ukukhokha noma imininingwane yekhadi.',
+    reviewSubtitle:
+      'Qinisekisa imininingwane yakho bese uthumela — sizoxhumana nawe ukuhlela izinsuku zakho ezi-3 zamahhala.',
+    nextTitle: 'Okulandelayo',
+    nextSteps: [
+      'Khetha iseshini ekufanele — indawo yakho igcinwa ngokushesha',
+      'I-imeyili yakho yokuqinisekisa inesimemo sekhalenda nesixhumanisi sokushintsha noma sokukhansela',
+      'Izinsuku ezi-3 ezigcwele zokungena — akukho ukukhokha, azikho izinkontileka',
+      'Zibonele zonke izindawo namakilasi',
+    ],
+    submitError: 'Kukhona okungahambanga kahle. Sicela uzame futhi.',
+    submitting: 'Iyathumela…',
+    submit: 'Thumela Isicelo',
+    terms:
+      'Ngokuthumela, uyavumelana nenqubomgomo yethu yobumfihlo. Sizosebenzisa imininingwane yakho kuphela ukuxhumana nawe mayelana nezinsuku zakho zamahhala.',
+    submittedTitle: 'Isicelo Sithunyelwe!',
+    thanks: 'Siyabonga, {name}!',
+    submittedBody:
+      'Sithole isicelo sakho sezinsuku ezi-3 zamahhala futhi sizoxhumana nawe emahoreni angama-24 ukuze uqale.',
+    slotsTitle: 'Khetha Iseshini Yakho Yokuqala',
+    slotsHint: 'Izikhathi ziboniswa ngesikhathi saseNingizimu Afrika.',
+    slotsLoading: 'Ilayisha amaseshini atholakalayo…',
+    noSlots:
+      'Awekho amaseshini avulekele ukubhuka ku-inthanethi okwamanje. Thumela isicelo sakho futhi sizoxhumana nawe ukuhlela isikhathi.',
+    slotRequired: 'Sicela ukhethe iseshini',
+    placesLeft: 'Kusele izindawo ezingu-{count}',
+    onePlaceLeft: 'Kusele indawo engu-1',
+    summarySession: 'Iseshini',
+    submittedBookedBody:
+      'Iseshini yakho yokuqala ibhukelwe u-{date}. Sikuthumelele i-imeyili yokuqinisekisa enesimemo sekhalenda nesixhumanisi sokushintsha noma sokukhansela.',
+    returnHome: 'Buyela Ekhaya',
+  },
+  trialBooking: {
+    title: 'Iseshini Yakho Yesivivinyo',
+    loading: 'Ilayisha ukubhuka kwakho…',
+    invalidLink: 'Lesi sixhumanisi sokubhuka asivumelekile noma siphelelwe yisikhathi.',
+    bookedFor: 'Ubhukelwe u-{date}.',
+    cancelledNote: 'Lokhu kubhuka kukhanseliwe.',
+    startedNote: 'Le seshini isiqalile.',
+    rescheduleTitle: 'Khetha Isikhathi Esisha',
+    reschedule: 'Shintsha Iseshini Yami',
+    cancel: 'Khansela Iseshini Yami',
+    saving: 'Iyagcina…',
+    rescheduled: 'Iseshini yakho ishintshelwe ku-{date}. Sikuthumelele isimemo sekhalenda esibuyekeziwe.',
+    cancelled: 'Iseshini yakho ikhanseliwe. Sithumele isiqinisekiso ku-imeyili yakho.',
+    bookAgain: 'Bhuka Enye Iseshini',
+  },
+  paymentResult: {
+    checkingTitle: 'Siqinisekisa Inkokhelo Yakho…',
+    checkingBody: 'Lokhu kuzothatha umzuzwana nje.',
+    paidTitle: 'Inkokhelo Yamukelwe',
+    paidBody:
+      'Siyakwamukela ku-SheGymZ! Ubulungu bakho buyasebenza futhi isixhumanisi sakho sephothali siyeza nge-imeyili.',
+    plan: 'Uhlelo',
+    amount: 'Imali',
+    paidOn: 'Usuku Lokukhokha',
+    reference: 'Inkomba',
+    nextStepsTitle: 'Izinyathelo Zakho Ezilandelayo',
+    nextSteps: [
+      'Hlola i-imeyili yakho ukuthola irisidi nesixhumanisi sephothali yamalungu.',
+      'Vula iphothali bese ugcwalisa iphrofayela yakho yelungu.',
+      'Bhuka iseshini yakho yokuqala nomunye wabaqeqeshi bethu bomuntu siqu.',
+      'Woza — phatha amanzi, ithawula nezinhloso zakho.',
+    ],
+    openPortal: 'Vula Iphothali Ye-SheGymZ',
+    noEmail: 'Awuyitholanga i-imeyili? Hlola ifolda ye-spam noma usithumelele i-imeyili:',
+    pendingTitle: 'Sisaqinisekisa Inkokhelo Yakho',
+    pendingBody:
+      'Ibhange lakho lithatha isikhathi eside kunokujwayelekile. Uzothola i-imeyili uma inkokhelo isiqinisekisiwe — asikho isidingo sokukhokha futhi.',
+    unknownTitle: 'Asikwazanga Ukuqinisekisa Inkokhelo Yakho',
+    unknownBody:
+      'Asikwazanga ukuqinisekisa le nkokhelo lapha. Uma uqedile ukukhokha, i-imeyili yakho yokuqinisekisa inemininingwane.',
+    checkAgain: 'Hlola Futhi',
+    failedTitle: 'Inkokhelo Ayiphumelelanga',
+    failedBody: 'Kukhona okungahambanga kahle ngenkokhelo yakho. Ayikho imali edonsiwe.',
+    tryAgain: 'Zama Futhi',
+    cancelledTitle: 'Inkokhelo Ikhanseliwe',
+    cancelledBody:
+      'Inkokhelo yakho ikhanseliwe futhi ayikho imali edonsiwe. Ungazama futhi noma nini noma uxhumane nathi ukuze uthole usizo.',
+    needHelp: 'Udinga usizo?',
+    contactSupport: 'Xhumana nosizo',
+  },
+  cancelMembership: {
+    title: 'Khansela Ubulungu',
+    subtitle:
+      'Azikho izinkontileka, akukho ukuboshwa. Ugcina ukungena kuze kuphele isikhathi osikhokhele.',
+    cancelledTitle: 'Ubulungu Bakho Bukhanseliwe',
+    noMoreCharges: 'Ngeke uphinde ukhokhiswe.',
+    accessUntil: 'Uzoqhubeka nokungena ngokugcwele kuze kube ngu-{date}.',
+    confirmationSent: 'Isiqinisekiso sithunyelwe ku-imeyili yakho.',
+    linkSentTitle: 'Hlola I-imeyili Yakho',
+    linkSentBody:
+      'Uma kukhona ubulungu obusebenzayo baleli kheli, sithumele isixhumanisi sokuqinisekisa ukukhansela. Isixhumanisi siphelelwa yisikhathi emahoreni angu-24.',
+    confirmPrompt:
+      'Qinisekisa ngezansi ukuze umise izinkokhelo zesikhathi esizayo. Lokhu ngeke kuhlehliswe, kodwa wamukelekile ukubhalisa futhi noma nini.',
+    cancelling: 'Iyakhansela…',
+    confirm: 'Qinisekisa Ukukhansela',
+    emailLabel: 'Ikheli Le-imeyili Lobulungu',
+    sending: 'Iyathumela…',
+    sendLink: 'Ngithumelele Isixhumanisi Sokukhansela',
+  },
+};
+
+export default zu;
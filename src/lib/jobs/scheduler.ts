@@ -0,0 +1,98 @@
+import { processOutbox } from '@/lib/email/outbox/outbox';
+import { processFollowUps } from '@/lib/free-trials/follow-ups';
+import { createLogger, newCorrelationId, runWithCorrelationId } from '@/lib/logging/logger';
+import { lapseExpiredMemberships } from '@/lib/memberships/membership-events';
+import { hasDiscrepancies, reconcilePayments } from '@/lib/payments/reconciliation';
+
+const log = createLogger('jobs');
+
+interface ScheduledJob {
+  name: string;
+  /** Interval in minutes; 0 disables the job */
+  intervalMinutes: number;
+  run: () => Promise<void>;
+}
+
+// Survives dev-server reloads so jobs aren't scheduled twice.
+const globalJobs = globalThis as typeof globalThis & {
+  __scheduledJobsStarted?: boolean;
+};
+
+function minutesFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function jobs(): ScheduledJob[] {
+  return [
+    {
+      // Picks up retries that are due; new emails are sent as soon as they're queued.
+      name: 'email-outbox',
+      intervalMinutes: minutesFromEnv('EMAIL_OUTBOX_INTERVAL_MINUTES', 1),
+      run: async () => {
+        await processOutbox();
+      },
+    },
+    {
+      name: 'trial-follow-ups',
+      intervalMinutes: minutesFromEnv('TRIAL_FOLLOW_UP_INTERVAL_MINUTES', 15),
+      run: async () => {
+        await processFollowUps();
+      },
+    },
+    {
+      name: 'membership-expiry',
+      intervalMinutes: minutesFromEnv('MEMBERSHIP_EXPIRY_INTERVAL_MINUTES', 60),
+      run: async () => {
+        const lapsed = await lapseExpiredMemberships();
+        if (lapsed > 0) {
+          log.info('Lapsed expired memberships', { count: lapsed });
+        }
+      },
+    },
+    {
+      name: 'reconciliation',
+      intervalMinutes: process.env.PAYSTACK_SECRET_KEY
+        ? minutesFromEnv('RECONCILIATION_INTERVAL_MINUTES', 360)
+        : 0,
+      run: async () => {
+        const result = await reconcilePayments({ notify: true });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        if (hasDiscrepancies(result.report)) {
+          log.warn('Reconciliation found discrepancies; report sent to admin');
+        }
+      },
+    },
+  ];
+}
+
+/**
+ * Starts the in-process background jobs. Called once per server from
+ * instrumentation.ts; a job never overlaps with its own previous run.
+ */
+export function startScheduledJobs() {
+  if (globalJobs.__scheduledJobsStarted) return;
+  globalJobs.__scheduledJobsStarted = true;
+
+  for (const job of jobs()) {
+    if (job.intervalMinutes <= 0) continue;
+
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        // Each run gets its own correlation ID, like an API request.
+        await runWithCorrelationId(newCorrelationId(), job.run);
+      } catch (err) {
+        log.error('Job failed', { job: job.name, error: err });
+      } finally {
+        running = false;
+      }
+    };
+
+    setInterval(tick, job.intervalMinutes * 60 * 1000).unref();
+  }
+}
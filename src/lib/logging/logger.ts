@@ -0,0 +1,103 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import crypto from 'crypto';
+import { redact, redactText } from './redact';
+
+/**
+ * Structured server logging: one JSON object per line, e.g.
+ *
+ *   {"time":"…","level":"error","scope":"subscribe","msg":"Checkout failed",
+ *    "correlationId":"5f0c…","paymentReference":"pay_…","error":{…}}
+ *
+ * Each API request runs with its own correlation ID (see
+ * `withRequestLogging`), and every line logged while it is handled — in the
+ * route or in any library it calls — carries that ID and whatever context
+ * was added with `addLogContext`.
+ *
+ * Optional env vars:
+ *   LOG_LEVEL — debug | info | warn | error (default info)
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line */
+  child(fields: LogFields): Logger;
+}
+
+interface LogContext {
+  correlationId: string;
+  fields: LogFields;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Shared across dev-server reloads so in-flight requests keep their context.
+const globalLogging = globalThis as typeof globalThis & {
+  __logContext?: AsyncLocalStorage<LogContext>;
+};
+const contextStorage = (globalLogging.__logContext ??= new AsyncLocalStorage<LogContext>());
+
+function minimumLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.trim().toLowerCase();
+  return configured && configured in LEVEL_ORDER ? (configured as LogLevel) : 'info';
+}
+
+function write(level: LogLevel, scope: string, message: string, fields: LogFields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel()]) return;
+
+  const context = contextStorage.getStore();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    scope,
+    msg: redactText(message),
+    ...(context && { correlationId: context.correlationId }),
+    ...(redact({ ...context?.fields, ...fields }) as LogFields),
+  });
+
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/** Logger for one area of the app; `scope` names it in every line, e.g. 'subscribe'. */
+export function createLogger(scope: string, fields: LogFields = {}): Logger {
+  return {
+    debug: (message, extra) => write('debug', scope, message, { ...fields, ...extra }),
+    info: (message, extra) => write('info', scope, message, { ...fields, ...extra }),
+    warn: (message, extra) => write('warn', scope, message, { ...fields, ...extra }),
+    error: (message, extra) => write('error', scope, message, { ...fields, ...extra }),
+    child: (extra) => createLogger(scope, { ...fields, ...extra }),
+  };
+}
+
+export function newCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+/** Runs `fn` with its own correlation ID; used for API requests and scheduled jobs. */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return contextStorage.run({ correlationId, fields: {} }, fn);
+}
+
+/** The current request's correlation ID, if there is one. */
+export function currentCorrelationId(): string | undefined {
+  return contextStorage.getStore()?.correlationId;
+}
+
+/**
+ * Adds fields to every later line of the current request, e.g. the payment
+ * reference once it is known.
+ */
+export function addLogContext(fields: LogFields): void {
+  const context = contextStorage.getStore();
+  if (context) Object.assign(context.fields, fields);
+}
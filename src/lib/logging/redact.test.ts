@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { redact, redactText } from './redact';
+
+describe('redactText', () => {
+  it.each(['082 123 4567', '+27 82 123 4567', '+27821234567', '0027821234567', '072-123-4567'])(
+    'masks the phone number %s',
+    (phone) => {
+      expect(redactText(`Call ${phone} today`)).toBe('Call [redacted] today');
+    },
+  );
+
+  it('masks all but the first letter of email addresses', () => {
+    expect(redactText('No membership for ann.smith@example.co.za')).toBe(
+      'No membership for a***@example.co.za',
+    );
+  });
+
+  it('leaves references, amounts and dates alone', () => {
+    const text = 'sub_20260301_0821234 paid 39900 on 2026-03-01';
+    expect(redactText(text)).toBe(text);
+  });
+});
+
+describe('redact', () => {
+  it('drops values under sensitive keys at any depth', () => {
+    expect(
+      redact({
+        email: 'ann@example.com',
+        member: { phone: '0821234567', name: 'Ann' },
+        headers: { Authorization: 'Bearer sk_live_abc', cookie: 'session=1' },
+        formToken: 'abc.def',
+      }),
+    ).toEqual({
+      email: 'a***@example.com',
+      member: { phone: '[redacted]', name: 'Ann' },
+      headers: { Authorization: '[redacted]', cookie: '[redacted]' },
+      formToken: '[redacted]',
+    });
+  });
+
+  it('keeps only the name and masked message of errors', () => {
+    const error = new Error('Paystack rejected ann@example.com');
+    expect(redact({ error })).toEqual({
+      error: { name: 'Error', message: 'Paystack rejected a***@example.com' },
+    });
+  });
+
+  it('masks inside arrays and truncates deep nesting', () => {
+    expect(redact(['ann@example.com', 42, null])).toEqual(['a***@example.com', 42, null]);
+    expect(redact({ a: { b: { c: { d: { e: { f: 'deep' } } } } } })).toEqual({
+      a: { b: { c: { d: { e: '[truncated]' } } } },
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Keeps personal details out of the logs. Values under sensitive keys are
+ * dropped entirely; phone numbers and email addresses inside any other text
+ * (including error messages) are masked.
+ */
+
+const REDACTED = '[redacted]';
+const MAX_DEPTH = 5;
+
+/** Keys whose values never belong in a log line */
+const SENSITIVE_KEY = /phone|password|secret|token|authorization|cookie/i;
+
+/** South African numbers as people write them: 082 123 4567, +27 82 123 4567, 0027821234567 */
+const PHONE_PATTERN = /(?<![\w+])(?:(?:\+|00)?27[\s-]?(?:\(0\)[\s-]?)?|0)[678]\d(?:[\s().-]?\d){7}(?!\d)/g;
+
+const EMAIL_PATTERN = /([a-z0-9._%+-])[a-z0-9._%+-]*@([a-z0-9.-]+\.[a-z]{2,})/gi;
+
+/** Masks phone numbers and all but the first letter of email addresses */
+export function redactText(text: string): string {
+  return text.replace(PHONE_PATTERN, REDACTED).replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger, newCorrelationId, runWithCorrelationId, type Logger } from './logger';
+
+/** Echoed on every response, and accepted from a proxy that already assigned one */
+export const CORRELATION_HEADER = 'x-request-id';
+
+const INCOMING_ID_PATTERN = /^[\w.-]{8,128}$/;
+
+function correlationIdFor(request: NextRequest): string {
+  const incoming = request.headers.get(CORRELATION_HEADER)?.trim();
+  return incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : newCorrelationId();
+}
+
+/**
+ * Wraps an API route handler so the request gets a correlation ID: every
+ * line logged while handling it carries the ID, the response returns it in
+ * X-Request-Id, and one summary line is written per request.
+ *
+ *   export const POST = withRequestLogging('subscribe', async (request, log) => { … });
+ */
+export function withRequestLogging<Args extends unknown[]>(
+  scope: string,
+  handler: (request: NextRequest, log: Logger, ...args: Args) => Promise<Response>,
+) {
+  const log = createLogger(scope);
+
+  return (request: NextRequest, ...args: Args): Promise<Response> => {
+    const correlationId = correlationIdFor(request);
+    return runWithCorrelationId(correlationId, async () => {
+      const startedAt = Date.now();
+      let response: Response;
+      try {
+        response = await handler(request, log, ...args);
+      } catch (error) {
+        log.error('Unhandled error', { error });
+        response = NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+      }
+
+      response.headers.set(CORRELATION_HEADER, correlationId);
+      log.info('Request handled', {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    });
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  sendCancellationConfirmedEmail,
+  sendCancellationLinkEmail,
+  sendMembershipStatusNotification,
+} from '@/lib/email';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_LOCALE, intlLocale, localePath } from '@/lib/i18n/config';
+import { createLogger } from '@/lib/logging/logger';
+import { getPlan } from '@/lib/payments/plans';
+import { getPaymentProvider } from '@/lib/payments/provider-registry';
+import { createSignedToken, verifySignedToken } from '@/lib/signed-tokens';
+import { getMembershipRepository } from './membership-repository';
+import type { Membership } from './types';
+
+const log = createLogger('membership');
+
+const CANCEL_TOKEN_PURPOSE = 'cancel-membership';
+const CANCEL_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+interface CancelTokenData {
+  email: string;
+}
+
+export type CancelMembershipResult =
+  | { success: true; membership: Membership }
+  | { success: false; status: number; error: string };
+
+function appBaseUrl() {
+  return (process.env.APP_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+}
+
+/** Only renewing memberships on a provider subscription can be cancelled here */
+function isCancellable(membership: Membership | undefined): membership is Membership {
+  return membership?.status === 'active' && Boolean(membership.subscriptionCode);
+}
+
+/**
+ * Emails a signed, expiring cancellation link. Returns quietly when there is
+ * nothing to cancel so the endpoint can't be used to probe for members.
+ */
+export async function requestCancellationLink(email: string): Promise<void> {
+  const membership = await getMembershipRepository().findByEmail(email);
+  if (!isCancellable(membership)) return;
+
+  const token = createSignedToken<CancelTokenData>(
+    CANCEL_TOKEN_PURPOSE,
+    { email: membership.email },
+    CANCEL_LINK_TTL_SECONDS,
+  );
+  const locale = membership.locale ?? DEFAULT_LOCALE;
+  const cancelPath = localePath(locale, '/membership/cancel');
+
+  await sendCancellationLinkEmail({
+    name: membership.name,
+    email: membership.email,
+    cancelLink: `${appBaseUrl()}${cancelPath}?token=${encodeURIComponent(token)}`,
+    expiresAt: new Date(Date.now() + CANCEL_LINK_TTL_SECONDS * 1000).toLocaleString(
+      intlLocale(locale),
+      { dateStyle: 'long', timeStyle: 'short' },
+    ),
+    locale: membership.locale,
+  });
+}
+
+/**
+ * Disables the member's subscription with the provider and records the
+ * effective end date — the member keeps access until the period they
+ * already paid for runs out.
+ */
+export async function cancelMembershipWithToken(token: string): Promise<CancelMembershipResult> {
+  const data = verifySignedToken<CancelTokenData>(CANCEL_TOKEN_PURPOSE, token);
+  if (!data) {
+    return { success: false, status: 400, error: 'This cancellation link is invalid or has expired' };
+  }
+
+  const repository = getMembershipRepository();
+  const membership = await repository.findByEmail(data.email);
+  if (!membership) {
+    return { success: false, status: 404, error: 'Membership not found' };
+  }
+  if (membership.status !== 'active') {
+    // Already cancelled — using the link twice is harmless.
+    return { success: true, membership };
+  }
+  if (!membership.subscriptionCode) {
+    return { success: false, status: 409, error: 'This membership has no recurring subscription' };
+  }
+
+  const provider = getPaymentProvider(membership.provider);
+  const result = await provider.cancelSubscription({
+    subscriptionCode: membership.subscriptionCode,
+    emailToken: membership.emailToken,
+  });
+  if (!result.success) {
+    log.error('Failed to cancel subscription', { email: membership.email, error: result.error });
+    return {
+      success: false,
+      status: 502,
+      error: 'We could not cancel your membership right now. Please try again later.',
+    };
+  }
+
+  const now = new Date().toISOString();
+  const updated = await repository.applyStatus(
+    membership.email,
+    'non_renewing',
+    'Cancelled by member',
+    {
+      cancelledAt: now,
+      accessEndsAt: membership.nextPaymentDate ?? now,
+    },
+  );
+
+  const emailData = {
+    name: updated.name,
+    email: updated.email,
+    planName: updated.planId ? getPlan(updated.planId)?.name : undefined,
+    date: formatDate(updated.accessEndsAt, intlLocale(updated.locale ?? DEFAULT_LOCALE)),
+    locale: updated.locale,
+  };
+  await Promise.all([
+    sendCancellationConfirmedEmail(emailData),
+    sendMembershipStatusNotification({ ...emailData, change: 'Membership Cancelled' }),
+  ]);
+
+  return { success: true, membership: updated };
+}
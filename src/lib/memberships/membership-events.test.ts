@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendRenewalFailedEmail, sendSubscriptionEndedEmail } from '@/lib/email';
+import { getMembershipRepository } from './membership-repository';
+import { handleRenewalFailed, lapseExpiredMemberships } from './membership-events';
+
+vi.mock('@/lib/email', () => ({
+  sendMembershipStatusNotification: vi.fn(async () => true),
+  sendRenewalFailedEmail: vi.fn(async () => true),
+  sendSubscriptionEndedEmail: vi.fn(async () => true),
+}));
+
+const EMAIL = 'ann@example.com';
+const DUE = '2026-03-01T08:00:00.000Z';
+
+function renewalFailed() {
+  return handleRenewalFailed({
+    provider: 'paystack',
+    email: EMAIL,
+    subscriptionCode: 'SUB_1',
+    // Paystack moves the date to its next attempt.
+    nextPaymentDate: '2026-03-04T08:00:00.000Z',
+    reason: 'Insufficient funds',
+  });
+}
+
+describe('failed renewals', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'membership-events-'));
+    vi.stubEnv('DATA_DIR', dir);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T09:00:00Z'));
+    await getMembershipRepository().applyStatus(EMAIL, 'active', 'Subscription created', {
+      name: 'Ann',
+      subscriptionCode: 'SUB_1',
+      nextPaymentDate: DUE,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the membership active until the grace period after the missed payment', async () => {
+    await renewalFailed();
+
+    const membership = await getMembershipRepository().findByEmail(EMAIL);
+    expect(membership).toMatchObject({ status: 'active', nextPaymentDate: DUE });
+    expect(sendRenewalFailedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ date: '8 March 2026' }),
+    );
+    expect(sendSubscriptionEndedEmail).not.toHaveBeenCalled();
+
+    expect(await lapseExpiredMemberships(new Date('2026-03-08T07:00:00Z'))).toBe(0);
+    expect(await lapseExpiredMemberships(new Date('2026-03-08T09:00:00Z'))).toBe(1);
+    expect((await getMembershipRepository().findByEmail(EMAIL))?.status).toBe('lapsed');
+  });
+
+  it('lapses straight away when the grace period has already run out', async () => {
+    vi.setSystemTime(new Date('2026-03-09T09:00:00Z'));
+    await renewalFailed();
+
+    expect((await getMembershipRepository().findByEmail(EMAIL))?.status).toBe('lapsed');
+    expect(sendSubscriptionEndedEmail).toHaveBeenCalledTimes(1);
+    expect(sendRenewalFailedEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  sendMembershipStatusNotification,
+  sendRenewalFailedEmail,
+  sendRenewalReminderEmail,
+  sendSubscriptionActivatedEmail,
+  sendSubscriptionEndedEmail,
+  sendSubscriptionNotRenewingEmail,
+} from '@/lib/email';
+import { formatAmount, formatDate } from '@/lib/format';
+import { DEFAULT_LOCALE, intlLocale, type Locale } from '@/lib/i18n/config';
+import { createLogger } from '@/lib/logging/logger';
+import { getPlan } from '@/lib/payments/plans';
+import { getPaymentProvider } from '@/lib/payments/provider-registry';
+import type { PaymentProviderName } from '@/lib/payments/types';
+import { getMembershipRepository } from './membership-repository';
+import { hasPaidAccess, paidAccessEndsAt } from './portal-link';
+import type { Membership } from './types';
+
+const log = createLogger('membership');
+
+/**
+ * Provider-neutral description of a subscription lifecycle event.
+ * Each webhook route maps its provider's payload onto this shape.
+ */
+export interface SubscriptionEventDetails {
+  provider: PaymentProviderName;
+  email: string;
+  name?: string;
+  planId?: string;
+  subscriptionCode?: string;
+  emailToken?: string;
+  customerCode?: string;
+  nextPaymentDate?: string;
+  amountCents?: number;
+  currency?: string;
+  reference?: string;
+  reason?: string;
+  locale?: Locale;
+}
+
+function membershipDetails(details: SubscriptionEventDetails) {
+  return {
+    name: details.name,
+    provider: details.provider,
+    planId: details.planId,
+    subscriptionCode: details.subscriptionCode,
+    emailToken: details.emailToken,
+    customerCode: details.customerCode,
+    nextPaymentDate: details.nextPaymentDate,
+    lastPaymentReference: details.reference,
+    locale: details.locale,
+  };
+}
+
+function emailData(membership: Membership, details: SubscriptionEventDetails) {
+  return {
+    name: membership.name,
+    email: membership.email,
+    planName: membership.planId ? getPlan(membership.planId)?.name : undefined,
+    amount:
+      details.amountCents !== undefined
+        ? formatAmount(details.amountCents, details.currency ?? 'ZAR')
+        : undefined,
+    date: formatDate(membership.nextPaymentDate, intlLocale(membership.locale ?? DEFAULT_LOCALE)),
+    reason: details.reason,
+    locale: membership.locale,
+  };
+}
+
+/**
+ * A one-off or first payment succeeded (charge.success). A payment that
+ * won't renew pays for access until `nextPaymentDate` and no further.
+ */
+export async function activateMembershipFromPayment(
+  details: SubscriptionEventDetails,
+  renews = true,
+) {
+  await getMembershipRepository().applyStatus(
+    details.email,
+    renews ? 'active' : 'non_renewing',
+    `Payment ${details.reference ?? ''} succeeded`.trim(),
+    renews
+      ? membershipDetails(details)
+      : { ...membershipDetails(details), accessEndsAt: details.nextPaymentDate },
+  );
+}
+
+/** Recurring billing was set up (subscription.create). */
+export async function handleSubscriptionCreated(details: SubscriptionEventDetails) {
+  const membership = await getMembershipRepository().applyStatus(
+    details.email,
+    'active',
+    'Subscription created',
+    membershipDetails(details),
+  );
+
+  const data = emailData(membership, details);
+  await Promise.all([
+    sendSubscriptionActivatedEmail(data),
+    sendMembershipStatusNotification({ ...data, change: 'Subscription Active' }),
+  ]);
+}
+
+/** The member will not be charged again (subscription.not_renew). */
+export async function handleSubscriptionNotRenewing(details: SubscriptionEventDetails) {
+  const membership = await getMembershipRepository().applyStatus(
+    details.email,
+    'non_renewing',
+    'Subscription set to not renew',
+    membershipDetails(details),
+  );
+
+  const data = emailData(membership, details);
+  await Promise.all([
+    sendSubscriptionNotRenewingEmail(data),
+    sendMembershipStatusNotification({ ...data, change: 'Subscription Not Renewing' }),
+  ]);
+}
+
+/** The subscription ended or was cancelled (subscription.disable). */
+export async function handleSubscriptionDisabled(details: SubscriptionEventDetails) {
+  // A self-service cancellation disables the subscription straight away, but
+  // the member keeps access until the end of the period they paid for;
+  // lapseExpiredMemberships() ends it once that date has passed.
+  const existing = await getMembershipRepository().findByEmail(details.email);
+  if (existing?.accessEndsAt && new Date(existing.accessEndsAt) > new Date()) {
+    return;
+  }
+  // Already ended here (e.g. by a refund); the member has had the email.
+  if (existing?.status === 'lapsed') {
+    await getMembershipRepository().updateDetails(details.email, membershipDetails(details));
+    return;
+  }
+
+  const membership = await getMembershipRepository().applyStatus(
+    details.email,
+    'lapsed',
+    details.reason ?? 'Subscription disabled',
+    membershipDetails(details),
+  );
+
+  const data = emailData(membership, details);
+  await Promise.all([
+    sendSubscriptionEndedEmail(data),
+    sendMembershipStatusNotification({ ...data, change: 'Subscription Ended' }),
+  ]);
+}
+
+/**
+ * Lapses memberships whose paid access has run out. Providers send no event
+ * when a cancelled or once-off period ends, so the membership-expiry job
+ * calls this. Returns how many memberships were lapsed.
+ */
+export async function lapseExpiredMemberships(now = new Date()): Promise<number> {
+  const repository = getMembershipRepository();
+  const expired = (await repository.list()).filter(
+    (m): boolean =>
+      (m.status === 'active' || m.status === 'non_renewing') && !hasPaidAccess(m, now),
+  );
+
+  for (const expiredMembership of expired) {
+    const membership = await repository.applyStatus(
+      expiredMembership.email,
+      'lapsed',
+      'Paid access ended',
+    );
+
+    const data = emailData(membership, {
+      provider: membership.provider,
+      email: membership.email,
+    });
+    await Promise.all([
+      sendSubscriptionEndedEmail(data),
+      sendMembershipStatusNotification({ ...data, change: 'Subscription Ended' }),
+    ]);
+  }
+
+  return expired.length;
+}
+
+/**
+ * The payment that paid for the current period was refunded in full. The
+ * member is no longer paid up, so recurring billing is stopped and the
+ * membership lapses straight away. Refunds of older payments leave the
+ * membership alone. Returns the membership as it stands afterwards.
+ */
+export async function lapseRefundedMembership(
+  email: string,
+  paymentReference: string,
+): Promise<Membership | undefined> {
+  const repository = getMembershipRepository();
+  const membership = await repository.findByEmail(email);
+  if (
+    !membership ||
+    membership.status === 'lapsed' ||
+    membership.lastPaymentReference !== paymentReference
+  ) {
+    return membership;
+  }
+
+  let reason = `Payment ${paymentReference} refunded`;
+  if (membership.subscriptionCode) {
+    const result = await getPaymentProvider(membership.provider).cancelSubscription({
+      subscriptionCode: membership.subscriptionCode,
+      emailToken: membership.emailToken,
+    });
+    if (!result.success) {
+      log.error('Failed to cancel subscription after refund', {
+        email: membership.email,
+        error: result.error,
+      });
+      reason += `; the subscription could not be cancelled (${result.error}) — cancel it with the provider`;
+    }
+  }
+
+  const updated = await repository.applyStatus(membership.email, 'lapsed', reason);
+
+  // The member already has the refund email; the reason is for the admin.
+  const data = emailData(updated, { provider: updated.provider, email: updated.email });
+  await Promise.all([
+    sendSubscriptionEndedEmail(data),
+    sendMembershipStatusNotification({ ...data, reason, change: 'Membership Refunded' }),
+  ]);
+  return updated;
+}
+
+/** An invoice was raised ahead of the next charge (invoice.create). */
+export async function handleRenewalUpcoming(details: SubscriptionEventDetails) {
+  const repository = getMembershipRepository();
+  const membership =
+    (await repository.updateDetails(details.email, membershipDetails(details))) ??
+    (await repository.applyStatus(
+      details.email,
+      'active',
+      'Renewal invoice created',
+      membershipDetails(details),
+    ));
+
+  const data = emailData(membership, details);
+  await Promise.all([
+    sendRenewalReminderEmail(data),
+    sendMembershipStatusNotification({ ...data, change: 'Renewal Upcoming' }),
+  ]);
+}
+
+/**
+ * A renewal invoice was paid (invoice.update). The member receipt is sent by
+ * the matching charge.success, so only the admin is notified here.
+ */
+export async function handleRenewalPaid(details: SubscriptionEventDetails) {
+  const membership = await getMembershipRepository().applyStatus(
+    details.email,
+    'active',
+    'Renewal paid',
+    membershipDetails(details),
+  );
+
+  await sendMembershipStatusNotification({
+    ...emailData(membership, details),
+    change: 'Renewal Paid',
+  });
+}
+
+/**
+ * A renewal charge failed (invoice.payment_failed). The provider retries the
+ * charge, so the member keeps access for the grace period past the missed
+ * payment (see paidAccessEndsAt); lapseExpiredMemberships() ends it if no
+ * renewal has been paid by then.
+ */
+export async function handleRenewalFailed(details: SubscriptionEventDetails) {
+  const repository = getMembershipRepository();
+  const reason = details.reason ?? 'Renewal payment failed';
+  const existing = await repository.findByEmail(details.email);
+  // Already ended here (e.g. by a refund); there is no access left to keep.
+  if (existing?.status === 'lapsed') {
+    await repository.updateDetails(details.email, membershipDetails(details));
+    return;
+  }
+
+  // Grace runs from the missed payment, not from the provider's next attempt.
+  let membership = await repository.applyStatus(
+    details.email,
+    existing?.status ?? 'active',
+    reason,
+    {
+      ...membershipDetails(details),
+      nextPaymentDate:
+        existing?.nextPaymentDate ?? details.nextPaymentDate ?? new Date().toISOString(),
+    },
+  );
+  const graceOver = !hasPaidAccess(membership);
+  if (graceOver) {
+    membership = await repository.applyStatus(details.email, 'lapsed', reason);
+  }
+
+  const data = emailData(membership, details);
+  const accessEndsAt = paidAccessEndsAt(membership)?.toISOString();
+  await Promise.all([
+    graceOver
+      ? sendSubscriptionEndedEmail(data)
+      : sendRenewalFailedEmail({
+          ...data,
+          date: formatDate(accessEndsAt, intlLocale(membership.locale ?? DEFAULT_LOCALE)),
+        }),
+    sendMembershipStatusNotification({ ...data, change: 'Renewal Failed' }),
+  ]);
+}
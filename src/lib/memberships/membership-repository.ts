@@ -0,0 +1,141 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type {
+  IMembershipRepository,
+  Membership,
+  MembershipDetails,
+  MembershipStatus,
+} from './types';
+
+interface MembershipDocument {
+  memberships: Record<string, Membership>;
+}
+
+function normalizeEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+/** Drops undefined values so a partial update never erases stored details */
+function definedDetails(details: MembershipDetails): MembershipDetails {
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined),
+  ) as MembershipDetails;
+}
+
+/** Stores memberships in data/memberships.json, keyed by email. */
+export class FileMembershipRepository implements IMembershipRepository {
+  private readonly store = new JsonFileStore<MembershipDocument>(
+    'memberships.json',
+    () => ({ memberships: {} }),
+  );
+
+  async findByEmail(email: string): Promise<Membership | undefined> {
+    const doc = await this.store.read();
+    return doc.memberships[normalizeEmail(email)];
+  }
+
+  async findBySubscriptionCode(subscriptionCode: string): Promise<Membership | undefined> {
+    const doc = await this.store.read();
+    return Object.values(doc.memberships).find((m) => m.subscriptionCode === subscriptionCode);
+  }
+
+  async findByReferralCode(referralCode: string): Promise<Membership | undefined> {
+    const code = referralCode.trim().toUpperCase();
+    const doc = await this.store.read();
+    return Object.values(doc.memberships).find((m) => m.referralCode === code);
+  }
+
+  /** All memberships, most recently updated first */
+  async list(): Promise<Membership[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.memberships).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async applyStatus(
+    email: string,
+    status: MembershipStatus,
+    reason: string,
+    details: MembershipDetails = {},
+  ): Promise<Membership> {
+    const key = normalizeEmail(email);
+
+    return this.store.update((doc) => {
+      const now = new Date().toISOString();
+      const existing = doc.memberships[key];
+
+      if (!existing) {
+        const membership: Membership = {
+          name: 'SheGymZ Member',
+          provider: 'paystack',
+          ...definedDetails(details),
+          email: key,
+          status,
+          statusHistory: [{ status, at: now, reason }],
+          createdAt: now,
+          updatedAt: now,
+        };
+        doc.memberships[key] = membership;
+        return membership;
+      }
+
+      Object.assign(existing, definedDetails(details));
+      if (status === 'active') {
+        // Renewing again: an earlier cancellation no longer ends access.
+        delete existing.cancelledAt;
+        delete existing.accessEndsAt;
+      }
+      if (existing.status !== status) {
+        existing.status = status;
+        existing.statusHistory.push({ status, at: now, reason });
+      }
+      existing.updatedAt = now;
+      return existing;
+    });
+  }
+
+  async updateDetails(
+    email: string,
+    details: MembershipDetails,
+  ): Promise<Membership | undefined> {
+    const key = normalizeEmail(email);
+
+    return this.store.update((doc) => {
+      const existing = doc.memberships[key];
+      if (!existing) return undefined;
+
+      Object.assign(existing, definedDetails(details));
+      existing.updatedAt = new Date().toISOString();
+      return existing;
+    });
+  }
+
+  async assignReferralCode(
+    email: string,
+    generate: () => string,
+  ): Promise<Membership | undefined> {
+    const key = normalizeEmail(email);
+
+    return this.store.update((doc) => {
+      const existing = doc.memberships[key];
+      if (!existing || existing.referralCode) return existing;
+
+      const taken = new Set(
+        Object.values(doc.memberships).map((m) => m.referralCode).filter(Boolean),
+      );
+      let code = generate();
+      while (taken.has(code)) {
+        code = generate();
+      }
+
+      existing.referralCode = code;
+      existing.updatedAt = new Date().toISOString();
+      return existing;
+    });
+  }
+}
+
+let repository: IMembershipRepository | undefined;
+
+export function getMembershipRepository(): IMembershipRepository {
+  repository ??= new FileMembershipRepository();
+  return repository;
+}
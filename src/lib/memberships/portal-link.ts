@@ -0,0 +1,67 @@
+import { sendPortalLinkEmail } from '@/lib/email';
+import { formatDate } from '@/lib/format';
+import { DEFAULT_LOCALE, intlLocale } from '@/lib/i18n/config';
+import { checkRateLimit } from '@/lib/rate-limit/rate-limit';
+import type { RateLimitResult } from '@/lib/rate-limit/types';
+import { getMembershipRepository } from './membership-repository';
+import type { Membership } from './types';
+
+const PORTAL_LINK_LIMIT_PER_EMAIL = 3;
+const PORTAL_LINK_WINDOW_MS = 60 * 60 * 1000;
+/** How long past its due date a renewal may arrive before access ends */
+const RENEWAL_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * When paid access runs out: the end of a cancelled or once-off period, or a
+ * week past a renewal that never came. Undefined when no date is known.
+ */
+export function paidAccessEndsAt(membership: Membership): Date | undefined {
+  if (membership.accessEndsAt) return new Date(membership.accessEndsAt);
+  if (!membership.nextPaymentDate) return undefined;
+
+  const due = new Date(membership.nextPaymentDate);
+  return membership.status === 'non_renewing' ? due : new Date(due.getTime() + RENEWAL_GRACE_MS);
+}
+
+/**
+ * Paid up for the current period, whether or not it renews. Subscribing
+ * again would charge these members twice for the same months.
+ */
+export function hasPaidAccess(
+  membership: Membership | undefined,
+  now = new Date(),
+): membership is Membership {
+  if (membership?.status !== 'active' && membership?.status !== 'non_renewing') return false;
+  const endsAt = paidAccessEndsAt(membership);
+  return !endsAt || endsAt > now;
+}
+
+/** Keeps the resend button from being used to flood someone's inbox. */
+export function limitPortalLinkRequests(email: string): Promise<RateLimitResult> {
+  return checkRateLimit([
+    {
+      key: `portal-link:email:${email}`,
+      limit: PORTAL_LINK_LIMIT_PER_EMAIL,
+      windowMs: PORTAL_LINK_WINDOW_MS,
+    },
+  ]);
+}
+
+/**
+ * Emails the member portal link. Returns quietly when the email has no paid
+ * membership so the endpoint can't be used to probe for members.
+ */
+export async function requestPortalLink(email: string): Promise<void> {
+  const membership = await getMembershipRepository().findByEmail(email);
+  if (!hasPaidAccess(membership)) return;
+
+  await sendPortalLinkEmail({
+    name: membership.name,
+    email: membership.email,
+    date:
+      membership.status === 'active'
+        ? formatDate(membership.nextPaymentDate, intlLocale(membership.locale ?? DEFAULT_LOCALE))
+        : undefined,
+    locale: membership.locale,
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Membership — Type Definitions
+ */
+
+import type { Locale } from '@/lib/i18n/config';
+import type { PaymentProviderName } from '@/lib/payments/types';
+
+/**
+ * active        — paid up and renewing
+ * non_renewing  — paid up, but will not renew at the next payment date
+ * lapsed        — subscription ended or a renewal payment failed
+ */
+export type MembershipStatus = 'active' | 'non_renewing' | 'lapsed';
+
+export interface MembershipStatusChange {
+  status: MembershipStatus;
+  /** ISO timestamp */
+  at: string;
+  reason: string;
+}
+
+/** Current membership state for one member, keyed by email */
+export interface Membership {
+  email: string;
+  name: string;
+  status: MembershipStatus;
+  provider: PaymentProviderName;
+  planId?: string;
+  /** Provider subscription identifiers, present for recurring billing */
+  subscriptionCode?: string;
+  emailToken?: string;
+  customerCode?: string;
+  /** ISO date of the next scheduled charge, or when access ends if not renewing */
+  nextPaymentDate?: string;
+  lastPaymentReference?: string;
+  /** The member's own code for referring friends */
+  referralCode?: string;
+  /** Language for member emails, from the subscription form */
+  locale?: Locale;
+  /** When the member cancelled through the self-service flow */
+  cancelledAt?: string;
+  /** Last day of paid access after a cancellation or a once-off payment */
+  accessEndsAt?: string;
+  statusHistory: MembershipStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields a lifecycle event may set alongside the status */
+export type MembershipDetails = Partial<
+  Pick<
+    Membership,
+    | 'name'
+    | 'provider'
+    | 'planId'
+    | 'subscriptionCode'
+    | 'emailToken'
+    | 'customerCode'
+    | 'nextPaymentDate'
+    | 'lastPaymentReference'
+    | 'cancelledAt'
+    | 'accessEndsAt'
+    | 'locale'
+  >
+>;
+
+/** Contract for persisting memberships */
+export interface IMembershipRepository {
+  findByEmail(email: string): Promise<Membership | undefined>;
+  findBySubscriptionCode(subscriptionCode: string): Promise<Membership | undefined>;
+  findByReferralCode(referralCode: string): Promise<Membership | undefined>;
+  list(): Promise<Membership[]>;
+  /**
+   * Creates the membership if needed, applies the details and moves it to
+   * `status`. A status change is appended to the history with `reason`.
+   */
+  applyStatus(
+    email: string,
+    status: MembershipStatus,
+    reason: string,
+    details?: MembershipDetails,
+  ): Promise<Membership>;
+  /** Updates details without touching the status. */
+  updateDetails(email: string, details: MembershipDetails): Promise<Membership | undefined>;
+  /**
+   * Gives the member a referral code if they don't have one yet. `generate`
+   * is called until it returns a code no other member holds.
+   */
+  assignReferralCode(email: string, generate: () => string): Promise<Membership | undefined>;
+}
@@ -0,0 +1,231 @@
+import {
+  sendMembershipStatusNotification,
+  sendPaymentFailedEmail,
+  sendPaymentReceivedNotification,
+  sendPaymentSuccessEmail,
+} from '@/lib/email';
+import { formatAmount, formatDate } from '@/lib/format';
+import { DEFAULT_LOCALE, intlLocale } from '@/lib/i18n/config';
+import { createLogger } from '@/lib/logging/logger';
+import { activateMembershipFromPayment } from '@/lib/memberships/membership-events';
+import { getDiscountCodeRepository } from '@/lib/discounts/discount-code-repository';
+import { getFreeTrialRequestRepository } from '@/lib/free-trials/free-trial-repository';
+import { attributeReferral, ensureReferralCode, referralLink } from '@/lib/referrals/referrals';
+import { getPaymentRecordRepository } from './payment-record-repository';
+import { getPlan } from './plans';
+import { getPaymentProvider } from './provider-registry';
+import type { PaymentProviderName, PaymentRecord, PaymentStatus } from './types';
+
+const log = createLogger('payments');
+
+/**
+ * Provider-neutral description of a payment outcome reported by a webhook.
+ * Each webhook route maps its provider's payload onto this shape.
+ */
+export interface PaymentEventDetails {
+  provider: PaymentProviderName;
+  /** Reference shown to the member — our record id where we have one */
+  reference: string;
+  /** The provider's own id for the transaction or checkout */
+  providerReference: string;
+  /** Our payment record id, when the provider echoes it back in metadata */
+  paymentRecordId?: string;
+  planId?: string;
+  amountCents: number;
+  currency: string;
+  paidAt?: string;
+  email?: string;
+  name?: string;
+  /** Provider customer id and reusable card, for starting a deferred subscription */
+  customerCode?: string;
+  authorizationCode?: string;
+  reason?: string;
+}
+
+async function findPaymentRecord(details: PaymentEventDetails): Promise<PaymentRecord | undefined> {
+  const records = getPaymentRecordRepository();
+  return (
+    (details.paymentRecordId ? await records.findById(details.paymentRecordId) : undefined) ??
+    (await records.findById(details.reference)) ??
+    (await records.findByProviderReference(details.providerReference))
+  );
+}
+
+/** Adds whole months, clamping to the end of shorter months (31 Jan + 1 → 28/29 Feb). */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * A discounted first payment was taken without the provider plan; starts
+ * the subscription at the full price from the next period so the member
+ * renews like everyone else. If it can't be started the admin is told, and
+ * the member is left with the one payment.
+ */
+async function startDeferredSubscription(
+  record: PaymentRecord,
+  details: PaymentEventDetails,
+  email: string,
+) {
+  const plan = getPlan(record.planId);
+  if (!plan) return;
+
+  const paidAt = details.paidAt ? new Date(details.paidAt) : new Date();
+  const result = await getPaymentProvider(record.provider).startSubscription({
+    planId: plan.id,
+    email,
+    customerCode: details.customerCode,
+    authorizationCode: details.authorizationCode,
+    startDate: addMonths(paidAt, plan.months).toISOString(),
+  });
+
+  if (!result.success) {
+    log.error('Failed to start subscription after discounted payment', {
+      reference: record.id,
+      error: result.error,
+    });
+    await sendMembershipStatusNotification({
+      name: record.member.name,
+      email,
+      planName: plan.name,
+      reason: `Discounted payment ${record.id} succeeded, but the subscription could not be started (${result.error}). Set it up with the provider.`,
+      change: 'Subscription Not Started',
+    });
+    return;
+  }
+
+  if (result.subscriptionCode) {
+    await getPaymentRecordRepository().attachSubscription(record.id, result.subscriptionCode);
+  }
+}
+
+/** Moves the stored payment record (if we have one) to its final status. */
+async function recordWebhookStatus(
+  details: PaymentEventDetails,
+  status: PaymentStatus,
+  note?: string,
+): Promise<PaymentRecord | undefined> {
+  const record = await findPaymentRecord(details);
+  if (!record) {
+    log.error('No payment record for reference', {
+      provider: details.provider,
+      reference: details.reference,
+    });
+    return undefined;
+  }
+
+  return getPaymentRecordRepository().updateStatus(record.id, {
+    status,
+    source: 'webhook',
+    note,
+    paidAt: details.paidAt,
+  });
+}
+
+export async function handlePaymentSucceeded(details: PaymentEventDetails) {
+  const record = await recordWebhookStatus(details, 'paid');
+
+  const email = details.email ?? record?.member.email;
+  const name = details.name ?? record?.member.name ?? 'SheGymZ Member';
+
+  if (!email) {
+    log.error('Successful payment missing email', {
+      provider: details.provider,
+      reference: details.reference,
+    });
+    return;
+  }
+
+  // Renewal charges have no record of ours; their date comes with the invoice.
+  const plan = record ? getPlan(record.planId) : undefined;
+  const paidAt = details.paidAt ? new Date(details.paidAt) : new Date();
+  await activateMembershipFromPayment(
+    {
+      provider: details.provider,
+      email,
+      name,
+      planId: record?.planId ?? details.planId,
+      nextPaymentDate: plan ? addMonths(paidAt, plan.months).toISOString() : undefined,
+      reference: record?.id ?? details.reference,
+      locale: record?.member.locale,
+    },
+    record?.billing !== 'one_off',
+  );
+
+  if (record?.billing === 'deferred_subscription' && !record.subscriptionCode) {
+    await startDeferredSubscription(record, details, email);
+  }
+
+  // Keyed by payment record, so a redelivered or retried charge counts once.
+  const discountCode = record?.discount?.code;
+  if (discountCode) {
+    await getDiscountCodeRepository().recordRedemption(discountCode, record.id);
+  }
+
+  if (record?.member.referralCode) {
+    await attributeReferral({
+      referralCode: record.member.referralCode,
+      referredEmail: email,
+      referredName: name,
+      paymentRecordId: record.id,
+    }).catch((error) => {
+      log.error('Failed to attribute referral', { error });
+    });
+  }
+
+  await getFreeTrialRequestRepository()
+    .convertByEmail(email, `Paid membership (${record?.id ?? details.reference})`)
+    .catch((error) => {
+      log.error('Failed to convert free-trial leads', { error });
+    });
+
+  const ownReferralCode = await ensureReferralCode(email);
+
+  const emailData = {
+    name,
+    email,
+    amount: formatAmount(details.amountCents, details.currency),
+    paymentDate: formatDate(details.paidAt, intlLocale(record?.member.locale ?? DEFAULT_LOCALE)),
+    reference: record?.id ?? details.reference,
+    discountCode,
+    referralLink: ownReferralCode ? referralLink(ownReferralCode) : undefined,
+    locale: record?.member.locale,
+  };
+
+  await Promise.all([
+    sendPaymentSuccessEmail(emailData),
+    sendPaymentReceivedNotification(emailData),
+  ]);
+}
+
+export async function handlePaymentFailed(details: PaymentEventDetails) {
+  const record = await recordWebhookStatus(details, 'failed', details.reason);
+
+  if (record?.discount) {
+    await getDiscountCodeRepository().releaseReservation(record.discount.code, record.id);
+  }
+
+  const email = details.email ?? record?.member.email;
+  const name = details.name ?? record?.member.name ?? 'SheGymZ Member';
+
+  if (!email) {
+    return;
+  }
+
+  await sendPaymentFailedEmail({
+    name,
+    email,
+    amount: formatAmount(details.amountCents, details.currency),
+    reference: record?.id ?? details.reference,
+    reason: details.reason || 'Payment could not be processed',
+    locale: record?.member.locale,
+  });
+}
@@ -0,0 +1,163 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type {
+  IPaymentRecordRepository,
+  NewPaymentRecord,
+  PaymentBilling,
+  PaymentRecord,
+  PaymentStatus,
+  PaymentStatusSource,
+  RefundRecord,
+} from './types';
+
+interface PaymentRecordDocument {
+  records: Record<string, PaymentRecord>;
+}
+
+/**
+ * Stores payment records in data/payment-records.json.
+ *
+ * The volume of checkouts for a single club is small, so one JSON document
+ * keyed by record id is plenty and keeps the app free of a database server.
+ */
+export class FilePaymentRecordRepository implements IPaymentRecordRepository {
+  private readonly store = new JsonFileStore<PaymentRecordDocument>(
+    'payment-records.json',
+    () => ({ records: {} }),
+  );
+
+  async create(input: NewPaymentRecord): Promise<PaymentRecord> {
+    const now = new Date().toISOString();
+    const record: PaymentRecord = {
+      ...input,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', source: 'checkout', at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.update((doc) => {
+      if (doc.records[record.id]) {
+        throw new Error(`Payment record ${record.id} already exists`);
+      }
+      doc.records[record.id] = record;
+      return record;
+    });
+  }
+
+  async findById(id: string): Promise<PaymentRecord | undefined> {
+    const doc = await this.store.read();
+    return doc.records[id];
+  }
+
+  async findByProviderReference(providerReference: string): Promise<PaymentRecord | undefined> {
+    const doc = await this.store.read();
+    return Object.values(doc.records).find((r) => r.providerReference === providerReference);
+  }
+
+  async findByEmail(email: string): Promise<PaymentRecord[]> {
+    const normalizedEmail = email.toLowerCase().trim();
+    const records = await this.list();
+    return records.filter((r) => r.member.email === normalizedEmail);
+  }
+
+  /** All records, newest first */
+  async list(): Promise<PaymentRecord[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.records).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async attachCheckout(
+    id: string,
+    checkout: { providerReference: string; checkoutUrl: string; billing?: PaymentBilling },
+  ): Promise<PaymentRecord | undefined> {
+    return this.store.update((doc) => {
+      const record = doc.records[id];
+      if (!record) return undefined;
+
+      record.providerReference = checkout.providerReference;
+      record.checkoutUrl = checkout.checkoutUrl;
+      if (checkout.billing) {
+        record.billing = checkout.billing;
+      }
+      record.updatedAt = new Date().toISOString();
+      return record;
+    });
+  }
+
+  async attachSubscription(
+    id: string,
+    subscriptionCode: string,
+  ): Promise<PaymentRecord | undefined> {
+    return this.store.update((doc) => {
+      const record = doc.records[id];
+      if (!record) return undefined;
+
+      record.subscriptionCode = subscriptionCode;
+      record.updatedAt = new Date().toISOString();
+      return record;
+    });
+  }
+
+  /**
+   * Moves a record to a new status and appends it to the history.
+   * Repeating the current status is a no-op so replays don't grow the history.
+   */
+  async updateStatus(
+    id: string,
+    change: { status: PaymentStatus; source: PaymentStatusSource; note?: string; paidAt?: string },
+  ): Promise<PaymentRecord | undefined> {
+    return this.store.update((doc) => {
+      const record = doc.records[id];
+      if (!record) return undefined;
+      if (record.status === change.status) return record;
+
+      const now = new Date().toISOString();
+      record.status = change.status;
+      record.statusHistory.push({
+        status: change.status,
+        source: change.source,
+        at: now,
+        ...(change.note ? { note: change.note } : {}),
+      });
+      if (change.paidAt) {
+        record.paidAt = change.paidAt;
+      }
+      record.updatedAt = now;
+      return record;
+    });
+  }
+
+  async addRefund(id: string, refund: RefundRecord): Promise<PaymentRecord | undefined> {
+    return this.store.update((doc) => {
+      const record = doc.records[id];
+      if (!record) return undefined;
+
+      record.refunds = [...(record.refunds ?? []), refund];
+      record.updatedAt = new Date().toISOString();
+      return record;
+    });
+  }
+
+  async updateRefund(
+    id: string,
+    refundId: string,
+    patch: Partial<Omit<RefundRecord, 'id'>>,
+  ): Promise<PaymentRecord | undefined> {
+    return this.store.update((doc) => {
+      const record = doc.records[id];
+      const refund = record?.refunds?.find((r) => r.id === refundId);
+      if (!record || !refund) return undefined;
+
+      Object.assign(refund, patch);
+      record.updatedAt = new Date().toISOString();
+      return record;
+    });
+  }
+}
+
+let repository: IPaymentRecordRepository | undefined;
+
+export function getPaymentRecordRepository(): IPaymentRecordRepository {
+  repository ??= new FilePaymentRecordRepository();
+  return repository;
+}
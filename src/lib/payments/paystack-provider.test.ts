@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaystackProvider } from './paystack-provider';
+
+const SECRET = 'sk_test_secret';
+const body = JSON.stringify({ event: 'charge.success', data: { reference: 'pay_123' } });
+
+function sign(rawBody: string, secret = SECRET): string {
+  return crypto.createHmac('sha512', secret).update(rawBody).digest('hex');
+}
+
+describe('PaystackProvider.verifyWebhookSignature', () => {
+  beforeEach(() => {
+    vi.stubEnv('PAYSTACK_SECRET_KEY', SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a body signed with the secret key', () => {
+    expect(PaystackProvider.verifyWebhookSignature(body, sign(body))).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    expect(PaystackProvider.verifyWebhookSignature(`${body} `, sign(body))).toBe(false);
+  });
+
+  it('rejects a signature made with another key', () => {
+    expect(PaystackProvider.verifyWebhookSignature(body, sign(body, 'sk_test_other'))).toBe(false);
+  });
+
+  it('rejects a missing or malformed signature', () => {
+    expect(PaystackProvider.verifyWebhookSignature(body, '')).toBe(false);
+    expect(PaystackProvider.verifyWebhookSignature(body, 'abc')).toBe(false);
+  });
+
+  it('rejects everything when no secret key is configured', () => {
+    vi.stubEnv('PAYSTACK_SECRET_KEY', '');
+    expect(PaystackProvider.verifyWebhookSignature(body, sign(body, ''))).toBe(false);
+  });
+});
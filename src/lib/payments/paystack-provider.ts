@@ -1,14 +1,32 @@
 import crypto from 'crypto';
 import type {
   IPaymentProvider,
+  CancelSubscriptionInput,
+  ListTransactionsOutput,
+  ProviderTransaction,
+  CancelSubscriptionOutput,
+  CheckConnectionOutput,
   CreateCheckoutInput,
   CreateCheckoutOutput,
   VerifyPaymentOutput,
+  PaymentBilling,
   PaymentStatus,
+  PlanInterval,
+  RefundPaymentInput,
+  RefundPaymentOutput,
+  StartSubscriptionInput,
+  StartSubscriptionOutput,
 } from './types';
-import { getPlan } from './plans';
+import { PLANS, getPlan } from './plans';
 
-const PAYSTACK_API_BASE = 'https://api.paystack.co';
+const DEFAULT_PAYSTACK_API_BASE = 'https://api.paystack.co';
+
+/** Env var holding the Paystack plan code for each billing interval */
+const PLAN_CODE_ENV: Record<PlanInterval, string> = {
+  monthly: 'PAYSTACK_PLAN_CODE',
+  quarterly: 'PAYSTACK_PLAN_CODE_QUARTERLY',
+  annual: 'PAYSTACK_PLAN_CODE_ANNUAL',
+};
 
 interface PaystackInitializeResponse {
   status: boolean;
@@ -19,6 +37,28 @@ interface PaystackInitializeResponse {
   };
 }
 
+interface PaystackBasicResponse {
+  status: boolean;
+  message: string;
+}
+
+interface PaystackSubscriptionResponse {
+  status: boolean;
+  message: string;
+  data?: {
+    subscription_code?: string;
+  };
+}
+
+interface PaystackRefundResponse {
+  status: boolean;
+  message: string;
+  data?: {
+    id?: number;
+    status?: 'pending' | 'processing' | 'processed' | 'failed' | string;
+  };
+}
+
 interface PaystackVerifyResponse {
   status: boolean;
   message: string;
@@ -29,6 +69,46 @@ interface PaystackVerifyResponse {
   };
 }
 
+interface PaystackTransactionListResponse {
+  status: boolean;
+  message: string;
+  data?: Array<{
+    reference: string;
+    status: string;
+    amount: number;
+    currency: string;
+    paid_at?: string | null;
+    created_at: string;
+    customer?: { email?: string };
+    metadata?: { paymentRecordId?: string } | string | null;
+    /** Empty object when the transaction wasn't charged on a plan */
+    plan?: { plan_code?: string } | null;
+  }>;
+  meta?: {
+    page: number;
+    pageCount: number;
+  };
+}
+
+/** Paystack transaction statuses mapped to ours; anything else is still pending */
+const PAYSTACK_STATUS_MAP: Record<string, PaymentStatus> = {
+  success: 'paid',
+  failed: 'failed',
+  abandoned: 'cancelled',
+  reversed: 'refunded',
+};
+
+/** Page size for transaction listings — Paystack's maximum */
+const TRANSACTIONS_PER_PAGE = 100;
+
+/** Maps a Paystack plan code from a webhook back to our plan id */
+export function planIdFromPaystackPlanCode(planCode?: string): string | undefined {
+  if (!planCode) return undefined;
+  return Object.values(PLANS).find(
+    (plan) => process.env[PLAN_CODE_ENV[plan.interval]]?.trim() === planCode,
+  )?.id;
+}
+
 /**
  * Implements the payment provider interface using Paystack.
  *
@@ -36,17 +116,30 @@ interface PaystackVerifyResponse {
  *   PAYSTACK_SECRET_KEY
  *   APP_BASE_URL
  * Optional env vars:
- *   PAYSTACK_PLAN_CODE
+ *   PAYSTACK_API_BASE             (e.g. the local fake from scripts/fake-paystack.mjs)
+ *   PAYSTACK_PLAN_CODE            (monthly plan)
+ *   PAYSTACK_PLAN_CODE_QUARTERLY
+ *   PAYSTACK_PLAN_CODE_ANNUAL
  */
 export class PaystackProvider implements IPaymentProvider {
+  readonly name = 'paystack' as const;
+
   private get secretKey(): string {
     return process.env.PAYSTACK_SECRET_KEY ?? '';
   }
 
+  private get apiBase(): string {
+    return (process.env.PAYSTACK_API_BASE?.trim() || DEFAULT_PAYSTACK_API_BASE).replace(/\/$/, '');
+  }
+
   private get baseUrl(): string {
     return (process.env.APP_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
   }
 
+  private planCode(interval: PlanInterval): string | undefined {
+    return process.env[PLAN_CODE_ENV[interval]]?.trim() || undefined;
+  }
+
   async createCheckout(input: CreateCheckoutInput): Promise<CreateCheckoutOutput> {
     if (!this.secretKey) {
       return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
@@ -59,7 +152,7 @@ export class PaystackProvider implements IPaymentProvider {
 
     const payload: Record<string, unknown> = {
       email: input.metadata.email,
-      amount: plan.amountCents,
+      amount: input.discount?.amountCents ?? plan.amountCents,
       currency: plan.currency,
       callback_url: `${this.baseUrl}/payment-success?ref=${input.paymentRecordId}`,
       reference: input.paymentRecordId,
@@ -72,16 +165,28 @@ export class PaystackProvider implements IPaymentProvider {
         phone: input.metadata.phone,
         bodyGoals: input.metadata.bodyGoals ?? '',
         referralName: input.metadata.referralName ?? '',
+        referralCode: input.metadata.referralCode ?? '',
+        discountCode: input.discount?.code ?? '',
+        correlationId: input.correlationId ?? '',
       },
     };
 
-    const planCode = process.env.PAYSTACK_PLAN_CODE?.trim();
+    // A Paystack plan always charges the plan amount, so a discounted first
+    // payment is taken without the plan. The subscription is started on the
+    // same card once it succeeds, from the next period (see startSubscription).
+    const planCode = this.planCode(plan.interval);
+    let billing: PaymentBilling = 'one_off';
     if (planCode) {
-      payload.plan = planCode;
+      if (input.discount) {
+        billing = 'deferred_subscription';
+      } else {
+        payload.plan = planCode;
+        billing = 'subscription';
+      }
     }
 
     try {
-      const response = await fetch(`${PAYSTACK_API_BASE}/transaction/initialize`, {
+      const response = await fetch(`${this.apiBase}/transaction/initialize`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -102,6 +207,7 @@ export class PaystackProvider implements IPaymentProvider {
         success: true,
         checkoutUrl: data.data.authorization_url,
         providerReference: data.data.reference,
+        billing,
       };
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Network error';
@@ -116,7 +222,7 @@ export class PaystackProvider implements IPaymentProvider {
 
     try {
       const response = await fetch(
-        `${PAYSTACK_API_BASE}/transaction/verify/${encodeURIComponent(providerReference)}`,
+        `${this.apiBase}/transaction/verify/${encodeURIComponent(providerReference)}`,
         {
           headers: { Authorization: `Bearer ${this.secretKey}` },
         },
@@ -130,12 +236,7 @@ export class PaystackProvider implements IPaymentProvider {
         };
       }
 
-      const statusMap: Record<string, PaymentStatus> = {
-        success: 'paid',
-        failed: 'failed',
-        abandoned: 'cancelled',
-      };
-      const status = statusMap[data.data.status] ?? 'pending';
+      const status = PAYSTACK_STATUS_MAP[data.data.status] ?? 'pending';
 
       return { success: true, status, paidAt: data.data.paid_at };
     } catch (err: unknown) {
@@ -144,6 +245,207 @@ export class PaystackProvider implements IPaymentProvider {
     }
   }
 
+  /** Lists every transaction created between `from` and `to`, following pagination. */
+  async listTransactions(range: { from: Date; to: Date }): Promise<ListTransactionsOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
+    }
+
+    const transactions: ProviderTransaction[] = [];
+    try {
+      for (let page = 1; ; page++) {
+        const query = new URLSearchParams({
+          from: range.from.toISOString(),
+          to: range.to.toISOString(),
+          perPage: String(TRANSACTIONS_PER_PAGE),
+          page: String(page),
+        });
+        const response = await fetch(`${this.apiBase}/transaction?${query}`, {
+          headers: { Authorization: `Bearer ${this.secretKey}` },
+        });
+
+        const data = (await response.json().catch(() => ({}))) as PaystackTransactionListResponse;
+        if (!response.ok || !data.status || !data.data) {
+          return {
+            success: false,
+            error: data.message || `Paystack API error ${response.status}`,
+          };
+        }
+
+        for (const tx of data.data) {
+          const metadata = typeof tx.metadata === 'object' ? tx.metadata : undefined;
+          transactions.push({
+            reference: tx.reference,
+            status: PAYSTACK_STATUS_MAP[tx.status] ?? 'pending',
+            amountCents: tx.amount,
+            currency: tx.currency,
+            paidAt: tx.paid_at ?? undefined,
+            createdAt: tx.created_at,
+            email: tx.customer?.email,
+            paymentRecordId: metadata?.paymentRecordId || undefined,
+            planId: planIdFromPaystackPlanCode(tx.plan?.plan_code),
+          });
+        }
+
+        if (data.data.length < TRANSACTIONS_PER_PAGE || page >= (data.meta?.pageCount ?? page)) {
+          return { success: true, transactions };
+        }
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to list Paystack transactions: ${message}` };
+    }
+  }
+
+  /**
+   * Confirms the API is reachable and accepts the secret key, for the
+   * readiness check. Lists a single transaction; nothing is changed.
+   */
+  async checkConnection(timeoutMs: number): Promise<CheckConnectionOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
+    }
+
+    try {
+      const response = await fetch(`${this.apiBase}/transaction?perPage=1`, {
+        headers: { Authorization: `Bearer ${this.secretKey}` },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.status === 401) {
+        return { success: false, error: 'Paystack rejected PAYSTACK_SECRET_KEY' };
+      }
+      if (!response.ok) {
+        return { success: false, error: `Paystack API error ${response.status}` };
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Paystack API unreachable: ${message}` };
+    }
+  }
+
+  /** Subscribes the customer to the plan, charging their saved card from `startDate`. */
+  async startSubscription(input: StartSubscriptionInput): Promise<StartSubscriptionOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
+    }
+
+    const plan = getPlan(input.planId);
+    const planCode = plan ? this.planCode(plan.interval) : undefined;
+    if (!planCode) {
+      return { success: false, error: `No Paystack plan code configured for plan ${input.planId}` };
+    }
+
+    const payload: Record<string, unknown> = {
+      customer: input.customerCode ?? input.email,
+      plan: planCode,
+      start_date: input.startDate,
+    };
+    if (input.authorizationCode) {
+      payload.authorization = input.authorizationCode;
+    }
+
+    try {
+      const response = await fetch(`${this.apiBase}/subscription`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.secretKey}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as PaystackSubscriptionResponse;
+      if (!response.ok || !data.status) {
+        return {
+          success: false,
+          error: data.message || `Paystack API error ${response.status}`,
+        };
+      }
+
+      return { success: true, subscriptionCode: data.data?.subscription_code };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to create Paystack subscription: ${message}` };
+    }
+  }
+
+  async cancelSubscription(input: CancelSubscriptionInput): Promise<CancelSubscriptionOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
+    }
+    if (!input.emailToken) {
+      return { success: false, error: 'Missing Paystack email token for subscription' };
+    }
+
+    try {
+      const response = await fetch(`${this.apiBase}/subscription/disable`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.secretKey}`,
+        },
+        body: JSON.stringify({ code: input.subscriptionCode, token: input.emailToken }),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as PaystackBasicResponse;
+      if (!response.ok || !data.status) {
+        return {
+          success: false,
+          error: data.message || `Paystack API error ${response.status}`,
+        };
+      }
+
+      return { success: true };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to cancel Paystack subscription: ${message}` };
+    }
+  }
+
+  async refundPayment(input: RefundPaymentInput): Promise<RefundPaymentOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'PAYSTACK_SECRET_KEY is not configured' };
+    }
+
+    const payload: Record<string, unknown> = { transaction: input.providerReference };
+    if (input.amountCents !== undefined) {
+      payload.amount = input.amountCents;
+    }
+    if (input.reason) {
+      payload.merchant_note = input.reason;
+    }
+
+    try {
+      const response = await fetch(`${this.apiBase}/refund`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.secretKey}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as PaystackRefundResponse;
+      if (!response.ok || !data.status) {
+        return {
+          success: false,
+          error: data.message || `Paystack API error ${response.status}`,
+        };
+      }
+
+      // Paystack queues refunds and confirms them with refund.processed.
+      return {
+        success: true,
+        providerRefundReference: data.data?.id !== undefined ? String(data.data.id) : undefined,
+        status: data.data?.status === 'processed' ? 'processed' : 'pending',
+      };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to create Paystack refund: ${message}` };
+    }
+  }
+
   static verifyWebhookSignature(rawBody: string, signatureHeader: string): boolean {
     const secret = process.env.PAYSTACK_SECRET_KEY ?? '';
     if (!secret || !signatureHeader) return false;
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getPlan } from './plans';
+
+describe('getPlan', () => {
+  it('finds plans by id', () => {
+    expect(getPlan('monthly')).toMatchObject({ id: 'monthly', months: 1 });
+  });
+
+  it('rejects prototype keys and non-string ids', () => {
+    expect(getPlan('constructor')).toBeUndefined();
+    expect(getPlan('__proto__')).toBeUndefined();
+    expect(getPlan(12)).toBeUndefined();
+    expect(getPlan({ id: 'monthly' })).toBeUndefined();
+  });
+});
@@ -1,12 +1,19 @@
-import type { Plan } from './types';
+import type { Plan, PlanInterval } from './types';
+
+/** Converts a ZAR amount from the environment into cents */
+function zarToCents(value: string | undefined, fallback: string): number {
+  return Math.round(parseFloat(value || fallback) * 100);
+}
 
 /**
  * Plan catalogue.
  *
  * Prices are read exclusively from environment variables — never hardcoded here.
- * NEXT_PUBLIC_SUBSCRIPTION_AMOUNT is the single source of truth for the monthly price.
+ * NEXT_PUBLIC_SUBSCRIPTION_AMOUNT is the single source of truth for the monthly price;
+ * NEXT_PUBLIC_QUARTERLY_AMOUNT and NEXT_PUBLIC_ANNUAL_AMOUNT are the totals charged
+ * every 3 and 12 months. The NEXT_PUBLIC_ prefix lets the subscribe page show them.
  *
- * Add more plans (e.g., quarterly, annual) by extending this map.
+ * Each plan maps to its own Paystack plan code (see PaystackProvider).
  */
 export const PLANS: Record<string, Plan> = {
   monthly: {
@@ -14,17 +21,62 @@ export const PLANS: Record<string, Plan> = {
     name: 'SheGymZ Monthly Membership',
     description:
       "Private women's wellness club — 24/7 access, personal trainers included",
-    // Multiply by 100 to convert ZAR → cents
-    amountCents: Math.round(
-      parseFloat(process.env.NEXT_PUBLIC_SUBSCRIPTION_AMOUNT ?? '399') * 100,
-    ),
+    amountCents: zarToCents(process.env.NEXT_PUBLIC_SUBSCRIPTION_AMOUNT, '399'),
     currency: 'ZAR',
     interval: 'monthly',
+    months: 1,
   },
+  quarterly: {
+    id: 'quarterly',
+    name: 'SheGymZ Quarterly Membership',
+    description: 'Three months of membership, billed every quarter',
+    amountCents: zarToCents(process.env.NEXT_PUBLIC_QUARTERLY_AMOUNT, '1077'),
+    currency: 'ZAR',
+    interval: 'quarterly',
+    months: 3,
+  },
+  annual: {
+    id: 'annual',
+    name: 'SheGymZ Annual Membership',
+    description: 'A full year of membership, billed once a year',
+    amountCents: zarToCents(process.env.NEXT_PUBLIC_ANNUAL_AMOUNT, '3990'),
+    currency: 'ZAR',
+    interval: 'annual',
+    months: 12,
+  },
+};
+
+export const DEFAULT_PLAN_ID = 'monthly';
+
+export const INTERVAL_LABELS: Record<PlanInterval, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+  annual: 'Yearly',
 };
 
-export function getPlan(planId: string): Plan | undefined {
+/** Safe with untrusted input: keys inherited from Object.prototype are not plans. */
+export function getPlan(planId: unknown): Plan | undefined {
+  if (typeof planId !== 'string' || !Object.prototype.hasOwnProperty.call(PLANS, planId)) {
+    return undefined;
+  }
   return PLANS[planId];
 }
 
-export const DEFAULT_PLAN_ID = 'monthly';
+/** Plans ordered from shortest to longest commitment */
+export function listPlans(): Plan[] {
+  return Object.values(PLANS).sort((a, b) => a.months - b.months);
+}
+
+/** What the plan works out to per month, in cents */
+export function monthlyEquivalentCents(plan: Plan): number {
+  return Math.round(plan.amountCents / plan.months);
+}
+
+/**
+ * How much cheaper per month the plan is than paying monthly, in cents.
+ * Zero for the monthly plan itself or when a longer plan isn't discounted.
+ */
+export function monthlySavingsCents(plan: Plan): number {
+  const monthly = PLANS[DEFAULT_PLAN_ID];
+  return Math.max(0, monthly.amountCents - monthlyEquivalentCents(plan));
+}
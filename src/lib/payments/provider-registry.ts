@@ -0,0 +1,45 @@
+import { createLogger } from '@/lib/logging/logger';
+import { PaystackProvider } from './paystack-provider';
+import { YocoProvider } from './yoco-provider';
+import type { IPaymentProvider, PaymentProviderName } from './types';
+
+const log = createLogger('payments');
+
+const PROVIDERS: Record<PaymentProviderName, () => IPaymentProvider> = {
+  paystack: () => new PaystackProvider(),
+  yoco: () => new YocoProvider(),
+};
+
+export const DEFAULT_PROVIDER_NAME: PaymentProviderName = 'paystack';
+
+export function isPaymentProviderName(value: string): value is PaymentProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/**
+ * Provider used for new checkouts, selected with PAYMENTS_PROVIDER.
+ * Switch it to `yoco` to fail over while Paystack is unavailable.
+ */
+export function getActiveProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENTS_PROVIDER?.trim().toLowerCase();
+  if (!configured) return DEFAULT_PROVIDER_NAME;
+
+  if (!isPaymentProviderName(configured)) {
+    log.error('Unknown PAYMENTS_PROVIDER, falling back to the default', {
+      configured,
+      fallback: DEFAULT_PROVIDER_NAME,
+    });
+    return DEFAULT_PROVIDER_NAME;
+  }
+  return configured;
+}
+
+/**
+ * Returns the named provider, or the active one. Existing payments must be
+ * verified with the provider that created them, so pass the record's provider.
+ */
+export function getPaymentProvider(
+  name: PaymentProviderName = getActiveProviderName(),
+): IPaymentProvider {
+  return PROVIDERS[name]();
+}
@@ -0,0 +1,264 @@
+import { sendReconciliationReportEmail } from '@/lib/email';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import type { Membership } from '@/lib/memberships/types';
+import { handlePaymentSucceeded } from './payment-events';
+import { getPaymentRecordRepository } from './payment-record-repository';
+import { PaystackProvider } from './paystack-provider';
+import { getWebhookEventLog } from './webhook-event-log';
+import type { PaymentRecord, PaymentStatus, ProviderTransaction } from './types';
+
+/** Checkouts still pending after this long are reported as stuck */
+const STUCK_PENDING_MS = 60 * 60 * 1000;
+const DEFAULT_LOOKBACK_MS = 48 * 60 * 60 * 1000;
+
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  transactionsChecked: number;
+  recordsChecked: number;
+  /** Local records whose status was brought in line with Paystack */
+  corrected: Array<{ reference: string; from: PaymentStatus; to: PaymentStatus }>;
+  /**
+   * Paid checkouts whose success handling (membership, receipts) never ran,
+   * e.g. marked paid by the status page while the webhook went missing
+   */
+  successProcessed: string[];
+  /**
+   * Subscription renewals, which Paystack charges itself and so have no
+   * checkout record. Listed for reference; they are not discrepancies.
+   */
+  renewals: ProviderCharge[];
+  /** Successful Paystack transactions matching neither a checkout nor a membership */
+  paidWithoutRecord: ProviderCharge[];
+  /** Checkouts still pending after reconciliation */
+  stuckPending: Array<{ reference: string; email: string; amountCents: number; createdAt: string }>;
+  /** Paid transactions whose amount differs from what we expected to charge */
+  amountMismatches: Array<{
+    reference: string;
+    recordAmountCents: number;
+    providerAmountCents: number;
+    currency: string;
+  }>;
+}
+
+export interface ProviderCharge {
+  reference: string;
+  amountCents: number;
+  currency: string;
+  email?: string;
+  paidAt?: string;
+}
+
+export type ReconciliationResult =
+  | { success: true; report: ReconciliationReport }
+  | { success: false; error: string };
+
+export function hasDiscrepancies(report: ReconciliationReport): boolean {
+  return (
+    report.corrected.length > 0 ||
+    report.successProcessed.length > 0 ||
+    report.paidWithoutRecord.length > 0 ||
+    report.stuckPending.length > 0 ||
+    report.amountMismatches.length > 0
+  );
+}
+
+/**
+ * Whether Paystack's status should overwrite ours. Refunds are left to the
+ * refund flow, and Paystack calls checkouts still in progress "abandoned",
+ * so those only count once the checkout is old enough to be stuck.
+ */
+function isStale(record: PaymentRecord, providerStatus: PaymentStatus, stuckBefore: number): boolean {
+  if (record.status === providerStatus) return false;
+  if (record.status === 'pending') {
+    if (providerStatus === 'cancelled') return new Date(record.createdAt).getTime() < stuckBefore;
+    return providerStatus !== 'pending';
+  }
+  return (record.status === 'failed' || record.status === 'cancelled') && providerStatus === 'paid';
+}
+
+/**
+ * A paid transaction with no checkout record is a renewal when it belongs to
+ * a member on a subscription, or was charged on the member's plan.
+ */
+function isRenewal(tx: ProviderTransaction, membershipsByEmail: Map<string, Membership>): boolean {
+  const membership = tx.email ? membershipsByEmail.get(tx.email.toLowerCase()) : undefined;
+  if (!membership) return false;
+  return (
+    Boolean(membership.subscriptionCode) ||
+    (tx.planId !== undefined && tx.planId === membership.planId)
+  );
+}
+
+/** Whether charge.success for this reference was handled (or is being handled) */
+async function successWasProcessed(reference: string): Promise<boolean> {
+  const events = await getWebhookEventLog().findByReference(reference);
+  return events.some(
+    (e) => e.provider === 'paystack' && e.eventType === 'charge.success' && e.outcome !== 'failed',
+  );
+}
+
+/**
+ * Runs a missed charge.success through the normal success handling. The
+ * webhook event log is shared with the webhook route, so a late delivery of
+ * the same event is treated as a duplicate. Returns false if it already ran.
+ */
+async function applyMissedSuccess(record: PaymentRecord, tx: ProviderTransaction): Promise<boolean> {
+  const eventLog = getWebhookEventLog();
+  const { event, duplicate } = await eventLog.begin({
+    provider: 'paystack',
+    eventType: 'charge.success',
+    reference: tx.reference,
+    payload: { source: 'reconciliation', transaction: tx },
+  });
+  if (duplicate) return false;
+
+  try {
+    await handlePaymentSucceeded({
+      provider: 'paystack',
+      reference: record.id,
+      providerReference: tx.reference,
+      paymentRecordId: record.id,
+      planId: record.planId,
+      amountCents: tx.amountCents,
+      currency: tx.currency,
+      paidAt: tx.paidAt,
+      email: record.member.email,
+      name: record.member.name,
+    });
+    await eventLog.complete(event.id, 'handled');
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await eventLog.complete(event.id, 'failed', message);
+    throw err;
+  }
+}
+
+/**
+ * Compares Paystack's transactions for a date range with our checkout
+ * records, corrects stale statuses and reports anything needing a human.
+ * Defaults to the last 48 hours.
+ */
+export async function reconcilePayments(
+  options: { from?: Date; to?: Date; notify?: boolean } = {},
+): Promise<ReconciliationResult> {
+  const to = options.to ?? new Date();
+  const from = options.from ?? new Date(to.getTime() - DEFAULT_LOOKBACK_MS);
+  if (from >= to) {
+    return { success: false, error: 'from must be before to' };
+  }
+
+  const listed = await new PaystackProvider().listTransactions({ from, to });
+  if (!listed.success || !listed.transactions) {
+    return { success: false, error: listed.error ?? 'Failed to list Paystack transactions' };
+  }
+
+  const records = getPaymentRecordRepository();
+  const paystackRecords = (await records.list()).filter((r) => r.provider === 'paystack');
+  const byReference = new Map<string, PaymentRecord>();
+  for (const record of paystackRecords) {
+    byReference.set(record.id, record);
+    if (record.providerReference) byReference.set(record.providerReference, record);
+  }
+  const membershipsByEmail = new Map(
+    (await getMembershipRepository().list()).map((m) => [m.email, m]),
+  );
+
+  const report: ReconciliationReport = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    transactionsChecked: listed.transactions.length,
+    recordsChecked: 0,
+    corrected: [],
+    successProcessed: [],
+    renewals: [],
+    paidWithoutRecord: [],
+    stuckPending: [],
+    amountMismatches: [],
+  };
+
+  const stuckBefore = Date.now() - STUCK_PENDING_MS;
+  const settled = new Set<string>();
+  for (const tx of listed.transactions) {
+    const record =
+      (tx.paymentRecordId ? byReference.get(tx.paymentRecordId) : undefined) ??
+      byReference.get(tx.reference);
+
+    if (!record) {
+      if (tx.status === 'paid') {
+        const charge: ProviderCharge = {
+          reference: tx.reference,
+          amountCents: tx.amountCents,
+          currency: tx.currency,
+          email: tx.email,
+          paidAt: tx.paidAt,
+        };
+        if (isRenewal(tx, membershipsByEmail)) {
+          report.renewals.push(charge);
+        } else {
+          report.paidWithoutRecord.push(charge);
+        }
+      }
+      continue;
+    }
+
+    if (tx.status === 'paid' && tx.amountCents !== record.amountCents) {
+      report.amountMismatches.push({
+        reference: record.id,
+        recordAmountCents: record.amountCents,
+        providerAmountCents: tx.amountCents,
+        currency: tx.currency,
+      });
+    }
+
+    if (isStale(record, tx.status, stuckBefore)) {
+      await records.updateStatus(record.id, {
+        status: tx.status,
+        source: 'reconciliation',
+        note: `Paystack reports ${tx.status}`,
+        paidAt: tx.paidAt,
+      });
+      report.corrected.push({ reference: record.id, from: record.status, to: tx.status });
+      settled.add(record.id);
+    }
+
+    // Member-facing follow-up only for payments that went through; a stale
+    // failure is usually an abandoned checkout the member has long left.
+    if (
+      tx.status === 'paid' &&
+      (record.status === 'paid' || settled.has(record.id)) &&
+      !(await successWasProcessed(tx.reference)) &&
+      (await applyMissedSuccess(record, tx))
+    ) {
+      report.successProcessed.push(record.id);
+    }
+  }
+
+  for (const record of paystackRecords) {
+    const createdAt = new Date(record.createdAt);
+    if (createdAt < from || createdAt > to) continue;
+    report.recordsChecked += 1;
+
+    if (
+      record.status === 'pending' &&
+      !settled.has(record.id) &&
+      createdAt.getTime() < stuckBefore
+    ) {
+      report.stuckPending.push({
+        reference: record.id,
+        email: record.member.email,
+        amountCents: record.amountCents,
+        createdAt: record.createdAt,
+      });
+    }
+  }
+
+  if (options.notify && hasDiscrepancies(report)) {
+    await sendReconciliationReportEmail(report);
+  }
+
+  return { success: true, report };
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendRefundOutcomeEmail } from '@/lib/email';
+import { getPaymentRecordRepository } from './payment-record-repository';
+import { getPaymentProvider } from './provider-registry';
+import { handleRefundOutcome, startRefund } from './refunds';
+import type { IPaymentProvider } from './types';
+
+vi.mock('@/lib/email', () => ({ sendRefundOutcomeEmail: vi.fn(async () => true) }));
+vi.mock('@/lib/memberships/membership-events', () => ({
+  lapseRefundedMembership: vi.fn(async () => undefined),
+}));
+vi.mock('./provider-registry', () => ({ getPaymentProvider: vi.fn() }));
+
+const refundPayment = vi.fn<IPaymentProvider['refundPayment']>();
+
+async function paidRecord(id: string) {
+  const records = getPaymentRecordRepository();
+  await records.create({
+    id,
+    provider: 'yoco',
+    planId: 'monthly',
+    amountCents: 50000,
+    currency: 'ZAR',
+    member: { name: 'Ann', email: 'ann@example.com', phone: '+27821234567' },
+  });
+  await records.updateStatus(id, {
+    status: 'paid',
+    source: 'webhook',
+    paidAt: new Date().toISOString(),
+  });
+}
+
+describe('refunds', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'refunds-'));
+    vi.stubEnv('DATA_DIR', dir);
+    vi.mocked(getPaymentProvider).mockReturnValue({ refundPayment } as unknown as IPaymentProvider);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('ignores the webhook for a refund the provider settled straight away', async () => {
+    await paidRecord('pay_1');
+    refundPayment.mockResolvedValue({
+      success: true,
+      providerRefundReference: 'rf_1',
+      status: 'processed',
+    });
+
+    const started = await startRefund({ reference: 'pay_1', amountCents: 20000 });
+    expect(started).toMatchObject({ success: true, refund: { status: 'processed' } });
+
+    await handleRefundOutcome({
+      provider: 'yoco',
+      transactionReference: 'pay_1',
+      providerRefundReference: 'rf_1',
+      amountCents: 20000,
+      outcome: 'processed',
+    });
+
+    const record = await getPaymentRecordRepository().findById('pay_1');
+    expect(record?.refunds).toHaveLength(1);
+    expect(record?.status).toBe('paid');
+    expect(sendRefundOutcomeEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('settles a pending refund by its provider reference', async () => {
+    await paidRecord('pay_2');
+    refundPayment.mockResolvedValue({
+      success: true,
+      providerRefundReference: 'rf_2',
+      status: 'pending',
+    });
+    await startRefund({ reference: 'pay_2', amountCents: 20000 });
+
+    await handleRefundOutcome({
+      provider: 'yoco',
+      transactionReference: 'pay_2',
+      providerRefundReference: 'rf_2',
+      amountCents: 20000,
+      outcome: 'failed',
+      reason: 'Card closed',
+    });
+
+    const record = await getPaymentRecordRepository().findById('pay_2');
+    expect(record?.refunds).toEqual([
+      expect.objectContaining({ status: 'failed', failureReason: 'Card closed' }),
+    ]);
+  });
+
+  it('records refunds made outside the app', async () => {
+    await paidRecord('pay_3');
+
+    await handleRefundOutcome({
+      provider: 'yoco',
+      transactionReference: 'pay_3',
+      providerRefundReference: 'rf_dashboard',
+      amountCents: 50000,
+      outcome: 'processed',
+    });
+
+    const record = await getPaymentRecordRepository().findById('pay_3');
+    expect(record?.refunds).toEqual([
+      expect.objectContaining({ providerRefundReference: 'rf_dashboard', status: 'processed' }),
+    ]);
+    expect(record?.status).toBe('refunded');
+  });
+});
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { sendRefundOutcomeEmail } from '@/lib/email';
+import { formatAmount } from '@/lib/format';
+import { createLogger } from '@/lib/logging/logger';
+import { lapseRefundedMembership } from '@/lib/memberships/membership-events';
+import { getPaymentRecordRepository } from './payment-record-repository';
+import { getPaymentProvider } from './provider-registry';
+import type { PaymentProviderName, PaymentRecord, RefundRecord } from './types';
+
+const log = createLogger('refunds');
+
+export type StartRefundResult =
+  | { success: true; record: PaymentRecord; refund: RefundRecord }
+  | { success: false; status: number; error: string };
+
+/**
+ * Provider-neutral description of a refund outcome reported by a webhook.
+ */
+export interface RefundEventDetails {
+  provider: PaymentProviderName;
+  /** Reference of the refunded transaction */
+  transactionReference: string;
+  providerRefundReference?: string;
+  amountCents: number;
+  outcome: 'processed' | 'failed';
+  reason?: string;
+}
+
+/** Amount still available to refund, counting refunds that are in flight */
+export function refundableCents(record: PaymentRecord): number {
+  const committed = (record.refunds ?? [])
+    .filter((r) => r.status !== 'failed')
+    .reduce((sum, r) => sum + r.amountCents, 0);
+  return Math.max(0, record.amountCents - committed);
+}
+
+/**
+ * Starts a full or partial refund of a paid payment record through the
+ * provider that took the payment.
+ */
+export async function startRefund(input: {
+  reference: string;
+  amountCents?: number;
+  reason?: string;
+  requestedBy?: string;
+}): Promise<StartRefundResult> {
+  const records = getPaymentRecordRepository();
+  const record =
+    (await records.findById(input.reference)) ??
+    (await records.findByProviderReference(input.reference));
+
+  if (!record) {
+    return { success: false, status: 404, error: 'Payment record not found' };
+  }
+  if (record.status !== 'paid') {
+    return { success: false, status: 409, error: `Cannot refund a ${record.status} payment` };
+  }
+
+  const available = refundableCents(record);
+  const amountCents = input.amountCents ?? available;
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    return { success: false, status: 400, error: 'Refund amount must be a positive number of cents' };
+  }
+  if (amountCents > available) {
+    return {
+      success: false,
+      status: 400,
+      error: `Refund amount exceeds the refundable balance of ${available} cents`,
+    };
+  }
+
+  const provider = getPaymentProvider(record.provider);
+  const result = await provider.refundPayment({
+    providerReference: record.providerReference ?? record.id,
+    // Let the provider refund the whole transaction when nothing was refunded before.
+    amountCents: amountCents === record.amountCents ? undefined : amountCents,
+    reason: input.reason,
+  });
+  if (!result.success) {
+    return { success: false, status: 502, error: result.error ?? 'Refund failed' };
+  }
+
+  const refund: RefundRecord = {
+    id: `ref_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    providerRefundReference: result.providerRefundReference,
+    amountCents,
+    status: 'pending',
+    reason: input.reason,
+    requestedBy: input.requestedBy,
+    requestedAt: new Date().toISOString(),
+  };
+  const updated = await records.addRefund(record.id, refund);
+  if (!updated) {
+    return { success: false, status: 404, error: 'Payment record not found' };
+  }
+
+  if (result.status === 'processed') {
+    const completed = (await settleRefund(updated, refund, 'processed')) ?? updated;
+    return {
+      success: true,
+      record: completed,
+      refund: completed.refunds?.find((r) => r.id === refund.id) ?? refund,
+    };
+  }
+
+  return { success: true, record: updated, refund };
+}
+
+/** Applies a refund.processed / refund.failed webhook. */
+export async function handleRefundOutcome(details: RefundEventDetails): Promise<boolean> {
+  const records = getPaymentRecordRepository();
+  const record =
+    (await records.findById(details.transactionReference)) ??
+    (await records.findByProviderReference(details.transactionReference));
+  if (!record) {
+    log.error('No payment record for refund', {
+      provider: details.provider,
+      reference: details.transactionReference,
+    });
+    return false;
+  }
+
+  // A provider reference identifies the refund whatever its state; refunds
+  // the provider completed straight away are already settled by startRefund.
+  const refund = details.providerRefundReference
+    ? (record.refunds ?? []).find(
+        (r) => r.providerRefundReference === details.providerRefundReference,
+      )
+    : (record.refunds ?? []).find(
+        (r) => r.status === 'pending' && r.amountCents === details.amountCents,
+      );
+
+  if (refund && refund.status !== 'pending') {
+    log.info('Refund already settled', {
+      reference: record.id,
+      refundId: refund.id,
+      status: refund.status,
+    });
+    return true;
+  }
+  if (refund) {
+    await settleRefund(record, refund, details.outcome, details.reason);
+    return true;
+  }
+
+  // Refunds started outside the app (e.g. the provider dashboard) are
+  // recorded as well so our records don't drift from the provider's.
+  const external: RefundRecord = {
+    id: `ref_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    providerRefundReference: details.providerRefundReference,
+    amountCents: details.amountCents,
+    status: 'pending',
+    requestedBy: details.provider,
+    requestedAt: new Date().toISOString(),
+  };
+  const updated = await records.addRefund(record.id, external);
+  if (updated) {
+    await settleRefund(updated, external, details.outcome, details.reason);
+  }
+  return true;
+}
+
+async function settleRefund(
+  record: PaymentRecord,
+  refund: RefundRecord,
+  outcome: 'processed' | 'failed',
+  reason?: string,
+): Promise<PaymentRecord | undefined> {
+  const records = getPaymentRecordRepository();
+  let updated = await records.updateRefund(record.id, refund.id, {
+    status: outcome,
+    completedAt: new Date().toISOString(),
+    ...(outcome === 'failed' && reason ? { failureReason: reason } : {}),
+  });
+
+  const refundedCents = (updated?.refunds ?? [])
+    .filter((r) => r.status === 'processed')
+    .reduce((sum, r) => sum + r.amountCents, 0);
+  if (updated && refundedCents >= updated.amountCents) {
+    updated = await records.updateStatus(record.id, {
+      status: 'refunded',
+      source: 'webhook',
+      note: 'Fully refunded',
+    });
+    await lapseRefundedMembership(record.member.email, record.id).catch((error) => {
+      log.error('Failed to end membership after refund', { reference: record.id, error });
+    });
+  }
+
+  await sendRefundOutcomeEmail({
+    name: record.member.name,
+    email: record.member.email,
+    amount: formatAmount(refund.amountCents, record.currency),
+    reference: record.id,
+    outcome,
+    reason: outcome === 'failed' ? reason : refund.reason,
+    locale: record.member.locale,
+  });
+
+  return updated;
+}
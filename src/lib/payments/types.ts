@@ -2,36 +2,51 @@
  * Payment Provider — Type Definitions
  */
 
-export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'cancelled';
-export type PaymentProviderName = 'paystack';
+import type { AppliedDiscount } from '@/lib/discounts/types';
+import type { Locale } from '@/lib/i18n/config';
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refunded';
+export type PaymentProviderName = 'paystack' | 'yoco';
+
+export type PlanInterval = 'monthly' | 'quarterly' | 'annual';
 
 export interface Plan {
   id: string;
   name: string;
   description: string;
-  /** Amount in cents (ZAR). E.g. R399 → 39900 */
+  /** Amount in cents (ZAR) charged per billing interval. E.g. R399 → 39900 */
   amountCents: number;
   currency: 'ZAR';
-  interval: 'monthly';
+  interval: PlanInterval;
+  /** Number of months one payment covers */
+  months: number;
 }
 
 export interface CreateCheckoutInput {
   planId: string;
   userId: string;
   paymentRecordId: string;
-  metadata: {
-    name: string;
-    email: string;
-    phone: string;
-    bodyGoals?: string;
-    referralName?: string;
-  };
+  metadata: MemberDetails;
+  /** Discount applied at checkout; the provider charges its amountCents */
+  discount?: AppliedDiscount;
+  /** Correlation ID of the request that started checkout; webhooks log it back */
+  correlationId?: string;
 }
 
+/**
+ * How a checkout bills the member:
+ * subscription           — the checkout itself starts recurring billing
+ * deferred_subscription  — a discounted first payment; recurring billing at
+ *                          the full price starts once the next period begins
+ * one_off                — a single payment that never renews
+ */
+export type PaymentBilling = 'subscription' | 'deferred_subscription' | 'one_off';
+
 export interface CreateCheckoutOutput {
   success: boolean;
   checkoutUrl?: string;
   providerReference?: string;
+  billing?: PaymentBilling;
   error?: string;
 }
 
@@ -42,8 +57,234 @@ export interface VerifyPaymentOutput {
   error?: string;
 }
 
+export interface MemberDetails {
+  name: string;
+  email: string;
+  phone: string;
+  bodyGoals?: string;
+  /** Referrer's name, filled in from a validated referral code */
+  referralName?: string;
+  referralCode?: string;
+  /** Language chosen on the form; member emails are sent in it */
+  locale?: Locale;
+}
+
+/** Where a status change came from */
+export type PaymentStatusSource = 'checkout' | 'webhook' | 'verification' | 'reconciliation';
+
+export interface PaymentStatusChange {
+  status: PaymentStatus;
+  source: PaymentStatusSource;
+  /** ISO timestamp */
+  at: string;
+  note?: string;
+}
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+/** A full or partial refund of a payment record */
+export interface RefundRecord {
+  /** Our own refund id (ref_<ts>_<hex>) */
+  id: string;
+  providerRefundReference?: string;
+  amountCents: number;
+  status: RefundStatus;
+  reason?: string;
+  /** Who started the refund, e.g. an admin identifier */
+  requestedBy?: string;
+  requestedAt: string;
+  completedAt?: string;
+  failureReason?: string;
+}
+
+/**
+ * One checkout attempt, stored from the moment a member submits the
+ * subscribe form. `id` is our own reference (pay_<ts>_<hex>) which is also
+ * sent to the provider as the transaction reference.
+ */
+export interface PaymentRecord {
+  id: string;
+  provider: PaymentProviderName;
+  providerReference?: string;
+  planId: string;
+  amountCents: number;
+  currency: 'ZAR';
+  member: MemberDetails;
+  status: PaymentStatus;
+  statusHistory: PaymentStatusChange[];
+  checkoutUrl?: string;
+  paidAt?: string;
+  discount?: AppliedDiscount;
+  /** Absent on records from before billing was tracked */
+  billing?: PaymentBilling;
+  /** Subscription started after a `deferred_subscription` payment succeeded */
+  subscriptionCode?: string;
+  refunds?: RefundRecord[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewPaymentRecord {
+  id: string;
+  provider: PaymentProviderName;
+  planId: string;
+  amountCents: number;
+  currency: 'ZAR';
+  member: MemberDetails;
+  discount?: AppliedDiscount;
+}
+
+/** Contract for persisting payment records */
+export interface IPaymentRecordRepository {
+  create(input: NewPaymentRecord): Promise<PaymentRecord>;
+  findById(id: string): Promise<PaymentRecord | undefined>;
+  findByProviderReference(providerReference: string): Promise<PaymentRecord | undefined>;
+  findByEmail(email: string): Promise<PaymentRecord[]>;
+  list(): Promise<PaymentRecord[]>;
+  attachCheckout(
+    id: string,
+    checkout: { providerReference: string; checkoutUrl: string; billing?: PaymentBilling },
+  ): Promise<PaymentRecord | undefined>;
+  attachSubscription(id: string, subscriptionCode: string): Promise<PaymentRecord | undefined>;
+  updateStatus(
+    id: string,
+    change: { status: PaymentStatus; source: PaymentStatusSource; note?: string; paidAt?: string },
+  ): Promise<PaymentRecord | undefined>;
+  addRefund(id: string, refund: RefundRecord): Promise<PaymentRecord | undefined>;
+  updateRefund(
+    id: string,
+    refundId: string,
+    patch: Partial<Omit<RefundRecord, 'id'>>,
+  ): Promise<PaymentRecord | undefined>;
+}
+
+/** What happened when a webhook event was processed */
+export type WebhookEventOutcome = 'processing' | 'handled' | 'ignored' | 'failed';
+
+/**
+ * A verified webhook delivery. `id` is `<provider>:<eventType>:<reference>`,
+ * so provider retries of the same event land on the same entry.
+ */
+export interface WebhookEventRecord {
+  id: string;
+  provider: PaymentProviderName;
+  eventType: string;
+  reference: string;
+  payload: unknown;
+  outcome: WebhookEventOutcome;
+  /** Number of times processing was started */
+  attempts: number;
+  /** Number of times the provider delivered this event */
+  deliveries: number;
+  error?: string;
+  receivedAt: string;
+  lastReceivedAt: string;
+  /** When the current processing attempt started; redeliveries leave it alone */
+  processingStartedAt?: string;
+  processedAt?: string;
+}
+
+/** Contract for the durable webhook event log */
+export interface IWebhookEventLog {
+  /**
+   * Records a delivery. Returns `duplicate: true` when the event was already
+   * processed (or is being processed) and must not run its side effects again.
+   */
+  begin(input: {
+    provider: PaymentProviderName;
+    eventType: string;
+    reference: string;
+    payload: unknown;
+  }): Promise<{ event: WebhookEventRecord; duplicate: boolean }>;
+  complete(
+    id: string,
+    outcome: Exclude<WebhookEventOutcome, 'processing'>,
+    error?: string,
+  ): Promise<WebhookEventRecord | undefined>;
+  findByReference(reference: string): Promise<WebhookEventRecord[]>;
+  list(): Promise<WebhookEventRecord[]>;
+}
+
+export interface CancelSubscriptionInput {
+  subscriptionCode: string;
+  /** Paystack's per-subscription email token, required to disable it */
+  emailToken?: string;
+}
+
+export interface CancelSubscriptionOutput {
+  success: boolean;
+  error?: string;
+}
+
+export interface StartSubscriptionInput {
+  planId: string;
+  email: string;
+  customerCode?: string;
+  /** Reusable card authorization from the payment that preceded this */
+  authorizationCode?: string;
+  /** ISO date of the first recurring charge */
+  startDate: string;
+}
+
+export interface StartSubscriptionOutput {
+  success: boolean;
+  subscriptionCode?: string;
+  error?: string;
+}
+
+export interface RefundPaymentInput {
+  providerReference: string;
+  /** Amount to refund in cents; omit for a full refund */
+  amountCents?: number;
+  reason?: string;
+}
+
+export interface RefundPaymentOutput {
+  success: boolean;
+  providerRefundReference?: string;
+  /** Some providers settle refunds immediately, others report back by webhook */
+  status?: Exclude<RefundStatus, 'failed'>;
+  error?: string;
+}
+
+export interface CheckConnectionOutput {
+  success: boolean;
+  error?: string;
+}
+
+/** A transaction as reported by the provider's own transaction listing */
+export interface ProviderTransaction {
+  /** The transaction reference — our record id for checkouts we created */
+  reference: string;
+  status: PaymentStatus;
+  amountCents: number;
+  currency: string;
+  paidAt?: string;
+  createdAt: string;
+  email?: string;
+  /** Our payment record id, when echoed back in metadata */
+  paymentRecordId?: string;
+  /** Our plan id, when the transaction was charged on a provider plan */
+  planId?: string;
+}
+
+export interface ListTransactionsOutput {
+  success: boolean;
+  transactions?: ProviderTransaction[];
+  error?: string;
+}
+
 /** Contract every payment provider must fulfil */
 export interface IPaymentProvider {
+  readonly name: PaymentProviderName;
   createCheckout(input: CreateCheckoutInput): Promise<CreateCheckoutOutput>;
   verifyPayment(providerReference: string): Promise<VerifyPaymentOutput>;
+  /** Starts recurring billing on a card the member has already paid with */
+  startSubscription(input: StartSubscriptionInput): Promise<StartSubscriptionOutput>;
+  /** Stops future charges on a recurring subscription */
+  cancelSubscription(input: CancelSubscriptionInput): Promise<CancelSubscriptionOutput>;
+  /** Refunds all or part of a successful payment */
+  refundPayment(input: RefundPaymentInput): Promise<RefundPaymentOutput>;
+  /** Confirms the API is reachable and accepts the secret key, for the readiness check */
+  checkConnection(timeoutMs: number): Promise<CheckConnectionOutput>;
 }
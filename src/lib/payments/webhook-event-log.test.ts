@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileWebhookEventLog, webhookEventId } from './webhook-event-log';
+
+const delivery = {
+  provider: 'paystack' as const,
+  eventType: 'charge.success',
+  reference: 'pay_123',
+  payload: { event: 'charge.success' },
+};
+
+describe('FileWebhookEventLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-events-'));
+    vi.stubEnv('DATA_DIR', dir);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('processes the first delivery and skips redeliveries', async () => {
+    const log = new FileWebhookEventLog();
+
+    const first = await log.begin(delivery);
+    expect(first.duplicate).toBe(false);
+    expect(first.event.id).toBe(webhookEventId('paystack', 'charge.success', 'pay_123'));
+
+    await log.complete(first.event.id, 'handled');
+    const second = await log.begin(delivery);
+    expect(second.duplicate).toBe(true);
+    expect(second.event.deliveries).toBe(2);
+    expect(second.event.attempts).toBe(1);
+  });
+
+  it('skips a redelivery while the first attempt is still processing', async () => {
+    const log = new FileWebhookEventLog();
+    await log.begin(delivery);
+
+    const again = await log.begin(delivery);
+    expect(again.duplicate).toBe(true);
+    expect(again.event.outcome).toBe('processing');
+  });
+
+  it('retries a failed event on redelivery', async () => {
+    const log = new FileWebhookEventLog();
+    const first = await log.begin(delivery);
+    await log.complete(first.event.id, 'failed', 'Store unavailable');
+
+    const retry = await log.begin(delivery);
+    expect(retry.duplicate).toBe(false);
+    expect(retry.event.attempts).toBe(2);
+    expect(retry.event.error).toBeUndefined();
+  });
+
+  it('picks up an attempt abandoned in processing, however often it was redelivered', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    const log = new FileWebhookEventLog();
+    await log.begin(delivery);
+
+    // Redeliveries during the attempt don't push back when it counts as stale.
+    vi.setSystemTime(new Date('2026-03-01T10:04:00Z'));
+    expect((await log.begin(delivery)).duplicate).toBe(true);
+
+    vi.setSystemTime(new Date('2026-03-01T10:06:00Z'));
+    const retry = await log.begin(delivery);
+    expect(retry.duplicate).toBe(false);
+    expect(retry.event.attempts).toBe(2);
+  });
+});
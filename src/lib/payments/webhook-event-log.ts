@@ -0,0 +1,124 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type {
+  IWebhookEventLog,
+  PaymentProviderName,
+  WebhookEventOutcome,
+  WebhookEventRecord,
+} from './types';
+
+interface WebhookEventDocument {
+  events: Record<string, WebhookEventRecord>;
+}
+
+/**
+ * An event stuck in `processing` for longer than this is assumed to belong to
+ * a crashed request and may be picked up again by the next delivery.
+ */
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export function webhookEventId(
+  provider: PaymentProviderName,
+  eventType: string,
+  reference: string,
+): string {
+  return `${provider}:${eventType}:${reference}`;
+}
+
+/**
+ * Stores every verified webhook event in data/webhook-events.json together
+ * with its processing outcome.
+ */
+export class FileWebhookEventLog implements IWebhookEventLog {
+  private readonly store = new JsonFileStore<WebhookEventDocument>(
+    'webhook-events.json',
+    () => ({ events: {} }),
+  );
+
+  async begin(input: {
+    provider: PaymentProviderName;
+    eventType: string;
+    reference: string;
+    payload: unknown;
+  }): Promise<{ event: WebhookEventRecord; duplicate: boolean }> {
+    const id = webhookEventId(input.provider, input.eventType, input.reference);
+
+    return this.store.update((doc) => {
+      const now = new Date();
+      const existing = doc.events[id];
+
+      if (existing) {
+        // Records written before processingStartedAt existed fall back to receivedAt.
+        const startedAt = existing.processingStartedAt ?? existing.receivedAt;
+        const stale =
+          existing.outcome === 'processing' &&
+          now.getTime() - new Date(startedAt).getTime() > STALE_PROCESSING_MS;
+        existing.deliveries += 1;
+        existing.lastReceivedAt = now.toISOString();
+
+        if (existing.outcome !== 'failed' && !stale) {
+          return { event: existing, duplicate: true };
+        }
+
+        // Failed (or abandoned) events are retried on redelivery.
+        existing.outcome = 'processing';
+        existing.processingStartedAt = now.toISOString();
+        existing.attempts += 1;
+        existing.payload = input.payload;
+        delete existing.error;
+        return { event: existing, duplicate: false };
+      }
+
+      const event: WebhookEventRecord = {
+        id,
+        provider: input.provider,
+        eventType: input.eventType,
+        reference: input.reference,
+        payload: input.payload,
+        outcome: 'processing',
+        attempts: 1,
+        deliveries: 1,
+        receivedAt: now.toISOString(),
+        lastReceivedAt: now.toISOString(),
+        processingStartedAt: now.toISOString(),
+      };
+      doc.events[id] = event;
+      return { event, duplicate: false };
+    });
+  }
+
+  async complete(
+    id: string,
+    outcome: Exclude<WebhookEventOutcome, 'processing'>,
+    error?: string,
+  ): Promise<WebhookEventRecord | undefined> {
+    return this.store.update((doc) => {
+      const event = doc.events[id];
+      if (!event) return undefined;
+
+      event.outcome = outcome;
+      event.processedAt = new Date().toISOString();
+      if (error) {
+        event.error = error;
+      }
+      return event;
+    });
+  }
+
+  async findByReference(reference: string): Promise<WebhookEventRecord[]> {
+    const events = await this.list();
+    return events.filter((e) => e.reference === reference);
+  }
+
+  /** All events, newest first */
+  async list(): Promise<WebhookEventRecord[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.events).sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+}
+
+let eventLog: IWebhookEventLog | undefined;
+
+export function getWebhookEventLog(): IWebhookEventLog {
+  eventLog ??= new FileWebhookEventLog();
+  return eventLog;
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { YocoProvider } from './yoco-provider';
+
+const KEY = crypto.randomBytes(24);
+const body = JSON.stringify({ type: 'payment.succeeded', payload: { id: 'p_123' } });
+
+function headers(rawBody: string, timestamp = Math.floor(Date.now() / 1000), key = KEY) {
+  const id = 'msg_123';
+  const signature = crypto
+    .createHmac('sha256', key)
+    .update(`${id}.${timestamp}.${rawBody}`)
+    .digest('base64');
+  return { id, timestamp: String(timestamp), signature: `v1,${signature}` };
+}
+
+describe('YocoProvider.verifyWebhookSignature', () => {
+  beforeEach(() => {
+    vi.stubEnv('YOCO_WEBHOOK_SECRET', `whsec_${KEY.toString('base64')}`);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a body signed with the webhook secret', () => {
+    expect(YocoProvider.verifyWebhookSignature(body, headers(body))).toBe(true);
+  });
+
+  it('accepts any matching entry when several signatures are sent', () => {
+    const signed = headers(body);
+    const rotated = { ...signed, signature: `v1,c29tZXRoaW5nIGVsc2U= ${signed.signature}` };
+    expect(YocoProvider.verifyWebhookSignature(body, rotated)).toBe(true);
+  });
+
+  it('rejects a tampered body or a signature made with another secret', () => {
+    expect(YocoProvider.verifyWebhookSignature(`${body} `, headers(body))).toBe(false);
+    const other = headers(body, undefined, crypto.randomBytes(24));
+    expect(YocoProvider.verifyWebhookSignature(body, other)).toBe(false);
+  });
+
+  it('rejects deliveries outside the replay window', () => {
+    const old = headers(body, Math.floor(Date.now() / 1000) - 10 * 60);
+    expect(YocoProvider.verifyWebhookSignature(body, old)).toBe(false);
+  });
+
+  it('rejects everything when no webhook secret is configured', () => {
+    vi.stubEnv('YOCO_WEBHOOK_SECRET', '');
+    expect(YocoProvider.verifyWebhookSignature(body, headers(body))).toBe(false);
+  });
+});
@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import type {
+  IPaymentProvider,
+  CancelSubscriptionInput,
+  CancelSubscriptionOutput,
+  CheckConnectionOutput,
+  CreateCheckoutInput,
+  CreateCheckoutOutput,
+  VerifyPaymentOutput,
+  PaymentStatus,
+  RefundPaymentInput,
+  RefundPaymentOutput,
+  StartSubscriptionInput,
+  StartSubscriptionOutput,
+} from './types';
+import { getPlan } from './plans';
+
+const YOCO_API_BASE = 'https://payments.yoco.com/api';
+
+/** Webhooks older than this are rejected to limit replay attacks */
+const WEBHOOK_TOLERANCE_SECONDS = 3 * 60;
+
+interface YocoRefundResponse {
+  refundId?: string;
+  status?: 'succeeded' | string;
+  message?: string;
+  description?: string;
+}
+
+interface YocoCheckoutResponse {
+  id?: string;
+  redirectUrl?: string;
+  status?: 'created' | 'started' | 'processing' | 'completed' | 'expired' | string;
+  paymentId?: string | null;
+  message?: string;
+  description?: string;
+}
+
+export interface YocoWebhookHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+/**
+ * Implements the payment provider interface using Yoco Checkout.
+ *
+ * Yoco has no recurring billing, so checkouts are once-off charges of the
+ * plan amount. It is intended as a fail-over while Paystack is unavailable.
+ *
+ * Required env vars:
+ *   YOCO_SECRET_KEY
+ *   YOCO_WEBHOOK_SECRET
+ *   APP_BASE_URL
+ */
+export class YocoProvider implements IPaymentProvider {
+  readonly name = 'yoco' as const;
+
+  private get secretKey(): string {
+    return process.env.YOCO_SECRET_KEY ?? '';
+  }
+
+  private get baseUrl(): string {
+    return (process.env.APP_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+  }
+
+  async createCheckout(input: CreateCheckoutInput): Promise<CreateCheckoutOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'YOCO_SECRET_KEY is not configured' };
+    }
+
+    const plan = getPlan(input.planId);
+    if (!plan) {
+      return { success: false, error: `Unknown plan: ${input.planId}` };
+    }
+
+    const ref = encodeURIComponent(input.paymentRecordId);
+    const payload = {
+      amount: input.discount?.amountCents ?? plan.amountCents,
+      currency: plan.currency,
+      successUrl: `${this.baseUrl}/payment-success?ref=${ref}`,
+      cancelUrl: `${this.baseUrl}/payment-cancelled?ref=${ref}`,
+      failureUrl: `${this.baseUrl}/payment-cancelled?ref=${ref}`,
+      externalId: input.paymentRecordId,
+      metadata: {
+        paymentRecordId: input.paymentRecordId,
+        userId: input.userId,
+        planId: input.planId,
+        name: input.metadata.name,
+        email: input.metadata.email,
+        phone: input.metadata.phone,
+        bodyGoals: input.metadata.bodyGoals ?? '',
+        referralName: input.metadata.referralName ?? '',
+        referralCode: input.metadata.referralCode ?? '',
+        discountCode: input.discount?.code ?? '',
+        correlationId: input.correlationId ?? '',
+      },
+    };
+
+    try {
+      const response = await fetch(`${YOCO_API_BASE}/checkouts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.secretKey}`,
+          'Idempotency-Key': input.paymentRecordId,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as YocoCheckoutResponse;
+      if (!response.ok || !data.id || !data.redirectUrl) {
+        return {
+          success: false,
+          error: data.message || data.description || `Yoco API error ${response.status}`,
+        };
+      }
+
+      return {
+        success: true,
+        checkoutUrl: data.redirectUrl,
+        providerReference: data.id,
+        billing: 'one_off',
+      };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to create Yoco checkout: ${message}` };
+    }
+  }
+
+  async verifyPayment(providerReference: string): Promise<VerifyPaymentOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'YOCO_SECRET_KEY is not configured' };
+    }
+
+    try {
+      const response = await fetch(
+        `${YOCO_API_BASE}/checkouts/${encodeURIComponent(providerReference)}`,
+        {
+          headers: { Authorization: `Bearer ${this.secretKey}` },
+        },
+      );
+
+      const data = (await response.json().catch(() => ({}))) as YocoCheckoutResponse;
+      if (!response.ok || !data.status) {
+        return {
+          success: false,
+          error: data.message || data.description || `Yoco API error ${response.status}`,
+        };
+      }
+
+      const statusMap: Record<string, PaymentStatus> = {
+        completed: 'paid',
+        expired: 'cancelled',
+      };
+      const status = statusMap[data.status] ?? 'pending';
+
+      return { success: true, status };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to verify Yoco payment: ${message}` };
+    }
+  }
+
+  async startSubscription(_input: StartSubscriptionInput): Promise<StartSubscriptionOutput> {
+    return { success: false, error: 'Yoco has no recurring billing' };
+  }
+
+  async cancelSubscription(_input: CancelSubscriptionInput): Promise<CancelSubscriptionOutput> {
+    return { success: false, error: 'Yoco checkouts are once-off; there is no subscription to cancel' };
+  }
+
+  async refundPayment(input: RefundPaymentInput): Promise<RefundPaymentOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'YOCO_SECRET_KEY is not configured' };
+    }
+
+    const payload: Record<string, unknown> = {};
+    if (input.amountCents !== undefined) {
+      payload.amount = input.amountCents;
+    }
+    if (input.reason) {
+      payload.metadata = { reason: input.reason };
+    }
+
+    try {
+      const response = await fetch(
+        `${YOCO_API_BASE}/checkouts/${encodeURIComponent(input.providerReference)}/refund`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.secretKey}`,
+          },
+          body: JSON.stringify(payload),
+        },
+      );
+
+      const data = (await response.json().catch(() => ({}))) as YocoRefundResponse;
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.message || data.description || `Yoco API error ${response.status}`,
+        };
+      }
+
+      return {
+        success: true,
+        providerRefundReference: data.refundId,
+        status: data.status === 'succeeded' ? 'processed' : 'pending',
+      };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Failed to create Yoco refund: ${message}` };
+    }
+  }
+
+  /**
+   * Confirms the API is reachable and accepts the secret key, for the
+   * readiness check. Lists the registered webhooks; nothing is changed.
+   */
+  async checkConnection(timeoutMs: number): Promise<CheckConnectionOutput> {
+    if (!this.secretKey) {
+      return { success: false, error: 'YOCO_SECRET_KEY is not configured' };
+    }
+
+    try {
+      const response = await fetch(`${YOCO_API_BASE}/webhooks`, {
+        headers: { Authorization: `Bearer ${this.secretKey}` },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.status === 401 || response.status === 403) {
+        return { success: false, error: 'Yoco rejected YOCO_SECRET_KEY' };
+      }
+      if (!response.ok) {
+        return { success: false, error: `Yoco API error ${response.status}` };
+      }
+      return { success: true };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Network error';
+      return { success: false, error: `Yoco API unreachable: ${message}` };
+    }
+  }
+
+  /**
+   * Verifies a Yoco webhook. Yoco signs `<webhook-id>.<webhook-timestamp>.<body>`
+   * with HMAC-SHA256, keyed by the base64 part of the `whsec_` secret, and
+   * sends one or more `v1,<signature>` entries in the webhook-signature header.
+   */
+  static verifyWebhookSignature(rawBody: string, headers: YocoWebhookHeaders): boolean {
+    const secret = process.env.YOCO_WEBHOOK_SECRET ?? '';
+    if (!secret || !headers.id || !headers.timestamp || !headers.signature) return false;
+
+    const timestamp = Number(headers.timestamp);
+    if (!Number.isFinite(timestamp)) return false;
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+    const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+    const expectedSignature = crypto
+      .createHmac('sha256', key)
+      .update(`${headers.id}.${headers.timestamp}.${rawBody}`)
+      .digest('base64');
+
+    return headers.signature.split(' ').some((entry) => {
+      const [version, signature] = entry.split(',');
+      if (version !== 'v1' || !signature) return false;
+      try {
+        return crypto.timingSafeEqual(
+          Buffer.from(signature, 'utf8'),
+          Buffer.from(expectedSignature, 'utf8'),
+        );
+      } catch {
+        return false;
+      }
+    });
+  }
+}
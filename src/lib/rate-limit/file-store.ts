@@ -0,0 +1,33 @@
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { IRateLimitStore, RateLimitBucket } from './types';
+
+interface RateLimitDocument {
+  buckets: Record<string, RateLimitBucket>;
+}
+
+/**
+ * Counts hits in data/rate-limits.json, so limits survive restarts and are
+ * shared by every process using the same data directory.
+ */
+export class FileRateLimitStore implements IRateLimitStore {
+  readonly name = 'file' as const;
+  private readonly store = new JsonFileStore<RateLimitDocument>('rate-limits.json', () => ({
+    buckets: {},
+  }));
+
+  async hit(key: string, windowMs: number): Promise<RateLimitBucket> {
+    return this.store.update((doc) => {
+      const now = Date.now();
+      for (const [bucketKey, bucket] of Object.entries(doc.buckets)) {
+        if (bucket.resetAt <= now) delete doc.buckets[bucketKey];
+      }
+
+      const current = doc.buckets[key];
+      const bucket = current
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: now + windowMs };
+      doc.buckets[key] = bucket;
+      return bucket;
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import type { IRateLimitStore, RateLimitBucket } from './types';
+
+/** Expired buckets are swept once the map grows past this */
+const SWEEP_THRESHOLD = 1000;
+
+// Shared across route bundles so every route counts against the same buckets.
+const globalBuckets = globalThis as typeof globalThis & {
+  __rateLimitBuckets?: Map<string, RateLimitBucket>;
+};
+
+/** Counts hits in process memory; limits reset when the server restarts. */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  readonly name = 'memory' as const;
+  private readonly buckets = (globalBuckets.__rateLimitBuckets ??= new Map());
+
+  async hit(key: string, windowMs: number): Promise<RateLimitBucket> {
+    const now = Date.now();
+    if (this.buckets.size > SWEEP_THRESHOLD) {
+      for (const [bucketKey, bucket] of this.buckets) {
+        if (bucket.resetAt <= now) this.buckets.delete(bucketKey);
+      }
+    }
+
+    const current = this.buckets.get(key);
+    const bucket =
+      current && current.resetAt > now
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: now + windowMs };
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, clientIp } from './rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+
+/** A key no other test has counted against */
+function freshKey(): string {
+  return `test:${crypto.randomUUID()}`;
+}
+
+describe('checkRateLimit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('allows hits up to the limit and refuses the next with a retry time', async () => {
+    const rule = { key: freshKey(), limit: 3, windowMs: 10 * MINUTE_MS };
+
+    for (let i = 0; i < 3; i++) {
+      expect(await checkRateLimit([rule])).toEqual({ allowed: true });
+    }
+    const refused = await checkRateLimit([rule]);
+    if (refused.allowed) throw new Error('Expected the fourth hit to be refused');
+    expect(refused.retryAfterSeconds).toBeGreaterThan(9 * 60);
+    expect(refused.retryAfterSeconds).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it('starts counting again once the window has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    const rule = { key: freshKey(), limit: 1, windowMs: MINUTE_MS };
+
+    await checkRateLimit([rule]);
+    expect((await checkRateLimit([rule])).allowed).toBe(false);
+
+    vi.setSystemTime(new Date('2026-03-01T10:01:01Z'));
+    expect((await checkRateLimit([rule])).allowed).toBe(true);
+  });
+
+  it('refuses when any one rule is over its limit', async () => {
+    const perIp = { key: freshKey(), limit: 10, windowMs: MINUTE_MS };
+    const perEmail = { key: freshKey(), limit: 1, windowMs: MINUTE_MS };
+
+    expect((await checkRateLimit([perIp, perEmail])).allowed).toBe(true);
+    expect((await checkRateLimit([perIp, perEmail])).allowed).toBe(false);
+  });
+
+  it('counts in the data directory with the file store', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limit-'));
+    vi.stubEnv('DATA_DIR', dir);
+    vi.stubEnv('RATE_LIMIT_STORE', 'file');
+    try {
+      const rule = { key: freshKey(), limit: 2, windowMs: MINUTE_MS };
+      const results = await Promise.all([1, 2, 3].map(() => checkRateLimit([rule])));
+      expect(results.filter((result) => result.allowed)).toHaveLength(2);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('clientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function request(headers: Record<string, string>) {
+    return new NextRequest('http://localhost/api/subscribe', { headers });
+  }
+
+  it('takes the address the proxy appended, not one the client supplied', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('skips as many entries as there are trusted proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    const forwarded = { 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' };
+    expect(clientIp(request(forwarded))).toBe('203.0.113.7');
+  });
+
+  it('uses the only entry when there are fewer than the trusted hops', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '3');
+    expect(clientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, then unknown', () => {
+    expect(clientIp(request({ 'x-real-ip': '203.0.113.9' }))).toBe('203.0.113.9');
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logging/logger';
+import { getRateLimitStore } from './store-registry';
+import type { RateLimitResult, RateLimitRule } from './types';
+
+const log = createLogger('rate-limit');
+
+/** Reverse proxies in front of the app that each append the address they saw to X-Forwarded-For */
+function trustedProxyHops(): number {
+  const value = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(value) && value > 0 ? value : 1;
+}
+
+/**
+ * The caller's address: the X-Forwarded-For entry added by the outermost
+ * trusted proxy. Entries to its left come from the client and can be forged.
+ * Without a proxy, Next.js fills the header with the socket address.
+ */
+export function clientIp(request: NextRequest): string {
+  const entries = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const forwarded = entries[Math.max(entries.length - trustedProxyHops(), 0)];
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Counts a hit against every rule and refuses when any is over its limit.
+ * A store failure lets the request through rather than locking everyone out.
+ */
+export async function checkRateLimit(rules: RateLimitRule[]): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  let retryAfterMs = 0;
+
+  for (const rule of rules) {
+    try {
+      const bucket = await store.hit(rule.key, rule.windowMs);
+      if (bucket.count > rule.limit) {
+        retryAfterMs = Math.max(retryAfterMs, bucket.resetAt - Date.now());
+      }
+    } catch (error) {
+      log.error('Store failed', { key: rule.key, error });
+    }
+  }
+
+  return retryAfterMs > 0
+    ? { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) }
+    : { allowed: true };
+}
+
+/** 429 with a Retry-After header, for a request refused by `checkRateLimit`. */
+export function tooManyRequests(retryAfterSeconds: number): NextResponse {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return NextResponse.json(
+    {
+      error: `Too many requests. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      retryAfterSeconds,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+  );
+}
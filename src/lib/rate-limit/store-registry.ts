@@ -0,0 +1,35 @@
+import { createLogger } from '@/lib/logging/logger';
+import { FileRateLimitStore } from './file-store';
+import { MemoryRateLimitStore } from './memory-store';
+import type { IRateLimitStore, RateLimitStoreName } from './types';
+
+const log = createLogger('rate-limit');
+
+const STORES: Record<RateLimitStoreName, () => IRateLimitStore> = {
+  memory: () => new MemoryRateLimitStore(),
+  file: () => new FileRateLimitStore(),
+};
+
+function isRateLimitStoreName(value: string): value is RateLimitStoreName {
+  return Object.prototype.hasOwnProperty.call(STORES, value);
+}
+
+/** Store selected with RATE_LIMIT_STORE; in-memory unless configured otherwise. */
+export function getActiveRateLimitStoreName(): RateLimitStoreName {
+  const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+  if (configured) {
+    if (isRateLimitStoreName(configured)) return configured;
+    log.error('Unknown RATE_LIMIT_STORE, using memory', { configured });
+  }
+  return 'memory';
+}
+
+let store: IRateLimitStore | undefined;
+
+export function getRateLimitStore(): IRateLimitStore {
+  const name = getActiveRateLimitStoreName();
+  if (store?.name !== name) {
+    store = STORES[name]();
+  }
+  return store;
+}
@@ -0,0 +1,34 @@
+/**
+ * Rate Limiting — Type Definitions
+ */
+
+export type RateLimitStoreName = 'memory' | 'file';
+
+/** Hits counted for one key in the current window */
+export interface RateLimitBucket {
+  count: number;
+  /** Unix ms when the window ends and the count starts again */
+  resetAt: number;
+}
+
+/**
+ * Where hit counts live. The in-memory store suits a single server; a shared
+ * backend (the data-file store, or e.g. Redis) keeps limits across restarts
+ * and instances.
+ */
+export interface IRateLimitStore {
+  readonly name: RateLimitStoreName;
+  /** Counts one hit against `key` and returns the bucket after it. */
+  hit(key: string, windowMs: number): Promise<RateLimitBucket>;
+}
+
+export interface RateLimitRule {
+  /** e.g. `subscribe:ip:203.0.113.7` */
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
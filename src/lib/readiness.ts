@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlunkTransport } from '@/lib/email/transports/plunk-transport';
+import { getActiveTransportName } from '@/lib/email/transports/transport-registry';
+import { getPaymentProvider } from '@/lib/payments/provider-registry';
+import { signingSecret } from '@/lib/signed-tokens';
+import { dataDir } from '@/lib/storage/json-file-store';
+
+/**
+ * Readiness checks behind /api/ready: is everything a sign-up needs
+ * configured and reachable? Liveness (/api/health) deliberately checks none
+ * of this, so a Paystack outage never gets the container restarted.
+ */
+
+export type ReadinessCheckName =
+  | 'payments'
+  | 'email'
+  | 'appBaseUrl'
+  | 'linkSigning'
+  | 'dataStore';
+
+export interface ReadinessCheck {
+  status: 'ok' | 'fail';
+  /** What was found, or why the check failed */
+  message: string;
+  durationMs: number;
+}
+
+export interface ReadinessReport {
+  /** `degraded` when any check fails */
+  status: 'ready' | 'degraded';
+  checkedAt: string;
+  checks: Record<ReadinessCheckName, ReadinessCheck>;
+}
+
+/** Well inside the 10s the Docker healthcheck allows */
+const CHECK_TIMEOUT_MS = 4000;
+
+/** Probes within this long share one report, so polling can't hammer the providers */
+const REPORT_CACHE_MS = 5000;
+
+/** Checks the provider new checkouts go to (PAYMENTS_PROVIDER). */
+async function checkPayments(): Promise<string> {
+  const provider = getPaymentProvider();
+  const result = await provider.checkConnection(CHECK_TIMEOUT_MS);
+  if (!result.success) throw new Error(result.error);
+  return `${provider.name} API reachable and secret key accepted`;
+}
+
+async function checkEmail(): Promise<string> {
+  const transport = getActiveTransportName();
+  if (transport !== 'plunk') {
+    return `Using the ${transport} transport; Plunk is not needed`;
+  }
+  await new PlunkTransport().checkConnection(CHECK_TIMEOUT_MS);
+  return 'Plunk API reachable; key configured';
+}
+
+async function checkAppBaseUrl(): Promise<string> {
+  const configured = process.env.APP_BASE_URL?.trim();
+  if (!configured) throw new Error('APP_BASE_URL is not configured');
+
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error('APP_BASE_URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('APP_BASE_URL must be an http(s) URL');
+  }
+  return `Links point to ${url.origin}`;
+}
+
+/** Emailed links and the sign-up forms' timing tokens are signed with it. */
+async function checkLinkSigning(): Promise<string> {
+  signingSecret();
+  return 'LINK_SIGNING_SECRET configured';
+}
+
+/** Writes and removes a probe file, the same way the stores write their documents. */
+async function checkDataStore(): Promise<string> {
+  const dir = dataDir();
+  const probe = path.join(dir, `.ready-${process.pid}.tmp`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(probe, new Date().toISOString(), 'utf8');
+  await fs.unlink(probe);
+  return 'Data directory is writable';
+}
+
+/** A stuck volume or socket fails the check instead of hanging the probe. */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(check: () => Promise<string>): Promise<ReadinessCheck> {
+  const startedAt = Date.now();
+  try {
+    const message = await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return { status: 'ok', message, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'fail',
+      message: error instanceof Error ? error.message : 'Check failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+async function runChecks(): Promise<ReadinessReport> {
+  const [payments, email, appBaseUrl, linkSigning, dataStore] = await Promise.all([
+    runCheck(checkPayments),
+    runCheck(checkEmail),
+    runCheck(checkAppBaseUrl),
+    runCheck(checkLinkSigning),
+    runCheck(checkDataStore),
+  ]);
+  const checks = { payments, email, appBaseUrl, linkSigning, dataStore };
+
+  return {
+    status: Object.values(checks).every((check) => check.status === 'ok') ? 'ready' : 'degraded',
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+}
+
+let cached: { report: Promise<ReadinessReport>; expiresAt: number } | undefined;
+
+/** Runs every check in parallel, reusing a report from the last few seconds. */
+export function checkReadiness(): Promise<ReadinessReport> {
+  if (!cached || cached.expiresAt <= Date.now()) {
+    const report = runChecks();
+    cached = { report, expiresAt: Date.now() + REPORT_CACHE_MS };
+    // Time the cache from when the checks finished, not when they started.
+    void report.then(() => {
+      if (cached?.report === report) cached.expiresAt = Date.now() + REPORT_CACHE_MS;
+    });
+  }
+  return cached.report;
+}
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { IReferralRepository, NewReferral, Referral } from './types';
+
+interface ReferralDocument {
+  referrals: Record<string, Referral>;
+}
+
+/** Stores attributed referrals in data/referrals.json. */
+export class FileReferralRepository implements IReferralRepository {
+  private readonly store = new JsonFileStore<ReferralDocument>(
+    'referrals.json',
+    () => ({ referrals: {} }),
+  );
+
+  async create(input: NewReferral): Promise<Referral | undefined> {
+    return this.store.update((doc) => {
+      const alreadyReferred = Object.values(doc.referrals).some(
+        (r) => r.referredEmail === input.referredEmail,
+      );
+      if (alreadyReferred) return undefined;
+
+      const referral: Referral = {
+        ...input,
+        id: `rfl_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+        attributedAt: new Date().toISOString(),
+        reward: { type: 'free_month', status: 'pending' },
+      };
+      doc.referrals[referral.id] = referral;
+      return referral;
+    });
+  }
+
+  async findById(id: string): Promise<Referral | undefined> {
+    const doc = await this.store.read();
+    return doc.referrals[id];
+  }
+
+  async findByReferredEmail(email: string): Promise<Referral | undefined> {
+    const doc = await this.store.read();
+    return Object.values(doc.referrals).find((r) => r.referredEmail === email);
+  }
+
+  async listByReferrer(referrerEmail: string): Promise<Referral[]> {
+    const referrals = await this.list();
+    return referrals.filter((r) => r.referrerEmail === referrerEmail);
+  }
+
+  /** All referrals, newest first */
+  async list(): Promise<Referral[]> {
+    const doc = await this.store.read();
+    return Object.values(doc.referrals).sort((a, b) => b.attributedAt.localeCompare(a.attributedAt));
+  }
+
+  async markRewardGranted(id: string): Promise<Referral | undefined> {
+    return this.store.update((doc) => {
+      const referral = doc.referrals[id];
+      if (!referral) return undefined;
+
+      if (referral.reward.status !== 'granted') {
+        referral.reward = { ...referral.reward, status: 'granted', grantedAt: new Date().toISOString() };
+      }
+      return referral;
+    });
+  }
+}
+
+let repository: IReferralRepository | undefined;
+
+export function getReferralRepository(): IReferralRepository {
+  repository ??= new FileReferralRepository();
+  return repository;
+}
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { sendReferralRewardEmail } from '@/lib/email';
+import { createLogger } from '@/lib/logging/logger';
+import { getMembershipRepository } from '@/lib/memberships/membership-repository';
+import type { Membership } from '@/lib/memberships/types';
+import { getPaymentRecordRepository } from '@/lib/payments/payment-record-repository';
+import { checkRateLimit, clientIp } from '@/lib/rate-limit/rate-limit';
+import type { RateLimitResult } from '@/lib/rate-limit/types';
+import { getReferralRepository } from './referral-repository';
+import type { Referral } from './types';
+
+const log = createLogger('referrals');
+
+/** No 0/O or 1/I so codes survive being read out loud */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const LOOKUP_LIMIT_PER_IP = 30;
+const LOOKUP_WINDOW_MS = 60 * 60 * 1000;
+
+export interface ResolvedReferral {
+  code: string;
+  referrerEmail: string;
+  referrerName: string;
+}
+
+export type ResolveReferralResult =
+  | { success: true; referral: ResolvedReferral }
+  | { success: false; error: string };
+
+function appBaseUrl() {
+  return (process.env.APP_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+}
+
+/**
+ * A valid code reveals the referrer's first name, so lookups are limited per
+ * IP address to keep codes from being guessed in bulk.
+ */
+export function limitReferralLookups(request: NextRequest): Promise<RateLimitResult> {
+  return checkRateLimit([
+    {
+      key: `referral-lookup:ip:${clientIp(request)}`,
+      limit: LOOKUP_LIMIT_PER_IP,
+      windowMs: LOOKUP_WINDOW_MS,
+    },
+  ]);
+}
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** e.g. "THANDI-7K3Q" — the referrer's first name plus a random suffix */
+export function generateReferralCode(name: string): string {
+  const prefix =
+    name
+      .trim()
+      .split(/\s+/)[0]
+      .normalize('NFD')
+      .replace(/[^A-Za-z]/g, '')
+      .toUpperCase()
+      .slice(0, 8) || 'SHEGYMZ';
+  const suffix = Array.from(crypto.randomBytes(4), (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${prefix}-${suffix}`;
+}
+
+/** Shareable link that pre-fills the code on the subscribe form */
+export function referralLink(code: string): string {
+  return `${appBaseUrl()}/subscribe?referral=${encodeURIComponent(code)}`;
+}
+
+/** Members keep their referral code while they still have access */
+function canRefer(membership: Membership): boolean {
+  return membership.status === 'active' || membership.status === 'non_renewing';
+}
+
+/** Returns the member's referral code, assigning one on first use. */
+export async function ensureReferralCode(email: string): Promise<string | undefined> {
+  const memberships = getMembershipRepository();
+  const membership = await memberships.findByEmail(email);
+  if (!membership || !canRefer(membership)) return undefined;
+  if (membership.referralCode) return membership.referralCode;
+
+  const updated = await memberships.assignReferralCode(email, () =>
+    generateReferralCode(membership.name),
+  );
+  return updated?.referralCode;
+}
+
+/**
+ * Checks a code entered on a sign-up form. `referredEmail` is optional so the
+ * forms can preview the referrer before the visitor has typed their email.
+ */
+export async function resolveReferralCode(
+  code: string,
+  referredEmail?: string,
+): Promise<ResolveReferralResult> {
+  const membership = await getMembershipRepository().findByReferralCode(normalizeReferralCode(code));
+  if (!membership || !canRefer(membership)) {
+    return { success: false, error: 'Invalid referral code' };
+  }
+
+  if (referredEmail && membership.email === referredEmail.trim().toLowerCase()) {
+    return { success: false, error: 'You cannot use your own referral code' };
+  }
+
+  return {
+    success: true,
+    referral: {
+      code: membership.referralCode!,
+      referrerEmail: membership.email,
+      referrerName: membership.name,
+    },
+  };
+}
+
+/**
+ * Credits the referrer when a referred member's first payment succeeds.
+ * Renewals, repeat checkouts and existing members don't earn another reward.
+ */
+export async function attributeReferral(input: {
+  referralCode: string;
+  referredEmail: string;
+  referredName: string;
+  paymentRecordId: string;
+}): Promise<Referral | undefined> {
+  const resolved = await resolveReferralCode(input.referralCode, input.referredEmail);
+  if (!resolved.success) {
+    log.warn('Ignoring referral code on payment', {
+      paymentReference: input.paymentRecordId,
+      reason: resolved.error,
+    });
+    return undefined;
+  }
+
+  const earlierPayments = await getPaymentRecordRepository().findByEmail(input.referredEmail);
+  const returningMember = earlierPayments.some(
+    (record) => record.id !== input.paymentRecordId && record.status === 'paid',
+  );
+  if (returningMember) return undefined;
+
+  const referral = await getReferralRepository().create({
+    referralCode: resolved.referral.code,
+    referrerEmail: resolved.referral.referrerEmail,
+    referredEmail: input.referredEmail,
+    referredName: input.referredName,
+    paymentRecordId: input.paymentRecordId,
+  });
+  if (!referral) return undefined;
+
+  const referrer = await getMembershipRepository().findByEmail(resolved.referral.referrerEmail);
+  await sendReferralRewardEmail({
+    name: resolved.referral.referrerName,
+    email: resolved.referral.referrerEmail,
+    referredName: input.referredName,
+    locale: referrer?.locale,
+  });
+
+  return referral;
+}
+
+export interface ReferrerSummary {
+  referrerEmail: string;
+  referrerName?: string;
+  referralCode: string;
+  referrals: Referral[];
+  pendingRewards: number;
+  grantedRewards: number;
+}
+
+/** Referrals grouped by referrer, busiest referrers first */
+export async function summarizeReferrals(): Promise<ReferrerSummary[]> {
+  const [referrals, memberships] = await Promise.all([
+    getReferralRepository().list(),
+    getMembershipRepository().list(),
+  ]);
+  const names = new Map(memberships.map((m) => [m.email, m.name]));
+  const summaries = new Map<string, ReferrerSummary>();
+
+  for (const referral of referrals) {
+    const summary = summaries.get(referral.referrerEmail) ?? {
+      referrerEmail: referral.referrerEmail,
+      referrerName: names.get(referral.referrerEmail),
+      referralCode: referral.referralCode,
+      referrals: [],
+      pendingRewards: 0,
+      grantedRewards: 0,
+    };
+    summary.referrals.push(referral);
+    if (referral.reward.status === 'granted') summary.grantedRewards += 1;
+    else summary.pendingRewards += 1;
+    summaries.set(referral.referrerEmail, summary);
+  }
+
+  return [...summaries.values()].sort((a, b) => b.referrals.length - a.referrals.length);
+}
@@ -0,0 +1,38 @@
+/**
+ * Referrals — Type Definitions
+ */
+
+export type ReferralRewardType = 'free_month';
+export type ReferralRewardStatus = 'pending' | 'granted';
+
+/**
+ * A referred member whose first payment succeeded. One per referred email —
+ * renewals and repeat checkouts don't earn the referrer another reward.
+ */
+export interface Referral {
+  id: string;
+  referralCode: string;
+  referrerEmail: string;
+  referredEmail: string;
+  referredName: string;
+  paymentRecordId: string;
+  attributedAt: string;
+  reward: {
+    type: ReferralRewardType;
+    status: ReferralRewardStatus;
+    grantedAt?: string;
+  };
+}
+
+export type NewReferral = Omit<Referral, 'id' | 'attributedAt' | 'reward'>;
+
+/** Contract for persisting referrals */
+export interface IReferralRepository {
+  /** Returns undefined when the referred email was already attributed */
+  create(input: NewReferral): Promise<Referral | undefined>;
+  findById(id: string): Promise<Referral | undefined>;
+  findByReferredEmail(email: string): Promise<Referral | undefined>;
+  listByReferrer(referrerEmail: string): Promise<Referral[]>;
+  list(): Promise<Referral[]>;
+  markRewardGranted(id: string): Promise<Referral | undefined>;
+}
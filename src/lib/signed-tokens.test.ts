@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSignedToken, verifySignedToken } from './signed-tokens';
+
+describe('signed tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('LINK_SIGNING_SECRET', 'link-secret');
+    vi.stubEnv('ADMIN_SESSION_SECRET', 'admin-secret');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips the data for the same purpose', () => {
+    const token = createSignedToken('cancel', { email: 'ann@example.com' }, 60);
+    expect(verifySignedToken('cancel', token)).toEqual({ email: 'ann@example.com' });
+  });
+
+  it('rejects a token issued for another purpose', () => {
+    const token = createSignedToken('trial-manage', { id: 'trial_1' }, 60);
+    expect(verifySignedToken('cancel', token)).toBeUndefined();
+  });
+
+  it('rejects an expired token', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    const token = createSignedToken('cancel', { email: 'ann@example.com' }, 60);
+
+    vi.setSystemTime(new Date('2026-03-01T10:02:00Z'));
+    expect(verifySignedToken('cancel', token)).toBeUndefined();
+  });
+
+  it('rejects a tampered payload', () => {
+    const token = createSignedToken('cancel', { email: 'ann@example.com' }, 60);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ purpose: 'cancel', exp: 9999999999, data: { email: 'eve@example.com' } }),
+    ).toString('base64url');
+
+    expect(verifySignedToken('cancel', `${forged}.${signature}`)).toBeUndefined();
+    expect(verifySignedToken('cancel', 'not-a-token')).toBeUndefined();
+  });
+
+  it('keeps tokens signed with another secret apart', () => {
+    const session = createSignedToken('admin-session', { v: 1 }, 60, 'ADMIN_SESSION_SECRET');
+    expect(verifySignedToken('admin-session', session)).toBeUndefined();
+    expect(verifySignedToken('admin-session', session, 'ADMIN_SESSION_SECRET')).toEqual({ v: 1 });
+  });
+
+  it('refuses to sign without a configured secret', () => {
+    vi.stubEnv('LINK_SIGNING_SECRET', ' ');
+    expect(() => createSignedToken('cancel', {}, 60)).toThrow(
+      'LINK_SIGNING_SECRET is not configured',
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+
+/**
+ * Compact HMAC-signed tokens for links we email to members
+ * (`<base64url payload>.<base64url signature>`).
+ *
+ * Each token carries a purpose so a link issued for one flow can't be
+ * replayed against another, and an expiry checked on verification.
+ * Tokens are signed with LINK_SIGNING_SECRET unless another secret's env
+ * var is named (admin sessions use their own).
+ *
+ * Required env vars:
+ *   LINK_SIGNING_SECRET
+ */
+
+interface TokenEnvelope<T> {
+  purpose: string;
+  /** Expiry as a unix timestamp in seconds */
+  exp: number;
+  data: T;
+}
+
+const DEFAULT_SECRET_ENV = 'LINK_SIGNING_SECRET';
+
+export function signingSecret(secretEnv = DEFAULT_SECRET_ENV): string {
+  const secret = process.env[secretEnv]?.trim();
+  if (!secret) {
+    throw new Error(`${secretEnv} is not configured`);
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string, secretEnv: string): string {
+  return crypto
+    .createHmac('sha256', signingSecret(secretEnv))
+    .update(encodedPayload)
+    .digest('base64url');
+}
+
+export function createSignedToken<T>(
+  purpose: string,
+  data: T,
+  ttlSeconds: number,
+  secretEnv = DEFAULT_SECRET_ENV,
+): string {
+  const envelope: TokenEnvelope<T> = {
+    purpose,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    data,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(envelope), 'utf8').toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secretEnv)}`;
+}
+
+/**
+ * Returns the token's data, or undefined when the signature, purpose or
+ * expiry doesn't check out.
+ */
+export function verifySignedToken<T>(
+  purpose: string,
+  token: string,
+  secretEnv = DEFAULT_SECRET_ENV,
+): T | undefined {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return undefined;
+
+  const expectedSignature = sign(encodedPayload, secretEnv);
+  try {
+    if (
+      !crypto.timingSafeEqual(
+        Buffer.from(signature, 'utf8'),
+        Buffer.from(expectedSignature, 'utf8'),
+      )
+    ) {
+      return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const envelope = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8'),
+    ) as TokenEnvelope<T>;
+    if (envelope.purpose !== purpose) return undefined;
+    if (envelope.exp < Math.floor(Date.now() / 1000)) return undefined;
+    return envelope.data;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory that holds runtime data files.
+ *
+ * Defaults to ./data relative to the working directory. In Docker this is a
+ * mounted volume so records survive container rebuilds.
+ */
+export function dataDir(): string {
+  return process.env.DATA_DIR?.trim() || path.join(process.cwd(), 'data');
+}
+
+// Route bundles can each carry their own copy of this module, so the write
+// queues live on globalThis and are shared per file.
+const globalQueues = globalThis as typeof globalThis & {
+  __jsonFileStoreQueues?: Map<string, Promise<unknown>>;
+};
+const queues = (globalQueues.__jsonFileStoreQueues ??= new Map());
+
+/**
+ * Minimal JSON document store backed by a single file in the data directory.
+ *
+ * Writes go to a temp file and are renamed into place, so a crash never leaves
+ * a half-written document behind. Updates are serialised per file so
+ * concurrent requests in the same process cannot clobber each other.
+ */
+export class JsonFileStore<T> {
+  constructor(
+    private readonly fileName: string,
+    private readonly initialValue: () => T,
+  ) {}
+
+  get filePath(): string {
+    return path.join(dataDir(), this.fileName);
+  }
+
+  async read(): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.initialValue();
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Reads the document, lets `mutate` change it in place and writes it back.
+   * Whatever `mutate` returns is passed through to the caller.
+   */
+  update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    const run = async () => {
+      const data = await this.read();
+      const result = await mutate(data);
+      await this.write(data);
+      return result;
+    };
+
+    const key = this.filePath;
+    const previous = queues.get(key) ?? Promise.resolve();
+    const next = previous.then(run, run);
+    queues.set(key, next.catch(() => undefined));
+    return next;
+  }
+
+  private async write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
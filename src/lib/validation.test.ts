@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { parseEmail, parseSouthAfricanMobile, validateContactDetails } from './validation';
+
+describe('parseSouthAfricanMobile', () => {
+  it.each([
+    ['082 123 4567', '+27821234567'],
+    ['0821234567', '+27821234567'],
+    ['+27 82 123 4567', '+27821234567'],
+    ['+27 (0)82-123-4567', '+27821234567'],
+    ['0027821234567', '+27821234567'],
+    ['27 72 123 4567', '+27721234567'],
+    ['(061) 123.4567', '+27611234567'],
+  ])('normalises %s', (input, expected) => {
+    expect(parseSouthAfricanMobile(input)).toBe(expected);
+  });
+
+  it.each([
+    ['a landline', '011 123 4567'],
+    ['too few digits', '082 123 456'],
+    ['too many digits', '082 123 45678'],
+    ['another country', '+44 7911 123456'],
+    ['letters', '082 ABC 4567'],
+  ])('rejects %s', (_label, input) => {
+    expect(parseSouthAfricanMobile(input)).toBeUndefined();
+  });
+});
+
+describe('parseEmail', () => {
+  it('lower-cases and trims addresses', () => {
+    expect(parseEmail(' Ann@Example.COM ')).toBe('ann@example.com');
+  });
+
+  it('rejects addresses without a domain', () => {
+    expect(parseEmail('ann@')).toBeUndefined();
+    expect(parseEmail('ann@example')).toBeUndefined();
+  });
+});
+
+describe('validateContactDetails', () => {
+  it('returns normalised values, leaving empty optional fields out', () => {
+    const result = validateContactDetails({
+      name: ' Ann ',
+      email: 'ANN@example.com',
+      phone: '082 123 4567',
+      bodyGoals: '  ',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        name: 'Ann',
+        email: 'ann@example.com',
+        phone: '+27821234567',
+        bodyGoals: undefined,
+        referralCode: undefined,
+      },
+    });
+  });
+
+  it('reports every field that fails, ignoring non-string values', () => {
+    const result = validateContactDetails({ name: 42, email: 'nope', phone: '123' });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors.name?.code).toBe('required');
+    expect(result.errors.email?.code).toBe('invalidEmail');
+    expect(result.errors.phone?.code).toBe('invalidPhone');
+  });
+
+  it('rejects values over the length limit', () => {
+    const result = validateContactDetails({
+      name: 'A'.repeat(101),
+      email: 'ann@example.com',
+      phone: '0821234567',
+    });
+    expect(result.success ? undefined : result.errors.name).toMatchObject({
+      code: 'tooLong',
+      max: 100,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Form validation shared by the API routes and the pages that post to them,
+ * so visitors see the same rules inline that the server enforces.
+ */
+
+export type FieldErrorCode = 'required' | 'invalid' | 'invalidEmail' | 'invalidPhone' | 'tooLong';
+
+export interface FieldError {
+  code: FieldErrorCode;
+  /** English description, for API clients; the forms show a translated one */
+  message: string;
+  /** Character limit, for `tooLong` */
+  max?: number;
+}
+
+export interface FieldRule {
+  required?: boolean;
+  maxLength: number;
+  /** Checks and normalises the trimmed value; undefined marks it invalid */
+  parse?: (value: string) => string | undefined;
+  /** Reported when `parse` rejects the value */
+  invalid?: FieldError;
+}
+
+export type Schema = Record<string, FieldRule>;
+
+/** Validated values; required fields are always present */
+export type ValidatedData<S extends Schema> = {
+  [K in keyof S]: S[K] extends { required: true } ? string : string | undefined;
+};
+
+export type ValidationResult<S extends Schema> =
+  | { success: true; data: ValidatedData<S> }
+  | { success: false; errors: Partial<Record<keyof S, FieldError>> };
+
+/** Runs every field through its rule; empty optional fields come back undefined. */
+export function validate<S extends Schema>(
+  schema: S,
+  input: Partial<Record<keyof S, unknown>>,
+): ValidationResult<S> {
+  const data: Partial<Record<keyof S, string>> = {};
+  const errors: Partial<Record<keyof S, FieldError>> = {};
+
+  for (const field of Object.keys(schema) as Array<keyof S>) {
+    const rule = schema[field];
+    const raw = input[field];
+    const value = typeof raw === 'string' ? raw.trim() : '';
+
+    if (!value) {
+      if (rule.required) errors[field] = { code: 'required', message: 'This field is required' };
+      data[field] = undefined;
+      continue;
+    }
+    if (value.length > rule.maxLength) {
+      errors[field] = {
+        code: 'tooLong',
+        message: `Must be ${rule.maxLength} characters or fewer`,
+        max: rule.maxLength,
+      };
+      continue;
+    }
+
+    const parsed = rule.parse ? rule.parse(value) : value;
+    if (parsed === undefined) {
+      errors[field] = rule.invalid ?? { code: 'invalid', message: 'This field is invalid' };
+      continue;
+    }
+    data[field] = parsed;
+  }
+
+  return Object.keys(errors).length > 0
+    ? { success: false, errors }
+    : { success: true, data: data as ValidatedData<S> };
+}
+
+const EMAIL_PATTERN =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/** Lower-cased address, or undefined when it isn't one */
+export function parseEmail(value: string): string | undefined {
+  const email = value.trim().toLowerCase();
+  const [local] = email.split('@');
+  if (email.length > 254 || local.length > 64 || !EMAIL_PATTERN.test(email)) return undefined;
+  return email;
+}
+
+/**
+ * A South African mobile number in E.164 form (+27821234567). Accepts the
+ * ways people write them: 082 123 4567, +27 82 123 4567, +27 (0)82-123-4567,
+ * 0027821234567. Mobile numbers start with 6, 7 or 8 after the 0.
+ */
+export function parseSouthAfricanMobile(value: string): string | undefined {
+  const digits = value.replace(/[\s().-]/g, '');
+  const national = /^(?:(?:\+27|0027|27)0?|0)([678]\d{8})$/.exec(digits)?.[1];
+  return national ? `+27${national}` : undefined;
+}
+
+/** A JSON object, as opposed to null, an array or a primitive that also parse as request bodies */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Contact details collected by the subscribe and free-trial forms */
+export const CONTACT_SCHEMA = {
+  name: { required: true, maxLength: 100 },
+  email: {
+    required: true,
+    maxLength: 254,
+    parse: parseEmail,
+    invalid: { code: 'invalidEmail', message: 'A valid email address is required' },
+  },
+  phone: {
+    required: true,
+    maxLength: 30,
+    parse: parseSouthAfricanMobile,
+    invalid: {
+      code: 'invalidPhone',
+      message: 'A South African mobile number is required, e.g. 082 123 4567',
+    },
+  },
+  bodyGoals: { maxLength: 1000 },
+  referralCode: { maxLength: 40 },
+} satisfies Schema;
+
+export type ContactField = keyof typeof CONTACT_SCHEMA;
+export type ContactFieldErrors = Partial<Record<ContactField, FieldError>>;
+
+export function validateContactDetails(input: Partial<Record<ContactField, unknown>>) {
+  return validate(CONTACT_SCHEMA, input);
+}
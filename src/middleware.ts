@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  isLocale,
+  localePath,
+  splitLocalePath,
+  type Locale,
+} from '@/lib/i18n/config';
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** The visitor's saved language, else the first supported one their browser asks for */
+function preferredLocale(request: NextRequest): Locale | undefined {
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (isLocale(saved)) return saved;
+
+  // e.g. "zu-ZA,zu;q=0.9,en;q=0.8"
+  return request.headers
+    .get('accept-language')
+    ?.split(',')
+    .map((part) => part.split(';')[0].trim().slice(0, 2).toLowerCase())
+    .find(isLocale);
+}
+
+function rememberLocale(request: NextRequest, response: NextResponse, locale: Locale) {
+  if (request.cookies.get(LOCALE_COOKIE)?.value !== locale) {
+    response.cookies.set(LOCALE_COOKIE, locale, {
+      path: '/',
+      maxAge: LOCALE_COOKIE_MAX_AGE,
+      sameSite: 'lax',
+    });
+  }
+  return response;
+}
+
+export function middleware(request: NextRequest) {
+  const { locale, path } = splitLocalePath(request.nextUrl.pathname);
+  const url = request.nextUrl.clone();
+
+  // English has no prefix; /en/... only records the choice (the language switcher links there).
+  if (locale === DEFAULT_LOCALE) {
+    url.pathname = path;
+    return rememberLocale(request, NextResponse.redirect(url), DEFAULT_LOCALE);
+  }
+
+  if (locale) {
+    return rememberLocale(request, NextResponse.next(), locale);
+  }
+
+  const preferred = preferredLocale(request);
+  if (preferred && preferred !== DEFAULT_LOCALE) {
+    url.pathname = localePath(preferred, path);
+    return NextResponse.redirect(url);
+  }
+
+  // Serve unprefixed English from the prerendered /en pages.
+  url.pathname = path === '/' ? `/${DEFAULT_LOCALE}` : `/${DEFAULT_LOCALE}${path}`;
+  return NextResponse.rewrite(url);
+}
+
+export const config = {
+  // Pages only: API routes, the admin area, build output and static files are left alone.
+  matcher: ['/((?!api|admin|_next|.*\\..*).*)'],
+};
@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  // tsconfig.json references a tsconfig.node.json that doesn't exist, which
+  // Vite's own tsconfig lookup trips over; pass the options esbuild needs.
+  esbuild: {
+    tsconfigRaw: JSON.stringify({
+      compilerOptions: { target: 'ES2020', useDefineForClassFields: true },
+    }),
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});